@@ -3,8 +3,10 @@
  *
  * 创建游戏初始数据：
  * - 新手区域「珊瑚海湾」及其 8 个节点
+ * - 初始 NPC（老渔夫阿海 / 神秘商人）
  * - 节点连接（地图拓扑）
  * - 初始任务「老渔夫的委托」
+ * - 初始势力（渔民联盟 / 海妖一族 / 商人协会）
  *
  * 运行方式：npm run db:seed
  * 幂等设计：可重复运行，不会产生重复数据
@@ -44,8 +46,49 @@ const IDS = {
   nodeBossLair: "seed-node-boss-lair",
   // 任务
   questFisherman: "seed-quest-fisherman",
+  // 势力
+  factionFishermen: "fishermen_alliance",
+  factionMermaid: "mermaid_tribe",
+  factionMerchant: "merchant_guild",
 } as const;
 
+// ============================================================
+// 势力
+// ============================================================
+
+async function seedFactions() {
+  console.log("⚖️ 创建势力...");
+
+  const factions = [
+    {
+      id: IDS.factionFishermen,
+      name: "渔民联盟",
+      description: "珊瑚海湾世代以捕鱼为生的渔民组成的互助同盟",
+      rivalId: IDS.factionMermaid,
+    },
+    {
+      id: IDS.factionMermaid,
+      name: "海妖一族",
+      description: "栖居深海的古老种族，与渔民因海域之争积怨已久",
+      rivalId: null,
+    },
+    {
+      id: IDS.factionMerchant,
+      name: "商人协会",
+      description: "往来各港口的行商组成的协会，只认金币与信誉",
+      rivalId: null,
+    },
+  ];
+
+  for (const f of factions) {
+    await prisma.faction.upsert({
+      where: { id: f.id },
+      update: {},
+      create: f,
+    });
+  }
+}
+
 // ============================================================
 // 区域：珊瑚海湾
 // ============================================================
@@ -55,7 +98,7 @@ async function seedArea() {
 
   await prisma.area.upsert({
     where: { id: IDS.area },
-    update: {},
+    update: { factionId: IDS.factionFishermen },
     create: {
       id: IDS.area,
       name: "珊瑚海湾",
@@ -65,6 +108,7 @@ async function seedArea() {
         "传说那里藏着古老的秘密。老渔夫阿海正焦急地寻找能帮忙调查的冒险者……",
       theme: "ocean",
       recommendedLevel: 1,
+      factionId: IDS.factionFishermen,
     },
   });
 }
@@ -108,16 +152,7 @@ async function seedNodes() {
       posX: 1,
       posY: 1,
       data: {
-        npc: {
-          id: "npc-fisherman-ahai",
-          name: "老渔夫阿海",
-          role: "quest_giver",
-          personality: "沧桑、正直、焦急",
-          greeting:
-            "唉，年轻人，你是外地来的冒险者吧？老头子我有件事想请你帮忙……",
-          dialogTopics: ["失踪的渔船", "海中的异变", "深海蟹将的传说"],
-          questId: IDS.questFisherman,
-        },
+        ambiance: "tavern",
       },
     },
     // 3. 神秘商人摊位 - 商店
@@ -133,63 +168,7 @@ async function seedNodes() {
       posX: 3,
       posY: 1,
       data: {
-        npc: {
-          id: "npc-merchant",
-          name: "神秘商人",
-          role: "merchant",
-          personality: "神秘、圆滑、见钱眼开",
-          greeting: "嘿嘿，看看我的好货，保你满意~",
-        },
-        shopItems: [
-          {
-            name: "回复药水",
-            type: "consumable",
-            quality: "common",
-            price: 30,
-            stats: { hpRestore: 50 },
-            description: "恢复50点HP",
-          },
-          {
-            name: "魔力药水",
-            type: "consumable",
-            quality: "common",
-            price: 40,
-            stats: { mpRestore: 30 },
-            description: "恢复30点MP",
-          },
-          {
-            name: "解毒草",
-            type: "consumable",
-            quality: "common",
-            price: 20,
-            stats: { curePoison: true },
-            description: "解除中毒状态",
-          },
-          {
-            name: "铁剑",
-            type: "weapon",
-            quality: "common",
-            price: 120,
-            stats: { attack: 5 },
-            description: "一把普通的铁剑，比木剑可靠多了",
-          },
-          {
-            name: "皮甲",
-            type: "armor",
-            quality: "common",
-            price: 100,
-            stats: { defense: 3 },
-            description: "简单的皮革护甲，聊胜于无",
-          },
-          {
-            name: "珊瑚戒指",
-            type: "accessory",
-            quality: "uncommon",
-            price: 200,
-            stats: { maxMp: 10, attack: 1 },
-            description: "用珊瑚打磨的戒指，蕴含微弱的海洋魔力",
-          },
-        ],
+        ambiance: "market",
       },
     },
     // 4. 海边浅滩 - 战斗区（低等级）
@@ -420,6 +399,100 @@ async function seedNodes() {
   }
 }
 
+// ============================================================
+// NPC（独立于节点数据存储）
+// ============================================================
+
+async function seedNpcs() {
+  console.log("🧑 创建 NPC...");
+
+  const npcs = [
+    // 浪花酒馆：老渔夫阿海（任务发布者）
+    {
+      id: "npc-fisherman-ahai",
+      areaId: IDS.area,
+      homeNodeId: IDS.nodeTavern,
+      name: "老渔夫阿海",
+      role: "quest_giver",
+      personality: "沧桑、正直、焦急",
+      greeting:
+        "唉，年轻人，你是外地来的冒险者吧？老头子我有件事想请你帮忙……",
+      dialogTopics: ["失踪的渔船", "海中的异变", "深海蟹将的传说"],
+      questId: IDS.questFisherman,
+      data: { favoriteItems: ["浊酒", "鱼干"] },
+    },
+    // 海边杂货摊：神秘商人
+    {
+      id: "npc-merchant",
+      areaId: IDS.area,
+      homeNodeId: IDS.nodeShop,
+      name: "神秘商人",
+      role: "merchant",
+      factionId: IDS.factionMerchant,
+      personality: "神秘、圆滑、见钱眼开",
+      greeting: "嘿嘿，看看我的好货，保你满意~",
+      inventory: [
+        {
+          name: "回复药水",
+          type: "consumable",
+          quality: "common",
+          price: 30,
+          stats: { hpRestore: 50 },
+          description: "恢复50点HP",
+        },
+        {
+          name: "魔力药水",
+          type: "consumable",
+          quality: "common",
+          price: 40,
+          stats: { mpRestore: 30 },
+          description: "恢复30点MP",
+        },
+        {
+          name: "解毒草",
+          type: "consumable",
+          quality: "common",
+          price: 20,
+          stats: { curePoison: true },
+          description: "解除中毒状态",
+        },
+        {
+          name: "铁剑",
+          type: "weapon",
+          quality: "common",
+          price: 120,
+          stats: { attack: 5 },
+          description: "一把普通的铁剑，比木剑可靠多了",
+        },
+        {
+          name: "皮甲",
+          type: "armor",
+          quality: "common",
+          price: 100,
+          stats: { defense: 3 },
+          description: "简单的皮革护甲，聊胜于无",
+        },
+        {
+          name: "珊瑚戒指",
+          type: "accessory",
+          quality: "uncommon",
+          price: 200,
+          stats: { maxMp: 10, attack: 1 },
+          description: "用珊瑚打磨的戒指，蕴含微弱的海洋魔力",
+        },
+      ],
+    },
+  ];
+
+  for (const npc of npcs) {
+    await prisma.npc.upsert({
+      where: { id: npc.id },
+      update: {},
+      create: npc,
+    });
+  }
+}
+
 // ============================================================
 // 节点连接（地图拓扑）
 // ============================================================
@@ -482,6 +555,7 @@ async function seedQuests() {
         "请前往沉船残骸调查线索，然后深入洞穴击败深海蟹将！",
       type: "kill",
       npcId: "npc-fisherman-ahai",
+      factionId: IDS.factionFishermen,
       objectives: [
         {
           index: 0,
@@ -532,14 +606,18 @@ async function seedQuests() {
 async function main() {
   console.log("🌱 开始播种 ChaosSaga 初始数据...\n");
 
+  await seedFactions();
   await seedArea();
   await seedNodes();
+  await seedNpcs();
   await seedConnections();
   await seedQuests();
 
   console.log("\n✅ 种子数据创建完毕！");
   console.log("   - 区域: 珊瑚海湾（8 个节点）");
+  console.log("   - NPC: 老渔夫阿海 / 神秘商人");
   console.log("   - 任务: 老渔夫的委托");
+  console.log("   - 势力: 渔民联盟 / 海妖一族 / 商人协会");
   console.log("   - 连接: 8 条双向连接（16 条单向）");
 }
 
@@ -0,0 +1,73 @@
+/**
+ * 战斗平衡模拟（见 src/lib/game/balance-sim.ts，不需要数据库）
+ *
+ *   npx tsx scripts/balance-sim.ts [--from 1] [--to 30] [--battles 1000] [--enemies 1]
+ *                                  [--offset 0] [--band 5] [--seconds 30] [--seed 42]
+ *                                  [--gear '[{"stats":{"attack":12}}]'] [--json]
+ *
+ * --offset  敌人等级相对玩家的偏移（+2 = 越 2 级挑战）
+ * --gear    玩家装备（EquippedItemInput JSON 数组，所有等级共用）
+ * --json    输出 JSON（便于比较调参前后的结果）
+ */
+import { formatBalanceReport, runBalanceSimulation } from "../src/lib/game/balance-sim";
+import type { EquippedItemInput } from "../src/lib/game/player-calc";
+
+function usage(message: string): never {
+  console.error(message);
+  console.error("用法: npx tsx scripts/balance-sim.ts [--from N] [--to N] [--battles N] [--enemies N] [--offset N] [--band N] [--seconds N] [--seed S] [--gear JSON] [--json]");
+  process.exit(1);
+}
+
+function parseArgs(argv: string[]): Map<string, string> {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const key = argv[i];
+    if (!key.startsWith("--")) usage(`未知参数: ${key}`);
+    if (key === "--json") {
+      args.set("json", "true");
+      continue;
+    }
+    const value = argv[++i];
+    if (value === undefined) usage(`${key} 缺少取值`);
+    args.set(key.slice(2), value);
+  }
+  return args;
+}
+
+function intArg(args: Map<string, string>, key: string, fallback: number): number {
+  const raw = args.get(key);
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value)) usage(`--${key} 需要整数: ${raw}`);
+  return value;
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  let equipment: EquippedItemInput[] = [];
+  const gear = args.get("gear");
+  if (gear) {
+    try {
+      equipment = JSON.parse(gear) as EquippedItemInput[];
+    } catch {
+      usage(`--gear 不是合法的 JSON: ${gear}`);
+    }
+  }
+
+  const report = runBalanceSimulation({
+    fromLevel: intArg(args, "from", 1),
+    toLevel: intArg(args, "to", 30),
+    battlesPerLevel: intArg(args, "battles", 1000),
+    enemyCount: intArg(args, "enemies", 1),
+    enemyLevelOffset: intArg(args, "offset", 0),
+    bandSize: intArg(args, "band", 5),
+    secondsPerRound: intArg(args, "seconds", 30),
+    seed: args.get("seed") ?? Date.now(),
+    equipment,
+  });
+
+  console.log(args.has("json") ? JSON.stringify(report, null, 2) : formatBalanceReport(report));
+}
+
+main();
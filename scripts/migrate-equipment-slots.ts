@@ -0,0 +1,67 @@
+/**
+ * 一次性迁移：将旧的 InventoryItem.equipped 标记回填到 Equipment 槽位表
+ *
+ * 用法：npx tsx scripts/migrate-equipment-slots.ts
+ *
+ * - 已有槽位记录的物品跳过
+ * - 同类型装备超出槽位数量时（旧逻辑不会出现，但以防万一），多余的改为未装备
+ */
+
+import "dotenv/config";
+import { prisma } from "../src/lib/db/prisma";
+import { getSlotsForType, isEquippable } from "../src/lib/game/equipment-slots";
+
+async function main() {
+  const equippedItems = await prisma.inventoryItem.findMany({
+    where: { equipped: true },
+    select: { id: true, playerId: true, name: true, type: true },
+  });
+
+  console.log(`Found ${equippedItems.length} equipped items.`);
+
+  let migrated = 0;
+  let released = 0;
+
+  for (const item of equippedItems) {
+    const existing = await prisma.equipment.findFirst({
+      where: { playerId: item.playerId, itemId: item.id },
+    });
+    if (existing) continue;
+
+    const occupied = await prisma.equipment.findMany({
+      where: { playerId: item.playerId },
+      select: { slot: true },
+    });
+    const used = new Set(occupied.map((e) => e.slot));
+    const freeSlot = isEquippable(item.type)
+      ? getSlotsForType(item.type).find((s) => !used.has(s))
+      : undefined;
+
+    if (!freeSlot) {
+      await prisma.inventoryItem.update({
+        where: { id: item.id },
+        data: { equipped: false },
+      });
+      console.log(`  - ${item.name} (${item.type}) has no free slot, unequipped`);
+      released++;
+      continue;
+    }
+
+    await prisma.equipment.create({
+      data: { playerId: item.playerId, slot: freeSlot, itemId: item.id },
+    });
+    console.log(`  + ${item.name} -> ${freeSlot}`);
+    migrated++;
+  }
+
+  console.log(`Done. migrated=${migrated}, unequipped=${released}`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,72 @@
+/**
+ * 一次性迁移：将嵌入在 AreaNode.data 中的 NPC（npcs / npc）与商品（shopItems）抽取到 Npc 表
+ *
+ * 用法：npx tsx scripts/migrate-npcs.ts
+ *
+ * - 节点数据中没有 NPC 字段的节点跳过（可重复运行）
+ * - NPC 原有 id 保留（NpcRelation、Quest.npcId 依赖它）；与其他节点重复时分配新 id
+ * - 旧格式缺少 id 的 NPC：第一个沿用旧的解析规则以节点 ID 作为 NPC ID（已有关系记录指向它），
+ *   其余依次分配 `${节点ID}_npc_${序号}`，避免同节点多个 NPC 撞 id
+ * - 只有 shopItems、没有任何 NPC 的节点由 syncNodeNpcs 创建占位掌柜承接货物
+ */
+
+import "dotenv/config";
+import { prisma } from "../src/lib/db/prisma";
+import { stripNpcFields, syncNodeNpcs } from "../src/lib/game/npc-registry";
+
+async function main() {
+  const nodes = await prisma.areaNode.findMany({
+    select: { id: true, areaId: true, name: true, data: true },
+  });
+
+  let migratedNodes = 0;
+  let migratedNpcs = 0;
+
+  for (const node of nodes) {
+    const data = node.data as Record<string, unknown> | null;
+    if (!data || !("npcs" in data || "npc" in data || "shopItems" in data)) continue;
+
+    // 旧解析规则：无 id 的 NPC 以节点 ID 代替；同节点的后续无 id NPC 按序号区分
+    const withIds = { ...data };
+    let missing = 0;
+    const assignId = (n: Record<string, unknown>) => {
+      if (n.id) return n;
+      const id = missing === 0 ? node.id : `${node.id}_npc_${missing}`;
+      missing++;
+      return { ...n, id };
+    };
+    for (const key of ["npcs", "npc"] as const) {
+      const value = withIds[key];
+      if (Array.isArray(value)) {
+        withIds[key] = value.map(assignId);
+      } else if (value && typeof value === "object") {
+        withIds[key] = assignId(value as Record<string, unknown>);
+      }
+    }
+
+    const saved = await prisma.$transaction(async (tx) => {
+      const npcs = await syncNodeNpcs(tx, node.areaId, node.id, withIds);
+      await tx.areaNode.update({
+        where: { id: node.id },
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        data: { data: stripNpcFields(data) as any },
+      });
+      return npcs;
+    });
+
+    console.log(`  + ${node.name}: ${saved.map((n) => `${n.name}(${n.id})`).join(", ") || "(无 NPC)"}`);
+    migratedNodes++;
+    migratedNpcs += saved.length;
+  }
+
+  console.log(`Done. nodes=${migratedNodes}, npcs=${migratedNpcs}`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
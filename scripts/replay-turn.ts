@@ -0,0 +1,57 @@
+/**
+ * GM 回合录制 / 回放（见 src/lib/ai/replay-harness.ts）
+ *
+ * 录制（调用真实 API）：
+ *   npx tsx scripts/replay-turn.ts record <playerId> "<玩家消息>" fixtures/turn.json
+ * 回放（不调用 API，比对 SSE 输出）：
+ *   npx tsx scripts/replay-turn.ts replay fixtures/turn.json [--strict]
+ */
+import { prisma } from "../src/lib/db/prisma";
+import { recordGameTurn, replayGameTurn } from "../src/lib/ai/replay-harness";
+
+function usage(): never {
+  console.error("用法:");
+  console.error('  npx tsx scripts/replay-turn.ts record <playerId> "<玩家消息>" <fixture.json>');
+  console.error("  npx tsx scripts/replay-turn.ts replay <fixture.json> [--strict]");
+  process.exit(1);
+}
+
+async function main() {
+  const [mode, ...args] = process.argv.slice(2);
+
+  if (mode === "record") {
+    const [playerId, message, fixturePath] = args;
+    if (!playerId || !fixturePath) usage();
+    const fixture = await recordGameTurn({ playerId, message: message || undefined }, fixturePath);
+    for (const event of fixture.sse) {
+      if (event.type === "text") process.stdout.write(event.data.content);
+    }
+    console.log("");
+    return;
+  }
+
+  if (mode === "replay") {
+    const [fixturePath, flag] = args;
+    if (!fixturePath) usage();
+    const result = await replayGameTurn(fixturePath, { strict: flag === "--strict" });
+
+    console.log(`回放完成: ${result.events.length} 个 SSE 事件，未使用的 LLM 记录 ${result.unusedExchanges} 条`);
+    if (result.mismatches.length === 0) {
+      console.log("✅ SSE 输出与录制一致");
+    } else {
+      console.log(`❌ ${result.mismatches.length} 处不一致:`);
+      for (const m of result.mismatches.slice(0, 20)) console.log(m);
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  usage();
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -8,19 +8,17 @@ import { interactNpc } from "../src/lib/ai/tools/action-tools";
 async function main() {
   console.log("Starting Barter Test...");
 
-  // 1. Find a node with an NPC
-  // Using raw query or finding all because JSON filter syntax varies
-  const allNodes = await prisma.areaNode.findMany({ select: { id: true, data: true, areaId: true } });
-  const nodeWithNpc = allNodes.find(n => (n.data as any)?.npc?.id || (n.data as any)?.npc?.name);
+  // 1. Find an NPC (stored in the Npc table, home node = where the player must stand)
+  const npcRecord = await prisma.npc.findFirst();
 
-  if (!nodeWithNpc) {
-    console.error("No NPC found in any node. Cannot test.");
+  if (!npcRecord) {
+    console.error("No NPC found. Run the seed or scripts/migrate-npcs.ts first.");
     return;
   }
-  
-  const npcData = (nodeWithNpc.data as any).npc;
-  // Use defined ID or fallback to node ID (as per resolveNpc logic)
-  const npcId = npcData.id || nodeWithNpc.id; 
+
+  const nodeWithNpc = { id: npcRecord.homeNodeId, areaId: npcRecord.areaId };
+  const npcData = npcRecord;
+  const npcId = npcRecord.id;
   const area = await prisma.area.findUnique({ where: { id: nodeWithNpc.areaId } });
   
   console.log(`Found NPC: ${npcData.name} (ID: ${npcId}) in Area: ${area?.name}`);
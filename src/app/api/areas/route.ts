@@ -8,6 +8,7 @@
 
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
+import { attachNpcsToNodeData, getNpcsInArea } from "@/lib/game/npc-registry";
 
 export async function GET(req: Request) {
   const { searchParams } = new URL(req.url);
@@ -88,10 +89,21 @@ export async function GET(req: Request) {
       .sort((a, b) => a.connectionCount - b.connectionCount)
       .slice(0, 5);
 
+    // 节点数据回填常驻 NPC 与货物（地图节点详情展示）
+    const npcs = await getNpcsInArea(areaId);
+    const nodes = area.nodes.map((n) => ({
+      ...n,
+      data: attachNpcsToNodeData(
+        n.data as Record<string, unknown> | null,
+        npcs.filter((npc) => npc.homeNodeId === n.id)
+      ),
+    }));
+
     return NextResponse.json({
       success: true,
       data: {
         ...area,
+        nodes,
         currentNodeId,
         connections: uniqueConnections.map((c) => ({
           fromId: c.fromId,
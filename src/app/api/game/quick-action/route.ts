@@ -4,15 +4,16 @@
  * 仅用于视觉区快捷按钮的"直算战斗"模式：
  * 1) 直接执行传统战斗引擎（不经 LLM 决策）
  * 2) 用结构化数据构建高质量 fallback 叙事
- * 3) 尝试 LLM 润色（失败则用 fallback）
+ * 3) 尝试 LLM 润色（失败或玩家接近每日 token 预算时用 fallback）
  * 4) 返回普通 JSON，前端写入 Chat
  */
 
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
 import { executeToolCall } from "@/lib/ai/tools";
-import { getLLMConfig } from "@/lib/ai/config";
 import { LLMClient } from "@/lib/ai/llm-client";
+import { getBudgetStatus } from "@/lib/ai/budget";
+import { indexChatMessage } from "@/lib/ai/memory-retrieval";
 
 interface QuickActionPayload {
   type: "attack" | "skill";
@@ -41,7 +42,7 @@ async function saveChatHistory(
   content: string,
   metadata?: Record<string, unknown>
 ) {
-  await prisma.chatHistory.create({
+  const record = await prisma.chatHistory.create({
     data: {
       playerId,
       role,
@@ -50,6 +51,7 @@ async function saveChatHistory(
       metadata: (metadata ?? undefined) as any,
     },
   });
+  indexChatMessage(playerId, record);
 }
 
 /**
@@ -193,26 +195,28 @@ export async function POST(req: Request) {
         (toolResult.data ?? {}) as BattleData
       );
 
-      // 尝试 LLM 润色（以结构化摘要为输入，非原始 JSON）
+      // 尝试 LLM 润色（以结构化摘要为输入，非原始 JSON）；节能模式下直接用结构化叙事
       let llmNarrative: string | null = null;
-      try {
-        const config = await getLLMConfig();
-        const client = new LLMClient(config);
-        const llm = await client.chat({
-          model: config.model,
-          systemPrompt: QUICK_NARRATION_SYSTEM_PROMPT,
-          messages: [
-            {
-              role: "user",
-              content: `请将以下战斗摘要改写为有画面感的叙事（严禁输出JSON）：\n\n${structuredNarrative}`,
-            },
-          ],
-          temperature: 0.6,
-          maxTokens: 300,
-        });
-        llmNarrative = sanitizeLLMResponse(llm.content || "");
-      } catch (err) {
-        console.warn("[quick-action] LLM 润色失败，使用结构化叙事:", err);
+      const budget = await getBudgetStatus(playerId);
+      if (budget.level === "normal") {
+        try {
+          const client = await LLMClient.forTask("polish", {}, playerId);
+          const llm = await client.chat({
+            model: client.getConfig().model,
+            systemPrompt: QUICK_NARRATION_SYSTEM_PROMPT,
+            messages: [
+              {
+                role: "user",
+                content: `请将以下战斗摘要改写为有画面感的叙事（严禁输出JSON）：\n\n${structuredNarrative}`,
+              },
+            ],
+            temperature: 0.6,
+            maxTokens: 300,
+          });
+          llmNarrative = sanitizeLLMResponse(llm.content || "");
+        } catch (err) {
+          console.warn("[quick-action] LLM 润色失败，使用结构化叙事:", err);
+        }
       }
 
       narrative = llmNarrative || structuredNarrative;
@@ -4,12 +4,13 @@
  * GET ?playerId=xxx
  *
  * 根据玩家当前状态返回：
- * - 探索模式：区域名、地点名、地点类型、NPC列表
+ * - 探索模式：区域名、地点名、地点类型、NPC列表（hasShop 标记有货的 NPC）
  * - 战斗模式：区域名、地点名、敌人列表（名称、HP、MP）、玩家已装备技能
  */
 
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
+import { getNpcsAtNode } from "@/lib/game/npc-registry";
 
 export async function GET(req: Request) {
   const { searchParams } = new URL(req.url);
@@ -35,7 +36,7 @@ export async function GET(req: Request) {
   let areaName = "未知区域";
   let nodeName = "未知地点";
   let nodeType = "unknown";
-  let npcs: Array<{ name: string; role?: string }> = [];
+  let npcs: Array<{ id: string; name: string; role: string; hasShop: boolean }> = [];
 
   if (player.currentAreaId) {
     const area = await prisma.area.findUnique({
@@ -48,23 +49,18 @@ export async function GET(req: Request) {
   if (player.currentNodeId) {
     const node = await prisma.areaNode.findUnique({
       where: { id: player.currentNodeId },
-      select: { name: true, type: true, data: true },
+      select: { name: true, type: true, areaId: true },
     });
     if (node) {
       nodeName = node.name;
       nodeType = node.type;
-      // 从 node.data 中提取 NPC 列表
-      const nodeData = node.data as Record<string, unknown> | null;
-      if (nodeData?.npcs) {
-        npcs = (
-          nodeData.npcs as Array<{
-            name?: string;
-            role?: string;
-          }>
-        )
-          .filter((n) => n.name)
-          .map((n) => ({ name: n.name!, role: n.role }));
-      }
+      // 当前节点的 NPC（含按日程到访的）
+      npcs = (await getNpcsAtNode(node.areaId, player.currentNodeId)).map((n) => ({
+        id: n.id,
+        name: n.name,
+        role: n.role,
+        hasShop: Array.isArray(n.inventory) && n.inventory.length > 0,
+      }));
     }
   }
 
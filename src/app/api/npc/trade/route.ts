@@ -0,0 +1,74 @@
+/**
+ * /api/npc/trade - 商店直接交易（不经 LLM）
+ *
+ * POST { playerId, npcId, action: "buy" | "sell" | "exchange", data }
+ *
+ * 视觉区商店面板使用。与 LLM 工具 interact_npc 共用买卖 / 以物易物逻辑，
+ * 成交后写入一条系统消息，让 GM 在下一轮对话中知道发生了交易。
+ */
+
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { interactNpc } from "@/lib/ai/tools/action-tools";
+
+const TRADE_ACTIONS = ["buy", "sell", "exchange"];
+
+/** 成交结果 → 系统消息（非成交结果，如查看货架，返回 null） */
+function buildTradeMessage(data: Record<string, unknown>): string | null {
+  switch (data.action) {
+    case "bought":
+      return `🤖 玩家在${data.npcName}处购买了「${data.item}」x${data.quantity}，花费 ${data.cost} 金币（剩余 ${data.remainingGold} 金币）。`;
+    case "sold":
+      return `🤖 玩家向${data.npcName}出售了「${data.item}」x${data.quantity}，获得 ${data.price} 金币（剩余 ${data.remainingGold} 金币）。`;
+    case "exchange_completed":
+      return `🤖 玩家与${data.npcName}以物易物：付出 ${data.gave}，获得 ${data.received}。`;
+    default:
+      return null;
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const { playerId, npcId, action, data } = body as {
+      playerId: string;
+      npcId: string;
+      action: string;
+      data?: Record<string, unknown>;
+    };
+
+    if (!playerId || !npcId) {
+      return NextResponse.json(
+        { success: false, error: "缺少 playerId 或 npcId" },
+        { status: 400 }
+      );
+    }
+    if (!TRADE_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { success: false, error: `不支持的交易类型: ${action}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await interactNpc({ npcId, action, data }, playerId);
+    if (!result.success) {
+      return NextResponse.json(result);
+    }
+
+    // 写入聊天历史作为系统消息，让 LLM 知道玩家完成了交易
+    const message = buildTradeMessage((result.data ?? {}) as Record<string, unknown>);
+    if (message) {
+      await prisma.chatHistory.create({
+        data: { playerId, role: "system", content: message },
+      });
+    }
+
+    return NextResponse.json({ ...result, message });
+  } catch (error) {
+    console.error("[API /npc/trade] Error:", error);
+    return NextResponse.json(
+      { success: false, error: "交易失败" },
+      { status: 500 }
+    );
+  }
+}
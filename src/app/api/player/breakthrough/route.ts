@@ -0,0 +1,73 @@
+/**
+ * /api/player/breakthrough - 境界突破
+ *
+ * GET  ?playerId=xxx  - 查询突破条件与成功率
+ * POST { playerId }   - 尝试突破（与 LLM 工具 realm_breakthrough 共用逻辑）
+ */
+
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { attemptBreakthrough, checkBreakthrough } from "@/lib/ai/tools/realm-tools";
+
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const playerId = searchParams.get("playerId");
+
+    if (!playerId) {
+      return NextResponse.json(
+        { success: false, error: "缺少 playerId" },
+        { status: 400 }
+      );
+    }
+
+    const result = await checkBreakthrough(playerId);
+    return NextResponse.json(result, { status: result.success ? 200 : 404 });
+  } catch (error) {
+    console.error("[API /player/breakthrough] Error:", error);
+    return NextResponse.json(
+      { success: false, error: "查询突破条件失败" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const { playerId } = body as { playerId: string };
+
+    if (!playerId) {
+      return NextResponse.json(
+        { success: false, error: "缺少 playerId" },
+        { status: 400 }
+      );
+    }
+
+    const result = await attemptBreakthrough(playerId);
+    if (!result.success) {
+      return NextResponse.json(result);
+    }
+
+    // 写入聊天历史作为系统消息，让 LLM 知道玩家尝试了突破
+    const data = result.data as { result: string; from: string; to: string };
+    await prisma.chatHistory.create({
+      data: {
+        playerId,
+        role: "system",
+        content:
+          data.result === "success"
+            ? `🤖 玩家闭关突破成功，境界由 ${data.from} 提升至 ${data.to}，属性已重算并回满状态。`
+            : `🤖 玩家尝试突破至 ${data.to} 失败，遭受反噬（HP/MP 大幅下降，突破丹与部分灵石已消耗）。`,
+      },
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[API /player/breakthrough] Error:", error);
+    return NextResponse.json(
+      { success: false, error: "突破失败" },
+      { status: 500 }
+    );
+  }
+}
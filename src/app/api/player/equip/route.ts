@@ -0,0 +1,99 @@
+/**
+ * /api/player/equip - 装备槽位管理（UI 直接调用，不经 LLM）
+ *
+ * GET  ?playerId=xxx                           - 获取全部槽位及已装备物品
+ * POST { playerId, itemId, slot? }             - 穿戴装备（slot 可省略，自动选择空槽）
+ * POST { playerId, action: "unequip", slot }   - 卸下指定槽位
+ */
+
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { equipItem, unequipSlot } from "@/lib/ai/tools/action-tools";
+import { EQUIPMENT_SLOTS, SLOT_NAMES, resolveSlottedItems } from "@/lib/game/equipment-slots";
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const playerId = searchParams.get("playerId");
+
+  if (!playerId) {
+    return NextResponse.json(
+      { success: false, error: "缺少 playerId" },
+      { status: 400 }
+    );
+  }
+
+  const player = await prisma.player.findUnique({
+    where: { id: playerId },
+    include: { inventory: { where: { equipped: true } }, equipment: true },
+  });
+
+  if (!player) {
+    return NextResponse.json(
+      { success: false, error: "玩家不存在" },
+      { status: 404 }
+    );
+  }
+
+  const slotted = resolveSlottedItems(player.equipment, player.inventory);
+
+  return NextResponse.json({
+    success: true,
+    data: EQUIPMENT_SLOTS.map((slot) => ({
+      slot,
+      slotName: SLOT_NAMES[slot],
+      item: slotted.find((i) => i.slot === slot) ?? null,
+    })),
+  });
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const { playerId, itemId, slot, action = "equip" } = body as {
+      playerId: string;
+      itemId?: string;
+      slot?: string;
+      action?: "equip" | "unequip";
+    };
+
+    if (!playerId) {
+      return NextResponse.json(
+        { success: false, error: "缺少 playerId" },
+        { status: 400 }
+      );
+    }
+
+    if (action === "unequip") {
+      let targetSlot = slot;
+      if (!targetSlot && itemId) {
+        const entry = await prisma.equipment.findFirst({
+          where: { playerId, itemId },
+          select: { slot: true },
+        });
+        targetSlot = entry?.slot;
+      }
+      if (!targetSlot) {
+        return NextResponse.json(
+          { success: false, error: "缺少 slot 或该物品未装备" },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json(await unequipSlot(playerId, targetSlot));
+    }
+
+    if (!itemId) {
+      return NextResponse.json(
+        { success: false, error: "缺少 itemId" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await equipItem(playerId, itemId, slot));
+  } catch (error) {
+    console.error("[API /player/equip] Error:", error);
+    return NextResponse.json(
+      { success: false, error: "装备操作失败" },
+      { status: 500 }
+    );
+  }
+}
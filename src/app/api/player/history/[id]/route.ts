@@ -6,6 +6,7 @@
 
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
+import { dropMemoryIndex } from "@/lib/ai/memory-retrieval";
 
 export async function DELETE(
   _req: Request,
@@ -26,6 +27,7 @@ export async function DELETE(
 
     // 删除
     await prisma.chatHistory.delete({ where: { id } });
+    dropMemoryIndex(record.playerId, id);
 
     return NextResponse.json({ success: true, deletedId: id });
   } catch (error) {
@@ -15,6 +15,7 @@
 
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
+import { dropMemoryIndex } from "@/lib/ai/memory-retrieval";
 
 export async function GET(req: Request) {
   const { searchParams } = new URL(req.url);
@@ -96,7 +97,7 @@ export async function GET(req: Request) {
 /**
  * DELETE - 清除玩家所有聊天历史（重新开始冒险）
  *
- *   ?playerId=xx → 删除该玩家全部对话记录
+ *   ?playerId=xx → 删除该玩家全部对话记录（连同剧情记忆摘要）
  */
 export async function DELETE(req: Request) {
   const { searchParams } = new URL(req.url);
@@ -110,6 +111,8 @@ export async function DELETE(req: Request) {
     const result = await prisma.chatHistory.deleteMany({
       where: { playerId },
     });
+    await prisma.campaignMemory.deleteMany({ where: { playerId } });
+    dropMemoryIndex(playerId);
 
     return NextResponse.json({
       success: true,
@@ -8,6 +8,8 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
 import { calcBaseStats } from "@/lib/game/formulas";
+import { resolveSlottedItems } from "@/lib/game/equipment-slots";
+import { evaluateSetBonuses } from "@/lib/game/equipment-sets";
 
 /** 种子数据中的初始区域和起始节点 ID */
 const SEED_STARTING_AREA = "seed-area-coral-bay";
@@ -70,11 +72,16 @@ export async function GET(req: Request) {
         typeof skillCooldowns[s.id] === "number" ? skillCooldowns[s.id] : 0,
     }));
 
+    // 已激活的套装效果（以 Equipment 槽位为准）
+    const activeSets = evaluateSetBonuses(
+      resolveSlottedItems(player.equipment, player.inventory)
+    ).active;
+
     console.log(`[API /player] ID=${player.id} Name=${player.name} isBattle=${isBattle} (Status=${battle?.status})`);
 
     return NextResponse.json({
       success: true,
-      data: { ...player, skills: skillsWithCooldown, location, isBattle },
+      data: { ...player, skills: skillsWithCooldown, location, isBattle, activeSets },
     });
   }
 
@@ -196,18 +203,25 @@ export async function POST(req: Request) {
           quantity: 2,
           stats: { mpRestore: 30 },
         },
-        {
-          playerId: player.id,
-          name: "新手木剑",
-          type: "weapon",
-          quality: "common",
-          quantity: 1,
-          stats: { attack: 3 },
-          equipped: true,
-        },
       ],
     });
 
+    // 初始武器直接装备到武器槽
+    const starterWeapon = await prisma.inventoryItem.create({
+      data: {
+        playerId: player.id,
+        name: "新手木剑",
+        type: "weapon",
+        quality: "common",
+        quantity: 1,
+        stats: { attack: 3 },
+        equipped: true,
+      },
+    });
+    await prisma.equipment.create({
+      data: { playerId: player.id, slot: "weapon", itemId: starterWeapon.id },
+    });
+
     // 重新查询完整玩家数据（含刚创建的技能和物品）
     const fullPlayer = await prisma.player.findUnique({
       where: { id: player.id },
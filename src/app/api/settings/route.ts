@@ -1,8 +1,8 @@
 /**
  * /api/settings - 全局游戏配置 API
  *
- * GET  - 获取当前 LLM 配置和可用模型列表
- * POST - 更新 LLM 配置（模型、温度、最大token）/ 添加删除自定义模型
+ * GET  - 获取当前 LLM 配置、任务模型路由和可用模型列表
+ * POST - 更新 LLM 配置（模型、温度、最大token、任务路由 modelRoutes、每日预算 dailyTokenBudget）/ 添加删除自定义模型
  */
 
 import { NextResponse } from "next/server";
@@ -10,9 +10,13 @@ import {
   getLLMConfig,
   getAvailableModels,
   getProviders,
+  getTaskRoutes,
+  getDailyTokenBudget,
   updateLLMModel,
+  updateModelRoutes,
   updateLLMTemperature,
   updateLLMMaxTokens,
+  updateDailyTokenBudget,
   addCustomModel,
   deleteCustomModel,
 } from "@/lib/ai/config";
@@ -22,6 +26,7 @@ export async function GET() {
     const config = await getLLMConfig();
     const models = await getAvailableModels();
     const providers = getProviders();
+    const taskRoutes = await getTaskRoutes();
 
     return NextResponse.json({
       success: true,
@@ -30,6 +35,8 @@ export async function GET() {
         temperature: config.temperature,
         maxTokens: config.maxTokens,
         hasApiKey: !!config.apiKey,
+        taskRoutes,
+        dailyTokenBudget: await getDailyTokenBudget(),
         providers,
         availableModels: models,
       },
@@ -48,7 +55,7 @@ export async function GET() {
 export async function POST(req: Request) {
   try {
     const body = await req.json();
-    const { model, temperature, maxTokens, action, modelData, modelId } = body;
+    const { model, temperature, maxTokens, modelRoutes, dailyTokenBudget, action, modelData, modelId } = body;
 
     // 自定义模型操作
     if (action === "addModel" && modelData) {
@@ -59,11 +66,14 @@ export async function POST(req: Request) {
         providerId: modelData.providerId || "tuzi",
         apiFormat: modelData.apiFormat || "openai",
         costTier: modelData.costTier || "medium",
+        pricing: modelData.pricing,
         description: modelData.description || "",
-        supportsTools: true,
+        // 不支持原生工具调用的模型走提示词工具协议
+        supportsTools: modelData.supportsTools ?? true,
         supportsStreaming: true,
         supportsMultimodal: false,
         maxOutputTokens: modelData.maxOutputTokens || 4096,
+        contextWindow: modelData.contextWindow,
       });
       const models = await getAvailableModels();
       return NextResponse.json({ success: true, data: { availableModels: models } });
@@ -85,6 +95,12 @@ export async function POST(req: Request) {
     if (maxTokens !== undefined) {
       await updateLLMMaxTokens(maxTokens);
     }
+    if (modelRoutes !== undefined) {
+      await updateModelRoutes(modelRoutes);
+    }
+    if (dailyTokenBudget !== undefined) {
+      await updateDailyTokenBudget(dailyTokenBudget);
+    }
 
     // 返回更新后的配置
     const config = await getLLMConfig();
@@ -94,6 +110,8 @@ export async function POST(req: Request) {
         currentModel: config.model,
         temperature: config.temperature,
         maxTokens: config.maxTokens,
+        taskRoutes: await getTaskRoutes(),
+        dailyTokenBudget: await getDailyTokenBudget(),
       },
     });
   } catch (error) {
@@ -0,0 +1,59 @@
+/**
+ * /api/shop - NPC 商店窗口
+ *
+ * GET ?playerId=xxx[&npcId=xxx]
+ *
+ * 返回当前节点商店 NPC 的货架（库存、售价、下次补货时间）与玩家背包的收购报价。
+ * 不指定 npcId 时取当前节点第一个有货的 NPC。定价规则与 interact_npc 共用（shop-tools）。
+ */
+
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { getNpcsAtNode, toNpcData } from "@/lib/game/npc-registry";
+import { resolveNpc } from "@/lib/ai/tools/resolve-id";
+import { getShopWindow } from "@/lib/ai/tools/shop-tools";
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const playerId = searchParams.get("playerId");
+  const npcId = searchParams.get("npcId");
+
+  if (!playerId) {
+    return NextResponse.json(
+      { success: false, error: "缺少 playerId" },
+      { status: 400 }
+    );
+  }
+
+  const player = await prisma.player.findUnique({
+    where: { id: playerId },
+    select: { currentAreaId: true, currentNodeId: true },
+  });
+  if (!player?.currentAreaId || !player.currentNodeId) {
+    return NextResponse.json(
+      { success: false, error: "玩家不在任何区域中" },
+      { status: 404 }
+    );
+  }
+
+  let npc;
+  if (npcId) {
+    const resolved = await resolveNpc(npcId, playerId);
+    if (!resolved.found) {
+      return NextResponse.json({ success: false, error: resolved.error }, { status: 404 });
+    }
+    if (resolved.record.nodeId !== player.currentNodeId) {
+      return NextResponse.json({ success: false, error: `${resolved.record.npc.name} 不在你当前所在的位置` });
+    }
+    npc = resolved.record.npc;
+  } else {
+    const npcs = (await getNpcsAtNode(player.currentAreaId, player.currentNodeId)).map(toNpcData);
+    npc = npcs.find((n) => n.inventory.length > 0);
+    if (!npc) {
+      return NextResponse.json({ success: false, error: "这里没有商店" }, { status: 404 });
+    }
+  }
+
+  const result = await getShopWindow(playerId, npc, player.currentAreaId);
+  return NextResponse.json(result);
+}
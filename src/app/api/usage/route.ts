@@ -0,0 +1,32 @@
+/**
+ * /api/usage - LLM 用量与费用报表
+ *
+ * GET ?days=7&playerId=xxx - 最近 days 天（默认 7，最多 90）的用量，按天 / 按模型 / 按任务汇总；
+ *                            playerId 可选，缺省统计全部玩家
+ */
+
+import { NextResponse } from "next/server";
+import { getUsageReport } from "@/lib/ai/usage";
+
+const DEFAULT_DAYS = 7;
+const MAX_DAYS = 90;
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const playerId = searchParams.get("playerId") ?? undefined;
+  const days = Math.min(
+    MAX_DAYS,
+    Math.max(1, parseInt(searchParams.get("days") ?? "", 10) || DEFAULT_DAYS)
+  );
+
+  try {
+    const report = await getUsageReport(days, playerId);
+    return NextResponse.json({ success: true, data: report });
+  } catch (error) {
+    console.error("[API /usage] Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "获取用量失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -50,6 +50,7 @@ export default function GamePage() {
     deleteMessage,
     clearAllMessages,
     triggerResponse,
+    appendSystemMessage,
     abort,
   } = useGameChat();
 
@@ -94,6 +95,14 @@ export default function GamePage() {
     }
   }, [playerId, clearAllMessages]);
 
+  const handleTrade = useCallback(
+    (message: string) => {
+      appendSystemMessage(message);
+      if (playerId) loadPlayer(playerId);
+    },
+    [playerId, appendSystemMessage, loadPlayer]
+  );
+
   // 加载态
   if (!isReady) {
     return (
@@ -128,6 +137,7 @@ export default function GamePage() {
             isLoading={isLoading}
             onSend={sendMessage}
             onQuickBattleAction={sendQuickBattleAction}
+            onTrade={handleTrade}
             onDelete={deleteMessage}
             hasMoreHistory={hasMoreHistory}
             loadingHistory={loadingHistory}
@@ -4,15 +4,19 @@
  * 游戏视觉区组件
  *
  * 占据游戏 Tab 上方 1/3 区域，根据模式展示不同内容：
- * - 探索模式：区域名-地点名 + NPC 列表
+ * - 探索模式：区域名-地点名 + NPC 列表 + 商店按钮（直接交易，不经 LLM）
  * - 战斗模式：区域名-地点名 + 敌人列表（含 HP/MP 条）
  */
 
 import { useEffect, useState, useRef, useCallback } from "react";
+import ShopPanel from "./ShopPanel";
 
 interface NpcInfo {
+  id: string;
   name: string;
   role?: string;
+  /** 是否有货可交易 */
+  hasShop?: boolean;
 }
 
 interface EnemyInfo {
@@ -120,6 +124,7 @@ export default function GameVisualZone({
   isLoading,
   onSend,
   onQuickBattleAction,
+  onTrade,
 }: {
   playerId: string;
   isBattle?: boolean;
@@ -133,6 +138,8 @@ export default function GameVisualZone({
     userText: string,
     action: { type: "attack" | "skill"; skillId?: string; targetIndex?: number }
   ) => void;
+  /** 商店直接交易成交（参数为写入聊天历史的系统消息） */
+  onTrade?: (message: string) => void;
 }) {
   const [data, setData] = useState<VisualData | null>(null);
   const [loading, setLoading] = useState(true);
@@ -222,10 +229,13 @@ export default function GameVisualZone({
         />
       ) : (
         <ExploreView
+          playerId={playerId}
           areaName={data.areaName}
           nodeName={data.nodeName}
           nodeType={data.nodeType}
           npcs={data.npcs}
+          onTrade={onTrade}
+          disabled={isLoading}
         />
       )}
     </div>
@@ -236,16 +246,25 @@ export default function GameVisualZone({
    探索模式视图
    ============================ */
 function ExploreView({
+  playerId,
   areaName,
   nodeName,
   nodeType,
   npcs,
+  onTrade,
+  disabled,
 }: {
+  playerId: string;
   areaName: string;
   nodeName: string;
   nodeType: string;
   npcs: NpcInfo[];
+  onTrade?: (message: string) => void;
+  disabled?: boolean;
 }) {
+  const [shopNpcId, setShopNpcId] = useState<string | null>(null);
+  const shops = npcs.filter((npc) => npc.hasShop);
+
   return (
     <div className="relative flex h-full flex-col overflow-hidden bg-linear-to-br from-[#eef4ff] via-[#f0f6ff] to-[#f8f9fb]">
       {/* 装饰背景 */}
@@ -271,7 +290,7 @@ function ExploreView({
           <div className="flex flex-wrap justify-center gap-2">
             {npcs.map((npc) => (
               <div
-                key={npc.name}
+                key={npc.id}
                 className="flex items-center gap-1.5 rounded-full border border-border-light bg-surface/80 px-3 py-1 shadow-(--shadow-sm) backdrop-blur-sm"
               >
                 <span className="text-sm">{npcRoleIcon(npc.role)}</span>
@@ -290,6 +309,33 @@ function ExploreView({
           <p className="text-[11px] text-muted/50">四周一片寂静...</p>
         </div>
       )}
+
+      {/* 商店快捷按钮栏 */}
+      {shops.length > 0 && (
+        <div className="relative z-10 shrink-0 border-t border-accent/10 bg-surface/60 backdrop-blur-sm px-3 py-1.5">
+          <div className="flex items-center gap-1.5 overflow-x-auto no-scrollbar">
+            {shops.map((npc) => (
+              <button
+                key={npc.id}
+                onClick={() => setShopNpcId(npc.id)}
+                disabled={disabled}
+                className="shrink-0 flex items-center gap-1 rounded-lg border border-accent/20 bg-accent/5 px-2.5 py-1 text-[11px] font-medium text-accent-dim shadow-sm transition-colors hover:bg-accent/10 active:scale-95 disabled:opacity-40 disabled:pointer-events-none"
+              >
+                <span className="text-xs">🛒</span>
+                <span>{npc.name}的商店</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <ShopPanel
+        isOpen={shopNpcId !== null}
+        onClose={() => setShopNpcId(null)}
+        playerId={playerId}
+        npcId={shopNpcId}
+        onTrade={onTrade}
+      />
     </div>
   );
 }
@@ -17,6 +17,7 @@ interface InventoryItem {
   quality: string;
   quantity: number;
   equipped: boolean;
+  enhanceLevel?: number;
   specialEffect?: string | null;
 }
 
@@ -97,6 +98,9 @@ export default function InventoryPanel({
                         className={`text-sm font-medium ${QUALITY_COLORS[item.quality] || "text-foreground"}`}
                       >
                         {item.name}
+                        {(item.enhanceLevel ?? 0) > 0 && (
+                          <span className="ml-0.5 text-amber-600">+{item.enhanceLevel}</span>
+                        )}
                         {item.equipped && (
                           <span className="ml-1 text-[10px] text-accent">
                             [装备中]
@@ -0,0 +1,228 @@
+"use client";
+
+/**
+ * 商店面板
+ *
+ * 从视觉区商店按钮打开，直接调用 /api/npc/trade 买卖（不经 LLM），
+ * 成交后由 onTrade 通知上层刷新玩家状态并在聊天中显示交易记录。
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import GamePanel from "./GamePanel";
+
+interface ShopItem {
+  name: string;
+  type: string;
+  quality?: string;
+  price: number;
+  stock: number;
+  maxStock: number;
+  description?: string;
+}
+
+interface SellQuote {
+  itemId: string;
+  name: string;
+  type: string;
+  quantity: number;
+  price: number;
+}
+
+interface ShopData {
+  npcName: string;
+  items: ShopItem[];
+  sellQuotes: SellQuote[];
+  playerGold: number;
+  nextRestockAt: string;
+  faction?: string;
+}
+
+const QUALITY_COLORS: Record<string, string> = {
+  common: "text-foreground",
+  uncommon: "text-green-600",
+  rare: "text-blue-600",
+  epic: "text-purple-600",
+  legendary: "text-amber-600",
+};
+
+export default function ShopPanel({
+  isOpen,
+  onClose,
+  playerId,
+  npcId,
+  onTrade,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  playerId: string;
+  npcId: string | null;
+  /** 成交回调（参数为写入聊天历史的系统消息） */
+  onTrade?: (message: string) => void;
+}) {
+  const [shop, setShop] = useState<ShopData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [trading, setTrading] = useState(false);
+  const [mode, setMode] = useState<"buy" | "sell">("buy");
+  const [notice, setNotice] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const fetchShop = useCallback(async () => {
+    if (!npcId) return;
+    try {
+      const res = await fetch(`/api/shop?playerId=${playerId}&npcId=${npcId}`, {
+        cache: "no-store",
+      });
+      const json = await res.json();
+      if (json.success) {
+        setShop(json.data);
+      } else {
+        setShop(null);
+        setNotice({ ok: false, text: json.error || "无法打开商店" });
+      }
+    } catch {
+      setNotice({ ok: false, text: "无法打开商店" });
+    } finally {
+      setLoading(false);
+    }
+  }, [playerId, npcId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setLoading(true);
+    setNotice(null);
+    setMode("buy");
+    fetchShop();
+  }, [isOpen, fetchShop]);
+
+  const trade = async (action: "buy" | "sell", data: Record<string, unknown>) => {
+    if (!npcId || trading) return;
+    setTrading(true);
+    try {
+      const res = await fetch("/api/npc/trade", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ playerId, npcId, action, data }),
+      });
+      const json = await res.json();
+      if (json.success) {
+        setNotice({ ok: true, text: json.message?.replace(/^🤖\s*/, "") || "交易完成" });
+        if (json.message) onTrade?.(json.message);
+      } else {
+        setNotice({ ok: false, text: json.error || "交易失败" });
+      }
+      await fetchShop();
+    } catch {
+      setNotice({ ok: false, text: "交易失败" });
+    } finally {
+      setTrading(false);
+    }
+  };
+
+  return (
+    <GamePanel
+      title={`🛒 ${shop?.npcName ?? "商店"}`}
+      isOpen={isOpen}
+      onClose={onClose}
+    >
+      {loading ? (
+        <p className="text-center text-sm text-muted">加载中...</p>
+      ) : !shop ? (
+        <p className="text-center text-sm text-muted">{notice?.text ?? "无法打开商店"}</p>
+      ) : (
+        <div className="space-y-3">
+          {/* 金币 + 买卖切换 */}
+          <div className="flex items-center justify-between">
+            <div className="flex gap-1">
+              {(["buy", "sell"] as const).map((m) => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={`rounded-lg px-3 py-1 text-xs font-medium transition-colors ${
+                    mode === m
+                      ? "bg-accent/10 text-accent"
+                      : "text-muted hover:bg-surface-hover"
+                  }`}
+                >
+                  {m === "buy" ? "购买" : "出售"}
+                </button>
+              ))}
+            </div>
+            <span className="text-xs text-muted">
+              💰 <span className="font-medium text-foreground">{shop.playerGold}</span> 金币
+            </span>
+          </div>
+
+          {/* 交易结果 */}
+          {notice && (
+            <p className={`rounded-lg px-2.5 py-1.5 text-[11px] ${
+              notice.ok ? "bg-emerald-500/5 text-emerald-700" : "bg-danger/5 text-danger"
+            }`}>
+              {notice.text}
+            </p>
+          )}
+
+          {mode === "buy" ? (
+            <div className="space-y-1.5">
+              {shop.items.map((item) => {
+                const soldOut = item.stock <= 0;
+                const tooPoor = shop.playerGold < item.price;
+                return (
+                  <div
+                    key={item.name}
+                    className="flex items-center justify-between rounded-lg border border-border bg-background p-2.5"
+                  >
+                    <div className="flex-1">
+                      <span className={`text-sm font-medium ${QUALITY_COLORS[item.quality ?? "common"] || "text-foreground"}`}>
+                        {item.name}
+                      </span>
+                      {item.description && (
+                        <p className="mt-0.5 text-[10px] text-muted">{item.description}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-[10px] text-muted">
+                        {soldOut ? "售罄" : `库存 ${item.stock}`}
+                      </span>
+                      <button
+                        onClick={() => trade("buy", { itemName: item.name, quantity: 1 })}
+                        disabled={trading || soldOut || tooPoor}
+                        className="rounded bg-accent/10 px-2 py-0.5 text-[10px] text-accent hover:bg-accent/20 disabled:opacity-40 disabled:pointer-events-none"
+                      >
+                        {item.price} 金币
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+              <p className="pt-1 text-center text-[10px] text-muted/60">
+                下次补货 {new Date(shop.nextRestockAt).toLocaleTimeString("zh-CN", { hour: "2-digit", minute: "2-digit" })}
+              </p>
+            </div>
+          ) : shop.sellQuotes.length === 0 ? (
+            <p className="text-center text-sm text-muted">背包空空如也</p>
+          ) : (
+            <div className="space-y-1.5">
+              {shop.sellQuotes.map((quote) => (
+                <div
+                  key={quote.itemId}
+                  className="flex items-center justify-between rounded-lg border border-border bg-background p-2.5"
+                >
+                  <span className="flex-1 text-sm font-medium text-foreground">{quote.name}</span>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted">x{quote.quantity}</span>
+                    <button
+                      onClick={() => trade("sell", { itemId: quote.itemId, quantity: 1 })}
+                      disabled={trading}
+                      className="rounded bg-warning/10 px-2 py-0.5 text-[10px] text-warning hover:bg-warning/20 disabled:opacity-40 disabled:pointer-events-none"
+                    >
+                      卖 {quote.price} 金币
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </GamePanel>
+  );
+}
@@ -3,7 +3,7 @@
 /**
  * 角色 Tab — 完整角色信息卡片式布局
  *
- * 含：基础属性、HP/MP/EXP、攻防速、货币、位置、背包/技能/任务入口
+ * 含：基础属性、HP/MP/EXP、攻防速、货币、套装效果、位置、背包/技能/任务入口
  */
 
 import { useState } from "react";
@@ -148,6 +148,32 @@ export default function CharacterTab({
           </div>
         </div>
 
+        {/* 套装效果 */}
+        {player.activeSets && player.activeSets.length > 0 && (
+          <div className="rounded-xl border border-border bg-surface p-4" style={{ boxShadow: "var(--shadow-sm)" }}>
+            <h4 className="mb-2 text-xs font-semibold text-muted">套装效果</h4>
+            <div className="space-y-2 text-sm">
+              {player.activeSets.map((set) => (
+                <div key={set.setId}>
+                  <div className="flex justify-between">
+                    <span className="font-medium text-foreground">{set.setName}</span>
+                    <span className="tabular-nums text-muted">
+                      {set.equippedPieces}/{set.totalPieces}
+                    </span>
+                  </div>
+                  {set.bonuses.length > 0 ? (
+                    set.bonuses.map((b) => (
+                      <div key={b} className="text-xs text-success">{b}</div>
+                    ))
+                  ) : (
+                    <div className="text-xs text-muted">再集齐 {2 - set.equippedPieces} 件激活</div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* 快捷面板入口 */}
         <div className="grid grid-cols-3 gap-2">
           {[
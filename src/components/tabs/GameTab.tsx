@@ -15,6 +15,7 @@ export default function GameTab({
   isLoading,
   onSend,
   onQuickBattleAction,
+  onTrade,
   onDelete,
   hasMoreHistory,
   loadingHistory,
@@ -29,6 +30,7 @@ export default function GameTab({
     userText: string,
     action: { type: "attack" | "skill"; skillId?: string; targetIndex?: number }
   ) => void;
+  onTrade?: (message: string) => void;
   onDelete?: (id: string) => void;
   hasMoreHistory?: boolean;
   loadingHistory?: boolean;
@@ -48,6 +50,7 @@ export default function GameTab({
             isLoading={isLoading}
             onSend={onSend}
             onQuickBattleAction={onQuickBattleAction}
+            onTrade={onTrade}
           />
         ) : (
           <div className="flex h-full items-center justify-center bg-linear-to-b from-accent-light/50 to-background">
@@ -171,15 +171,19 @@ function NodeDataView({ node }: { node: AreaNode }) {
   }
 
   // NPC 节点
-  if (node.type === "npc" && data.npc) {
-    const npc = data.npc as { name: string; role?: string; personality?: string; greeting?: string };
+  const npcs = (data.npcs as Array<{ name: string; role?: string; greeting?: string }>) || [];
+  if (node.type === "npc" && npcs.length > 0) {
     return (
       <div className="mt-2 space-y-1 text-[11px]">
-        <div className="flex items-center gap-1.5">
-          <span className="font-medium">{npc.name}</span>
-          {npc.role && <span className="rounded bg-info/10 px-1 text-[9px] text-info">{npc.role}</span>}
-        </div>
-        {npc.greeting && <p className="text-[10px] text-muted italic">&ldquo;{npc.greeting}&rdquo;</p>}
+        {npcs.map((npc, i) => (
+          <div key={i} className="space-y-0.5">
+            <div className="flex items-center gap-1.5">
+              <span className="font-medium">{npc.name}</span>
+              {npc.role && <span className="rounded bg-info/10 px-1 text-[9px] text-info">{npc.role}</span>}
+            </div>
+            {npc.greeting && <p className="text-[10px] text-muted italic">&ldquo;{npc.greeting}&rdquo;</p>}
+          </div>
+        ))}
       </div>
     );
   }
@@ -189,7 +193,7 @@ function NodeDataView({ node }: { node: AreaNode }) {
     const shopItems = (data.shopItems as Array<{
       name: string; type?: string; price?: number; quality?: string;
     }>) || [];
-    const npc = data.npc as { name?: string; greeting?: string } | undefined;
+    const npc = npcs[0];
     return (
       <div className="mt-2 space-y-1">
         {npc?.name && (
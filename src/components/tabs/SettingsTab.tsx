@@ -1,7 +1,7 @@
 "use client";
 
 /**
- * 设置 Tab — AI 模型配置（两级选择：渠道商 → 模型）
+ * 设置 Tab — AI 模型配置（两级选择：渠道商 → 模型）+ 按任务路由模型 + 用量与费用
  */
 
 import { useState, useEffect, useCallback, useMemo } from "react";
@@ -11,6 +11,8 @@ interface ProviderInfo {
   name: string;
   description: string;
   hasApiKey: boolean;
+  /** false 表示本地服务（无需 Key，设置 Base URL 即启用） */
+  requiresApiKey?: boolean;
   baseUrl: string;
 }
 
@@ -23,6 +25,17 @@ interface ModelOption {
   costTier: string;
   description: string;
   isCustom?: boolean;
+  /** 从本地服务自动发现 */
+  isDiscovered?: boolean;
+}
+
+interface TaskRoute {
+  task: string;
+  label: string;
+  /** 已配置的模型（null 表示未单独指定） */
+  model: string | null;
+  /** 未配置时的任务默认模型（null 表示跟随全局模型） */
+  defaultModel: string | null;
 }
 
 interface SettingsData {
@@ -30,10 +43,28 @@ interface SettingsData {
   temperature: number;
   maxTokens: number;
   hasApiKey: boolean;
+  taskRoutes: TaskRoute[];
+  /** 每位玩家每日 token 预算（0 = 不限） */
+  dailyTokenBudget: number;
   providers: ProviderInfo[];
   availableModels: ModelOption[];
 }
 
+interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+  cost: number;
+}
+
+interface UsageReport {
+  days: number;
+  total: UsageTotals;
+  byDay: Array<UsageTotals & { day: string }>;
+  byModel: Array<UsageTotals & { model: string }>;
+}
+
 const COST_LABELS: Record<string, { label: string; color: string }> = {
   low: { label: "低成本", color: "text-success" },
   medium: { label: "中等", color: "text-warning" },
@@ -54,6 +85,7 @@ const EMPTY_FORM: {
   apiFormat: string;
   costTier: string;
   description: string;
+  supportsTools: boolean;
 } = {
   id: "",
   name: "",
@@ -61,6 +93,7 @@ const EMPTY_FORM: {
   apiFormat: "openai",
   costTier: "medium",
   description: "",
+  supportsTools: true,
 };
 
 export default function SettingsTab() {
@@ -69,6 +102,8 @@ export default function SettingsTab() {
   const [activeProviderId, setActiveProviderId] = useState("");
   const [temperature, setTemperature] = useState(0.7);
   const [maxTokens, setMaxTokens] = useState(4096);
+  const [modelRoutes, setModelRoutes] = useState<Record<string, string>>({});
+  const [dailyTokenBudget, setDailyTokenBudget] = useState(0);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState("");
   const [saved, setSaved] = useState(false);
@@ -88,6 +123,12 @@ export default function SettingsTab() {
         setSelectedModel(data.data.currentModel);
         setTemperature(data.data.temperature);
         setMaxTokens(data.data.maxTokens);
+        setDailyTokenBudget(data.data.dailyTokenBudget ?? 0);
+        setModelRoutes(
+          Object.fromEntries(
+            (data.data.taskRoutes as TaskRoute[]).map((r) => [r.task, r.model ?? ""])
+          )
+        );
         // 初始化活跃渠道商：优先选当前模型所在渠道
         const currentModelDef = data.data.availableModels.find(
           (m: ModelOption) => m.id === data.data.currentModel
@@ -121,7 +162,7 @@ export default function SettingsTab() {
       const res = await fetch("/api/settings", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ model: selectedModel, temperature, maxTokens }),
+        body: JSON.stringify({ model: selectedModel, temperature, maxTokens, modelRoutes, dailyTokenBudget }),
       });
       const data = await res.json();
       if (data.success) {
@@ -235,7 +276,7 @@ export default function SettingsTab() {
                       </p>
                       {!p.hasApiKey && (
                         <span className="absolute right-2 top-2 text-[9px] text-muted opacity-70">
-                          未配置 Key
+                          {p.requiresApiKey === false ? "未启用" : "未配置 Key"}
                         </span>
                       )}
                     </button>
@@ -288,6 +329,11 @@ export default function SettingsTab() {
                                   自定义
                                 </span>
                               )}
+                              {model.isDiscovered && (
+                                <span className="rounded bg-success/15 px-1.5 py-0.5 text-[9px] font-medium text-success">
+                                  本地
+                                </span>
+                              )}
                             </div>
                             <div className="flex items-center gap-2">
                               <span className={`text-[10px] font-medium ${cost.color}`}>
@@ -428,6 +474,17 @@ export default function SettingsTab() {
                     />
                   </div>
 
+                  {/* 工具调用 */}
+                  <label className="flex items-center gap-2 text-[11px] text-muted">
+                    <input
+                      type="checkbox"
+                      checked={addForm.supportsTools}
+                      onChange={(e) => setAddForm({ ...addForm, supportsTools: e.target.checked })}
+                      className="accent-accent"
+                    />
+                    支持原生工具调用（关闭后通过提示词协议调用工具）
+                  </label>
+
                   {addError && (
                     <p className="text-[11px] text-danger">{addError}</p>
                   )}
@@ -507,6 +564,62 @@ export default function SettingsTab() {
               </div>
             </div>
 
+            {/* ======= 任务模型路由 ======= */}
+            <div className="rounded-xl border border-border bg-surface p-4" style={{ boxShadow: "var(--shadow-sm)" }}>
+              <label className="text-xs font-semibold text-foreground">
+                任务模型路由
+              </label>
+              <p className="mt-0.5 text-[10px] text-muted">
+                为不同任务单独指定模型，未指定的任务使用上方选择的模型
+              </p>
+              <div className="mt-3 space-y-2">
+                {settings.taskRoutes.map((route) => (
+                  <div key={route.task} className="flex items-center gap-3">
+                    <span className="w-28 shrink-0 text-[11px] text-muted">{route.label}</span>
+                    <select
+                      value={modelRoutes[route.task] ?? ""}
+                      onChange={(e) =>
+                        setModelRoutes({ ...modelRoutes, [route.task]: e.target.value })
+                      }
+                      className="flex-1 rounded-lg border border-border bg-background px-3 py-1.5 text-xs text-foreground focus:border-accent focus:outline-none"
+                    >
+                      <option value="">
+                        {route.defaultModel ? `默认（${route.defaultModel}）` : "跟随全局模型"}
+                      </option>
+                      {settings.availableModels.map((m) => (
+                        <option key={m.id} value={m.id}>
+                          {m.name} · {settings.providers.find((p) => p.id === m.providerId)?.name ?? m.providerId}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* ======= 每日预算 ======= */}
+            <div className="rounded-xl border border-border bg-surface p-4" style={{ boxShadow: "var(--shadow-sm)" }}>
+              <div className="flex items-center justify-between">
+                <label className="text-xs font-semibold text-foreground">
+                  每位玩家每日 Token 预算
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="10000"
+                  value={dailyTokenBudget}
+                  onChange={(e) => setDailyTokenBudget(Math.max(0, parseInt(e.target.value, 10) || 0))}
+                  className="w-32 rounded-lg border border-border bg-background px-2 py-1 text-right text-xs tabular-nums text-foreground focus:border-accent focus:outline-none"
+                />
+              </div>
+              <p className="mt-1 text-[10px] text-muted">
+                0 为不限。用量达到 80% 后 GM 进入节能模式（改用「节能模式」路由的模型、缩短对话历史），达到上限后当日不再调用 AI
+              </p>
+            </div>
+
+            {/* ======= 用量与费用 ======= */}
+            <UsageSection models={settings.availableModels} />
+
             {/* ======= 错误 / 成功 ======= */}
             {error && (
               <p className="text-xs text-danger">{error}</p>
@@ -529,3 +642,122 @@ export default function SettingsTab() {
     </div>
   );
 }
+
+/** 费用显示（美元，小额保留更多位） */
+function formatCost(cost: number): string {
+  return `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1_000_000
+    ? `${(tokens / 1_000_000).toFixed(1)}M`
+    : tokens >= 1000
+      ? `${(tokens / 1000).toFixed(1)}k`
+      : String(tokens);
+}
+
+/**
+ * 用量与费用（全部玩家，按天 / 按模型）
+ */
+function UsageSection({ models }: { models: ModelOption[] }) {
+  const [days, setDays] = useState(7);
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [loadError, setLoadError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/usage?days=${days}`, { cache: "no-store" })
+      .then((res) => res.json())
+      .then((data) => {
+        if (cancelled) return;
+        if (data.success) {
+          setReport(data.data);
+          setLoadError("");
+        } else {
+          setLoadError(data.error || "加载用量失败");
+        }
+      })
+      .catch(() => !cancelled && setLoadError("加载用量失败"));
+    return () => {
+      cancelled = true;
+    };
+  }, [days]);
+
+  const maxDayCost = report ? Math.max(...report.byDay.map((d) => d.cost), 0) : 0;
+
+  return (
+    <div className="rounded-xl border border-border bg-surface p-4" style={{ boxShadow: "var(--shadow-sm)" }}>
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-semibold text-foreground">用量与费用</label>
+        <div className="flex gap-1">
+          {[7, 30].map((d) => (
+            <button
+              key={d}
+              onClick={() => setDays(d)}
+              className={`rounded-lg px-2 py-0.5 text-[10px] transition-colors ${
+                days === d ? "bg-accent/10 text-accent" : "text-muted hover:bg-surface-hover"
+              }`}
+            >
+              {d} 天
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="mt-0.5 text-[10px] text-muted">
+        按模型单价估算（未配置单价的模型按成本档位估算）
+      </p>
+
+      {loadError ? (
+        <p className="mt-3 text-[11px] text-danger">{loadError}</p>
+      ) : !report ? (
+        <p className="mt-3 text-center text-[11px] text-muted">加载中...</p>
+      ) : (
+        <>
+          {/* 合计 */}
+          <div className="mt-3 flex items-baseline gap-3">
+            <span className="text-lg font-bold text-foreground">{formatCost(report.total.cost)}</span>
+            <span className="text-[10px] text-muted">
+              {report.total.calls} 次调用 · 输入 {formatTokens(report.total.inputTokens)} · 输出{" "}
+              {formatTokens(report.total.outputTokens)} tokens
+              {report.total.cachedInputTokens > 0 &&
+                ` · 缓存命中 ${Math.round((report.total.cachedInputTokens / report.total.inputTokens) * 100)}%`}
+            </span>
+          </div>
+
+          {/* 按天 */}
+          <div className="mt-3 flex h-16 items-end gap-0.5">
+            {report.byDay.map((d) => (
+              <div
+                key={d.day}
+                title={`${d.day}: ${formatCost(d.cost)} · ${d.calls} 次`}
+                className="flex-1 rounded-t bg-accent/60"
+                style={{ height: `${maxDayCost > 0 ? Math.max((d.cost / maxDayCost) * 100, d.cost > 0 ? 4 : 0) : 0}%` }}
+              />
+            ))}
+          </div>
+          <div className="mt-1 flex justify-between text-[9px] text-muted">
+            <span>{report.byDay[0]?.day.slice(5)}</span>
+            <span>{report.byDay[report.byDay.length - 1]?.day.slice(5)}</span>
+          </div>
+
+          {/* 按模型 */}
+          {report.byModel.length > 0 && (
+            <div className="mt-3 space-y-1">
+              {report.byModel.map((m) => (
+                <div key={m.model} className="flex items-center justify-between text-[11px]">
+                  <span className="truncate text-foreground">
+                    {models.find((o) => o.id === m.model)?.name ?? m.model}
+                  </span>
+                  <span className="shrink-0 text-muted">
+                    {m.calls} 次 · {formatTokens(m.inputTokens + m.outputTokens)} ·{" "}
+                    <span className="font-medium text-foreground">{formatCost(m.cost)}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -45,8 +45,20 @@ export interface PlayerState {
   currentNodeId?: string;
   location?: string;
   isBattle?: boolean;
+  /** 已激活的套装效果 */
+  activeSets?: Array<{
+    setId: string;
+    setName: string;
+    equippedPieces: number;
+    totalPieces: number;
+    bonuses: string[];
+  }>;
 }
 
+/** GM 进入节能模式（接近每日 token 预算）时的提示 */
+const BUDGET_LOW_NOTICE =
+  "✨ 今日灵气将尽，说书人进入节能模式。战斗可使用快捷招式，移动可在地图上直达，均不消耗灵气。";
+
 export interface QuickBattleAction {
   type: "attack" | "skill";
   skillId?: string;
@@ -61,6 +73,8 @@ export function useGameChat() {
   const [hasMoreHistory, setHasMoreHistory] = useState(false);
   const [loadingHistory, setLoadingHistory] = useState(false);
   const abortRef = useRef<AbortController | null>(null);
+  /** 节能模式提示每次会话只显示一次 */
+  const budgetNoticeShownRef = useRef(false);
 
   /** 生成唯一ID */
   const genId = () => `msg_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
@@ -243,6 +257,25 @@ export function useGameChat() {
           );
           break;
 
+        case "budget":
+          // 节能模式提示插在本轮 AI 回复之前（耗尽时 GM 自身的回复已说明）
+          if (event.data.level === "low" && !budgetNoticeShownRef.current) {
+            budgetNoticeShownRef.current = true;
+            setMessages((prev) => {
+              const idx = prev.findIndex((m) => m.id === aiMsgId);
+              const notice: GameMessage = {
+                id: genId(),
+                role: "system",
+                content: BUDGET_LOW_NOTICE,
+                timestamp: Date.now(),
+              };
+              return idx < 0
+                ? [...prev, notice]
+                : [...prev.slice(0, idx), notice, ...prev.slice(idx)];
+            });
+          }
+          break;
+
         case "error": {
           const errMsg = (event.data.message as string) || "发生未知错误";
           setMessages((prev) =>
@@ -616,6 +649,14 @@ export function useGameChat() {
 
 
 
+  /** 追加一条系统消息到列表（服务端已写入历史，如商店直接交易） */
+  const appendSystemMessage = useCallback((content: string) => {
+    setMessages((prev) => [
+      ...prev,
+      { id: genId(), role: "system", content, timestamp: Date.now() },
+    ]);
+  }, []);
+
   /** 删除单条消息（从前端列表和数据库中同时移除） */
   const deleteMessage = useCallback(
     async (messageId: string) => {
@@ -673,6 +714,7 @@ export function useGameChat() {
     deleteMessage,
     clearAllMessages,
     triggerResponse,
+    appendSystemMessage,
     abort,
   };
 }
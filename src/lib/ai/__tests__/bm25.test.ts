@@ -0,0 +1,59 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BM25Index, tokenize } from "../bm25";
+
+describe("tokenize", () => {
+  it("中日韩文字按二字组，单字保留，ASCII 按单词小写", () => {
+    assert.deepEqual(tokenize("王伯的渔网"), ["王伯", "伯的", "的渔", "渔网"]);
+    assert.deepEqual(tokenize("海，Sword of GM2"), ["海", "sword", "of", "gm2"]);
+  });
+
+  it("空文本 / 纯标点没有词项", () => {
+    assert.deepEqual(tokenize(""), []);
+    assert.deepEqual(tokenize("……！？"), []);
+  });
+});
+
+describe("BM25Index", () => {
+  function buildIndex() {
+    const index = new BM25Index<string>();
+    index.add("a", "老渔夫王伯在码头修补渔网", "a");
+    index.add("b", "铁匠铺的李师傅打造了一把长剑", "b");
+    index.add("c", "王伯说海上起了风暴，王伯很担心", "c");
+    return index;
+  }
+
+  it("词频高的文档排在前面，未命中的不返回", () => {
+    const hits = buildIndex().search("王伯", 10);
+    assert.deepEqual(hits.map((h) => h.id), ["c", "a"]);
+    assert.ok(hits[0].score > hits[1].score);
+  });
+
+  it("稀有词项权重更高", () => {
+    const index = buildIndex();
+    index.add("d", "王伯托你去铁匠铺取长剑", "d");
+    // 「长剑」只出现在 b、d，「王伯」出现在 a、c、d：同时命中两者的 d 最相关
+    assert.equal(index.search("王伯 长剑", 10)[0].id, "d");
+  });
+
+  it("limit 与 filter", () => {
+    const index = buildIndex();
+    assert.equal(index.search("王伯", 1).length, 1);
+    assert.deepEqual(index.search("王伯", 10, (id) => id !== "c").map((h) => h.id), ["a"]);
+  });
+
+  it("remove 后不再命中，重复 add 覆盖旧内容", () => {
+    const index = buildIndex();
+    index.remove("c");
+    assert.equal(index.size, 2);
+    assert.deepEqual(index.search("风暴", 10), []);
+
+    index.add("a", "码头空无一人", "a2");
+    assert.deepEqual(index.search("王伯", 10), []);
+    assert.equal(index.get("a"), "a2");
+  });
+
+  it("空索引检索为空", () => {
+    assert.deepEqual(new BM25Index<string>().search("王伯", 5), []);
+  });
+});
@@ -0,0 +1,105 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { LLMConfig } from "../adapters/types";
+
+/** 进程内的用量账本（替代数据库） */
+interface UsageRow {
+  playerId: string | null;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+const rows: UsageRow[] = [];
+let onRecorded: (() => void) | null = null;
+
+const fakePrisma = {
+  gameConfig: { findUnique: async () => null },
+  llmUsage: {
+    create: async ({ data }: { data: UsageRow }) => {
+      rows.push(data);
+      onRecorded?.();
+      return data;
+    },
+    aggregate: async ({ where }: { where: { playerId: string } }) => {
+      const mine = rows.filter((r) => r.playerId === where.playerId);
+      return {
+        _sum: {
+          inputTokens: mine.reduce((s, r) => s + r.inputTokens, 0),
+          outputTokens: mine.reduce((s, r) => s + r.outputTokens, 0),
+        },
+      };
+    },
+  },
+};
+
+const config: LLMConfig = {
+  apiKey: "test-key",
+  baseUrl: "http://llm.test",
+  model: "gpt-4o-mini",
+  temperature: 0,
+  maxTokens: 100,
+  providerId: "tuzi",
+};
+
+/** 一轮 OpenAI 格式的流式应答，最后一个 chunk 带用量 */
+function sseTurn(promptTokens: number, completionTokens: number): string {
+  return [
+    { choices: [{ delta: { content: "{\"narrative\":\"海风拂面。\"}" } }] },
+    { choices: [{ delta: {}, finish_reason: "stop" }] },
+    { choices: [], usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens } },
+  ]
+    .map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`)
+    .join("") + "data: [DONE]\n\n";
+}
+
+const originalFetch = globalThis.fetch;
+const originalBudget = process.env.PLAYER_DAILY_TOKEN_BUDGET;
+
+let getBudgetStatus: typeof import("../budget").getBudgetStatus;
+let LLMClient: typeof import("../llm-client").LLMClient;
+
+describe("每日预算 × 流式调用", () => {
+  before(async () => {
+    // prisma 单例优先取全局实例，须在加载业务模块前替换
+    (globalThis as unknown as { __prisma: unknown }).__prisma = fakePrisma;
+    process.env.PLAYER_DAILY_TOKEN_BUDGET = "1000";
+    ({ getBudgetStatus } = await import("../budget"));
+    ({ LLMClient } = await import("../llm-client"));
+  });
+
+  after(() => {
+    globalThis.fetch = originalFetch;
+    if (originalBudget === undefined) delete process.env.PLAYER_DAILY_TOKEN_BUDGET;
+    else process.env.PLAYER_DAILY_TOKEN_BUDGET = originalBudget;
+  });
+
+  /** 跑一轮流式 GM 对话，等待用量写入账本 */
+  async function streamTurn(playerId: string, promptTokens: number, completionTokens: number) {
+    globalThis.fetch = (async () =>
+      new Response(sseTurn(promptTokens, completionTokens), { status: 200 })) as unknown as typeof fetch;
+    const recorded = new Promise<void>((resolve) => (onRecorded = resolve));
+
+    const client = new LLMClient(config, { task: "narration", playerId });
+    for await (const event of client.chatStreamWithTools(
+      { model: config.model, systemPrompt: "", messages: [{ role: "user", content: "四处看看" }] },
+      async () => "{}"
+    )) {
+      assert.notEqual(event.type, "error");
+    }
+    await recorded;
+  }
+
+  it("流式回合的用量计入当日总量", async () => {
+    assert.deepEqual(await getBudgetStatus("p1"), { level: "normal", used: 0, limit: 1000 });
+
+    await streamTurn("p1", 700, 150);
+    assert.deepEqual(await getBudgetStatus("p1"), { level: "low", used: 850, limit: 1000 });
+
+    await streamTurn("p1", 200, 50);
+    assert.deepEqual(await getBudgetStatus("p1"), { level: "exhausted", used: 1100, limit: 1000 });
+  });
+
+  it("只计入本玩家", async () => {
+    assert.equal((await getBudgetStatus("p2")).used, 0);
+  });
+});
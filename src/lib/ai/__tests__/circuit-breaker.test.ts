@@ -0,0 +1,65 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  COOLDOWN_MS,
+  FAILURE_THRESHOLD,
+  getBreakerStates,
+  isProviderAvailable,
+  recordProviderFailure,
+  recordProviderSuccess,
+} from "../circuit-breaker";
+
+/** 熔断状态是进程内的，每个用例用独立的渠道商 ID */
+let seq = 0;
+const nextProvider = () => `test-provider-${++seq}`;
+
+/** 在 now 时刻连续失败 FAILURE_THRESHOLD 次 */
+function trip(providerId: string, now: number) {
+  for (let i = 0; i < FAILURE_THRESHOLD; i++) recordProviderFailure(providerId, now);
+}
+
+describe("circuit-breaker", () => {
+  it("未达阈值不熔断", () => {
+    const id = nextProvider();
+    for (let i = 0; i < FAILURE_THRESHOLD - 1; i++) recordProviderFailure(id, 0);
+    assert.equal(isProviderAvailable(id, 0), true);
+  });
+
+  it("连续失败达到阈值后熔断，冷却期内不可用", () => {
+    const id = nextProvider();
+    trip(id, 1000);
+    assert.equal(isProviderAvailable(id, 1000), false);
+    assert.equal(isProviderAvailable(id, 1000 + COOLDOWN_MS - 1), false);
+
+    const state = getBreakerStates(1000).find((s) => s.providerId === id);
+    assert.equal(state?.open, true);
+    assert.equal(state?.failures, FAILURE_THRESHOLD);
+  });
+
+  it("冷却结束后半开放行", () => {
+    const id = nextProvider();
+    trip(id, 1000);
+    assert.equal(isProviderAvailable(id, 1000 + COOLDOWN_MS), true);
+  });
+
+  it("半开时失败立即重新熔断", () => {
+    const id = nextProvider();
+    trip(id, 1000);
+    const halfOpenAt = 1000 + COOLDOWN_MS;
+    recordProviderFailure(id, halfOpenAt);
+    assert.equal(isProviderAvailable(id, halfOpenAt), false);
+    assert.equal(isProviderAvailable(id, halfOpenAt + COOLDOWN_MS), true);
+  });
+
+  it("半开时成功即恢复，失败计数清零", () => {
+    const id = nextProvider();
+    trip(id, 1000);
+    recordProviderSuccess(id);
+    assert.equal(isProviderAvailable(id, 1000), true);
+    assert.equal(getBreakerStates(1000).some((s) => s.providerId === id), false);
+
+    // 恢复后单次失败不会再熔断
+    recordProviderFailure(id, 2000);
+    assert.equal(isProviderAvailable(id, 2000), FAILURE_THRESHOLD > 1);
+  });
+});
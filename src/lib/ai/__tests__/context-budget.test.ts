@@ -0,0 +1,139 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { NormalizedMessage } from "../adapters/types";
+import {
+  MAX_INJECTION_TOKENS,
+  MIN_INJECTION_TOKENS,
+  allocateSections,
+  computePromptBudget,
+  fitHistory,
+  formatComposition,
+  type ContextSection,
+} from "../context-budget";
+import { TRUNCATION_MARK, estimateTokens, truncateToTokens } from "../token-estimator";
+
+describe("estimateTokens", () => {
+  it("中日韩文字与全角标点 1 token / 字", () => {
+    assert.equal(estimateTokens("你好世界"), 4);
+    assert.equal(estimateTokens("海妖。！"), 4);
+    assert.equal(estimateTokens("ＡＢ"), 2);
+  });
+
+  it("其余字符约 4 字符 / token（向上取整）", () => {
+    assert.equal(estimateTokens(""), 0);
+    assert.equal(estimateTokens("abcd"), 1);
+    assert.equal(estimateTokens("abcde"), 2);
+  });
+
+  it("中英混排分别计算", () => {
+    assert.equal(estimateTokens("王伯 says hi!"), 2 + Math.ceil(9 / 4));
+  });
+});
+
+describe("truncateToTokens", () => {
+  it("预算内原样返回", () => {
+    assert.equal(truncateToTokens("你好", 2), "你好");
+  });
+
+  it("按整行保留并附加截断标记，不超预算", () => {
+    const text = ["第一行内容", "第二行内容", "第三行内容", "第四行内容"].join("\n");
+    const result = truncateToTokens(text, 20);
+    assert.ok(result.endsWith(TRUNCATION_MARK));
+    assert.ok(estimateTokens(result) <= 20);
+    assert.deepEqual(result.slice(0, -TRUNCATION_MARK.length).split("\n"), ["第一行内容", "第二行内容"]);
+  });
+
+  it("首行超长时按字符截断", () => {
+    const result = truncateToTokens("海".repeat(100), 20);
+    assert.equal(result, "海".repeat(20 - estimateTokens(TRUNCATION_MARK)) + TRUNCATION_MARK);
+  });
+
+  it("预算容不下截断标记时为空", () => {
+    assert.equal(truncateToTokens("海".repeat(100), 3), "");
+  });
+});
+
+describe("allocateSections", () => {
+  const section = (key: string, priority: number, chars: number, required = false): ContextSection => ({
+    key,
+    title: `【${key}】`,
+    content: Array.from({ length: chars / 10 }, () => "海".repeat(10)).join("\n"),
+    priority,
+    required,
+  });
+
+  it("预算充足时全部完整保留，保持原有顺序", () => {
+    const sections = [section("b", 2, 100), section("a", 1, 100)];
+    const { text, usage } = allocateSections(sections, 10_000);
+    assert.ok(text.indexOf("【b】") < text.indexOf("【a】"));
+    assert.deepEqual(usage.map((u) => u.status), ["full", "full"]);
+  });
+
+  it("按优先级分配：放不下的截断，剩余太少的丢弃，总量不超预算", () => {
+    const sections = [section("memories", 3, 300), section("player", 1, 200), section("area", 2, 200)];
+    const budget = 350;
+    const { usage, tokens } = allocateSections(sections, budget);
+    const byKey = Object.fromEntries(usage.map((u) => [u.key, u]));
+
+    assert.equal(byKey.player.status, "full");
+    assert.equal(byKey.area.status, "truncated");
+    assert.equal(byKey.memories.status, "dropped");
+    assert.equal(byKey.memories.tokens, 0);
+    assert.ok(tokens <= budget);
+    assert.equal(tokens, usage.reduce((sum, u) => sum + u.tokens, 0));
+  });
+
+  it("必需区块优先于高优先级的可选区块，预算不足时截断而不丢弃", () => {
+    const sections = [section("extra", 0, 100), section("state", 5, 500, true)];
+    const { usage } = allocateSections(sections, 80);
+    const byKey = Object.fromEntries(usage.map((u) => [u.key, u]));
+    assert.equal(byKey.state.status, "truncated");
+    assert.equal(byKey.extra.status, "dropped");
+  });
+
+  it("formatComposition 单行汇总", () => {
+    assert.equal(
+      formatComposition([
+        { key: "player", tokens: 180, originalTokens: 180, status: "full" },
+        { key: "area", tokens: 95, originalTokens: 240, status: "truncated" },
+        { key: "memories", tokens: 0, originalTokens: 300, status: "dropped" },
+      ]),
+      "player=180 area=95(截断 240) memories=丢弃(300)"
+    );
+  });
+});
+
+describe("computePromptBudget / fitHistory", () => {
+  it("扣除输出预留、固定内容与安全余量", () => {
+    const a = computePromptBudget({ contextWindow: 8000, maxOutputTokens: 1000, fixedTexts: ["abcd", "海海"] });
+    const b = computePromptBudget({ contextWindow: 8000, maxOutputTokens: 1000, fixedTexts: [] });
+    assert.equal(b - a, 3);
+    assert.ok(b < 7000);
+    assert.ok(computePromptBudget({ maxOutputTokens: 1000, fixedTexts: [] }) > 100_000);
+  });
+
+  const history: NormalizedMessage[] = Array.from({ length: 10 }, (_, i) => ({
+    role: i % 2 === 0 ? "user" : "assistant",
+    content: `第${i}条` + "海".repeat(96),
+  }));
+
+  it("预算充足时历史全部保留，状态注入取上限", () => {
+    const result = fitHistory(history, 100_000);
+    assert.equal(result.history.length, 10);
+    assert.equal(result.droppedMessages, 0);
+    assert.equal(result.injectionBudget, MAX_INJECTION_TOKENS);
+  });
+
+  it("预算不足时从最早的消息开始丢弃", () => {
+    const result = fitHistory(history, MAX_INJECTION_TOKENS + 350);
+    assert.equal(result.history.length, 3);
+    assert.equal(result.droppedMessages, 7);
+    assert.equal(result.history[0].content, history[7].content);
+  });
+
+  it("总预算过小时历史全部丢弃，状态注入保留最低额度", () => {
+    const result = fitHistory(history, 100);
+    assert.equal(result.history.length, 0);
+    assert.equal(result.injectionBudget, MIN_INJECTION_TOKENS);
+  });
+});
@@ -0,0 +1,97 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { estimateTokens } from "../token-estimator";
+
+/** 进程内的对话 / 日志表（替代数据库） */
+interface Row {
+  id: string;
+  playerId: string;
+  role?: string;
+  type?: string;
+  content: string;
+  createdAt: Date;
+}
+
+const chats: Row[] = [];
+const logs: Row[] = [];
+
+function findMany(rows: Row[]) {
+  return async ({ where, take }: { where: { playerId: string; createdAt?: { gte: Date } }; take: number }) =>
+    rows
+      .filter((r) => r.playerId === where.playerId && (!where.createdAt || r.createdAt >= where.createdAt.gte))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, take);
+}
+
+const fakePrisma = {
+  chatHistory: { findMany: findMany(chats) },
+  playerLog: { findMany: findMany(logs) },
+};
+
+const at = (minute: number) => new Date(Date.UTC(2026, 0, 1, 0, minute));
+
+let retrieveRelevantMemories: typeof import("../memory-retrieval").retrieveRelevantMemories;
+let indexChatMessage: typeof import("../memory-retrieval").indexChatMessage;
+let dropMemoryIndex: typeof import("../memory-retrieval").dropMemoryIndex;
+
+describe("retrieveRelevantMemories", () => {
+  before(async () => {
+    // prisma 单例优先取全局实例，须在加载业务模块前替换
+    (globalThis as unknown as { __prisma: unknown }).__prisma = fakePrisma;
+    ({ retrieveRelevantMemories, indexChatMessage, dropMemoryIndex } = await import("../memory-retrieval"));
+
+    // 较早的无关对话（让「王伯」等词项不至于常见到被当作噪声过滤）
+    const filler = ["今天天气不错", "村口的大树下有人在下棋", "你在客栈休息了一晚", "集市上人声鼎沸", "远处传来钟声", "你整理了一下行囊"];
+    filler.forEach((content, i) => chats.push({ id: `f${i}`, playerId: "p1", role: "assistant", content, createdAt: at(i) }));
+
+    chats.push(
+      { id: "c1", playerId: "p1", role: "user", content: "我向老渔夫王伯打听海妖的传说", createdAt: at(21) },
+      { id: "c2", playerId: "p1", role: "assistant", content: "王伯说海妖住在北边的珊瑚礁", createdAt: at(22) },
+      { id: "c3", playerId: "p1", role: "user", content: "去铁匠铺买一把长剑", createdAt: at(23) },
+      { id: "c4", playerId: "p1", role: "assistant", content: "铁匠递给你一把长剑", createdAt: at(24) },
+      { id: "c5", playerId: "p1", role: "user", content: "王伯还在码头吗", createdAt: at(25) },
+      { id: "o1", playerId: "p2", role: "user", content: "王伯是谁", createdAt: at(21) }
+    );
+    logs.push({ id: "l1", playerId: "p1", type: "quest", content: "接受任务：替王伯寻回渔网", createdAt: at(20) });
+  });
+
+  it("按相关度取较早的对话与日志，按时间顺序输出", async () => {
+    const text = await retrieveRelevantMemories("p1", "王伯", 1, 1000);
+    const lines = text.split("\n");
+    assert.equal(lines.length, 3);
+    assert.match(lines[0], /日志·quest.*替王伯寻回渔网/);
+    assert.match(lines[1], /玩家：我向老渔夫王伯打听/);
+    assert.match(lines[2], /GM：王伯说海妖/);
+    assert.doesNotMatch(text, /长剑/);
+  });
+
+  it("最近 N 条对话已在上下文中，不重复注入", async () => {
+    assert.match(await retrieveRelevantMemories("p1", "长剑", 1, 1000), /铁匠递给你一把长剑/);
+
+    const text = await retrieveRelevantMemories("p1", "长剑", 2, 1000);
+    assert.match(text, /去铁匠铺买一把长剑/);
+    assert.doesNotMatch(text, /铁匠递给你/);
+
+    assert.equal(await retrieveRelevantMemories("p1", "长剑", 3, 1000), "");
+  });
+
+  it("只检索本玩家的记录", async () => {
+    assert.equal(await retrieveRelevantMemories("p2", "海妖", 0, 1000), "");
+  });
+
+  it("在 token 预算内截取", async () => {
+    const lines = (await retrieveRelevantMemories("p1", "王伯", 1, 30)).split("\n");
+    assert.ok(lines.length > 0 && lines.length < 3);
+    assert.ok(lines.reduce((sum, line) => sum + estimateTokens(line), 0) <= 30);
+    assert.equal(await retrieveRelevantMemories("p1", "王伯", 1, 0), "");
+  });
+
+  it("新对话与删除同步到已加载的索引", async () => {
+    indexChatMessage("p1", { id: "c6", role: "assistant", content: "珊瑚礁上浮起一只海妖", createdAt: at(26) });
+    indexChatMessage("p1", { id: "c7", role: "user", content: "继续前进", createdAt: at(27) });
+    assert.match(await retrieveRelevantMemories("p1", "珊瑚礁", 1, 1000), /浮起一只海妖/);
+
+    dropMemoryIndex("p1", "c6");
+    assert.doesNotMatch(await retrieveRelevantMemories("p1", "珊瑚礁", 1, 1000), /浮起一只海妖/);
+  });
+});
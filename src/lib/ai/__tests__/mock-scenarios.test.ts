@@ -0,0 +1,367 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { defineMockScenario, mockModelId } from "../adapters/mock-adapter";
+import type { LLMConfig } from "../adapters/types";
+
+// ============================================================
+// 进程内数据库（替代 prisma）
+// ============================================================
+
+type Row = Record<string, unknown>;
+
+const tables: Record<string, Row[]> = {};
+let seq = 0;
+
+/** 只支持用到的条件：字段相等、{ in }、{ notIn }；其余运算符（gte、OR 等）视为命中 */
+function matchesWhere(row: Row, where: Row = {}): boolean {
+  return Object.entries(where).every(([key, cond]) => {
+    if (cond === undefined) return true;
+    if (cond && typeof cond === "object" && !(cond instanceof Date)) {
+      const op = cond as { in?: unknown[]; notIn?: unknown[] };
+      if (op.in) return op.in.includes(row[key]);
+      if (op.notIn) return !op.notIn.includes(row[key]);
+      return true;
+    }
+    return row[key] === cond;
+  });
+}
+
+function table(name: string) {
+  const rows = () => (tables[name] ??= []);
+  return {
+    findUnique: async ({ where }: { where: Row }) => rows().find((r) => matchesWhere(r, where)) ?? null,
+    findFirst: async ({ where }: { where?: Row } = {}) => rows().find((r) => matchesWhere(r, where)) ?? null,
+    findMany: async ({ where }: { where?: Row } = {}) => rows().filter((r) => matchesWhere(r, where)),
+    count: async ({ where }: { where?: Row } = {}) => rows().filter((r) => matchesWhere(r, where)).length,
+    create: async ({ data }: { data: Row }) => {
+      const row = { id: `${name}_${++seq}`, createdAt: new Date(), ...data };
+      rows().push(row);
+      return row;
+    },
+    update: async ({ where, data }: { where: Row; data: Row }) => {
+      const row = rows().find((r) => matchesWhere(r, where));
+      if (!row) throw new Error(`${name} 不存在`);
+      return Object.assign(row, data);
+    },
+  };
+}
+
+const fakePrisma: Record<string, unknown> = new Proxy(
+  {
+    $transaction: async (fn: (tx: unknown) => Promise<unknown>) => fn(fakePrisma),
+    // 区域连同节点一起加载
+    area: {
+      ...table("area"),
+      findUnique: async ({ where }: { where: Row }) => {
+        const area = (tables.area ?? []).find((r) => r.id === where.id);
+        return area ? { ...area, nodes: (tables.areaNode ?? []).filter((n) => n.areaId === area.id) } : null;
+      },
+    },
+  } as Record<string, unknown>,
+  { get: (target, prop: string) => (target[prop] ??= table(prop)) }
+);
+
+function resetTables(seed: Record<string, Row[]>) {
+  for (const key of Object.keys(tables)) delete tables[key];
+  for (const [key, rows] of Object.entries(seed)) tables[key] = rows.map((r) => ({ ...r }));
+}
+
+// ============================================================
+// 测试
+// ============================================================
+
+let LLMClient: typeof import("../llm-client").LLMClient;
+let getLLMConfig: typeof import("../config").getLLMConfig;
+let processGameMessage: typeof import("../gamemaster").processGameMessage;
+let checkAreaIntegrity: typeof import("../area-operations").checkAreaIntegrity;
+let expandArea: typeof import("../area-operations").expandArea;
+
+const env = process.env as Record<string, string | undefined>;
+const originalNodeEnv = env.NODE_ENV;
+
+before(async () => {
+  // prisma 单例优先取全局实例，须在加载业务模块前替换
+  (globalThis as unknown as { __prisma: unknown }).__prisma = fakePrisma;
+  ({ LLMClient } = await import("../llm-client"));
+  ({ getLLMConfig } = await import("../config"));
+  ({ processGameMessage } = await import("../gamemaster"));
+  ({ checkAreaIntegrity, expandArea } = await import("../area-operations"));
+});
+
+function restoreNodeEnv() {
+  if (originalNodeEnv === undefined) delete env.NODE_ENV;
+  else env.NODE_ENV = originalNodeEnv;
+}
+
+after(() => {
+  delete env.LLM_MOCK_SCENARIO;
+  restoreNodeEnv();
+});
+
+describe("chatStreamWithTools × 模拟剧本", () => {
+  beforeEach(() => resetTables({}));
+
+  function mockClient(scenario: string) {
+    const config: LLMConfig = {
+      apiKey: "",
+      baseUrl: "",
+      model: mockModelId(scenario),
+      temperature: 0,
+      maxTokens: 1024,
+      providerId: "mock",
+    };
+    return new LLMClient(config, { task: "narration", playerId: "p1" });
+  }
+
+  type ToolExecutor = (name: string, args: Record<string, unknown>) => Promise<string>;
+
+  async function collect(client: InstanceType<typeof LLMClient>, executeTool: ToolExecutor = async () => "{}") {
+    const events: Array<{ type: string; [key: string]: unknown }> = [];
+    for await (const event of client.chatStreamWithTools(
+      { model: client.getConfig().model, systemPrompt: "GM", messages: [{ role: "user", content: "看看四周" }] },
+      executeTool
+    )) {
+      events.push(event as { type: string });
+    }
+    return events;
+  }
+
+  it("工具调用 → 执行 → 结果回传后继续叙事", async () => {
+    const scenario = defineMockScenario("stream-tool-loop", (s) => s
+      .toolCall("get_player_state", { detail: true })
+      .text('{"narrative":"你的状态良好。"}'));
+
+    const executed: Array<{ name: string; args: Record<string, unknown> }> = [];
+    const events = await collect(mockClient("stream-tool-loop"), async (name, args) => {
+      executed.push({ name, args });
+      return '{"success":true,"data":{"hp":100}}';
+    });
+
+    assert.deepEqual(executed, [{ name: "get_player_state", args: { detail: true } }]);
+    assert.deepEqual(
+      events.map((e) => e.type).filter((type) => type !== "text"),
+      ["tool_call_start", "tool_call_args_delta", "tool_call_args_delta", "tool_call_end", "done", "tool_executed", "done"]
+    );
+    assert.equal(events.filter((e) => e.type === "text").map((e) => e.content).join(""), '{"narrative":"你的状态良好。"}');
+    assert.equal(events.at(-1)?.provider, "mock");
+
+    // 第二次调用带上了工具结果
+    assert.equal(scenario.calls.length, 2);
+    const toolResult = scenario.calls[1].messages.at(-1);
+    assert.equal(toolResult?.role, "tool_result");
+    assert.equal(toolResult?.content, '{"success":true,"data":{"hp":100}}');
+    assert.equal(scenario.remaining, 0);
+  });
+
+  it("max_tokens 截断在 done 事件上标出", async () => {
+    defineMockScenario("stream-truncated", (s) => s.truncated('{"narrative":"说到一半'));
+    const events = await collect(mockClient("stream-truncated"));
+    assert.equal(events.at(-1)?.stopReason, "max_tokens");
+  });
+
+  it("输出中途出错时转发错误事件", async () => {
+    defineMockScenario("stream-error", (s) => s.error("上游 502", { afterText: '{"narrative":"海风' }));
+    const events = await collect(mockClient("stream-error"));
+    assert.deepEqual(events.map((e) => e.type), ["text", "error"]);
+    assert.equal(events[1].message, "上游 502");
+  });
+
+  it("模拟调用不写入用量账本", async () => {
+    defineMockScenario("stream-usage", (s) => s.text('{"narrative":"平静。"}'));
+    await collect(mockClient("stream-usage"));
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.equal((tables.llmUsage ?? []).length, 0);
+  });
+});
+
+describe("LLM_MOCK_SCENARIO", () => {
+  beforeEach(() => resetTables({}));
+
+  it("非生产环境路由到剧本", async () => {
+    env.LLM_MOCK_SCENARIO = "any";
+    const config = await getLLMConfig("narration");
+    assert.equal(config.model, mockModelId("any"));
+    assert.equal(config.providerId, "mock");
+  });
+
+  it("生产环境忽略", async () => {
+    env.LLM_MOCK_SCENARIO = "any";
+    env.NODE_ENV = "production";
+    try {
+      const config = await getLLMConfig("narration");
+      assert.notEqual(config.providerId, "mock");
+      assert.ok(!config.model.startsWith(mockModelId("")));
+    } finally {
+      restoreNodeEnv();
+    }
+  });
+});
+
+describe("任务默认模型", () => {
+  const saved = { TUZI_API_KEY: env.TUZI_API_KEY, OPENROUTER_API_KEY: env.OPENROUTER_API_KEY, LLM_MODEL: env.LLM_MODEL };
+
+  beforeEach(() => {
+    resetTables({});
+    delete env.LLM_MOCK_SCENARIO;
+    // 全局模型在另一家已配置的渠道商上
+    env.LLM_MODEL = "moonshotai/kimi-k2.5";
+    env.OPENROUTER_API_KEY = "test-key";
+  });
+
+  after(() => {
+    for (const [key, value] of Object.entries(saved)) {
+      if (value === undefined) delete env[key];
+      else env[key] = value;
+    }
+  });
+
+  it("渠道商已配置时优先于全局模型", async () => {
+    env.TUZI_API_KEY = "test-key";
+    assert.equal((await getLLMConfig("supervisor")).model, "gpt-4o-mini");
+  });
+
+  it("渠道商未配置时回落到全局模型", async () => {
+    delete env.TUZI_API_KEY;
+    const config = await getLLMConfig("supervisor");
+    assert.equal(config.model, "moonshotai/kimi-k2.5");
+    assert.equal(config.providerId, "openrouter");
+  });
+});
+
+describe("GameMaster 幻觉自检", () => {
+  beforeEach(() =>
+    resetTables({
+      player: [{
+        id: "p1", name: "阿海", race: "human", realm: "ocean", level: 3,
+        hp: 100, mp: 50, gold: 20, spiritStones: 0, exp: 0,
+        currentAreaId: null, currentNodeId: null,
+        skills: [], inventory: [], equipment: [], quests: [],
+      }],
+    })
+  );
+
+  /** 读完 SSE 响应 */
+  async function readEvents(response: Response) {
+    const body = await response.text();
+    return body
+      .split("\n\n")
+      .filter((chunk) => chunk.startsWith("data: "))
+      .map((chunk) => JSON.parse(chunk.slice("data: ".length)) as { type: string; data: Record<string, unknown> });
+  }
+
+  it("叙事声称获得物品却没调工具 → 追加系统纠错消息重试，补调工具", async () => {
+    const scenario = defineMockScenario("gm-hallucination", (s) => s
+      .text('{"narrative":"你获得了一瓶回春药水。"}')
+      .toolCall("add_item", { items: [{ name: "回春药水", type: "consumable" }] }, { match: "[SYSTEM ERROR]" })
+      .text('{"narrative":"回春药水已经放进你的行囊。"}'));
+    env.LLM_MOCK_SCENARIO = "gm-hallucination";
+
+    const events = await readEvents(
+      await processGameMessage({ playerId: "p1", message: "/gm 给我一瓶回春药水", skipBackgroundTasks: true })
+    );
+
+    assert.ok(events.some((e) => e.type === "thinking" && e.data.message === "正在核实道具入库..."));
+    assert.ok(events.some((e) => e.type === "tool_result" && e.data.tool === "add_item" && e.data.success));
+    assert.equal(events.at(-1)?.type, "done");
+
+    // 第 1 次叙事 → 带纠错消息的第 2 次调用 → 工具结果后的第 3 次调用
+    assert.equal(scenario.calls.length, 3);
+    assert.equal(scenario.remaining, 0);
+    const retryMessages = scenario.calls[1].messages;
+    assert.equal(retryMessages.at(-2)?.content, "你获得了一瓶回春药水。");
+    assert.match(retryMessages.at(-1)?.content ?? "", /^\[SYSTEM ERROR\]/);
+
+    assert.deepEqual(
+      (tables.inventoryItem ?? []).map((i) => i.name),
+      ["回春药水"]
+    );
+    const saved = (tables.chatHistory ?? []).map((r) => [r.role, r.content]);
+    assert.deepEqual(saved, [
+      ["user", "/gm 给我一瓶回春药水"],
+      ["assistant", "回春药水已经放进你的行囊。"],
+    ]);
+    assert.equal((tables.llmUsage ?? []).length, 0);
+  });
+});
+
+describe("区域检查 / 扩展 × 模拟剧本", () => {
+  const seed = () => ({
+    area: [{ id: "a1", name: "潮音湾", theme: "ocean", recommendedLevel: 5, description: "海边的渔村与礁石滩" }],
+    areaNode: [
+      { id: "n1", areaId: "a1", name: "渔村", type: "safe", description: "低矮的木屋沿着海岸排开，渔网晾在竹竿上", data: { hints: [] }, posX: 0, posY: 0 },
+      { id: "n2", areaId: "a1", name: "礁石滩", type: "battle", description: "潮水退去后露出嶙峋的黑色礁石", data: {}, posX: 1, posY: 0 },
+    ],
+    areaNodeConnection: [
+      { id: "c1", fromId: "n1", toId: "n2" },
+      { id: "c2", fromId: "n2", toId: "n1" },
+    ],
+  });
+
+  beforeEach(() => resetTables(seed()));
+
+  it("checkAreaIntegrity：AI 修复缺失数据后下一轮检查通过", async () => {
+    const fixedData = {
+      enemyTemplates: [{ name: "礁石蟹", level: 5, element: "water", minCount: 1, maxCount: 2, description: "钳子坚硬" }],
+    };
+    const scenario = defineMockScenario("area-check", (s) => s
+      .text(JSON.stringify({ issue: "缺少敌人", fixDescription: "补充礁石蟹", fixedData }), { match: "礁石滩" }));
+    env.LLM_MOCK_SCENARIO = "area-check";
+
+    const events: Array<{ type: string; data?: unknown }> = [];
+    await checkAreaIntegrity("a1", "p1", (event) => events.push(event));
+
+    assert.equal(scenario.calls.length, 1);
+    assert.equal(scenario.remaining, 0);
+    assert.deepEqual(tables.areaNode.find((n) => n.id === "n2")?.data, fixedData);
+    const summary = events.find((e) => e.type === "summary")?.data as { issuesFound: number; issuesFixed: number };
+    assert.equal(summary.issuesFound, 1);
+    assert.equal(summary.issuesFixed, 1);
+    assert.ok(events.some((e) => e.type === "checking" && /第 2 轮检查通过/.test((e as { message?: string }).message ?? "")));
+    assert.equal(events.at(-1)?.type, "done");
+  });
+
+  it("expandArea：写入新节点与双向连接", async () => {
+    const scenario = defineMockScenario("area-expand", (s) => s.text(JSON.stringify({
+      nodes: [
+        { id: "new-cove", name: "避风湾", type: "safe", description: "海湾里泊着几条小船", data: { hints: ["涨潮时别靠近礁石"] }, connectTo: "n2" },
+        {
+          id: "new-reef", name: "珊瑚礁", type: "battle", description: "彩色珊瑚间游弋着海妖",
+          data: { enemyTemplates: [{ name: "海妖", level: 6, element: "water", minCount: 1, maxCount: 1, description: "歌声迷人" }] },
+          connectTo: "",
+        },
+      ],
+      internalConnections: [["new-cove", "new-reef"]],
+    })));
+    env.LLM_MOCK_SCENARIO = "area-expand";
+
+    const events: Array<{ type: string; data?: unknown }> = [];
+    await expandArea("a1", "p1", 0.5, "", (event) => events.push(event));
+
+    assert.equal(scenario.remaining, 0);
+    assert.match(scenario.calls[0].messages[0].content, /生成 2 个新节点/);
+
+    const created = tables.areaNode.filter((n) => n.areaId === "a1" && !["n1", "n2"].includes(n.id as string));
+    assert.deepEqual(created.map((n) => n.name), ["避风湾", "珊瑚礁"]);
+    const [cove, reef] = created.map((n) => n.id);
+    const links = tables.areaNodeConnection.map((c) => `${c.fromId}->${c.toId}`);
+    for (const link of [`${cove}->n2`, `n2->${cove}`, `${cove}->${reef}`, `${reef}->${cove}`]) {
+      assert.ok(links.includes(link), link);
+    }
+
+    assert.equal(events.filter((e) => e.type === "node_created").length, 2);
+    const summary = events.find((e) => e.type === "summary")?.data as { newNodes: number; newConnections: number };
+    assert.deepEqual([summary.newNodes, summary.newConnections], [2, 2]);
+  });
+
+  it("expandArea：AI 调用失败时报错且不写入", async () => {
+    defineMockScenario("area-expand-fail", (s) => s.error("上游 502"));
+    env.LLM_MOCK_SCENARIO = "area-expand-fail";
+
+    const events: Array<{ type: string; message?: string }> = [];
+    await expandArea("a1", "p1", 0.5, "", (event) => events.push(event));
+
+    assert.equal(tables.areaNode.length, 2);
+    assert.ok(events.some((e) => e.type === "error" && /上游 502/.test(e.message ?? "")));
+    assert.equal(events.at(-1)?.type, "done");
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { OpenAIAdapter } from "../adapters/openai-adapter";
+import type { LLMConfig, StreamEvent } from "../adapters/types";
+
+const config: LLMConfig = {
+  apiKey: "test-key",
+  baseUrl: "http://llm.test",
+  model: "gpt-4o-mini",
+  temperature: 0,
+  maxTokens: 100,
+};
+
+const originalFetch = globalThis.fetch;
+
+/** 用给定的 SSE 文本替换 fetch，记录请求体 */
+function stubFetch(sse: string): { body?: Record<string, unknown> } {
+  const captured: { body?: Record<string, unknown> } = {};
+  globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+    captured.body = JSON.parse(String(init?.body));
+    return new Response(sse, { status: 200, headers: { "Content-Type": "text/event-stream" } });
+  }) as typeof fetch;
+  return captured;
+}
+
+async function collect(stream: AsyncIterable<StreamEvent>): Promise<StreamEvent[]> {
+  const events: StreamEvent[] = [];
+  for await (const event of stream) events.push(event);
+  return events;
+}
+
+const sseLine = (data: unknown) => `data: ${typeof data === "string" ? data : JSON.stringify(data)}\n\n`;
+
+describe("OpenAIAdapter.chatStream 用量", () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("请求 include_usage，并把最后的用量 chunk 写入 done", async () => {
+    const captured = stubFetch(
+      sseLine({ choices: [{ delta: { content: "你好" } }] }) +
+        sseLine({ choices: [{ delta: {}, finish_reason: "stop" }] }) +
+        sseLine({
+          choices: [],
+          usage: { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150, prompt_tokens_details: { cached_tokens: 64 } },
+        }) +
+        sseLine("[DONE]")
+    );
+
+    const events = await collect(
+      new OpenAIAdapter().chatStream({ model: "gpt-4o-mini", systemPrompt: "", messages: [{ role: "user", content: "hi" }] }, config)
+    );
+
+    assert.deepEqual(captured.body?.stream_options, { include_usage: true });
+    assert.deepEqual(events.at(-1), {
+      type: "done",
+      stopReason: "end",
+      usage: { inputTokens: 120, outputTokens: 30, cachedInputTokens: 64 },
+    });
+  });
+
+  it("用量 chunk 后没有换行也能解析", async () => {
+    stubFetch(
+      sseLine({ choices: [{ delta: { content: "好" }, finish_reason: "stop" }] }) +
+        `data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 } })}`
+    );
+
+    const events = await collect(
+      new OpenAIAdapter().chatStream({ model: "gpt-4o-mini", systemPrompt: "", messages: [{ role: "user", content: "hi" }] }, config)
+    );
+
+    const done = events.at(-1);
+    assert.equal(done?.type, "done");
+    assert.deepEqual(done?.type === "done" ? done.usage : null, { inputTokens: 10, outputTokens: 2, cachedInputTokens: 0 });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseToolCallsFromText } from "../adapters/prompt-tool-adapter";
+
+describe("parseToolCallsFromText", () => {
+  it("普通文本不解析出工具调用", () => {
+    const text = "你推开木门，屋内空无一人。";
+    assert.deepEqual(parseToolCallsFromText(text), { toolCalls: [], content: text });
+  });
+
+  it("```json 代码块中的协议 JSON", () => {
+    const text = '```json\n{"tool_calls": [{"name": "move_to_node", "arguments": {"nodeId": "n1"}}]}\n```';
+    const { toolCalls, content } = parseToolCallsFromText(text);
+    assert.equal(toolCalls.length, 1);
+    assert.equal(toolCalls[0].name, "move_to_node");
+    assert.deepEqual(toolCalls[0].arguments, { nodeId: "n1" });
+    assert.equal(content, "");
+  });
+
+  it("协议 JSON 前后有杂文", () => {
+    const { toolCalls } = parseToolCallsFromText('好的，我来查一下。\n{"tool_calls": [{"name": "get_player_state", "arguments": {}}]}\n稍等。');
+    assert.deepEqual(toolCalls.map((c) => c.name), ["get_player_state"]);
+  });
+
+  it("一次返回多个调用，保留其余字段作为文本", () => {
+    const text = JSON.stringify({
+      narrative: "你检查了背包。",
+      tool_calls: [
+        { name: "get_player_state", arguments: {} },
+        { name: "use_item", arguments: '{"itemId": "i1"}' },
+      ],
+    });
+    const { toolCalls, content } = parseToolCallsFromText(text);
+    assert.deepEqual(toolCalls.map((c) => c.name), ["get_player_state", "use_item"]);
+    assert.deepEqual(toolCalls[1].arguments, { itemId: "i1" });
+    assert.notEqual(toolCalls[0].id, toolCalls[1].id);
+    assert.deepEqual(JSON.parse(content), { narrative: "你检查了背包。" });
+  });
+
+  it("多个 <tool_call> 标签，标签外文本保留", () => {
+    const text = '先看看周围。\n<tool_call>{"name": "a", "arguments": {"x": 1}}</tool_call>\n<tool_call>{"name": "b"}</tool_call>';
+    const { toolCalls, content } = parseToolCallsFromText(text);
+    assert.deepEqual(toolCalls.map((c) => c.name), ["a", "b"]);
+    assert.deepEqual(toolCalls[0].arguments, { x: 1 });
+    assert.deepEqual(toolCalls[1].arguments, {});
+    assert.equal(content, "先看看周围。");
+  });
+
+  it("残缺 JSON 原样作为文本返回", () => {
+    const text = '{"tool_calls": [{"name": "move_to_node", "arguments": {';
+    assert.deepEqual(parseToolCallsFromText(text), { toolCalls: [], content: text });
+  });
+
+  it("标签内不是 JSON 时不算调用", () => {
+    const text = "<tool_call>move north</tool_call>";
+    assert.deepEqual(parseToolCallsFromText(text), { toolCalls: [], content: text });
+  });
+
+  it("参数字符串无法解析时按空参数，缺少 name 的条目跳过", () => {
+    const { toolCalls } = parseToolCallsFromText(
+      '{"tool_calls": [{"name": "rest", "arguments": "{oops"}, {"arguments": {}}, "junk"]}'
+    );
+    assert.equal(toolCalls.length, 1);
+    assert.equal(toolCalls[0].name, "rest");
+    assert.deepEqual(toolCalls[0].arguments, {});
+  });
+
+  it("tool_calls 为空数组时不视为工具调用", () => {
+    const text = '{"narrative": "无事发生", "tool_calls": []}';
+    assert.deepEqual(parseToolCallsFromText(text), { toolCalls: [], content: text });
+  });
+});
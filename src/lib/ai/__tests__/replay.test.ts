@@ -0,0 +1,71 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { join } from "node:path";
+import { LLMClient, setAdapterInterceptor } from "../llm-client";
+import { LLMReplay, ReplayAdapter, loadFixture, type LLMFixture } from "../adapters/record-replay";
+import type { LLMConfig } from "../adapters/types";
+
+/** 录制的一轮工具循环：get_player_state → 叙事（OpenAI 格式流式应答） */
+const FIXTURE_PATH = join(__dirname, "fixtures", "tool-loop.json");
+
+const config: LLMConfig = {
+  apiKey: "",
+  baseUrl: "http://llm.test",
+  model: "gpt-4o-mini",
+  temperature: 0.7,
+  maxTokens: 2048,
+  providerId: "tuzi",
+};
+
+type LoopEvent = { type: string; name?: string; result?: string };
+
+/** 用夹具回放工具循环，工具结果取自录制时的 tool_executed 事件 */
+async function replayLoop(fixture: LLMFixture, overrides: { systemPrompt?: string } = {}) {
+  const replay = new LLMReplay(fixture, { strict: true });
+  setAdapterInterceptor((adapter) => new ReplayAdapter(replay, adapter));
+
+  const recordedResults = (fixture.sse as LoopEvent[]).filter((e) => e.type === "tool_executed");
+  const { systemPrompt, dynamicContext, messages, tools } = fixture.exchanges[0].request;
+  const events: unknown[] = [];
+  for await (const event of new LLMClient(config).chatStreamWithTools(
+    { model: config.model, systemPrompt, dynamicContext, messages, tools, ...overrides },
+    async (name) => {
+      const recorded = recordedResults.shift();
+      assert.equal(recorded?.name, name);
+      return recorded!.result!;
+    }
+  )) {
+    events.push(event);
+  }
+  return { events, remaining: replay.remaining };
+}
+
+const originalFetch = globalThis.fetch;
+
+describe("LLM 夹具回放", () => {
+  afterEach(() => {
+    setAdapterInterceptor(null);
+    globalThis.fetch = originalFetch;
+  });
+
+  it("不发网络请求，输出与录制时逐条一致", async () => {
+    globalThis.fetch = (async () => {
+      throw new Error("回放不应发出网络请求");
+    }) as unknown as typeof fetch;
+
+    const fixture = await loadFixture(FIXTURE_PATH);
+    const { events, remaining } = await replayLoop(fixture);
+
+    assert.deepEqual(events, fixture.sse);
+    assert.equal(remaining, 0);
+  });
+
+  it("strict 模式下系统提示词对不上时报错", async () => {
+    const fixture = await loadFixture(FIXTURE_PATH);
+    const { events } = await replayLoop(fixture, { systemPrompt: "另一套提示词" });
+
+    const last = events.at(-1) as { type: string; message?: string };
+    assert.equal(last.type, "error");
+    assert.match(last.message ?? "", /没有系统提示词匹配/);
+  });
+});
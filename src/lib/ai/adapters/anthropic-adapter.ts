@@ -7,6 +7,9 @@
  * 注意：Tuzi API 对 Anthropic 的兼容可能有限，
  * 实际上 Claude 模型也可能走 OpenAI 兼容端点。
  * 如果 Anthropic 端点不通，会自动降级为 OpenAI 格式。
+ *
+ * 提示词缓存：系统提示词拆成静态块 + 动态块，静态块末尾设置 cache_control 断点，
+ * 工具定义与静态系统提示词跨轮次命中缓存（命中部分计入 usage.cachedInputTokens）。
  */
 
 import type {
@@ -17,9 +20,11 @@ import type {
   NormalizedMessage,
   NormalizedTool,
   StreamEvent,
+  TokenUsage,
   ToolCall,
   ToolResult,
 } from "./types";
+import { DEFAULT_REQUEST_TIMEOUT_MS } from "./types";
 
 // ============================================================
 // 类型定义
@@ -41,10 +46,16 @@ interface AnthropicTool {
   input_schema: Record<string, unknown>;
 }
 
+interface AnthropicSystemBlock {
+  type: "text";
+  text: string;
+  cache_control?: { type: "ephemeral" };
+}
+
 interface AnthropicRequestBody {
   model: string;
   max_tokens: number;
-  system?: string;
+  system?: AnthropicSystemBlock[];
   messages: AnthropicMessage[];
   temperature?: number;
   tools?: AnthropicTool[];
@@ -65,7 +76,15 @@ interface AnthropicResponse {
   role: string;
   content: AnthropicResponseBlock[];
   stop_reason: string;
-  usage: { input_tokens: number; output_tokens: number };
+  usage: AnthropicUsage;
+}
+
+interface AnthropicUsage {
+  /** 不含缓存读写部分的输入 token */
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
 }
 
 // ============================================================
@@ -80,6 +99,30 @@ function toAnthropicTools(tools: NormalizedTool[]): AnthropicTool[] {
   }));
 }
 
+/**
+ * 系统提示词：静态部分带缓存断点，动态上下文放在断点之后
+ */
+function toAnthropicSystem(request: LLMRequest): AnthropicSystemBlock[] | undefined {
+  const blocks: AnthropicSystemBlock[] = [];
+  if (request.systemPrompt) {
+    blocks.push({ type: "text", text: request.systemPrompt, cache_control: { type: "ephemeral" } });
+  }
+  if (request.dynamicContext) {
+    blocks.push({ type: "text", text: request.dynamicContext });
+  }
+  return blocks.length > 0 ? blocks : undefined;
+}
+
+/** Anthropic 的 input_tokens 不含缓存读写部分，统一为总输入 + 命中数 */
+function toTokenUsage(usage: Partial<AnthropicUsage> | undefined, outputTokens?: number): TokenUsage {
+  const cacheRead = usage?.cache_read_input_tokens ?? 0;
+  return {
+    inputTokens: (usage?.input_tokens ?? 0) + (usage?.cache_creation_input_tokens ?? 0) + cacheRead,
+    outputTokens: outputTokens ?? usage?.output_tokens ?? 0,
+    cachedInputTokens: cacheRead,
+  };
+}
+
 function toAnthropicMessages(messages: NormalizedMessage[]): AnthropicMessage[] {
   const result: AnthropicMessage[] = [];
 
@@ -141,7 +184,7 @@ export class AnthropicAdapter implements LLMAdapter {
     const body: AnthropicRequestBody = {
       model: request.model,
       max_tokens: request.maxTokens ?? config.maxTokens,
-      system: request.systemPrompt,
+      system: toAnthropicSystem(request),
       messages: toAnthropicMessages(request.messages),
       temperature: request.temperature ?? config.temperature,
       stream: false,
@@ -151,8 +194,9 @@ export class AnthropicAdapter implements LLMAdapter {
       body.tools = toAnthropicTools(request.tools);
     }
 
+    const timeoutMs = config.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
     const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 180_000);
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
 
     try {
       const res = await fetch(url, {
@@ -164,7 +208,7 @@ export class AnthropicAdapter implements LLMAdapter {
           ...(config.extraHeaders || {}),
         },
         body: JSON.stringify(body),
-        signal: controller.signal,
+        signal: request.signal ? AbortSignal.any([controller.signal, request.signal]) : controller.signal,
       });
 
       if (!res.ok) {
@@ -192,10 +236,7 @@ export class AnthropicAdapter implements LLMAdapter {
       return {
         content: text,
         toolCalls,
-        usage: {
-          inputTokens: data.usage?.input_tokens ?? 0,
-          outputTokens: data.usage?.output_tokens ?? 0,
-        },
+        usage: toTokenUsage(data.usage),
         stopReason:
           data.stop_reason === "tool_use"
             ? "tool_use"
@@ -218,7 +259,7 @@ export class AnthropicAdapter implements LLMAdapter {
     const body: AnthropicRequestBody = {
       model: request.model,
       max_tokens: request.maxTokens ?? config.maxTokens,
-      system: request.systemPrompt,
+      system: toAnthropicSystem(request),
       messages: toAnthropicMessages(request.messages),
       temperature: request.temperature ?? config.temperature,
       stream: true,
@@ -228,8 +269,9 @@ export class AnthropicAdapter implements LLMAdapter {
       body.tools = toAnthropicTools(request.tools);
     }
 
+    const timeoutMs = config.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
     const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 180_000);
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
 
     try {
       const res = await fetch(url, {
@@ -241,7 +283,7 @@ export class AnthropicAdapter implements LLMAdapter {
           ...(config.extraHeaders || {}),
         },
         body: JSON.stringify(body),
-        signal: controller.signal,
+        signal: request.signal ? AbortSignal.any([controller.signal, request.signal]) : controller.signal,
       });
 
       if (!res.ok || !res.body) {
@@ -253,7 +295,7 @@ export class AnthropicAdapter implements LLMAdapter {
       const reader = res.body.getReader();
       const decoder = new TextDecoder();
       let buffer = "";
-      let inputTokens = 0;
+      let inputUsage: Partial<AnthropicUsage> | undefined;
       let outputTokens = 0;
       let lastStopReason: string | null = null;
       let currentToolUseId = "";
@@ -284,7 +326,7 @@ export class AnthropicAdapter implements LLMAdapter {
           switch (event.type) {
             case "message_start":
               if (event.message?.usage) {
-                inputTokens = event.message.usage.input_tokens ?? 0;
+                inputUsage = event.message.usage;
               }
               break;
 
@@ -349,7 +391,7 @@ export class AnthropicAdapter implements LLMAdapter {
       yield {
         type: "done",
         stopReason: lastStopReason === "max_tokens" ? "max_tokens" : lastStopReason === "tool_use" ? "tool_use" : "end",
-        usage: { inputTokens, outputTokens },
+        usage: toTokenUsage(inputUsage, outputTokens),
       };
     } finally {
       clearTimeout(timeout);
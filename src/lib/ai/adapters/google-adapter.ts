@@ -25,6 +25,7 @@ import type {
   ToolCall,
   ToolResult,
 } from "./types";
+import { DEFAULT_REQUEST_TIMEOUT_MS } from "./types";
 
 // ============================================================
 // Google Gemini 类型
@@ -72,6 +73,8 @@ interface GeminiResponse {
     promptTokenCount?: number;
     candidatesTokenCount?: number;
     totalTokenCount?: number;
+    /** 隐式缓存命中的输入 token */
+    cachedContentTokenCount?: number;
   };
 }
 
@@ -94,6 +97,14 @@ function toGeminiTools(
   ];
 }
 
+/** 系统提示词：静态部分在前、动态上下文在后，保持前缀稳定以命中隐式缓存 */
+function toGeminiSystemInstruction(request: LLMRequest): GeminiRequestBody["systemInstruction"] {
+  const parts = [request.systemPrompt, request.dynamicContext]
+    .filter((text): text is string => Boolean(text))
+    .map((text) => ({ text }));
+  return parts.length > 0 ? { parts } : undefined;
+}
+
 /** 将标准化消息转为 Gemini contents（不含 system） */
 function toGeminiContents(messages: NormalizedMessage[]): GeminiContent[] {
   const result: GeminiContent[] = [];
@@ -199,11 +210,7 @@ export class GoogleAdapter implements LLMAdapter {
     };
 
     // System prompt
-    if (request.systemPrompt) {
-      body.systemInstruction = {
-        parts: [{ text: request.systemPrompt }],
-      };
-    }
+    body.systemInstruction = toGeminiSystemInstruction(request);
 
     // 工具
     if (request.tools && request.tools.length > 0) {
@@ -217,8 +224,9 @@ export class GoogleAdapter implements LLMAdapter {
     };
 
     // 超时控制
+    const timeoutMs = config.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
     const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 180_000);
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
 
     try {
       const res = await fetch(url, {
@@ -229,7 +237,7 @@ export class GoogleAdapter implements LLMAdapter {
           ...(config.extraHeaders || {}),
         },
         body: JSON.stringify(body),
-        signal: controller.signal,
+        signal: request.signal ? AbortSignal.any([controller.signal, request.signal]) : controller.signal,
       });
 
       if (!res.ok) {
@@ -256,6 +264,7 @@ export class GoogleAdapter implements LLMAdapter {
         usage: {
           inputTokens: data.usageMetadata?.promptTokenCount ?? 0,
           outputTokens: data.usageMetadata?.candidatesTokenCount ?? 0,
+          cachedInputTokens: data.usageMetadata?.cachedContentTokenCount ?? 0,
         },
         stopReason:
           candidate.finishReason === "MAX_TOKENS"
@@ -280,11 +289,7 @@ export class GoogleAdapter implements LLMAdapter {
       contents: toGeminiContents(request.messages),
     };
 
-    if (request.systemPrompt) {
-      body.systemInstruction = {
-        parts: [{ text: request.systemPrompt }],
-      };
-    }
+    body.systemInstruction = toGeminiSystemInstruction(request);
 
     if (request.tools && request.tools.length > 0) {
       body.tools = toGeminiTools(request.tools);
@@ -295,8 +300,9 @@ export class GoogleAdapter implements LLMAdapter {
       maxOutputTokens: request.maxTokens ?? config.maxTokens,
     };
 
+    const timeoutMs = config.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
     const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 180_000);
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
 
     try {
       const res = await fetch(url, {
@@ -307,7 +313,7 @@ export class GoogleAdapter implements LLMAdapter {
           ...(config.extraHeaders || {}),
         },
         body: JSON.stringify(body),
-        signal: controller.signal,
+        signal: request.signal ? AbortSignal.any([controller.signal, request.signal]) : controller.signal,
       });
 
       if (!res.ok || !res.body) {
@@ -324,6 +330,7 @@ export class GoogleAdapter implements LLMAdapter {
       let buffer = "";
       let inputTokens = 0;
       let outputTokens = 0;
+      let cachedInputTokens = 0;
       let lastFinishReason: string | null = null;
 
       while (true) {
@@ -376,6 +383,7 @@ export class GoogleAdapter implements LLMAdapter {
           if (chunk.usageMetadata) {
             inputTokens = chunk.usageMetadata.promptTokenCount ?? 0;
             outputTokens = chunk.usageMetadata.candidatesTokenCount ?? 0;
+            cachedInputTokens = chunk.usageMetadata.cachedContentTokenCount ?? 0;
           }
         }
       }
@@ -383,7 +391,7 @@ export class GoogleAdapter implements LLMAdapter {
       yield {
         type: "done",
         stopReason: lastFinishReason === "MAX_TOKENS" ? "max_tokens" : lastFinishReason === "STOP" ? "end" : "end",
-        usage: { inputTokens, outputTokens },
+        usage: { inputTokens, outputTokens, cachedInputTokens },
       };
     } finally {
       clearTimeout(timeout);
@@ -0,0 +1,280 @@
+/**
+ * 模拟适配器（进程内，无网络）
+ *
+ * 按「剧本」返回预先写好的应答，用于端到端测试 chatStreamWithTools、
+ * GameMaster 的幻觉自检重试、区域检查 / 扩展等依赖 LLM 的流程。
+ *
+ * 选用方式：
+ * - 模型 ID 以 MOCK_MODEL_PREFIX 开头（如 "mock:battle-basic"），getApiFormat 返回 "mock"
+ * - 或设置环境变量 LLM_MOCK_SCENARIO=<剧本名>，所有任务都路由到该剧本（见 config.ts 的 getLLMConfig）
+ *
+ * 剧本 DSL：
+ * ```ts
+ * defineMockScenario("hallucination-fix", (s) => s
+ *   .text('{"narrative":"你掏出 5 金币放在柜台上。"}')        // 第 1 次调用：未调工具就描述交易
+ *   .toolCall("interact_npc", { npcId: "n1", action: "buy" }) // 第 2 次：自检后补调工具
+ *   .text('{"narrative":"掌柜收下金币。"}')                   // 第 3 次：工具结果回来后的叙事
+ *   .truncated('{"narrative":"说到一半', { match: /区域/ })     // 只响应含「区域」的请求，max_tokens 截断
+ *   .error("上游 502"));                                       // 调用失败
+ * ```
+ *
+ * 每次调用取第一条未使用、且 match 命中（缺省命中任何请求）的步骤；
+ * 剧本用完时调用失败。scenario.calls 记录收到的请求，供断言。
+ */
+
+import type {
+  LLMAdapter,
+  LLMRequest,
+  LLMResponse,
+  NormalizedMessage,
+  StreamEvent,
+  ToolCall,
+  ToolResult,
+} from "./types";
+import { MOCK_MODEL_PREFIX } from "./types";
+import { estimateTokens } from "../token-estimator";
+
+// ============================================================
+// 剧本
+// ============================================================
+
+/**
+ * 步骤匹配条件
+ *
+ * 字符串 / 正则匹配「系统提示词 + 最后一条消息」，函数直接判断请求。
+ */
+export type MockMatcher = string | RegExp | ((request: LLMRequest) => boolean);
+
+/** 剧本步骤 */
+export type MockStep = { match?: MockMatcher } & (
+  | { kind: "text"; text: string }
+  | { kind: "tool_calls"; calls: Array<{ name: string; arguments: Record<string, unknown> }>; text?: string }
+  /** 输出 text 后以 max_tokens 结束 */
+  | { kind: "truncated"; text: string }
+  /** 调用失败；流式调用先输出 afterText 再报错 */
+  | { kind: "error"; message: string; afterText?: string }
+);
+
+/**
+ * 模拟剧本（链式 DSL）
+ */
+export class MockScenario {
+  readonly steps: MockStep[] = [];
+  /** 收到的请求（按调用顺序） */
+  readonly calls: LLMRequest[] = [];
+  private used: boolean[] = [];
+
+  constructor(readonly name: string) {}
+
+  /** 文本应答 */
+  text(text: string, options: { match?: MockMatcher } = {}): this {
+    return this.push({ kind: "text", text, ...options });
+  }
+
+  /** 单个工具调用（可附带调用前的文本） */
+  toolCall(name: string, args: Record<string, unknown>, options: { text?: string; match?: MockMatcher } = {}): this {
+    return this.toolCalls([{ name, arguments: args }], options);
+  }
+
+  /** 同一轮的多个工具调用 */
+  toolCalls(
+    calls: Array<{ name: string; arguments: Record<string, unknown> }>,
+    options: { text?: string; match?: MockMatcher } = {}
+  ): this {
+    return this.push({ kind: "tool_calls", calls, ...options });
+  }
+
+  /** 输出被 max_tokens 截断 */
+  truncated(text: string, options: { match?: MockMatcher } = {}): this {
+    return this.push({ kind: "truncated", text, ...options });
+  }
+
+  /** 调用失败 */
+  error(message: string, options: { afterText?: string; match?: MockMatcher } = {}): this {
+    return this.push({ kind: "error", message, ...options });
+  }
+
+  /** 未使用的步骤数（测试结束时通常应为 0） */
+  get remaining(): number {
+    return this.used.filter((u) => !u).length;
+  }
+
+  /** 重置进度与调用记录（剧本可重复使用） */
+  reset(): void {
+    this.used = this.steps.map(() => false);
+    this.calls.length = 0;
+  }
+
+  /** 取出与请求对应的步骤 */
+  take(request: LLMRequest): MockStep {
+    this.calls.push(request);
+    const index = this.steps.findIndex((step, i) => !this.used[i] && matches(step.match, request));
+    if (index === -1) {
+      throw new Error(`[MockLLM] 剧本 "${this.name}" 没有可用的步骤（第 ${this.calls.length} 次调用）`);
+    }
+    this.used[index] = true;
+    return this.steps[index];
+  }
+
+  private push(step: MockStep): this {
+    this.steps.push(step);
+    this.used.push(false);
+    return this;
+  }
+}
+
+function matches(matcher: MockMatcher | undefined, request: LLMRequest): boolean {
+  if (!matcher) return true;
+  if (typeof matcher === "function") return matcher(request);
+  const lastMessage = request.messages[request.messages.length - 1]?.content ?? "";
+  const haystack = `${request.systemPrompt}\n${lastMessage}`;
+  return typeof matcher === "string" ? haystack.includes(matcher) : matcher.test(haystack);
+}
+
+const scenarios = new Map<string, MockScenario>();
+
+/** 定义并注册剧本（同名覆盖） */
+export function defineMockScenario(name: string, build: (scenario: MockScenario) => void): MockScenario {
+  const scenario = new MockScenario(name);
+  build(scenario);
+  scenarios.set(name, scenario);
+  return scenario;
+}
+
+/** 已注册的剧本 */
+export function getMockScenario(name: string): MockScenario | undefined {
+  return scenarios.get(name);
+}
+
+/** 清空所有剧本 */
+export function clearMockScenarios(): void {
+  scenarios.clear();
+}
+
+/** 剧本对应的模型 ID */
+export function mockModelId(scenario: string): string {
+  return MOCK_MODEL_PREFIX + scenario;
+}
+
+// ============================================================
+// 适配器实现
+// ============================================================
+
+/** 流式文本分块大小（字） */
+const STREAM_CHUNK_SIZE = 16;
+
+function chunks(text: string): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+    result.push(text.slice(i, i + STREAM_CHUNK_SIZE));
+  }
+  return result;
+}
+
+export class MockAdapter implements LLMAdapter {
+  private callSeq = 0;
+
+  private resolve(request: LLMRequest): MockStep {
+    const name = request.model.startsWith(MOCK_MODEL_PREFIX)
+      ? request.model.slice(MOCK_MODEL_PREFIX.length)
+      : request.model;
+    const scenario = scenarios.get(name);
+    if (!scenario) throw new Error(`[MockLLM] 未注册的剧本: ${name}`);
+    return scenario.take(request);
+  }
+
+  private toToolCalls(step: Extract<MockStep, { kind: "tool_calls" }>): ToolCall[] {
+    return step.calls.map((call) => ({
+      id: `mock_call_${++this.callSeq}`,
+      name: call.name,
+      arguments: call.arguments,
+    }));
+  }
+
+  private usage(request: LLMRequest, output: string) {
+    const input = [request.systemPrompt, request.dynamicContext ?? "", ...request.messages.map((m) => m.content)].join("\n");
+    return { inputTokens: estimateTokens(input), outputTokens: estimateTokens(output) };
+  }
+
+  /** 非流式调用 */
+  async chat(request: LLMRequest): Promise<LLMResponse> {
+    const step = this.resolve(request);
+    switch (step.kind) {
+      case "error":
+        throw new Error(step.message);
+      case "tool_calls": {
+        const toolCalls = this.toToolCalls(step);
+        const text = step.text ?? "";
+        return { content: text, toolCalls, usage: this.usage(request, text + JSON.stringify(step.calls)), stopReason: "tool_use" };
+      }
+      case "truncated":
+        return { content: step.text, toolCalls: [], usage: this.usage(request, step.text), stopReason: "max_tokens" };
+      case "text":
+        return { content: step.text, toolCalls: [], usage: this.usage(request, step.text), stopReason: "end" };
+    }
+  }
+
+  /** 流式调用：文本分块输出，工具参数分两段增量输出 */
+  async *chatStream(request: LLMRequest): AsyncIterable<StreamEvent> {
+    let step: MockStep;
+    try {
+      step = this.resolve(request);
+    } catch (error) {
+      yield { type: "error", message: error instanceof Error ? error.message : String(error) };
+      return;
+    }
+
+    if (step.kind === "error") {
+      for (const content of chunks(step.afterText ?? "")) yield { type: "text", content };
+      yield { type: "error", message: step.message };
+      return;
+    }
+
+    const text = step.kind === "tool_calls" ? step.text ?? "" : step.text;
+    for (const content of chunks(text)) yield { type: "text", content };
+
+    let output = text;
+    if (step.kind === "tool_calls") {
+      for (const call of this.toToolCalls(step)) {
+        const args = JSON.stringify(call.arguments);
+        const half = Math.ceil(args.length / 2);
+        yield { type: "tool_call_start", id: call.id, name: call.name };
+        yield { type: "tool_call_args_delta", id: call.id, argsDelta: args.slice(0, half) };
+        yield { type: "tool_call_args_delta", id: call.id, argsDelta: args.slice(half) };
+        yield { type: "tool_call_end", id: call.id, name: call.name, arguments: call.arguments };
+        output += args;
+      }
+    }
+
+    yield {
+      type: "done",
+      stopReason: step.kind === "tool_calls" ? "tool_use" : step.kind === "truncated" ? "max_tokens" : "end",
+      usage: this.usage(request, output),
+    };
+  }
+
+  /** 将工具结果追加到消息列表 */
+  appendToolResult(
+    messages: NormalizedMessage[],
+    assistantToolCalls: ToolCall[],
+    results: ToolResult[]
+  ): NormalizedMessage[] {
+    const newMessages = [...messages];
+
+    newMessages.push({
+      role: "assistant",
+      content: "",
+      toolCalls: assistantToolCalls,
+    });
+
+    for (const result of results) {
+      newMessages.push({
+        role: "tool_result",
+        content: result.content,
+        toolCallId: result.toolCallId,
+      });
+    }
+
+    return newMessages;
+  }
+}
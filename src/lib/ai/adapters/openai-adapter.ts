@@ -5,6 +5,12 @@
  * 严格只发送 Tuzi API 文档中列出的参数，避免 SDK 添加额外字段。
  *
  * 支持的模型：GPT、Gemini、Grok 系列。
+ *
+ * 提示词缓存：OpenAI 风格的服务按请求前缀自动缓存，无需额外参数。
+ * 消息顺序固定为「静态系统提示词 → 动态上下文 → 历史」，保证跨轮次前缀稳定；
+ * 命中数取自 usage.prompt_tokens_details.cached_tokens。
+ *
+ * 流式调用通过 stream_options.include_usage 请求用量，用量在 [DONE] 前的最后一个 chunk 中返回。
  */
 
 import type {
@@ -15,9 +21,11 @@ import type {
   NormalizedMessage,
   NormalizedTool,
   StreamEvent,
+  TokenUsage,
   ToolCall,
   ToolResult,
 } from "./types";
+import { DEFAULT_REQUEST_TIMEOUT_MS } from "./types";
 
 // ============================================================
 // 格式转换
@@ -57,16 +65,20 @@ function toOpenAITools(tools: NormalizedTool[]): OpenAITool[] {
   }));
 }
 
-/** 将标准化消息转换为 OpenAI 格式 */
+/** 将标准化消息转换为 OpenAI 格式（动态上下文作为第二条 system 消息，不破坏静态前缀） */
 function toOpenAIMessages(
   systemPrompt: string,
-  messages: NormalizedMessage[]
+  messages: NormalizedMessage[],
+  dynamicContext?: string
 ): OpenAIMessage[] {
   const result: OpenAIMessage[] = [];
 
   if (systemPrompt) {
     result.push({ role: "system", content: systemPrompt });
   }
+  if (dynamicContext) {
+    result.push({ role: "system", content: dynamicContext });
+  }
 
   for (const msg of messages) {
     switch (msg.role) {
@@ -117,6 +129,7 @@ interface TuziRequestBody {
   temperature?: number;
   max_tokens?: number;
   stream?: boolean;
+  stream_options?: { include_usage: boolean };
   tools?: OpenAITool[];
   tool_choice?: string;
   response_format?: { type: "json_object" | "text" };
@@ -146,10 +159,21 @@ interface TuziResponse {
   created: number;
   model: string;
   choices: TuziChoice[];
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
+  usage: TuziUsage;
+}
+
+interface TuziUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+}
+
+function toTokenUsage(usage: TuziUsage | undefined): TokenUsage {
+  return {
+    inputTokens: usage?.prompt_tokens ?? 0,
+    outputTokens: usage?.completion_tokens ?? 0,
+    cachedInputTokens: usage?.prompt_tokens_details?.cached_tokens ?? 0,
   };
 }
 
@@ -165,7 +189,7 @@ export class OpenAIAdapter implements LLMAdapter {
     // 严格按照 Tuzi API 文档构建请求体
     const body: TuziRequestBody = {
       model: request.model,
-      messages: toOpenAIMessages(request.systemPrompt, request.messages),
+      messages: toOpenAIMessages(request.systemPrompt, request.messages, request.dynamicContext),
       temperature: request.temperature ?? config.temperature,
       max_tokens: request.maxTokens ?? config.maxTokens,
       stream: false,
@@ -179,8 +203,9 @@ export class OpenAIAdapter implements LLMAdapter {
     }
 
     // 使用 AbortController 实现超时
+    const timeoutMs = config.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
     const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 180_000); // 180秒
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
 
     const bodyStr = JSON.stringify(body);
     const startTime = Date.now();
@@ -192,11 +217,12 @@ export class OpenAIAdapter implements LLMAdapter {
         headers: {
           "Content-Type": "application/json",
           Accept: "application/json",
-          Authorization: `Bearer ${config.apiKey}`,
+          // 本地服务可不配置 Key
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
           ...(config.extraHeaders || {}),
         },
         body: bodyStr,
-        signal: controller.signal,
+        signal: request.signal ? AbortSignal.any([controller.signal, request.signal]) : controller.signal,
       });
 
       const elapsed = Date.now() - startTime;
@@ -219,6 +245,7 @@ export class OpenAIAdapter implements LLMAdapter {
         `[Tuzi API] chat 完成: model=${request.model}, ` +
         `inputTokens=${data.usage?.prompt_tokens ?? "?"}, ` +
         `outputTokens=${data.usage?.completion_tokens ?? "?"}, ` +
+        `cachedTokens=${data.usage?.prompt_tokens_details?.cached_tokens ?? 0}, ` +
         `finishReason=${choice?.finish_reason ?? "?"}, ` +
         `contentLen=${(choice?.message?.content ?? "").length}, ` +
         `totalTime=${totalElapsed}ms`
@@ -227,10 +254,7 @@ export class OpenAIAdapter implements LLMAdapter {
       return {
         content: choice?.message?.content ?? "",
         toolCalls,
-        usage: {
-          inputTokens: data.usage?.prompt_tokens ?? 0,
-          outputTokens: data.usage?.completion_tokens ?? 0,
-        },
+        usage: toTokenUsage(data.usage),
         stopReason:
           choice?.finish_reason === "tool_calls"
             ? "tool_use"
@@ -255,10 +279,12 @@ export class OpenAIAdapter implements LLMAdapter {
 
     const body: TuziRequestBody = {
       model: request.model,
-      messages: toOpenAIMessages(request.systemPrompt, request.messages),
+      messages: toOpenAIMessages(request.systemPrompt, request.messages, request.dynamicContext),
       temperature: request.temperature ?? config.temperature,
       max_tokens: request.maxTokens ?? config.maxTokens,
       stream: true,
+      // 最后一个 chunk 附带本次用量（否则流式调用不计入预算 / 用量账本）
+      stream_options: { include_usage: true },
       response_format: { type: "json_object" }, // 强制 JSON 输出
     };
 
@@ -267,11 +293,12 @@ export class OpenAIAdapter implements LLMAdapter {
       body.tool_choice = "auto";
     }
 
+    const timeoutMs = config.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
     const controller = new AbortController();
     const timeout = setTimeout(() => {
-      console.log(`[OpenAI Adapter] 请求超时 (180s), 正在中止...`);
+      console.log(`[OpenAI Adapter] 请求超时 (${timeoutMs / 1000}s), 正在中止...`);
       controller.abort();
-    }, 180_000);
+    }, timeoutMs);
 
     try {
       console.log(`[OpenAI Adapter] 发送请求到 ${url}...`);
@@ -280,11 +307,12 @@ export class OpenAIAdapter implements LLMAdapter {
         headers: {
           "Content-Type": "application/json",
           Accept: "text/event-stream",
-          Authorization: `Bearer ${config.apiKey}`,
+          // 本地服务可不配置 Key
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
           ...(config.extraHeaders || {}),
         },
         body: JSON.stringify(body),
-        signal: controller.signal,
+        signal: request.signal ? AbortSignal.any([controller.signal, request.signal]) : controller.signal,
       });
 
       const elapsed = Date.now() - startTime;
@@ -309,17 +337,16 @@ export class OpenAIAdapter implements LLMAdapter {
         { id: string; name: string; argsStr: string }
       > = new Map();
 
-      let inputTokens = 0;
-      let outputTokens = 0;
+      let usage: TokenUsage = toTokenUsage(undefined);
       let lastFinishReason: string | null = null;
 
       while (true) {
         const { done, value } = await reader.read();
-        if (done) break;
 
-        buffer += decoder.decode(value, { stream: true });
+        // 流结束时处理缓冲区剩余内容（用量 chunk 后可能没有换行）
+        buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
         const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
+        buffer = done ? "" : lines.pop() || "";
 
         for (const line of lines) {
           const trimmed = line.trim();
@@ -436,21 +463,20 @@ export class OpenAIAdapter implements LLMAdapter {
             pendingToolCalls.clear();
           }
 
-          // usage
-          if (chunk.usage) {
-            inputTokens = chunk.usage.prompt_tokens ?? 0;
-            outputTokens = chunk.usage.completion_tokens ?? 0;
-          }
+          // usage（include_usage 时为 choices 为空的最后一个 chunk）
+          if (chunk.usage) usage = toTokenUsage(chunk.usage);
         }
+
+        if (done) break;
       }
 
       const totalElapsed = Date.now() - startTime;
-      console.log(`[OpenAI Adapter] 流式响应完成 (总耗时 ${totalElapsed}ms, 输入 ${inputTokens} tokens, 输出 ${outputTokens} tokens)`);
+      console.log(`[OpenAI Adapter] 流式响应完成 (总耗时 ${totalElapsed}ms, 输入 ${usage.inputTokens} tokens, 输出 ${usage.outputTokens} tokens, 缓存命中 ${usage.cachedInputTokens} tokens)`);
 
       yield {
         type: "done",
         stopReason: lastFinishReason === "length" ? "max_tokens" : lastFinishReason === "tool_calls" ? "tool_use" : "end",
-        usage: { inputTokens, outputTokens },
+        usage,
       };
     } finally {
       clearTimeout(timeout);
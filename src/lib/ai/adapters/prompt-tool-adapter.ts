@@ -0,0 +1,241 @@
+/**
+ * 提示词工具调用适配器（用于不支持原生 Function Calling 的模型）
+ *
+ * 包装任意底层适配器：
+ * - 请求：把 NormalizedTool 的 schema 写进系统提示词，不再发送原生 tools 字段；
+ *   历史中的工具调用 / 工具结果改写为普通文本消息
+ * - 响应：从文本中解析工具调用（{"tool_calls": [...]} 或 <tool_call> 标签），
+ *   产出与原生适配器相同的 tool_call_start / tool_call_end 事件
+ *
+ * 流式调用需读完整轮文本才能判断是否为工具调用，因此本轮文本在结束时一次性输出。
+ */
+
+import type {
+  LLMAdapter,
+  LLMConfig,
+  LLMRequest,
+  LLMResponse,
+  NormalizedMessage,
+  NormalizedTool,
+  StreamEvent,
+  ToolCall,
+  ToolResult,
+} from "./types";
+
+// ============================================================
+// 提示词 & 消息改写
+// ============================================================
+
+/** 将工具定义序列化为系统提示词 */
+function buildToolPrompt(tools: NormalizedTool[]): string {
+  const toolList = tools
+    .map((t) => `- ${t.name}: ${t.description}\n  参数 (JSON Schema): ${JSON.stringify(t.parameters)}`)
+    .join("\n");
+
+  return `
+【工具调用协议】
+你无法直接调用函数。需要调用工具时，本轮只输出如下 JSON（不要输出 narrative 等其他字段）：
+{"tool_calls": [{"name": "工具名", "arguments": {参数}}]}
+系统执行后会以「工具结果」消息返回结果，你再根据结果继续回复。不需要工具时按正常格式回复。
+
+【可用工具】
+${toolList}`;
+}
+
+function formatToolCalls(toolCalls: ToolCall[]): string {
+  return JSON.stringify({
+    tool_calls: toolCalls.map((tc) => ({ name: tc.name, arguments: tc.arguments })),
+  });
+}
+
+/**
+ * 历史消息改写为纯文本：assistant 的工具调用写回协议 JSON，
+ * 连续的工具结果合并为一条 user 消息（部分 API 要求角色交替）
+ */
+function toPlainMessages(messages: NormalizedMessage[]): NormalizedMessage[] {
+  const toolNames = new Map<string, string>();
+  const result: NormalizedMessage[] = [];
+
+  for (const m of messages) {
+    if (m.role === "assistant" && m.toolCalls?.length) {
+      for (const tc of m.toolCalls) toolNames.set(tc.id, tc.name);
+      result.push({
+        role: "assistant",
+        content: [m.content, formatToolCalls(m.toolCalls)].filter(Boolean).join("\n"),
+      });
+      continue;
+    }
+
+    if (m.role === "tool_result") {
+      const name = (m.toolCallId && toolNames.get(m.toolCallId)) || m.toolCallId || "unknown";
+      const text = `【工具结果: ${name}】\n${m.content}`;
+      const prev = result[result.length - 1];
+      if (prev?.role === "user" && prev.content.startsWith("【工具结果")) {
+        prev.content += `\n\n${text}`;
+      } else {
+        result.push({ role: "user", content: text });
+      }
+      continue;
+    }
+
+    result.push(m);
+  }
+  return result;
+}
+
+// ============================================================
+// 响应解析
+// ============================================================
+
+let callSeq = 0;
+
+function toToolCall(raw: unknown): ToolCall | null {
+  if (!raw || typeof raw !== "object") return null;
+  const { name, arguments: args } = raw as { name?: unknown; arguments?: unknown };
+  if (typeof name !== "string" || !name) return null;
+
+  let parsedArgs: Record<string, unknown> = {};
+  if (typeof args === "string") {
+    try {
+      parsedArgs = JSON.parse(args);
+    } catch {
+      parsedArgs = {};
+    }
+  } else if (args && typeof args === "object") {
+    parsedArgs = args as Record<string, unknown>;
+  }
+
+  return { id: `prompt_call_${Date.now()}_${callSeq++}`, name, arguments: parsedArgs };
+}
+
+/** 尝试把文本整体解析为 JSON 对象（容忍 ```json 代码块与前后杂文） */
+function parseJsonObject(text: string): Record<string, unknown> | null {
+  const stripped = text.replace(/^\s*```(?:json)?\s*/i, "").replace(/\s*```\s*$/, "").trim();
+  const candidates = [stripped];
+  const start = stripped.indexOf("{");
+  const end = stripped.lastIndexOf("}");
+  if (start > 0 || (end >= 0 && end < stripped.length - 1)) {
+    candidates.push(stripped.slice(start, end + 1));
+  }
+  for (const candidate of candidates) {
+    try {
+      const parsed = JSON.parse(candidate);
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) return parsed;
+    } catch {
+      // 继续尝试下一个候选
+    }
+  }
+  return null;
+}
+
+/**
+ * 从模型文本中提取工具调用
+ *
+ * @returns toolCalls 与去掉工具调用后的剩余文本
+ */
+export function parseToolCallsFromText(text: string): { toolCalls: ToolCall[]; content: string } {
+  // 1. <tool_call>{...}</tool_call> 标签
+  const tagPattern = /<tool_call>\s*([\s\S]*?)\s*<\/tool_call>/g;
+  const tagged: ToolCall[] = [];
+  for (const match of text.matchAll(tagPattern)) {
+    const call = toToolCall(parseJsonObject(match[1]));
+    if (call) tagged.push(call);
+  }
+  if (tagged.length > 0) {
+    return { toolCalls: tagged, content: text.replace(tagPattern, "").trim() };
+  }
+
+  // 2. {"tool_calls": [...]}（JSON 输出模式下的协议格式）
+  const obj = parseJsonObject(text);
+  if (obj && Array.isArray(obj.tool_calls)) {
+    const toolCalls = obj.tool_calls.map(toToolCall).filter((c): c is ToolCall => c !== null);
+    if (toolCalls.length > 0) {
+      const rest = { ...obj };
+      delete rest.tool_calls;
+      return { toolCalls, content: Object.keys(rest).length > 0 ? JSON.stringify(rest) : "" };
+    }
+  }
+
+  return { toolCalls: [], content: text };
+}
+
+// ============================================================
+// 适配器
+// ============================================================
+
+export class PromptToolAdapter implements LLMAdapter {
+  constructor(private readonly inner: LLMAdapter) {}
+
+  /** 工具写进系统提示词，历史改写为纯文本 */
+  private toPlainRequest(request: LLMRequest): LLMRequest {
+    return {
+      ...request,
+      systemPrompt: request.systemPrompt + "\n" + buildToolPrompt(request.tools ?? []),
+      messages: toPlainMessages(request.messages),
+      tools: undefined,
+    };
+  }
+
+  async chat(request: LLMRequest, config: LLMConfig): Promise<LLMResponse> {
+    if (!request.tools?.length) {
+      return this.inner.chat({ ...request, messages: toPlainMessages(request.messages) }, config);
+    }
+
+    const response = await this.inner.chat(this.toPlainRequest(request), config);
+    const { toolCalls, content } = parseToolCallsFromText(response.content);
+    return {
+      ...response,
+      content,
+      toolCalls,
+      stopReason: toolCalls.length > 0 ? "tool_use" : response.stopReason,
+    };
+  }
+
+  async *chatStream(request: LLMRequest, config: LLMConfig): AsyncIterable<StreamEvent> {
+    if (!request.tools?.length) {
+      yield* this.inner.chatStream({ ...request, messages: toPlainMessages(request.messages) }, config);
+      return;
+    }
+
+    let text = "";
+    let done: Extract<StreamEvent, { type: "done" }> | null = null;
+    for await (const event of this.inner.chatStream(this.toPlainRequest(request), config)) {
+      if (event.type === "text") {
+        text += event.content;
+      } else if (event.type === "done") {
+        done = event;
+      } else if (event.type === "error") {
+        yield event;
+        return;
+      }
+    }
+
+    const { toolCalls, content } = parseToolCallsFromText(text);
+    if (content) yield { type: "text", content };
+    for (const tc of toolCalls) {
+      yield { type: "tool_call_start", id: tc.id, name: tc.name };
+      yield { type: "tool_call_end", id: tc.id, name: tc.name, arguments: tc.arguments };
+    }
+    yield {
+      ...(done ?? { type: "done" as const }),
+      stopReason: toolCalls.length > 0 ? "tool_use" : done?.stopReason,
+    };
+  }
+
+  /** 保持标准化格式，发送前由 toPlainMessages 改写 */
+  appendToolResult(
+    messages: NormalizedMessage[],
+    assistantToolCalls: ToolCall[],
+    results: ToolResult[]
+  ): NormalizedMessage[] {
+    return [
+      ...messages,
+      { role: "assistant", content: "", toolCalls: assistantToolCalls },
+      ...results.map((r) => ({
+        role: "tool_result" as const,
+        content: r.content,
+        toolCallId: r.toolCallId,
+      })),
+    ];
+  }
+}
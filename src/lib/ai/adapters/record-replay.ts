@@ -0,0 +1,250 @@
+/**
+ * 录制 / 回放适配器
+ *
+ * 排查 GM 行为时不再依赖反复调用线上 API：
+ * - RecordingAdapter 包装真实适配器，把每次调用的 LLMRequest 与应答（chat 响应 / StreamEvent 序列 / 错误）
+ *   按调用顺序记入 LLMRecorder，可保存为 JSON 夹具
+ * - ReplayAdapter 从夹具按顺序取出应答，不发网络请求
+ *
+ * 两者都通过 LLMClient 的适配器拦截器接入（见 llm-client.ts 的 setAdapterInterceptor），
+ * 整轮 processGameMessage（工具循环、幻觉自检重试、SSE 输出）可离线复现，见 replay-harness.ts。
+ *
+ * 夹具不保存 API Key 等凭证。
+ */
+
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import type {
+  LLMAdapter,
+  LLMConfig,
+  LLMRequest,
+  LLMResponse,
+  NormalizedMessage,
+  StreamEvent,
+  ToolCall,
+  ToolResult,
+} from "./types";
+
+// ============================================================
+// 夹具格式
+// ============================================================
+
+/** 夹具格式版本（格式不兼容变更时递增） */
+export const FIXTURE_VERSION = 1;
+
+/** 一次适配器调用 */
+export interface LLMExchange {
+  kind: "chat" | "stream";
+  request: LLMRequest;
+  /** 实际调用的端点（不含凭证） */
+  endpoint: { providerId?: string; model: string };
+  /** chat：响应 */
+  response?: LLMResponse;
+  /** stream：按顺序产出的事件 */
+  events?: StreamEvent[];
+  /** 调用抛出的错误（stream 为中途抛错，之前的事件仍在 events 中） */
+  error?: string;
+}
+
+/** 录制夹具 */
+export interface LLMFixture {
+  version: number;
+  recordedAt: string;
+  /** 说明（如玩家消息） */
+  label?: string;
+  exchanges: LLMExchange[];
+  /** 本轮输出给前端的 SSE 事件（回放时用于比对，见 replay-harness.ts） */
+  sse?: unknown[];
+}
+
+/** 读取夹具 */
+export async function loadFixture(path: string): Promise<LLMFixture> {
+  const fixture = JSON.parse(await readFile(path, "utf-8")) as LLMFixture;
+  if (fixture.version !== FIXTURE_VERSION) {
+    throw new Error(`夹具版本不兼容: ${fixture.version}（当前 ${FIXTURE_VERSION}）: ${path}`);
+  }
+  return fixture;
+}
+
+/** 写入夹具（自动创建目录） */
+export async function saveFixture(path: string, fixture: LLMFixture): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(fixture, null, 2) + "\n", "utf-8");
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** 深拷贝，避免调用方后续修改消息数组影响已录制内容 */
+function snapshot<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+// ============================================================
+// 录制
+// ============================================================
+
+/**
+ * 录制会话：收集所有经过 RecordingAdapter 的调用
+ */
+export class LLMRecorder {
+  readonly exchanges: LLMExchange[] = [];
+
+  /** 生成夹具 */
+  toFixture(label?: string, sse?: unknown[]): LLMFixture {
+    return {
+      version: FIXTURE_VERSION,
+      recordedAt: new Date().toISOString(),
+      label,
+      exchanges: this.exchanges,
+      sse,
+    };
+  }
+}
+
+/**
+ * 录制适配器：透传给真实适配器，同时记录请求与应答
+ */
+export class RecordingAdapter implements LLMAdapter {
+  constructor(
+    private readonly recorder: LLMRecorder,
+    private readonly inner: LLMAdapter
+  ) {}
+
+  async chat(request: LLMRequest, config: LLMConfig): Promise<LLMResponse> {
+    const exchange: LLMExchange = {
+      kind: "chat",
+      request: snapshot(request),
+      endpoint: { providerId: config.providerId, model: request.model },
+    };
+    this.recorder.exchanges.push(exchange);
+
+    try {
+      const response = await this.inner.chat(request, config);
+      exchange.response = snapshot(response);
+      return response;
+    } catch (error) {
+      exchange.error = errorMessage(error);
+      throw error;
+    }
+  }
+
+  async *chatStream(request: LLMRequest, config: LLMConfig): AsyncIterable<StreamEvent> {
+    const exchange: LLMExchange = {
+      kind: "stream",
+      request: snapshot(request),
+      endpoint: { providerId: config.providerId, model: request.model },
+      events: [],
+    };
+    this.recorder.exchanges.push(exchange);
+
+    try {
+      for await (const event of this.inner.chatStream(request, config)) {
+        exchange.events!.push(snapshot(event));
+        yield event;
+      }
+    } catch (error) {
+      exchange.error = errorMessage(error);
+      throw error;
+    }
+  }
+
+  appendToolResult(
+    messages: NormalizedMessage[],
+    assistantToolCalls: ToolCall[],
+    results: ToolResult[]
+  ): NormalizedMessage[] {
+    return this.inner.appendToolResult(messages, assistantToolCalls, results);
+  }
+}
+
+// ============================================================
+// 回放
+// ============================================================
+
+/**
+ * 回放会话：按录制顺序分发应答
+ *
+ * 匹配规则：取第一条未使用、调用类型与系统提示词都相同的记录
+ * （后台任务如剧情记忆摘要可能与 GM 调用交错，系统提示词可区分）；
+ * 找不到时 strict 模式抛错，否则退回下一条未使用的同类型记录并打警告。
+ */
+export class LLMReplay {
+  private readonly used: boolean[];
+
+  constructor(
+    readonly fixture: LLMFixture,
+    private readonly options: { strict?: boolean } = {}
+  ) {
+    this.used = fixture.exchanges.map(() => false);
+  }
+
+  /** 未被回放的记录数（回放结束后应为 0） */
+  get remaining(): number {
+    return this.used.filter((u) => !u).length;
+  }
+
+  /** 取出与请求对应的记录 */
+  take(kind: LLMExchange["kind"], request: LLMRequest): LLMExchange {
+    const candidates = this.fixture.exchanges
+      .map((exchange, index) => ({ exchange, index }))
+      .filter(({ exchange, index }) => !this.used[index] && exchange.kind === kind);
+
+    let match = candidates.find(({ exchange }) => exchange.request.systemPrompt === request.systemPrompt);
+    if (!match) {
+      const message = `[Replay] 没有系统提示词匹配的 ${kind} 记录 (model=${request.model})`;
+      if (this.options.strict || candidates.length === 0) {
+        throw new Error(`${message}，剩余同类记录 ${candidates.length} 条`);
+      }
+      console.warn(`${message}，改用下一条记录`);
+      match = candidates[0];
+    }
+
+    const recordedCount = match.exchange.request.messages.length;
+    if (recordedCount !== request.messages.length) {
+      console.warn(
+        `[Replay] 第 ${match.index + 1} 条记录的消息数不一致（录制 ${recordedCount}，本次 ${request.messages.length}），` +
+        `游戏状态可能与录制时不同`
+      );
+    }
+
+    this.used[match.index] = true;
+    return match.exchange;
+  }
+}
+
+/**
+ * 回放适配器：不发网络请求，应答取自 LLMReplay
+ *
+ * appendToolResult 交给录制时同格式的真实适配器（各格式的工具结果消息不同）。
+ */
+export class ReplayAdapter implements LLMAdapter {
+  constructor(
+    private readonly replay: LLMReplay,
+    private readonly inner: LLMAdapter
+  ) {}
+
+  async chat(request: LLMRequest): Promise<LLMResponse> {
+    const exchange = this.replay.take("chat", request);
+    if (exchange.error) throw new Error(exchange.error);
+    if (!exchange.response) throw new Error("[Replay] chat 记录缺少响应");
+    return snapshot(exchange.response);
+  }
+
+  async *chatStream(request: LLMRequest): AsyncIterable<StreamEvent> {
+    const exchange = this.replay.take("stream", request);
+    for (const event of exchange.events ?? []) {
+      yield snapshot(event);
+    }
+    if (exchange.error) throw new Error(exchange.error);
+  }
+
+  appendToolResult(
+    messages: NormalizedMessage[],
+    assistantToolCalls: ToolCall[],
+    results: ToolResult[]
+  ): NormalizedMessage[] {
+    return this.inner.appendToolResult(messages, assistantToolCalls, results);
+  }
+}
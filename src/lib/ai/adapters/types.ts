@@ -18,8 +18,24 @@ export interface ProviderDefinition {
   envBaseUrlName: string;
   defaultBaseUrl: string;
   extraHeaders?: Record<string, string>;
+  /** 是否需要 API Key（默认需要；本地服务不需要，改以设置了 Base URL 环境变量视为启用） */
+  requiresApiKey?: boolean;
+  /** 请求超时（毫秒），缺省为 DEFAULT_REQUEST_TIMEOUT_MS */
+  timeoutMs?: number;
+  /** 覆盖超时的环境变量名 */
+  envTimeoutName?: string;
+  /** 是否通过 /v1/models 自动发现模型 */
+  discoverModels?: boolean;
+  /** 声明自动发现的模型支持原生工具调用的环境变量名（设为 "true" 时启用，否则走提示词工具适配） */
+  envSupportsToolsName?: string;
 }
 
+/** 默认请求超时（180 秒） */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 180_000;
+
+/** 模型未声明 contextWindow 时假定的上下文长度（token） */
+export const DEFAULT_CONTEXT_WINDOW = 128_000;
+
 /** 内置渠道商 */
 export const AVAILABLE_PROVIDERS: ProviderDefinition[] = [
   {
@@ -42,14 +58,53 @@ export const AVAILABLE_PROVIDERS: ProviderDefinition[] = [
       "X-Title": "ChaosSaga",
     },
   },
+  {
+    id: "local",
+    name: "本地模型",
+    description: "Ollama / llama.cpp 等本地 OpenAI 兼容服务，设置 LOCAL_LLM_BASE_URL 启用",
+    envApiKeyName: "LOCAL_LLM_API_KEY",
+    envBaseUrlName: "LOCAL_LLM_BASE_URL",
+    defaultBaseUrl: "http://localhost:11434",
+    requiresApiKey: false,
+    // CPU 推理较慢，放宽到 10 分钟
+    timeoutMs: 600_000,
+    envTimeoutName: "LOCAL_LLM_TIMEOUT_MS",
+    discoverModels: true,
+    envSupportsToolsName: "LOCAL_LLM_SUPPORTS_TOOLS",
+  },
 ];
 
 // ============================================================
 // 模型与配置
 // ============================================================
 
-/** API 格式类型 */
-export type ApiFormat = "openai" | "anthropic" | "google";
+/** API 格式类型（mock 为进程内模拟适配器，见 mock-adapter.ts） */
+export type ApiFormat = "openai" | "anthropic" | "google" | "mock";
+
+/** 模拟模型 ID 前缀（"mock:<剧本名>"） */
+export const MOCK_MODEL_PREFIX = "mock:";
+
+/** 成本档位 */
+export type CostTier = "low" | "medium" | "high" | "premium";
+
+/** 模型单价（美元 / 百万 token） */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** 命中提示词缓存的输入单价，缺省按 input × CACHED_INPUT_PRICE_RATIO 估算 */
+  cachedInput?: number;
+}
+
+/** 未配置 cachedInput 时缓存命中输入的估算折扣 */
+export const CACHED_INPUT_PRICE_RATIO = 0.5;
+
+/** 各成本档位的估算单价（模型未配置 pricing 时使用） */
+export const COST_TIER_PRICING: Record<CostTier, ModelPricing> = {
+  low: { input: 0.15, output: 0.6 },
+  medium: { input: 1.25, output: 10 },
+  high: { input: 2.5, output: 15 },
+  premium: { input: 5, output: 25 },
+};
 
 /** 模型定义 */
 export interface ModelDefinition {
@@ -58,12 +113,18 @@ export interface ModelDefinition {
   provider: string;      // 显示名，如 "OpenAI", "Google", "Anthropic"
   providerId: string;    // 渠道商 ID，如 "tuzi", "openrouter"
   apiFormat: ApiFormat;
-  costTier: "low" | "medium" | "high" | "premium";
+  costTier: CostTier;
+  /** 实际单价，缺省按 costTier 估算（见 COST_TIER_PRICING） */
+  pricing?: ModelPricing;
   description: string;
   supportsTools: boolean;
   supportsStreaming: boolean;
   supportsMultimodal: boolean;
   maxOutputTokens: number;
+  /** 上下文长度（token），缺省为 DEFAULT_CONTEXT_WINDOW */
+  contextWindow?: number;
+  /** 其他渠道商上的等价模型（渠道商 ID → 模型 ID），用于故障转移 */
+  equivalents?: Record<string, string>;
 }
 
 /** LLM 运行时配置 */
@@ -74,6 +135,28 @@ export interface LLMConfig {
   temperature: number;
   maxTokens: number;
   extraHeaders?: Record<string, string>;
+  /** 模型所属渠道商 */
+  providerId?: string;
+  /** 请求超时（毫秒），缺省为 DEFAULT_REQUEST_TIMEOUT_MS */
+  timeoutMs?: number;
+  /** 模型是否支持原生工具调用（false 时改用提示词工具协议，见 prompt-tool-adapter.ts） */
+  supportsTools?: boolean;
+  /** 上下文长度（token），用于上下文预算分配（见 context-budget.ts） */
+  contextWindow?: number;
+  /** 故障转移链：主渠道商失败 / 熔断时按顺序尝试 */
+  fallbacks?: LLMEndpoint[];
+}
+
+/** 故障转移端点（渠道商 + 等价模型 + 凭证） */
+export interface LLMEndpoint {
+  providerId: string;
+  model: string;
+  apiKey: string;
+  baseUrl: string;
+  extraHeaders?: Record<string, string>;
+  timeoutMs?: number;
+  /** 该端点的模型是否支持原生工具调用（缺省视为支持；不支持时走提示词工具适配器） */
+  supportsTools?: boolean;
 }
 
 /** 可用模型列表 */
@@ -91,6 +174,8 @@ export const AVAILABLE_MODELS: ModelDefinition[] = [
     supportsStreaming: true,
     supportsMultimodal: true,
     maxOutputTokens: 4096,
+    pricing: { input: 0.15, output: 0.6, cachedInput: 0.075 },
+    equivalents: { openrouter: "openai/gpt-4o-mini" },
   },
   {
     id: "claude-haiku-4-5-20251001-thinking",
@@ -104,6 +189,8 @@ export const AVAILABLE_MODELS: ModelDefinition[] = [
     supportsStreaming: true,
     supportsMultimodal: false,
     maxOutputTokens: 4096,
+    pricing: { input: 1, output: 5, cachedInput: 0.1 },
+    equivalents: { openrouter: "anthropic/claude-haiku-4.5" },
   },
   {
     id: "gemini-3-pro",
@@ -117,6 +204,7 @@ export const AVAILABLE_MODELS: ModelDefinition[] = [
     supportsStreaming: true,
     supportsMultimodal: true,
     maxOutputTokens: 4096,
+    equivalents: { openrouter: "google/gemini-3-pro-preview" },
   },
   {
     id: "grok-4.1",
@@ -130,6 +218,7 @@ export const AVAILABLE_MODELS: ModelDefinition[] = [
     supportsStreaming: true,
     supportsMultimodal: false,
     maxOutputTokens: 4096,
+    equivalents: { openrouter: "x-ai/grok-4.1-fast" },
   },
   {
     id: "gemini-3-pro-all",
@@ -156,6 +245,7 @@ export const AVAILABLE_MODELS: ModelDefinition[] = [
     supportsStreaming: true,
     supportsMultimodal: true,
     maxOutputTokens: 8192,
+    equivalents: { openrouter: "openai/gpt-5.1" },
   },
   {
     id: "gpt-5.1-thinking-all",
@@ -182,6 +272,8 @@ export const AVAILABLE_MODELS: ModelDefinition[] = [
     supportsStreaming: true,
     supportsMultimodal: false,
     maxOutputTokens: 8192,
+    pricing: { input: 5, output: 25 },
+    equivalents: { openrouter: "anthropic/claude-opus-4.5" },
   },
   // ---- OpenRouter 渠道 ----
   {
@@ -224,6 +316,7 @@ export function getApiFormat(
   if (builtin) return builtin.apiFormat;
 
   // 兜底：前缀推断
+  if (modelId.startsWith(MOCK_MODEL_PREFIX)) return "mock";
   if (modelId.startsWith("claude-")) return "anthropic";
   return "openai";
 }
@@ -286,13 +379,29 @@ export interface ToolResult {
 // 流式事件
 // ============================================================
 
+/** token 用量 */
+export interface TokenUsage {
+  /** 输入 token 总数（含缓存命中部分） */
+  inputTokens: number;
+  outputTokens: number;
+  /** 命中提示词缓存的输入 token（供应商未返回时缺省） */
+  cachedInputTokens?: number;
+}
+
 /** 统一流式事件 - 适配器将供应商特定格式转换为这些事件 */
 export type StreamEvent =
   | { type: "text"; content: string }
   | { type: "tool_call_start"; id: string; name: string }
   | { type: "tool_call_args_delta"; id: string; argsDelta: string }
   | { type: "tool_call_end"; id: string; name: string; arguments: Record<string, unknown> }
-  | { type: "done"; stopReason?: string; usage?: { inputTokens: number; outputTokens: number } }
+  | {
+      type: "done";
+      stopReason?: string;
+      usage?: TokenUsage;
+      /** 实际应答的渠道商与模型（由 LLMClient 在故障转移后填入） */
+      provider?: string;
+      model?: string;
+    }
   | { type: "error"; message: string };
 
 // ============================================================
@@ -302,19 +411,24 @@ export type StreamEvent =
 /** LLM 请求参数 */
 export interface LLMRequest {
   model: string;
+  /** 系统提示词（跨轮次不变的部分，支持提示词缓存的适配器在其后设置缓存断点） */
   systemPrompt: string;
+  /** 每轮变化的上下文（玩家状态、位置等），紧跟在 systemPrompt 之后发送 */
+  dynamicContext?: string;
   messages: NormalizedMessage[];
   tools?: NormalizedTool[];
   temperature?: number;
   maxTokens?: number;
   stream?: boolean;
+  /** 调用方的中止信号（与适配器自身的请求超时同时生效；中止后不再尝试备用渠道） */
+  signal?: AbortSignal;
 }
 
 /** 非流式响应 */
 export interface LLMResponse {
   content: string;
   toolCalls: ToolCall[];
-  usage: { inputTokens: number; outputTokens: number };
+  usage: TokenUsage;
   stopReason: "end" | "tool_use" | "max_tokens" | "error";
 }
 
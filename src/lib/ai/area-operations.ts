@@ -11,8 +11,13 @@
 
 import { prisma } from "@/lib/db/prisma";
 import { LLMClient } from "./llm-client";
-import { getLLMConfig } from "./config";
 import { logPlayerAction } from "@/lib/game/logger";
+import {
+  attachNpcsToNodeData,
+  getNpcsInArea,
+  stripNpcFields,
+  syncNodeNpcs,
+} from "@/lib/game/npc-registry";
 
 // ============================================================
 // LLM 调用超时工具
@@ -294,6 +299,9 @@ async function loadAreaFull(areaId: string): Promise<LoadedArea | null> {
 
   if (!area) return null;
 
+  // NPC 与商品存于 Npc 表，按常驻节点回填为节点数据格式
+  const npcs = await getNpcsInArea(areaId);
+
   const nodeIds = area.nodes.map((n) => n.id);
   const connections = await prisma.areaNodeConnection.findMany({
     where: { fromId: { in: nodeIds } },
@@ -317,7 +325,10 @@ async function loadAreaFull(areaId: string): Promise<LoadedArea | null> {
     recommendedLevel: area.recommendedLevel,
     nodes: area.nodes.map((n) => ({
       ...n,
-      data: n.data as Record<string, unknown> | null,
+      data: attachNpcsToNodeData(
+        n.data as Record<string, unknown> | null,
+        npcs.filter((npc) => npc.homeNodeId === n.id)
+      ),
     })),
     connections: uniqueConnections,
   };
@@ -590,6 +601,7 @@ type NodeFix = { nodeId: string; nodeName: string; issue: string; fixDescription
 async function llmSemanticCheck(
   area: LoadedArea,
   programmaticIssues: IntegrityIssue[],
+  playerId: string,
   onProgress?: (msg: string) => void
 ): Promise<{
   fixes: NodeFix[];
@@ -609,12 +621,11 @@ async function llmSemanticCheck(
     return { fixes: [], error: null };
   }
 
-  const config = await getLLMConfig();
-  const client = new LLMClient({
-    ...config,
+  const client = await LLMClient.forTask("area_generation", {
     temperature: 0.3,
     maxTokens: 8192, // boss 节点数据较大，需要更多 token
-  });
+  }, playerId);
+  const model = client.getConfig().model;
 
   // 获取主题对应的元素列表
   const themeElements = THEME_ELEMENT_MAP[area.theme] || [];
@@ -649,11 +660,11 @@ async function llmSemanticCheck(
 
     try {
       const t0 = Date.now();
-      console.log(`[area-check] ${progress} 修复节点「${node.name}」, model: ${config.model}`);
+      console.log(`[area-check] ${progress} 修复节点「${node.name}」, model: ${model}`);
 
       const response = await withTimeout(
         client.chat({
-          model: config.model,
+          model,
           systemPrompt: CHECK_NODE_SYSTEM_PROMPT,
           messages: [{ role: "user", content: userMessage }],
         }),
@@ -717,6 +728,7 @@ function validateFixBeforeWrite(node: { name: string; type: string }, fixedData:
  */
 async function runOneCheckRound(
   areaId: string,
+  playerId: string,
   round: number,
   onEvent: (event: CheckSSEEvent) => void
 ): Promise<{
@@ -751,7 +763,7 @@ async function runOneCheckRound(
 
   // LLM 修复
   onEvent({ type: "checking", message: `${prefix}正在进行 AI 语义分析...` });
-  const llmResult = await llmSemanticCheck(area, programmaticIssues, (msg) => {
+  const llmResult = await llmSemanticCheck(area, programmaticIssues, playerId, (msg) => {
     onEvent({ type: "checking", message: `${prefix}${msg}` });
   });
 
@@ -784,10 +796,13 @@ async function runOneCheckRound(
 
     try {
       console.log(`[area-check] 写入节点「${node.name}」fixedData:`, JSON.stringify(fix.fixedData).slice(0, 300));
-      await prisma.areaNode.update({
-        where: { id: fix.nodeId },
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        data: { data: fix.fixedData as any },
+      await prisma.$transaction(async (tx) => {
+        await tx.areaNode.update({
+          where: { id: fix.nodeId },
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          data: { data: stripNpcFields(fix.fixedData) as any },
+        });
+        await syncNodeNpcs(tx, area.id, fix.nodeId, fix.fixedData);
       });
 
       fixedCount++;
@@ -828,7 +843,7 @@ async function runOneCheckRound(
  * 最多执行 MAX_FIX_ROUNDS 轮，最后统一汇报。
  *
  * @param areaId 区域 ID
- * @param playerId 操作玩家 ID（用于日志）
+ * @param playerId 操作玩家 ID（用于日志与用量记账）
  * @param onEvent SSE 事件回调
  */
 export async function checkAreaIntegrity(
@@ -846,7 +861,7 @@ export async function checkAreaIntegrity(
   for (round = 1; round <= MAX_FIX_ROUNDS; round++) {
     onEvent({ type: "checking", message: `━━━ 第 ${round} 轮检查 ━━━` });
 
-    const result = await runOneCheckRound(areaId, round, onEvent);
+    const result = await runOneCheckRound(areaId, playerId, round, onEvent);
 
     if (!result.area) {
       onEvent({ type: "done" });
@@ -996,6 +1011,7 @@ async function llmExpandArea(
   edgeNodes: EdgeNode[],
   newNodeCount: number,
   hint: string,
+  playerId: string,
   onProgress?: (msg: string) => void
 ): Promise<{
   result: {
@@ -1011,12 +1027,11 @@ async function llmExpandArea(
   } | null;
   error: string | null;
 }> {
-  const config = await getLLMConfig();
-  const client = new LLMClient({
-    ...config,
+  const client = await LLMClient.forTask("area_generation", {
     temperature: 0.7,
     maxTokens: 20480,
-  });
+  }, playerId);
+  const model = client.getConfig().model;
 
   // 构建 LLM 请求
   const existingSummary = area.nodes.map((n) => `- ${n.name}（${n.type}）: ${n.description}`).join("\n");
@@ -1052,12 +1067,12 @@ ${needBoss ? `- 必须包含 1 个 boss 节点（掉落技能元素应为: ${the
 ${hint ? `\n【玩家扩展方向提示】\n${hint}` : ""}`;
 
   try {
-    console.log("[area-expand] 开始 LLM 生成新节点, model:", config.model, ", nodeCount:", newNodeCount);
+    console.log("[area-expand] 开始 LLM 生成新节点, model:", model, ", nodeCount:", newNodeCount);
     onProgress?.(`正在等待 AI 生成 ${newNodeCount} 个节点（最长等待 ${LLM_TIMEOUT_MS / 1000}s）...`);
 
     const t0 = Date.now();
     const chatPromise = client.chat({
-      model: config.model,
+      model,
       systemPrompt: EXPAND_SYSTEM_PROMPT,
       messages: [{ role: "user", content: userMessage }],
     });
@@ -1140,7 +1155,7 @@ export async function expandArea(
 
   // LLM 生成新节点
   onEvent({ type: "generating", message: "AI 正在构思新区域内容（可能需要 60-120 秒）..." });
-  const llmResponse = await llmExpandArea(area, edgeNodes, newNodeCount, hint, (msg) => {
+  const llmResponse = await llmExpandArea(area, edgeNodes, newNodeCount, hint, playerId, (msg) => {
     onEvent({ type: "generating", message: msg });
   });
 
@@ -1195,11 +1210,12 @@ export async function expandArea(
             type: n.type,
             description: n.description,
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            data: nodeData as any,
+            data: stripNpcFields(nodeData) as any,
             posX: i % 4,
             posY: maxPosY + 1 + Math.floor(i / 4),
           },
         });
+        await syncNodeNpcs(tx, area.id, node.id, nodeData);
 
         logicalIdToRealId[n.id] = node.id;
         createdNodes.push({
@@ -0,0 +1,138 @@
+/**
+ * ChaosSaga - BM25 关键词索引（纯内存，无外部依赖）
+ *
+ * 分词：ASCII 按单词（小写），中日韩文字按相邻二字组（bigram），
+ * 单字片段保留原字。NPC 名、物品名等专有名词由此可被部分匹配。
+ *
+ * 支持增量 add / remove，供 memory-retrieval.ts 在新对话写入时同步更新。
+ */
+
+/** BM25 参数 */
+const K1 = 1.5;
+const B = 0.75;
+
+const CJK_PATTERN = /[\u3400-\u9fff\uf900-\ufaff]+/g;
+const WORD_PATTERN = /[a-z0-9]+/g;
+
+/**
+ * 分词（去重前的词项序列）
+ */
+export function tokenize(text: string): string[] {
+  const lower = text.toLowerCase();
+  const terms: string[] = [];
+
+  for (const run of lower.match(CJK_PATTERN) ?? []) {
+    if (run.length === 1) {
+      terms.push(run);
+      continue;
+    }
+    for (let i = 0; i < run.length - 1; i++) {
+      terms.push(run.slice(i, i + 2));
+    }
+  }
+
+  for (const word of lower.match(WORD_PATTERN) ?? []) {
+    terms.push(word);
+  }
+
+  return terms;
+}
+
+interface IndexedDoc<T> {
+  length: number;
+  termFreqs: Map<string, number>;
+  payload: T;
+}
+
+export interface SearchHit<T> {
+  id: string;
+  score: number;
+  payload: T;
+}
+
+/**
+ * 增量 BM25 索引
+ */
+export class BM25Index<T> {
+  private docs = new Map<string, IndexedDoc<T>>();
+  /** 词项 → 包含该词项的文档 ID */
+  private postings = new Map<string, Set<string>>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.docs.size;
+  }
+
+  has(id: string): boolean {
+    return this.docs.has(id);
+  }
+
+  get(id: string): T | undefined {
+    return this.docs.get(id)?.payload;
+  }
+
+  add(id: string, text: string, payload: T): void {
+    if (this.docs.has(id)) this.remove(id);
+
+    const termFreqs = new Map<string, number>();
+    const terms = tokenize(text);
+    for (const term of terms) {
+      termFreqs.set(term, (termFreqs.get(term) ?? 0) + 1);
+    }
+    for (const term of termFreqs.keys()) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Set();
+        this.postings.set(term, posting);
+      }
+      posting.add(id);
+    }
+
+    this.docs.set(id, { length: terms.length, termFreqs, payload });
+    this.totalLength += terms.length;
+  }
+
+  remove(id: string): void {
+    const doc = this.docs.get(id);
+    if (!doc) return;
+    for (const term of doc.termFreqs.keys()) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting?.size === 0) this.postings.delete(term);
+    }
+    this.totalLength -= doc.length;
+    this.docs.delete(id);
+  }
+
+  /**
+   * 检索与 query 最相关的文档（只返回至少命中一个词项的文档）
+   *
+   * @param filter - 可选，排除不参与检索的文档
+   */
+  search(query: string, limit: number, filter?: (id: string, payload: T) => boolean): SearchHit<T>[] {
+    const n = this.docs.size;
+    if (n === 0) return [];
+    const avgLength = this.totalLength / n || 1;
+
+    const scores = new Map<string, number>();
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      const idf = Math.log(1 + (n - posting.size + 0.5) / (posting.size + 0.5));
+      for (const id of posting) {
+        const doc = this.docs.get(id)!;
+        const tf = doc.termFreqs.get(term)!;
+        const norm = tf * (K1 + 1) / (tf + K1 * (1 - B + B * (doc.length / avgLength)));
+        scores.set(id, (scores.get(id) ?? 0) + idf * norm);
+      }
+    }
+
+    const hits: SearchHit<T>[] = [];
+    for (const [id, score] of scores) {
+      const payload = this.docs.get(id)!.payload;
+      if (filter && !filter(id, payload)) continue;
+      hits.push({ id, score, payload });
+    }
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * ChaosSaga - 玩家每日 token 预算
+ *
+ * 依据用量账本（usage.ts）统计玩家当日消耗，分三档：
+ * - normal：正常
+ * - low：用量达到 BUDGET_LOW_RATIO，GM 改用节能模式（economy 任务模型、更短的对话历史），
+ *   快捷战斗跳过 LLM 润色，引导玩家使用确定性路径（快捷招式 / 地图直达移动）
+ * - exhausted：达到上限，GM 不再调用 API，直接返回世界观内的提示
+ *
+ * 预算在设置页配置（0 = 不限，见 config.ts 的 getDailyTokenBudget）。
+ */
+
+import { getDailyTokenBudget } from "./config";
+import { getPlayerTokensToday } from "./usage";
+
+/** 进入节能模式的用量比例 */
+export const BUDGET_LOW_RATIO = 0.8;
+
+export type BudgetLevel = "normal" | "low" | "exhausted";
+
+export interface BudgetStatus {
+  level: BudgetLevel;
+  /** 今日已用 token */
+  used: number;
+  /** 每日上限（0 = 不限） */
+  limit: number;
+}
+
+/** 预算耗尽时 GM 的回复（世界观内，不调用 API） */
+export const BUDGET_EXHAUSTED_MESSAGE =
+  "（星辉黯淡，说书人的声音渐渐低了下去。）\n\n" +
+  "冒险者，今日的天地灵气已被你的故事耗尽，我需要调息到明日方能继续讲述。" +
+  "在此之前，战斗中的快捷招式与地图上的直达移动仍可施展，不受影响。";
+
+/**
+ * 查询玩家今日预算状态
+ *
+ * 账本不可用时按 normal 处理，不阻塞游戏。
+ */
+export async function getBudgetStatus(playerId: string): Promise<BudgetStatus> {
+  const limit = await getDailyTokenBudget();
+  if (limit <= 0) return { level: "normal", used: 0, limit: 0 };
+
+  let used = 0;
+  try {
+    used = await getPlayerTokensToday(playerId);
+  } catch (error) {
+    console.warn("[Budget] 读取用量失败，按正常预算处理:", error instanceof Error ? error.message : error);
+    return { level: "normal", used: 0, limit };
+  }
+
+  const level: BudgetLevel =
+    used >= limit ? "exhausted" : used >= limit * BUDGET_LOW_RATIO ? "low" : "normal";
+  return { level, used, limit };
+}
@@ -0,0 +1,132 @@
+/**
+ * ChaosSaga - 剧情记忆（Campaign Memory）
+ *
+ * GM 上下文只携带最近若干条对话（DEFAULT_HISTORY_LIMIT，节能模式与上下文预算会进一步缩减），
+ * 更早的内容（谁发布了哪个任务、剧情主线）由本模块压缩成每位玩家一条持久化摘要，注入 buildContextInjection。
+ *
+ * 增量更新：摘要记录 coveredUntil（已纳入的最后一条对话时间），每轮 GM 回复后在后台检查，
+ * 滑出上下文窗口且未纳入摘要的对话累计达到 SUMMARY_BATCH_SIZE 条时，
+ * 以「旧摘要 + 新对话」为输入生成新摘要，而不是每次从头总结全部历史。
+ */
+
+import { prisma } from "@/lib/db/prisma";
+import { LLMClient } from "./llm-client";
+import { DEFAULT_HISTORY_LIMIT } from "./context-builder";
+import { getBudgetStatus } from "./budget";
+
+/** 待摘要对话累计到多少条时触发一次更新 */
+const SUMMARY_BATCH_SIZE = 20;
+
+/** 单次更新最多纳入的对话条数（积压过多时分多轮追上） */
+const SUMMARY_MAX_BATCH = 60;
+
+/** 每条对话送入摘要的最大字数 */
+const MESSAGE_CLIP_LENGTH = 300;
+
+/** 摘要目标长度（字） */
+const SUMMARY_TARGET_LENGTH = 600;
+
+const SUMMARY_SYSTEM_PROMPT = `你是修仙文字冒险游戏的剧情记录官，负责维护玩家的「剧情记忆」。
+
+你会收到【已有剧情记忆】和一批【新对话】，请输出合并后的完整剧情记忆。
+
+【规则】
+- 只输出记忆正文，不要标题、JSON 或 markdown 代码块
+- 用简洁的中文要点（每行以「- 」开头），总长度不超过 ${SUMMARY_TARGET_LENGTH} 字
+- 保留：重要 NPC 及其与玩家的关系、任务的发布者与进展、关键抉择与承诺、主线剧情走向、重要物品的来历
+- 舍弃：单次战斗的数值细节、闲聊、系统提示
+- 新对话与旧记忆冲突时以新对话为准；已完结且不再重要的事件可压缩为一句`;
+
+/** 正在更新的玩家（进程内去重，避免同一玩家并发生成） */
+const inFlight = new Set<string>();
+
+function clip(text: string): string {
+  return text.length > MESSAGE_CLIP_LENGTH ? text.slice(0, MESSAGE_CLIP_LENGTH) + "…" : text;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  user: "玩家",
+  assistant: "GM",
+  system: "系统",
+};
+
+/**
+ * 按需增量更新剧情记忆（后台调用，不抛错）
+ *
+ * 玩家接近每日预算时跳过，待预算恢复后再追上积压。
+ *
+ * @param contextSize - 本轮实际送入上下文的历史条数（fitHistory 之后），更早的对话都需要摘要
+ */
+export async function updateCampaignMemory(
+  playerId: string,
+  contextSize: number = DEFAULT_HISTORY_LIMIT
+): Promise<void> {
+  if (inFlight.has(playerId)) return;
+  inFlight.add(playerId);
+
+  try {
+    const memory = await prisma.campaignMemory.findUnique({ where: { playerId } });
+
+    // 上下文窗口内最早的一条：早于它的对话才需要摘要；上下文未携带历史时全部需要摘要
+    const windowStart = contextSize > 0
+      ? await prisma.chatHistory.findFirst({
+          where: { playerId },
+          orderBy: { createdAt: "desc" },
+          skip: contextSize - 1,
+          select: { createdAt: true },
+        })
+      : null;
+    if (contextSize > 0 && !windowStart) return;
+
+    const pending = await prisma.chatHistory.findMany({
+      where: {
+        playerId,
+        createdAt: {
+          ...(windowStart ? { lt: windowStart.createdAt } : {}),
+          ...(memory ? { gt: memory.coveredUntil } : {}),
+        },
+      },
+      orderBy: { createdAt: "asc" },
+      take: SUMMARY_MAX_BATCH,
+      select: { role: true, content: true, createdAt: true },
+    });
+    if (pending.length < SUMMARY_BATCH_SIZE) return;
+
+    const budget = await getBudgetStatus(playerId);
+    if (budget.level !== "normal") return;
+
+    const transcript = pending
+      .map((m) => `${ROLE_LABELS[m.role] ?? m.role}：${clip(m.content)}`)
+      .join("\n");
+
+    const client = await LLMClient.forTask("summary", { temperature: 0.3, maxTokens: 1024 }, playerId);
+    const response = await client.chat({
+      model: client.getConfig().model,
+      systemPrompt: SUMMARY_SYSTEM_PROMPT,
+      messages: [
+        {
+          role: "user",
+          content: `【已有剧情记忆】\n${memory?.summary || "（暂无）"}\n\n【新对话】\n${transcript}`,
+        },
+      ],
+    });
+
+    const summary = response.content.trim();
+    if (!summary) {
+      console.warn(`[CampaignMemory] 摘要为空，跳过本次更新 (player=${playerId})`);
+      return;
+    }
+
+    const coveredUntil = pending[pending.length - 1].createdAt;
+    await prisma.campaignMemory.upsert({
+      where: { playerId },
+      update: { summary, coveredUntil, messageCount: { increment: pending.length } },
+      create: { playerId, summary, coveredUntil, messageCount: pending.length },
+    });
+    console.log(`[CampaignMemory] 已纳入 ${pending.length} 条对话，摘要 ${summary.length} 字 (player=${playerId})`);
+  } catch (error) {
+    console.warn("[CampaignMemory] 更新失败:", error instanceof Error ? error.message : error);
+  } finally {
+    inFlight.delete(playerId);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * ChaosSaga - 渠道商熔断器
+ *
+ * 记录各渠道商的连续失败次数（进程内存）：
+ * - 连续失败达到 FAILURE_THRESHOLD 次后熔断，COOLDOWN_MS 内 LLMClient 跳过该渠道商
+ * - 冷却结束后半开：放行请求，成功即恢复，失败则重新熔断
+ */
+
+/** 触发熔断的连续失败次数 */
+export const FAILURE_THRESHOLD = 2;
+
+/** 熔断冷却时间（60 秒） */
+export const COOLDOWN_MS = 60 * 1000;
+
+interface BreakerState {
+  failures: number;
+  /** 熔断截止时间（0 表示未熔断） */
+  openUntil: number;
+}
+
+const breakers = new Map<string, BreakerState>();
+
+/** 渠道商当前是否可用（未熔断或已过冷却期） */
+export function isProviderAvailable(providerId: string, now: number = Date.now()): boolean {
+  const state = breakers.get(providerId);
+  return !state || state.openUntil <= now;
+}
+
+export function recordProviderSuccess(providerId: string): void {
+  breakers.delete(providerId);
+}
+
+export function recordProviderFailure(providerId: string, now: number = Date.now()): void {
+  const state = breakers.get(providerId) ?? { failures: 0, openUntil: 0 };
+  state.failures++;
+  if (state.failures >= FAILURE_THRESHOLD) {
+    state.openUntil = now + COOLDOWN_MS;
+    console.warn(`[CircuitBreaker] 渠道商 ${providerId} 连续失败 ${state.failures} 次，熔断 ${COOLDOWN_MS / 1000}s`);
+  }
+  breakers.set(providerId, state);
+}
+
+/** 各渠道商熔断状态（调试 / 展示用） */
+export function getBreakerStates(now: number = Date.now()) {
+  return Array.from(breakers.entries()).map(([providerId, state]) => ({
+    providerId,
+    failures: state.failures,
+    open: state.openUntil > now,
+    openUntil: state.openUntil > now ? new Date(state.openUntil).toISOString() : null,
+  }));
+}
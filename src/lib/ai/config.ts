@@ -5,12 +5,17 @@
  * 1. 数据库 GameConfig 表（运行时可通过 UI 修改）
  * 2. 环境变量（部署时设置）
  * 3. 默认值
+ *
+ * 模型按任务路由：GameConfig.llm_model_routes 为各任务（叙事、战斗、区域生成、监管、润色）
+ * 指定模型，未指定的任务使用全局模型。
  */
 
 import { prisma } from "@/lib/db/prisma";
-import type { LLMConfig, ModelDefinition } from "./adapters/types";
+import type { LLMConfig, LLMEndpoint, ModelDefinition } from "./adapters/types";
 import { AVAILABLE_MODELS, AVAILABLE_PROVIDERS } from "./adapters/types";
 import type { ProviderDefinition } from "./adapters/types";
+import { discoverProviderModels } from "./model-discovery";
+import { mockModelId } from "./adapters/mock-adapter";
 
 /** 配置键名 */
 const CONFIG_KEYS = {
@@ -18,8 +23,39 @@ const CONFIG_KEYS = {
   TEMPERATURE: "llm_temperature",
   MAX_TOKENS: "llm_max_tokens",
   CUSTOM_MODELS: "custom_models",
+  MODEL_ROUTES: "llm_model_routes",
+  DAILY_TOKEN_BUDGET: "player_daily_token_budget",
 } as const;
 
+/** 可单独指定模型的 LLM 任务 */
+export const LLM_TASKS = ["narration", "battle", "area_generation", "supervisor", "polish", "economy", "summary"] as const;
+
+export type LLMTask = (typeof LLM_TASKS)[number];
+
+/** 任务显示名 */
+export const LLM_TASK_LABELS: Record<LLMTask, string> = {
+  narration: "探索叙事",
+  battle: "战斗",
+  area_generation: "区域生成 / 检查",
+  supervisor: "监管审核",
+  polish: "快捷战斗润色",
+  economy: "节能模式（接近每日预算）",
+  summary: "剧情记忆摘要",
+};
+
+/** 任务 → 模型 ID（缺省的任务使用全局模型） */
+export type ModelRoutes = Partial<Record<LLMTask, string>>;
+
+/** 任务的默认模型（未配置路由且其渠道商已配置时优先于全局模型） */
+const TASK_DEFAULT_MODELS: ModelRoutes = {
+  // 监管需要快而便宜，沿用原先固定的模型
+  supervisor: "gpt-4o-mini",
+  // 玩家接近每日 token 预算时 GM 改用的廉价模型
+  economy: "gpt-4o-mini",
+  // 后台摘要不需要强模型
+  summary: "gpt-4o-mini",
+};
+
 /** 默认配置值 */
 const DEFAULTS = {
   model: "gpt-4o-mini",
@@ -59,21 +95,63 @@ function getProviderConfig(provider: ProviderDefinition): {
   apiKey: string;
   baseUrl: string;
   extraHeaders?: Record<string, string>;
+  timeoutMs?: number;
 } {
   const apiKey = process.env[provider.envApiKeyName] || "";
   const baseUrl = process.env[provider.envBaseUrlName] || provider.defaultBaseUrl;
-  return { apiKey, baseUrl, extraHeaders: provider.extraHeaders };
+  const envTimeout = provider.envTimeoutName ? parseInt(process.env[provider.envTimeoutName] || "", 10) : NaN;
+  const timeoutMs = Number.isFinite(envTimeout) && envTimeout > 0 ? envTimeout : provider.timeoutMs;
+  return { apiKey, baseUrl, extraHeaders: provider.extraHeaders, timeoutMs };
+}
+
+/**
+ * 渠道商是否可用：需要 Key 的看 Key，本地服务看是否设置了 Base URL 环境变量
+ */
+function isProviderConfigured(provider: ProviderDefinition): boolean {
+  if (provider.requiresApiKey === false) return !!process.env[provider.envBaseUrlName];
+  return !!process.env[provider.envApiKeyName];
+}
+
+/**
+ * 任务的默认模型：所在渠道商未配置时返回 undefined，由全局模型兜底
+ */
+function getTaskDefaultModel(task: LLMTask, allModels: ModelDefinition[]): string | undefined {
+  const model = TASK_DEFAULT_MODELS[task];
+  if (!model) return undefined;
+  const providerId = allModels.find((m) => m.id === model)?.providerId || "tuzi";
+  const provider = AVAILABLE_PROVIDERS.find((p) => p.id === providerId);
+  return provider && isProviderConfigured(provider) ? model : undefined;
 }
 
 /**
  * 获取完整的 LLM 配置
  *
  * 根据当前模型的 providerId 自动解析对应渠道商的凭证。
+ *
+ * @param task - 指定任务时按路由表选择模型：路由 → 任务默认 → 全局模型
  */
-export async function getLLMConfig(): Promise<LLMConfig> {
-  // 模型：数据库 → 环境变量 → 默认
+export async function getLLMConfig(task?: LLMTask): Promise<LLMConfig> {
+  // 测试：所有任务路由到模拟剧本，不读数据库、不需要凭证（见 adapters/mock-adapter.ts）；生产环境忽略
+  const mockScenario = process.env.NODE_ENV !== "production" ? process.env.LLM_MOCK_SCENARIO : undefined;
+  if (mockScenario) {
+    return {
+      apiKey: "",
+      baseUrl: "",
+      model: mockModelId(mockScenario),
+      temperature: DEFAULTS.temperature,
+      maxTokens: DEFAULTS.maxTokens,
+      providerId: "mock",
+      supportsTools: true,
+    };
+  }
+
+  // 模型：任务路由 → 数据库 → 环境变量 → 默认
+  const routes = task ? await getModelRoutes() : {};
   const dbModel = await getConfigFromDB(CONFIG_KEYS.MODEL);
-  const model = dbModel || process.env.LLM_MODEL || DEFAULTS.model;
+  const allModels = await getAllModels();
+  const model =
+    (task && (routes[task] || getTaskDefaultModel(task, allModels))) ||
+    dbModel || process.env.LLM_MODEL || DEFAULTS.model;
 
   // 温度：数据库 → 环境变量 → 默认
   const dbTemp = await getConfigFromDB(CONFIG_KEYS.TEMPERATURE);
@@ -89,14 +167,45 @@ export async function getLLMConfig(): Promise<LLMConfig> {
   );
 
   // 根据模型查找渠道商，解析凭证
-  const allModels = await getAllModels();
   const modelDef = allModels.find((m) => m.id === model);
   const providerId = modelDef?.providerId || "tuzi";
   const providerDef = AVAILABLE_PROVIDERS.find((p) => p.id === providerId)
     || AVAILABLE_PROVIDERS[0]; // 兆底 Tuzi
-  const { apiKey, baseUrl, extraHeaders } = getProviderConfig(providerDef);
+  const { apiKey, baseUrl, extraHeaders, timeoutMs } = getProviderConfig(providerDef);
+
+  return {
+    apiKey,
+    baseUrl,
+    model,
+    temperature,
+    maxTokens,
+    extraHeaders,
+    timeoutMs,
+    supportsTools: modelDef?.supportsTools ?? true,
+    contextWindow: modelDef?.contextWindow,
+    providerId: providerDef.id,
+    fallbacks: getFallbackEndpoints(modelDef, providerDef.id, allModels),
+  };
+}
 
-  return { apiKey, baseUrl, model, temperature, maxTokens, extraHeaders };
+/**
+ * 故障转移链：按 AVAILABLE_PROVIDERS 顺序取其他渠道商上的等价模型（未配置 Key 的跳过）
+ *
+ * 是否支持原生工具调用按等价模型各自的定义解析。
+ */
+function getFallbackEndpoints(
+  modelDef: ModelDefinition | undefined,
+  primaryProviderId: string,
+  allModels: ModelDefinition[]
+): LLMEndpoint[] {
+  const equivalents = modelDef?.equivalents ?? {};
+  return AVAILABLE_PROVIDERS.filter(
+    (p) => p.id !== primaryProviderId && equivalents[p.id] && isProviderConfigured(p)
+  ).map((p) => {
+    const model = equivalents[p.id];
+    const def = allModels.find((m) => m.id === model && m.providerId === p.id) ?? allModels.find((m) => m.id === model);
+    return { providerId: p.id, model, ...getProviderConfig(p), supportsTools: def?.supportsTools ?? true };
+  });
 }
 
 /**
@@ -132,6 +241,80 @@ export async function updateLLMMaxTokens(tokens: number): Promise<void> {
   await setConfigInDB(CONFIG_KEYS.MAX_TOKENS, String(tokens));
 }
 
+// ============================================================
+// 任务模型路由
+// ============================================================
+
+/**
+ * 获取任务 → 模型路由表（仅包含已配置的任务）
+ */
+export async function getModelRoutes(): Promise<ModelRoutes> {
+  const raw = await getConfigFromDB(CONFIG_KEYS.MODEL_ROUTES);
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as ModelRoutes;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * 更新任务模型路由（空值表示该任务使用全局模型）
+ */
+export async function updateModelRoutes(routes: Record<string, string | null | undefined>): Promise<void> {
+  const allModels = await getAllModels();
+  const next: ModelRoutes = {};
+  for (const [task, modelId] of Object.entries(routes)) {
+    if (!LLM_TASKS.includes(task as LLMTask)) {
+      throw new Error(`未知的任务类型: ${task}`);
+    }
+    if (!modelId) continue;
+    if (!allModels.find((m) => m.id === modelId)) {
+      throw new Error(`无效的模型 ID: ${modelId}`);
+    }
+    next[task as LLMTask] = modelId;
+  }
+  await setConfigInDB(CONFIG_KEYS.MODEL_ROUTES, JSON.stringify(next));
+}
+
+/**
+ * 各任务的路由状态（前端展示用）
+ */
+export async function getTaskRoutes() {
+  const [routes, allModels] = await Promise.all([getModelRoutes(), getAllModels()]);
+  return LLM_TASKS.map((task) => ({
+    task,
+    label: LLM_TASK_LABELS[task],
+    model: routes[task] ?? null,
+    defaultModel: getTaskDefaultModel(task, allModels) ?? null,
+  }));
+}
+
+// ============================================================
+// 每日 token 预算
+// ============================================================
+
+/**
+ * 每位玩家每日 token 预算（输入 + 输出），0 表示不限
+ *
+ * 数据库 → 环境变量 PLAYER_DAILY_TOKEN_BUDGET → 0
+ */
+export async function getDailyTokenBudget(): Promise<number> {
+  const raw = (await getConfigFromDB(CONFIG_KEYS.DAILY_TOKEN_BUDGET)) || process.env.PLAYER_DAILY_TOKEN_BUDGET;
+  const budget = parseInt(raw || "0", 10);
+  return Number.isFinite(budget) && budget > 0 ? budget : 0;
+}
+
+/**
+ * 更新每日 token 预算（0 表示不限）
+ */
+export async function updateDailyTokenBudget(tokens: number): Promise<void> {
+  if (!Number.isInteger(tokens) || tokens < 0) {
+    throw new Error("每日 token 预算必须是非负整数");
+  }
+  await setConfigInDB(CONFIG_KEYS.DAILY_TOKEN_BUDGET, String(tokens));
+}
+
 // ============================================================
 // 自定义模型管理
 // ============================================================
@@ -154,7 +337,24 @@ export async function getCustomModels(): Promise<ModelDefinition[]> {
  */
 export async function getAllModels(): Promise<ModelDefinition[]> {
   const custom = await getCustomModels();
-  return [...AVAILABLE_MODELS, ...custom];
+  const discovered = await getDiscoveredModels();
+  // 自动发现的模型与已登记的同名时以已登记的为准
+  const known = new Set([...AVAILABLE_MODELS, ...custom].map((m) => m.id));
+  return [...AVAILABLE_MODELS, ...custom, ...discovered.filter((m) => !known.has(m.id))];
+}
+
+/**
+ * 从已启用的本地渠道商自动发现模型（见 model-discovery.ts）
+ */
+export async function getDiscoveredModels(): Promise<ModelDefinition[]> {
+  const providers = AVAILABLE_PROVIDERS.filter((p) => p.discoverModels && isProviderConfigured(p));
+  const lists = await Promise.all(
+    providers.map((p) => {
+      const { baseUrl, apiKey } = getProviderConfig(p);
+      return discoverProviderModels(p, baseUrl, apiKey);
+    })
+  );
+  return lists.flat();
 }
 
 /**
@@ -190,6 +390,7 @@ export async function deleteCustomModel(modelId: string): Promise<void> {
  */
 export async function getAvailableModels() {
   const allModels = await getAllModels();
+  const customIds = new Set((await getCustomModels()).map((m) => m.id));
   return allModels.map((m) => ({
     id: m.id,
     name: m.name,
@@ -198,7 +399,8 @@ export async function getAvailableModels() {
     apiFormat: m.apiFormat,
     costTier: m.costTier,
     description: m.description,
-    isCustom: !AVAILABLE_MODELS.find((b) => b.id === m.id),
+    isCustom: customIds.has(m.id),
+    isDiscovered: !customIds.has(m.id) && !AVAILABLE_MODELS.find((b) => b.id === m.id),
   }));
 }
 
@@ -210,7 +412,8 @@ export function getProviders() {
     id: p.id,
     name: p.name,
     description: p.description,
-    hasApiKey: !!process.env[p.envApiKeyName],
+    hasApiKey: isProviderConfigured(p),
+    requiresApiKey: p.requiresApiKey !== false,
     baseUrl: process.env[p.envBaseUrlName] || p.defaultBaseUrl,
   }));
 }
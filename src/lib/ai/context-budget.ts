@@ -0,0 +1,158 @@
+/**
+ * ChaosSaga - 上下文 token 预算
+ *
+ * 小上下文模型（本地模型常见 8k）放不下完整的状态注入 + 对话历史，
+ * 本模块负责：
+ * 1. 按模型上下文长度扣除输出预留、系统提示词、工具定义后，算出可用于状态注入与历史的预算
+ * 2. 按优先级分配各上下文区块：放得下则整块保留，放不下则截断，剩余太少则丢弃
+ * 3. 历史消息在预算不足时从最早的开始丢弃
+ *
+ * 每轮的分配结果（各区块 token 数、截断 / 丢弃情况）由 GameMaster 打印到日志。
+ */
+
+import type { NormalizedMessage } from "./adapters/types";
+import { DEFAULT_CONTEXT_WINDOW } from "./adapters/types";
+import { estimateTokens, truncateToTokens } from "./token-estimator";
+
+/** 状态注入的 token 上限（大上下文模型也不需要更多） */
+export const MAX_INJECTION_TOKENS = 4000;
+
+/** 状态注入的最低保障（必需区块在此范围内截断而不是丢弃） */
+export const MIN_INJECTION_TOKENS = 600;
+
+/** 区块剩余预算低于此值时直接丢弃，不再截断成残片 */
+const MIN_SECTION_TOKENS = 60;
+
+/** 估算误差的安全余量 */
+const SAFETY_MARGIN_TOKENS = 256;
+
+/** 上下文区块 */
+export interface ContextSection {
+  key: string;
+  /** 区块标题（如「【当前玩家状态】」） */
+  title: string;
+  content: string;
+  /** 优先级，数字越小越重要 */
+  priority: number;
+  /** 必需区块：预算不足时截断，不丢弃 */
+  required?: boolean;
+}
+
+/** 区块分配结果（日志用） */
+export interface SectionUsage {
+  key: string;
+  tokens: number;
+  /** 原始 token 数 */
+  originalTokens: number;
+  status: "full" | "truncated" | "dropped";
+}
+
+function renderSection(section: { title: string; content: string }): string {
+  return `${section.title}\n${section.content}`;
+}
+
+/**
+ * 按优先级在预算内分配区块，输出保持区块原有顺序
+ *
+ * 必需区块先于其他区块分配，且至少保留 MIN_SECTION_TOKENS 的正文（可能略超预算）。
+ */
+export function allocateSections(
+  sections: ContextSection[],
+  budget: number
+): { text: string; usage: SectionUsage[]; tokens: number } {
+  const byPriority = [...sections].sort(
+    (a, b) => Number(!a.required) - Number(!b.required) || a.priority - b.priority
+  );
+  const rendered = new Map<string, string>();
+  const usage = new Map<string, SectionUsage>();
+  let remaining = budget;
+
+  for (const section of byPriority) {
+    const full = renderSection(section);
+    const originalTokens = estimateTokens(full);
+
+    if (originalTokens <= remaining) {
+      rendered.set(section.key, full);
+      usage.set(section.key, { key: section.key, tokens: originalTokens, originalTokens, status: "full" });
+      remaining -= originalTokens;
+      continue;
+    }
+
+    const titleTokens = estimateTokens(section.title) + 1;
+    const room = section.required
+      ? Math.max(remaining - titleTokens, MIN_SECTION_TOKENS)
+      : remaining - titleTokens;
+    if (room >= MIN_SECTION_TOKENS) {
+      const text = renderSection({ title: section.title, content: truncateToTokens(section.content, room) });
+      const tokens = estimateTokens(text);
+      rendered.set(section.key, text);
+      usage.set(section.key, { key: section.key, tokens, originalTokens, status: "truncated" });
+      remaining -= tokens;
+    } else {
+      usage.set(section.key, { key: section.key, tokens: 0, originalTokens, status: "dropped" });
+    }
+  }
+
+  const text = sections
+    .filter((s) => rendered.has(s.key))
+    .map((s) => rendered.get(s.key)!)
+    .join("\n\n");
+  return {
+    text,
+    usage: sections.map((s) => usage.get(s.key)!),
+    tokens: budget - remaining,
+  };
+}
+
+/**
+ * 本轮可用于「状态注入 + 对话历史」的 token 预算
+ *
+ * @param fixedTexts - 必然发送的内容（系统提示词主体、工具定义、玩家本次消息）
+ */
+export function computePromptBudget(params: {
+  contextWindow?: number;
+  maxOutputTokens: number;
+  fixedTexts: string[];
+}): number {
+  const contextWindow = params.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+  const fixed = params.fixedTexts.reduce((sum, t) => sum + estimateTokens(t), 0);
+  return contextWindow - params.maxOutputTokens - fixed - SAFETY_MARGIN_TOKENS;
+}
+
+/**
+ * 在预算内拆分状态注入与历史
+ *
+ * 状态注入优先（上限 MAX_INJECTION_TOKENS），历史用剩余部分，从最早的消息开始丢弃；
+ * 总预算过小时历史全部丢弃，状态注入仍保留 MIN_INJECTION_TOKENS。
+ */
+export function fitHistory(
+  history: NormalizedMessage[],
+  promptBudget: number
+): { history: NormalizedMessage[]; injectionBudget: number; droppedMessages: number } {
+  const injectionBudget = Math.max(MIN_INJECTION_TOKENS, Math.min(MAX_INJECTION_TOKENS, promptBudget));
+  let historyBudget = promptBudget - injectionBudget;
+
+  // 从最新的往前保留
+  const kept: NormalizedMessage[] = [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(history[i].content) + 4;
+    if (cost > historyBudget) break;
+    kept.unshift(history[i]);
+    historyBudget -= cost;
+  }
+
+  return { history: kept, injectionBudget, droppedMessages: history.length - kept.length };
+}
+
+/** 分配结果的单行日志，如 playerState=180 areaInfo=95(截断 240) relevantMemories=丢弃 */
+export function formatComposition(usage: SectionUsage[]): string {
+  return usage
+    .map((u) =>
+      u.status === "full"
+        ? `${u.key}=${u.tokens}`
+        : u.status === "truncated"
+          ? `${u.key}=${u.tokens}(截断 ${u.originalTokens})`
+          : `${u.key}=丢弃(${u.originalTokens})`
+    )
+    .join(" ");
+}
@@ -7,6 +7,7 @@
  *   + 当前区域信息（节点列表/可达路径）
  *   + 活跃任务列表
  *   + 特殊效果监控
+ *   + 当前节点 NPC 记忆
  *   + 最近 N 条对话历史
  *
  * Token 预算：
@@ -23,6 +24,14 @@ import type { Prisma } from "@/generated/prisma/client";
 import type { NormalizedMessage } from "./adapters/types";
 import { calcFinalStats } from "@/lib/game/player-calc";
 import type { Realm } from "@/lib/game/formulas";
+import { SLOT_NAMES, resolveSlottedItems, type EquipmentSlot } from "@/lib/game/equipment-slots";
+import { applyEnhanceToStats } from "@/lib/game/equipment-enhance";
+import { AFFIX_STAT_KEYS, describeAffixes } from "@/lib/game/affixes";
+import { getNpcsAtNode, type NpcShopItem } from "@/lib/game/npc-registry";
+import { normalizeStock } from "@/lib/game/shop-economy";
+import { formatRelationMemory } from "./tools/npc-tools";
+import { retrieveRelevantMemories } from "./memory-retrieval";
+import type { Npc } from "@/generated/prisma/client";
 
 // ============================================================
 // 玩家状态摘要
@@ -34,6 +43,7 @@ export async function getPlayerStateSummary(playerId: string): Promise<string> {
     include: {
       skills: { where: { equipped: true } },
       inventory: { where: { equipped: true } },
+      equipment: true,
     },
   });
 
@@ -43,17 +53,8 @@ export async function getPlayerStateSummary(playerId: string): Promise<string> {
     .map((s) => `${s.name}[id:${s.id}](${s.element}, 伤害:${s.damage}, MP:${s.mpCost})`)
     .join("、");
 
-  // 已装备的物品（武器/防具/饰品）
-  const equippedGear = player.inventory
-    .filter((i) => ["weapon", "armor", "accessory", "helmet", "boots"].includes(i.type))
-    .map((i) => {
-      const stats = i.stats as Record<string, number> | null;
-      const statStr = stats
-        ? Object.entries(stats).map(([k, v]) => `${k}:+${v}`).join(" ")
-        : "";
-      return `${i.name}(${i.type}${statStr ? ", " + statStr : ""})`;
-    })
-    .join("、");
+  // 已装备的物品（按槽位）
+  const equippedGear = formatEquippedGear(resolveSlottedItems(player.equipment, player.inventory));
 
   // 获取可读的位置名称
   const location = await getReadableLocation(player.currentAreaId, player.currentNodeId);
@@ -237,9 +238,21 @@ export async function getSpecialEffectsSummary(playerId: string): Promise<string
 // 对话历史
 // ============================================================
 
+/** GM 上下文默认携带的历史消息条数 */
+export const DEFAULT_HISTORY_LIMIT = 20;
+
+/** 节能模式（接近每日预算）下携带的历史消息条数 */
+export const LOW_BUDGET_HISTORY_LIMIT = 6;
+
+/** 往事检索片段的默认 token 预算 */
+export const DEFAULT_RETRIEVAL_TOKENS = 500;
+
+/** 节能模式下往事检索片段的 token 预算 */
+export const LOW_BUDGET_RETRIEVAL_TOKENS = 150;
+
 export async function getRecentHistory(
   playerId: string,
-  limit: number = 20
+  limit: number = DEFAULT_HISTORY_LIMIT
 ): Promise<NormalizedMessage[]> {
   const records = await prisma.chatHistory.findMany({
     where: { playerId },
@@ -267,22 +280,49 @@ export interface GameContext {
   activeQuests: string;
   activeBattle: string;
   specialEffects: string;
+  /** 当前节点 NPC 对玩家的记忆（无记录时为空字符串） */
+  npcMemory: string;
+  /** 较早对话的剧情摘要（见 campaign-memory.ts，无记录时为空字符串） */
+  campaignMemory: string;
+  /** 与当前消息相关的较早对话 / 日志（见 memory-retrieval.ts，无命中时为空字符串） */
+  relevantMemories: string;
   history: NormalizedMessage[];
 }
 
+export interface BuildContextOptions {
+  /** 携带的历史消息条数（节能模式下缩短） */
+  historyLimit?: number;
+  /** 玩家当前消息，用于检索相关往事（缺省不检索） */
+  query?: string;
+  /** 往事检索片段的 token 预算 */
+  retrievalTokens?: number;
+}
+
 /**
  * 一次性加载玩家的完整游戏上下文（优化版：减少数据库查询次数）
- * @param isBattle 战斗模式下跳过区域详情和特殊效果
+ * @param isBattle 战斗模式下跳过区域详情、特殊效果和往事检索
  */
-export async function buildGameContext(playerId: string, isBattle = false): Promise<GameContext> {
+export async function buildGameContext(
+  playerId: string,
+  isBattle = false,
+  options: BuildContextOptions = {}
+): Promise<GameContext> {
+  const {
+    historyLimit = DEFAULT_HISTORY_LIMIT,
+    query,
+    retrievalTokens = DEFAULT_RETRIEVAL_TOKENS,
+  } = options;
+
   // 优化：使用单次查询加载所有玩家相关数据（6+ 查询 → 3 查询）
-  const [playerData, battleState, history] = await Promise.all([
+  const [playerData, battleState, history, campaignMemory, relevantMemories] = await Promise.all([
     // 查询 1: 玩家 + 技能 + 背包 + 任务 + 区域信息（一次性加载）
     prisma.player.findUnique({
       where: { id: playerId },
       include: {
         skills: { where: { equipped: true } },
-        inventory: true, // 加载全部背包（用于装备和特殊效果）
+        // 仅加载已装备与带特殊效果的物品（背包其余物品不进入上下文）
+        inventory: { where: { OR: [{ equipped: true }, { specialEffect: { not: null } }] } },
+        equipment: true, // 装备槽位
         quests: {
           where: { status: "active" },
           include: { quest: true },
@@ -294,12 +334,16 @@ export async function buildGameContext(playerId: string, isBattle = false): Prom
     // 查询 2: 战斗状态（独立表）
     prisma.battleState.findUnique({ where: { playerId } }),
     // 查询 3: 对话历史（独立表）
-    prisma.chatHistory.findMany({
-      where: { playerId },
-      orderBy: { createdAt: "desc" },
-      take: 20,
-      select: { role: true, content: true, metadata: true },
-    }),
+    getRecentHistory(playerId, historyLimit),
+    // 查询 4: 剧情记忆（窗口外对话的摘要）
+    prisma.campaignMemory.findUnique({ where: { playerId }, select: { summary: true } }),
+    // 查询 5: 往事检索（窗口外与当前消息相关的对话 / 日志，失败不影响主流程）
+    !isBattle && query
+      ? retrieveRelevantMemories(playerId, query, historyLimit, retrievalTokens).catch((error) => {
+          console.warn("[ContextBuilder] 往事检索失败:", error instanceof Error ? error.message : error);
+          return "";
+        })
+      : Promise.resolve(""),
   ]);
 
   if (!playerData) {
@@ -309,8 +353,9 @@ export async function buildGameContext(playerId: string, isBattle = false): Prom
   // 如果需要区域信息，额外加载（战斗模式跳过）
   let areaData = null;
   let currentNode = null;
+  let nodeNpcs: Npc[] = [];
   if (!isBattle && playerData.currentAreaId) {
-    [areaData, currentNode] = await Promise.all([
+    [areaData, currentNode, nodeNpcs] = await Promise.all([
       prisma.area.findUnique({
         where: { id: playerData.currentAreaId },
         select: { name: true, theme: true, recommendedLevel: true, description: true },
@@ -322,13 +367,15 @@ export async function buildGameContext(playerId: string, isBattle = false): Prom
               name: true,
               type: true,
               description: true,
-              data: true, // 🆕 添加 data 字段以提取 NPCs 和商店信息
               connections: {
                 select: { toNode: { select: { name: true, type: true } } },
               },
             },
           })
         : null,
+      playerData.currentNodeId
+        ? getNpcsAtNode(playerData.currentAreaId, playerData.currentNodeId)
+        : [],
     ]);
   }
 
@@ -360,23 +407,21 @@ export async function buildGameContext(playerId: string, isBattle = false): Prom
 
   // 构建摘要字符串（保持原有格式）
   const playerState = buildPlayerStateSummary(playerData, areaData, currentNode);
-  const areaInfo = isBattle ? "战斗中" : buildAreaInfoSummary(areaData, currentNode);
+  const areaInfo = isBattle ? "战斗中" : buildAreaInfoSummary(areaData, currentNode, nodeNpcs);
   const activeQuests = buildActiveQuestsSummary(currentAreaQuests, npcLocations);
   const activeBattle = buildActiveBattleSummary(battleState);
   const specialEffects = isBattle ? "无" : buildSpecialEffectsSummary(playerData.inventory);
-  const historyMessages = history.reverse().map((r) => ({
-    role: r.role as NormalizedMessage["role"],
-    content: r.content,
-    toolCallId: (r.metadata as Record<string, string> | null)?.toolCallId,
-  }));
-
+  const npcMemory = isBattle ? "" : await loadNpcMemory(playerId, nodeNpcs);
   return {
     playerState,
     areaInfo,
     activeQuests,
     activeBattle,
     specialEffects,
-    history: historyMessages,
+    npcMemory,
+    campaignMemory: campaignMemory?.summary ?? "",
+    relevantMemories,
+    history,
   };
 }
 
@@ -384,10 +429,24 @@ export async function buildGameContext(playerId: string, isBattle = false): Prom
 // 内部辅助函数：从已加载数据构建摘要（避免重复查询）
 // ============================================================
 
+/**
+ * 加载当前节点 NPC 的关系记录
+ */
+async function loadNpcMemory(playerId: string, npcs: Npc[]): Promise<string> {
+  if (npcs.length === 0) return "";
+
+  const relations = await prisma.npcRelation.findMany({
+    where: { playerId, npcId: { in: npcs.map((n) => n.id) } },
+    orderBy: { lastInteractAt: "desc" },
+  });
+  return relations.map(formatRelationMemory).join("\n");
+}
+
 type PlayerWithIncludes = Prisma.PlayerGetPayload<{
   include: {
     skills: { where: { equipped: true } };
-    inventory: true;
+    inventory: { where: { OR: [{ equipped: true }, { specialEffect: { not: null } }] } };
+    equipment: true;
     quests: {
       where: { status: "active" };
       include: { quest: true };
@@ -395,6 +454,27 @@ type PlayerWithIncludes = Prisma.PlayerGetPayload<{
   };
 }>;
 
+/** 已装备物品的单行描述：槽位:名称(属性) */
+function formatEquippedGear(
+  items: Array<{ name: string; stats: unknown; enhanceLevel: number; slot: EquipmentSlot }>
+): string {
+  return items
+    .map((i) => {
+      const stats = i.stats ? applyEnhanceToStats(i.stats as Record<string, number>, i.enhanceLevel) : null;
+      const statStr = stats
+        ? [
+            ...Object.entries(stats)
+              .filter(([k]) => !(AFFIX_STAT_KEYS as string[]).includes(k))
+              .map(([k, v]) => `${k}:+${v}`),
+            ...describeAffixes(stats),
+          ].join(" ")
+        : "";
+      const enhanceStr = i.enhanceLevel > 0 ? ` +${i.enhanceLevel}` : "";
+      return `${SLOT_NAMES[i.slot]}:${i.name}${enhanceStr}${statStr ? `(${statStr})` : ""}`;
+    })
+    .join("、");
+}
+
 function buildPlayerStateSummary(
   player: PlayerWithIncludes,
   area: { name: string } | null,
@@ -404,22 +484,12 @@ function buildPlayerStateSummary(
     .map((s) => `${s.name}[id:${s.id}](${s.element}, 伤害:${s.damage}, MP:${s.mpCost})`)
     .join("、");
 
-  const equippedItems = player.inventory
-    .filter((i) => i.equipped)
-    .map((i) => ({ stats: i.stats as Record<string, unknown> | null }));
+  const slottedItems = resolveSlottedItems(player.equipment, player.inventory);
+  const equippedItems = slottedItems.map((i) => ({ stats: i.stats as Record<string, unknown> | null, enhanceLevel: i.enhanceLevel, setId: i.setId }));
 
   const finalStats = calcFinalStats(player.level, player.realm as Realm, equippedItems);
 
-  const equippedGear = player.inventory
-    .filter((i) => i.equipped && ["weapon", "armor", "accessory", "helmet", "boots"].includes(i.type))
-    .map((i) => {
-      const stats = i.stats as Record<string, number> | null;
-      const statStr = stats
-        ? Object.entries(stats).map(([k, v]) => `${k}:+${v}`).join(" ")
-        : "";
-      return `${i.name}(${i.type}${statStr ? ", " + statStr : ""})`;
-    })
-    .join("、");
+  const equippedGear = formatEquippedGear(slottedItems);
 
   const location = area
     ? node
@@ -433,49 +503,53 @@ function buildPlayerStateSummary(
     `攻击: ${finalStats.attack} | 防御: ${finalStats.defense} | 速度: ${finalStats.speed}`,
     `金币: ${player.gold} | 灵石: ${player.spiritStones} | 经验: ${player.exp}`,
     `已装备: ${equippedGear || "无"}`,
+    ...(finalStats.activeSets.length > 0
+      ? [`套装: ${finalStats.activeSets.map((a) => `${a.setName}${a.equippedPieces}/${a.totalPieces}${a.bonuses.length ? ` ${a.bonuses.join(" ")}` : ""}`).join("、")}`]
+      : []),
     `装备技能: ${equippedSkills || "无"}`,
     `位置: ${location}`,
   ].join("\n");
 }
 
+/** 节点描述注入上下文的最大字数 */
+const MAX_NODE_DESCRIPTION_LENGTH = 200;
+
+/** 位置信息中列出的最大 NPC 数 */
+const MAX_LISTED_NPCS = 6;
+
+function clipText(text: string, maxLength: number): string {
+  return text.length > maxLength ? text.slice(0, maxLength) + "…" : text;
+}
+
 function buildAreaInfoSummary(
   area: { name: string; theme: string; recommendedLevel: number; description: string } | null,
   node: {
     name: string;
     type: string;
     description: string;
-    data?: unknown;
     connections: Array<{ toNode: { name: string; type: string } }>;
-  } | null
+  } | null,
+  npcs: Npc[]
 ): string {
   if (!area) return "玩家不在任何区域中";
 
   const currentNodeName = node ? `${node.name}（${node.type}）` : "未知";
-  const currentNodeDesc = node?.description || "";
+  const currentNodeDesc = clipText(node?.description || "", MAX_NODE_DESCRIPTION_LENGTH);
   const adjacentStr = node
     ? node.connections.map((c) => `${c.toNode.name}(${c.toNode.type})`).join("、") || "无"
     : "无";
 
-  // 🆕 提取当前节点的 NPCs 和商店信息
+  // 当前节点的 NPC（按日程）与商店货物
   let npcInfo = "";
-  if (node?.data) {
-    const nodeData = node.data as Record<string, unknown>;
-
-    // NPCs 列表
-    const npcs = nodeData.npcs as Array<{ id?: string; name?: string; role?: string }> | undefined;
-    if (npcs && Array.isArray(npcs) && npcs.length > 0) {
-      const npcList = npcs.map(npc => {
-        const roleDesc = npc.role ? `（${npc.role}）` : "";
-        return `  - ${npc.name}${roleDesc}`;
-      }).join("\n");
-      npcInfo += `\n可交互 NPC:\n${npcList}`;
-    }
+  if (npcs.length > 0) {
+    const npcList = npcs.slice(0, MAX_LISTED_NPCS).map((npc) => `  - ${npc.name}（${npc.role}）[id:${npc.id}]`).join("\n");
+    const moreNpcs = npcs.length > MAX_LISTED_NPCS ? `\n  ...还有${npcs.length - MAX_LISTED_NPCS}位` : "";
+    npcInfo += `\n可交互 NPC:\n${npcList}${moreNpcs}`;
 
-    // 商店物品
-    const shopItems = nodeData.shopItems as Array<{ name: string; price: number; type: string }> | undefined;
-    if (shopItems && Array.isArray(shopItems) && shopItems.length > 0) {
+    const shopItems = npcs.flatMap((npc) => normalizeStock((npc.inventory as unknown as NpcShopItem[] | null) ?? []));
+    if (shopItems.length > 0) {
       const itemList = shopItems.slice(0, 5).map(item =>
-        `  - ${item.name}（${item.type}，${item.price}金币）`
+        `  - ${item.name}（${item.type}，${item.price}金币，${item.stock > 0 ? `库存${item.stock}` : "售罄"}）`
       ).join("\n");
       const moreItems = shopItems.length > 5 ? `\n  ...还有${shopItems.length - 5}件商品` : "";
       npcInfo += `\n商店物品:\n${itemList}${moreItems}`;
@@ -15,7 +15,17 @@ import {
   buildContextInjection,
 } from "./system-prompt";
 import { BATTLE_TOOLS, EXPLORATION_TOOLS, GM_TOOLS, executeToolCall } from "./tools";
-import { buildGameContext } from "./context-builder";
+import { computePromptBudget, fitHistory, formatComposition } from "./context-budget";
+import {
+  buildGameContext,
+  DEFAULT_HISTORY_LIMIT,
+  DEFAULT_RETRIEVAL_TOKENS,
+  LOW_BUDGET_HISTORY_LIMIT,
+  LOW_BUDGET_RETRIEVAL_TOKENS,
+} from "./context-builder";
+import { indexChatMessage } from "./memory-retrieval";
+import { updateCampaignMemory } from "./campaign-memory";
+import { BUDGET_EXHAUSTED_MESSAGE, getBudgetStatus, type BudgetStatus } from "./budget";
 import { prisma } from "@/lib/db/prisma";
 import {
   StreamingJSONParser,
@@ -27,6 +37,8 @@ import {
 interface GameMasterContext {
   playerId: string;
   message?: string;
+  /** 不触发本轮结束后的后台任务（剧情记忆摘要），录制 / 回放时使用，见 replay-harness.ts */
+  skipBackgroundTasks?: boolean;
 }
 
 /** SSE 输出事件（传给前端） */
@@ -42,10 +54,13 @@ export type GameSSEEvent =
       data: { actions: Array<{ label: string; value: string }> };
     }
   | { type: "error"; data: { message: string } }
+  /** 玩家每日 token 预算进入节能模式 / 耗尽（见 budget.ts） */
+  | { type: "budget"; data: BudgetStatus }
+  /** data.provider / data.model：实际应答的渠道商与模型（可能是故障转移后的） */
   | { type: "done"; data: Record<string, unknown> };
 
 /**
- * 保存对话记录
+ * 保存对话记录（同步写入往事检索索引）
  */
 async function saveChatHistory(
   playerId: string,
@@ -53,7 +68,7 @@ async function saveChatHistory(
   content: string,
   metadata?: Record<string, unknown>
 ): Promise<void> {
-  await prisma.chatHistory.create({
+  const record = await prisma.chatHistory.create({
     data: {
       playerId,
       role,
@@ -62,6 +77,7 @@ async function saveChatHistory(
       metadata: (metadata ?? undefined) as any,
     },
   });
+  indexChatMessage(playerId, record);
 }
 
 /** SSE 编码辅助 */
@@ -109,24 +125,73 @@ export async function processGameMessage(
           // 阶段 1: 整理数据 (Preparing)
           await send({ type: "preparing", data: { message: "正在整理记忆与状态..." } });
 
-          // 1. 加载配置
+          // 预检测战斗状态（轻量查询），以便按任务路由模型、跳过探索模式专属查询
+          const activeBattle = await prisma.battleState.findUnique({
+            where: { playerId: ctx.playerId },
+            select: { status: true },
+          });
+          const isBattle = activeBattle?.status === "active";
+          const isGM = Boolean(ctx.message?.trim().toLowerCase().startsWith("/gm"));
+
+          // 每日 token 预算（GM 指令不受限）
+          const budget = isGM
+            ? { level: "normal" as const, used: 0, limit: 0 }
+            : await getBudgetStatus(ctx.playerId);
+          if (budget.level === "exhausted") {
+            // 预算耗尽：世界观内拒绝，不调用 API
+            console.log(`[GameMaster] 玩家今日预算已耗尽 (${budget.used}/${budget.limit})，跳过 LLM 调用`);
+            if (attempt === 1 && ctx.message) {
+              await saveChatHistory(ctx.playerId, "user", ctx.message);
+            }
+            await saveChatHistory(ctx.playerId, "assistant", BUDGET_EXHAUSTED_MESSAGE, { budget });
+            await send({ type: "budget", data: budget });
+            await send({ type: "text", data: { content: BUDGET_EXHAUSTED_MESSAGE } });
+            await send({ type: "done", data: {} });
+            return;
+          }
+          const lowBudget = budget.level === "low";
+          if (lowBudget) {
+            console.log(`[GameMaster] 玩家接近今日预算 (${budget.used}/${budget.limit})，进入节能模式`);
+            await send({ type: "budget", data: budget });
+          }
+
+          // 1. 加载配置（战斗 / 探索叙事分别路由；节能模式改用 economy 路由的廉价模型）
           console.log(`[GameMaster] 步骤1: 加载 LLM 配置...`);
-          const config = await getLLMConfig();
+          const task = isBattle ? "battle" : "narration";
+          const config = await getLLMConfig(lowBudget ? "economy" : task);
           console.log(`[GameMaster] 使用模型: ${config.model}`);
-          const client = new LLMClient(config);
+          const client = new LLMClient(config, { task, playerId: ctx.playerId });
 
           // 2. 通过 context-builder 一次性加载完整游戏上下文
           console.log(`[GameMaster] 步骤2: 构建游戏上下文...`);
 
-          // 预检测战斗状态（轻量查询），以便跳过探索模式专属查询
-          const activeBattle = await prisma.battleState.findUnique({
-            where: { playerId: ctx.playerId },
-            select: { status: true },
+          const gameCtx = await buildGameContext(ctx.playerId, isBattle, {
+            historyLimit: lowBudget ? LOW_BUDGET_HISTORY_LIMIT : DEFAULT_HISTORY_LIMIT,
+            query: ctx.message,
+            retrievalTokens: lowBudget ? LOW_BUDGET_RETRIEVAL_TOKENS : DEFAULT_RETRIEVAL_TOKENS,
           });
-          const isBattle = activeBattle?.status === "active";
-          const isGM = Boolean(ctx.message?.trim().toLowerCase().startsWith("/gm"));
 
-          const gameCtx = await buildGameContext(ctx.playerId, isBattle);
+          // 🆕 工具集选择逻辑：
+          // - 战斗模式：使用 BATTLE_TOOLS
+          // - GM指令：仅当消息以 "/gm" 开头时，混合 EXPLORATION + GM 工具
+          // - 普通探索：仅使用 EXPLORATION_TOOLS
+          let tools = isBattle ? BATTLE_TOOLS : EXPLORATION_TOOLS;
+
+          if (isGM) {
+             tools = isBattle
+               ? [...GM_TOOLS]
+               : [...EXPLORATION_TOOLS, ...GM_TOOLS];
+             console.log(`[GameMaster] 激活 GM 工具模式 (isBattle=${isBattle})`);
+          }
+
+          // 上下文预算：扣除输出预留、系统提示词、工具定义与本次消息后，在状态注入与历史间分配
+          const basePrompt = getSystemPrompt(isBattle, isGM);
+          const promptBudget = computePromptBudget({
+            contextWindow: config.contextWindow,
+            maxOutputTokens: config.maxTokens,
+            fixedTexts: [basePrompt, JSON.stringify(tools), ctx.message ?? ""],
+          });
+          const fitted = fitHistory(gameCtx.history, promptBudget);
 
           const contextInjection = buildContextInjection({
             playerState: gameCtx.playerState,
@@ -134,15 +199,20 @@ export async function processGameMessage(
             activeQuests: gameCtx.activeQuests,
             activeBattle: gameCtx.activeBattle,
             specialEffects: gameCtx.specialEffects,
+            npcMemory: gameCtx.npcMemory,
+            campaignMemory: gameCtx.campaignMemory,
+            relevantMemories: gameCtx.relevantMemories,
             isGMMode: isGM,
-          });
-
-          const systemPrompt =
-            getSystemPrompt(isBattle, isGM) + "\n" + contextInjection;
+          }, fitted.injectionBudget);
+          console.log(
+            `[GameMaster] 上下文预算: 状态注入 ${contextInjection.tokens}/${fitted.injectionBudget} tokens ` +
+            `[${formatComposition(contextInjection.composition)}]` +
+            (fitted.droppedMessages > 0 ? `，丢弃最早 ${fitted.droppedMessages} 条历史` : "")
+          );
 
           // 3. 构建消息列表（历史 + 当前消息）
-          console.log(`[GameMaster] 步骤3: 构建消息列表 (历史: ${gameCtx.history.length} 条)`);
-          const messages = [...gameCtx.history];
+          console.log(`[GameMaster] 步骤3: 构建消息列表 (历史: ${fitted.history.length} 条)`);
+          const messages = [...fitted.history];
           if (ctx.message) {
             // [Optimization] 战斗模式下注入强提示，防止 AI 先输出一大段废话再调工具
             const suffix = isBattle && !isGM
@@ -167,6 +237,7 @@ export async function processGameMessage(
           console.log(`[GameMaster] 步骤5: 开始调用 LLM API...`);
 
           let fullText = "";
+          let answeredBy: { provider?: string; model?: string } = {};
 
           // 心跳保活：每 8 秒发一个 thinking 事件
           let heartbeatCount = 0;
@@ -229,23 +300,12 @@ export async function processGameMessage(
                  let isBuffering = true; // Enable buffering for ALL modes
                  const BUFFER_LIMIT = 120; // [Optimization] 增加缓冲区大小以捕获更长的起手式
 
-                 // 🆕 工具集选择逻辑：
-                 // - 战斗模式：使用 BATTLE_TOOLS
-                 // - GM指令：仅当消息以 "/gm" 开头时，混合 EXPLORATION + GM 工具
-                 // - 普通探索：仅使用 EXPLORATION_TOOLS
-                 let tools = isBattle ? BATTLE_TOOLS : EXPLORATION_TOOLS;
-
-                 if (isGM) {
-                    tools = isBattle
-                      ? [...GM_TOOLS]
-                      : [...EXPLORATION_TOOLS, ...GM_TOOLS];
-                    console.log(`[GameMaster] 激活 GM 工具模式 (isBattle=${isBattle})`);
-                 }
-
                  const stream = client.chatStreamWithTools(
                    {
                      model: config.model,
-                     systemPrompt,
+                     // 静态提示词与每轮状态分开发送，前者可命中提示词缓存
+                     systemPrompt: basePrompt,
+                     dynamicContext: contextInjection.text,
                      messages,
                      tools, // 使用动态选择的工具集
                      temperature: config.temperature,
@@ -313,6 +373,9 @@ export async function processGameMessage(
                      console.error("[GameMaster] 流式错误:", event.message);
                      throw new Error(event.message);
                    } else if (event.type === "done") {
+                     if ("provider" in event && event.provider) {
+                       answeredBy = { provider: event.provider, model: event.model };
+                     }
                      if (textBuffer.length > 0) {
                         await send({ type: "text", data: { content: textBuffer } });
                         passText += textBuffer;
@@ -332,6 +395,7 @@ export async function processGameMessage(
 
                  // 保存调试元数据
                  debugMetadata = {
+                    ...answeredBy,
                     rawJson: rawJsonBuffer,
                     structured: finalResponse || null,
                     toolCalls: Array.from(collectedTools)
@@ -488,8 +552,14 @@ export async function processGameMessage(
             }
           }
 
-          // 8. 结束
-          await send({ type: "done", data: {} });
+          // 8. 结束（附带实际应答的渠道商）
+          if (answeredBy.provider && answeredBy.provider !== config.providerId) {
+            console.warn(`[GameMaster] 主渠道商 ${config.providerId} 不可用，已由 ${answeredBy.provider} (${answeredBy.model}) 应答`);
+          }
+          await send({ type: "done", data: answeredBy });
+
+          // 9. 后台增量更新剧情记忆（不阻塞本轮）：未送入本轮上下文的历史都纳入摘要
+          if (!ctx.skipBackgroundTasks) void updateCampaignMemory(ctx.playerId, fitted.history.length);
           return; 
 
         } catch (error) {
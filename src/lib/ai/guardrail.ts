@@ -8,8 +8,16 @@
  * 核心原则：给 AI 自由 → 但每个动作必须经过 Guardrail → 不合规就打回并附原因
  */
 
-import { REALM_COEFFICIENTS, type Realm } from "@/lib/game/formulas";
+import {
+  REALM_COEFFICIENTS,
+  ITEM_QUALITY_MULTIPLIERS,
+  calcItemStatCap,
+  type Realm,
+} from "@/lib/game/formulas";
+import { AFFIX_PERCENT_CAPS } from "@/lib/game/affixes";
 import { getElementMultiplier } from "@/lib/game/formulas";
+import { LLMClient } from "./llm-client";
+import { AVAILABLE_PROVIDERS } from "./adapters/types";
 
 // ============================================================
 // 类型定义
@@ -72,15 +80,6 @@ const BANNED_SPECIAL_EFFECTS = new Set([
   "一击必杀", "无限金币", "无限生命",
 ]);
 
-/** 品质等级对应的 stats 乘数 */
-const QUALITY_MULTIPLIERS: Record<string, number> = {
-  common: 1.0,
-  uncommon: 1.5,
-  rare: 2.5,
-  epic: 4.0,
-  legendary: 7.0,
-};
-
 /** 物品来源对应的最高品质 */
 const SOURCE_QUALITY_CAP: Record<string, string> = {
   pickup: "uncommon",
@@ -139,10 +138,18 @@ export function validateItemGift(
   // 4. Stats 数值上限校验
   if (item.stats && Object.keys(item.stats).length > 0) {
     const realmCoeff = REALM_COEFFICIENTS[realm] || 1.0;
-    const qualityMult = QUALITY_MULTIPLIERS[quality] || 1.0;
-    const statCap = Math.floor(playerLevel * realmCoeff * qualityMult);
+    const qualityMult = ITEM_QUALITY_MULTIPLIERS[quality] || 1.0;
+    const statCap = calcItemStatCap(playerLevel, quality, realm);
 
     for (const [key, value] of Object.entries(item.stats)) {
+      // 百分比词缀（暴击/元素增伤/吸血）使用独立的固定上限
+      if (key in AFFIX_PERCENT_CAPS) {
+        const pctCap = AFFIX_PERCENT_CAPS[key as keyof typeof AFFIX_PERCENT_CAPS];
+        if (value > pctCap) {
+          return { ok: false, reason: `物品 stats.${key}=${value} 超过词缀上限 ${pctCap}` };
+        }
+        continue;
+      }
       // hpRestore / mpRestore 的上限更宽松（消耗品恢复量）
       if (key === "hpRestore" || key === "mpRestore") {
         const restoreCap = statCap * 5; // 恢复量允许更高
@@ -286,65 +293,41 @@ export function needsSupervisorCheck(context: {
  * 监管 Agent：使用快速 LLM 做二次审核
  *
  * 仅在确定性规则无法判定时调用（如剧情合理性）。
- * 有 2s 超时兜底 → 超时默认通过，避免阻塞游戏体验。
+ * 有 2s 超时兜底（中止底层请求）→ 超时默认通过，避免阻塞游戏体验。
+ *
+ * @param playerId - 可选，用量记到该玩家名下
  */
 export async function supervisorCheck(
-  context: SupervisorContext
+  context: SupervisorContext,
+  playerId?: string
 ): Promise<{ approved: boolean; reason?: string }> {
   // 如果监管 Agent 被禁用，直接通过
   if (process.env.GUARDRAIL_SUPERVISOR_ENABLED === "false") {
     return { approved: true };
   }
 
+  const signal = AbortSignal.timeout(2000); // 2s 超时
   try {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 2000); // 2s 超时
-
-    const apiKey = process.env.TUZI_API_KEY;
-    const baseUrl = process.env.TUZI_BASE_URL || "https://api.tu-zi.com";
-
-    if (!apiKey) {
+    // 模型由任务路由表决定（默认 gpt-4o-mini）
+    const client = await LLMClient.forTask("supervisor", { temperature: 0, maxTokens: 200 }, playerId);
+    const { apiKey, providerId } = client.getConfig();
+    const requiresApiKey = AVAILABLE_PROVIDERS.find((p) => p.id === providerId)?.requiresApiKey !== false;
+    if (!apiKey && requiresApiKey) {
       // 无 API key 时默认通过
-      clearTimeout(timeout);
       return { approved: true, reason: "监管 Agent 未配置 API key，默认通过" };
     }
 
-    const response = await fetch(`${baseUrl}/v1/chat/completions`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        temperature: 0,
-        max_tokens: 200,
-        messages: [
-          {
-            role: "system",
-            content:
-              "你是游戏安全审核员。判断以下游戏行动是否合理。只回复JSON：{\"approved\":true/false,\"reason\":\"简短原因\"}\n" +
-              "判定标准：是否符合奇幻RPG世界观？数值是否夸张？是否会破坏游戏平衡？\n" +
-              "倾向宽松：只有明显不合理才拒绝。",
-          },
-          {
-            role: "user",
-            content: JSON.stringify(context),
-          },
-        ],
-      }),
-      signal: controller.signal,
+    const response = await client.chat({
+      model: client.getConfig().model,
+      systemPrompt:
+        "你是游戏安全审核员。判断以下游戏行动是否合理。只回复JSON：{\"approved\":true/false,\"reason\":\"简短原因\"}\n" +
+        "判定标准：是否符合奇幻RPG世界观？数值是否夸张？是否会破坏游戏平衡？\n" +
+        "倾向宽松：只有明显不合理才拒绝。",
+      messages: [{ role: "user", content: JSON.stringify(context) }],
+      signal,
     });
 
-    clearTimeout(timeout);
-
-    if (!response.ok) {
-      console.warn(`[Guardrail] Supervisor API error: ${response.status}`);
-      return { approved: true, reason: "监管 Agent API 错误，默认通过" };
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
+    const content = response.content;
 
     if (!content) {
       return { approved: true, reason: "监管 Agent 无返回，默认通过" };
@@ -366,11 +349,11 @@ export async function supervisorCheck(
       return { approved: false, reason: `监管 Agent 返回解析失败: ${content.slice(0, 100)}` };
     }
   } catch (error) {
-    // 超时或网络错误 → 默认通过（不阻塞游戏）
-    if (error instanceof DOMException && error.name === "AbortError") {
+    if (signal.aborted) {
       console.warn("[Guardrail] Supervisor timeout, defaulting to approved");
       return { approved: true, reason: "监管 Agent 超时，默认通过" };
     }
+    // API 或网络错误 → 默认通过（不阻塞游戏）
     console.warn("[Guardrail] Supervisor error:", error);
     return { approved: true, reason: "监管 Agent 异常，默认通过" };
   }
@@ -40,10 +40,13 @@ const STATE_MODIFYING_TOOLS = new Set([
   'modify_player_data', // GM tool
   'modify_enemy_hp', // GM tool
   'use_item', // can heal
+  'enhance_equipment', // consumes gold / stones, changes enhance level
   'execute_battle_action', // yields loot/exp usually via internal logic, but prompts might hallmark it
   'improvise_action', // creative combat action, can deal damage / heal / consume items
   'resolve_battle_diplomacy', // diplomatic resolution, can gift items / gold / exp / quests
   'interact_environment', // environment interaction, can pickup / use / consume items
+  'realm_breakthrough', // realm breakthrough, consumes pills / spirit stones and changes realm
+  'update_npc_memory', // NPC affinity / memory, gifts consume an inventory item
 ]);
 
 // Patterns specific to battle fabrication — only ACTION outcomes, not status descriptions.
@@ -3,39 +3,87 @@
  *
  * 自动根据模型名称路由到正确的适配器（OpenAI / Anthropic）。
  * Game Master 和其他系统通过此客户端与 LLM 交互，无需关心底层 API 差异。
+ *
+ * 故障转移：主渠道商出错（或已熔断，见 circuit-breaker.ts）时，
+ * 按 config.fallbacks 依次改用其他渠道商上的等价模型。
+ *
+ * 用量：带 usageTag 的客户端（forTask 自动设置）每次成功调用后写入用量账本（见 usage.ts）。
  */
 
 import { OpenAIAdapter } from "./adapters/openai-adapter";
 import { AnthropicAdapter } from "./adapters/anthropic-adapter";
 import { GoogleAdapter } from "./adapters/google-adapter";
+import { PromptToolAdapter } from "./adapters/prompt-tool-adapter";
+import { MockAdapter } from "./adapters/mock-adapter";
 import type {
   LLMAdapter,
   LLMConfig,
+  LLMEndpoint,
   LLMRequest,
   LLMResponse,
   NormalizedMessage,
   StreamEvent,
+  TokenUsage,
   ToolCall,
   ToolResult,
 } from "./adapters/types";
 import { getApiFormat } from "./adapters/types";
+import { getLLMConfig, type LLMTask } from "./config";
+import {
+  isProviderAvailable,
+  recordProviderFailure,
+  recordProviderSuccess,
+} from "./circuit-breaker";
+import { recordUsage, type UsageTag } from "./usage";
 
 // 适配器单例
 const openaiAdapter = new OpenAIAdapter();
 const anthropicAdapter = new AnthropicAdapter();
 const googleAdapter = new GoogleAdapter();
+const mockAdapter = new MockAdapter();
+
+// 不支持原生工具调用的模型：提示词工具协议包装
+const promptToolAdapters = {
+  openai: new PromptToolAdapter(openaiAdapter),
+  anthropic: new PromptToolAdapter(anthropicAdapter),
+  google: new PromptToolAdapter(googleAdapter),
+};
+
+/** 适配器拦截器：包装或替换选中的适配器（录制 / 回放，见 adapters/record-replay.ts） */
+export type AdapterInterceptor = (adapter: LLMAdapter, model: string) => LLMAdapter;
+
+let adapterInterceptor: AdapterInterceptor | null = null;
+
+/**
+ * 设置全局适配器拦截器（传 null 取消）
+ *
+ * 进程内所有 LLMClient 生效，仅用于调试脚本与测试。
+ */
+export function setAdapterInterceptor(interceptor: AdapterInterceptor | null): void {
+  adapterInterceptor = interceptor;
+}
 
 /** 根据模型选择适配器 */
-function getAdapter(model: string): LLMAdapter {
+function getAdapter(model: string, supportsTools: boolean = true): LLMAdapter {
   const format = getApiFormat(model);
-  switch (format) {
-    case "anthropic":
-      return anthropicAdapter;
-    case "google":
-      return googleAdapter;
-    default:
-      return openaiAdapter;
+  let adapter: LLMAdapter;
+  if (format === "mock") {
+    adapter = mockAdapter;
+  } else if (!supportsTools) {
+    adapter = promptToolAdapters[format];
+  } else {
+    switch (format) {
+      case "anthropic":
+        adapter = anthropicAdapter;
+        break;
+      case "google":
+        adapter = googleAdapter;
+        break;
+      default:
+        adapter = openaiAdapter;
+    }
   }
+  return adapterInterceptor ? adapterInterceptor(adapter, model) : adapter;
 }
 
 /**
@@ -44,6 +92,8 @@ function getAdapter(model: string): LLMAdapter {
  * 用法:
  * ```ts
  * const client = new LLMClient(config);
+ * // 或按任务路由选择模型（见 config.ts 的 LLM_TASKS）
+ * const client = await LLMClient.forTask("polish", { temperature: 0.6 }, playerId);
  *
  * // 非流式
  * const response = await client.chat({ model, systemPrompt, messages, tools });
@@ -59,9 +109,29 @@ function getAdapter(model: string): LLMAdapter {
  */
 export class LLMClient {
   private config: LLMConfig;
+  private usageTag?: UsageTag;
 
-  constructor(config: LLMConfig) {
+  /**
+   * @param usageTag - 用量记账标签，缺省时不记账
+   */
+  constructor(config: LLMConfig, usageTag?: UsageTag) {
     this.config = config;
+    this.usageTag = usageTag;
+  }
+
+  /**
+   * 按任务创建客户端：模型与渠道商凭证由任务路由表解析
+   *
+   * @param overrides - 调用点的参数覆盖（如温度、最大 token）
+   * @param playerId - 可选，用量记到该玩家名下
+   */
+  static async forTask(
+    task: LLMTask,
+    overrides: Partial<LLMConfig> = {},
+    playerId?: string
+  ): Promise<LLMClient> {
+    const config = await getLLMConfig(task);
+    return new LLMClient({ ...config, ...overrides }, { task, playerId });
   }
 
   /** 更新配置（如运行时切换模型） */
@@ -74,11 +144,92 @@ export class LLMClient {
     return this.config;
   }
 
-  /** 非流式调用 */
+  /**
+   * 本次请求的候选端点：主模型 + 故障转移链（熔断中的渠道商跳过）
+   *
+   * 调用方指定了配置以外的模型时，等价模型链不适用，只用主渠道商。
+   */
+  private getCandidates(requestModel?: string): LLMEndpoint[] {
+    const primary: LLMEndpoint = {
+      providerId: this.config.providerId ?? "tuzi",
+      model: requestModel || this.config.model,
+      apiKey: this.config.apiKey,
+      baseUrl: this.config.baseUrl,
+      extraHeaders: this.config.extraHeaders,
+      timeoutMs: this.config.timeoutMs,
+      supportsTools: this.config.supportsTools,
+    };
+    const chain =
+      !requestModel || requestModel === this.config.model
+        ? [primary, ...(this.config.fallbacks ?? [])]
+        : [primary];
+    const available = chain.filter((e) => isProviderAvailable(e.providerId));
+    // 全部熔断时仍按原顺序尝试（半开）
+    return available.length > 0 ? available : chain;
+  }
+
+  /** 写入用量账本（不阻塞调用方） */
+  private trackUsage(
+    endpoint: LLMEndpoint,
+    usage: TokenUsage | undefined
+  ): void {
+    if (!this.usageTag || !usage) return;
+    // 模拟剧本不产生真实费用，不写用量账本
+    if (getApiFormat(endpoint.model) === "mock") return;
+    void recordUsage({
+      ...this.usageTag,
+      provider: endpoint.providerId,
+      model: endpoint.model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      cachedInputTokens: usage.cachedInputTokens ?? 0,
+    });
+  }
+
+  private endpointConfig(endpoint: LLMEndpoint): LLMConfig {
+    return {
+      ...this.config,
+      apiKey: endpoint.apiKey,
+      baseUrl: endpoint.baseUrl,
+      extraHeaders: endpoint.extraHeaders,
+      timeoutMs: endpoint.timeoutMs,
+      model: endpoint.model,
+      providerId: endpoint.providerId,
+      supportsTools: endpoint.supportsTools ?? true,
+    };
+  }
+
+  /** 非流式调用（带故障转移） */
   async chat(request: Omit<LLMRequest, "stream">): Promise<LLMResponse> {
-    const model = request.model || this.config.model;
-    const adapter = getAdapter(model);
-    return adapter.chat({ ...request, model, stream: false }, this.config);
+    const { response } = await this.chatVia(request, this.getCandidates(request.model));
+    return response;
+  }
+
+  /** 依次尝试候选端点，返回应答及实际应答的端点与适配器 */
+  private async chatVia(
+    request: Omit<LLMRequest, "stream">,
+    candidates: LLMEndpoint[]
+  ): Promise<{ response: LLMResponse; endpoint: LLMEndpoint; adapter: LLMAdapter }> {
+    let lastError: unknown;
+    for (const endpoint of candidates) {
+      const adapter = getAdapter(endpoint.model, endpoint.supportsTools);
+      try {
+        const response = await adapter.chat(
+          { ...request, model: endpoint.model, stream: false },
+          this.endpointConfig(endpoint)
+        );
+        recordProviderSuccess(endpoint.providerId);
+        this.trackUsage(endpoint, response.usage);
+        return { response, endpoint, adapter };
+      } catch (error) {
+        // 调用方主动中止：不计入渠道商故障，也不再尝试备用渠道
+        if (request.signal?.aborted) throw error;
+        recordProviderFailure(endpoint.providerId);
+        console.warn(`[LLMClient] 渠道商 ${endpoint.providerId} (${endpoint.model}) 调用失败，尝试下一个:`, error);
+        lastError = error;
+      }
+    }
+    throw lastError;
   }
 
   /** 流式调用 */
@@ -86,7 +237,7 @@ export class LLMClient {
     request: Omit<LLMRequest, "stream">
   ): AsyncIterable<StreamEvent> {
     const model = request.model || this.config.model;
-    const adapter = getAdapter(model);
+    const adapter = getAdapter(model, this.config.supportsTools);
     return adapter.chatStream({ ...request, model, stream: true }, this.config);
   }
 
@@ -111,30 +262,35 @@ export class LLMClient {
   ): Promise<{
     content: string;
     allToolCalls: Array<{ name: string; args: Record<string, unknown>; result: string }>;
-    usage: { inputTokens: number; outputTokens: number };
+    usage: TokenUsage;
   }> {
-    const model = request.model || this.config.model;
-    const adapter = getAdapter(model);
+    const candidates = this.getCandidates(request.model);
     let messages = [...request.messages];
     const allToolCalls: Array<{ name: string; args: Record<string, unknown>; result: string }> = [];
     let totalInput = 0;
     let totalOutput = 0;
+    let totalCached = 0;
+    /** 已应答的端点（后续轮次优先沿用） */
+    let active: LLMEndpoint | null = null;
 
     for (let i = 0; i < maxIterations; i++) {
-      const response = await adapter.chat(
-        { ...request, model, messages, stream: false },
-        this.config
-      );
+      // 工具结果按实际应答端点的适配器格式追加，首轮应答后只在同一 API 格式的端点间转移
+      const roundCandidates: LLMEndpoint[] = active
+        ? [active, ...candidates.filter((e) => e !== active && getApiFormat(e.model) === getApiFormat(active!.model))]
+        : candidates;
+      const { response, endpoint, adapter } = await this.chatVia({ ...request, messages }, roundCandidates);
+      active = endpoint;
 
       totalInput += response.usage.inputTokens;
       totalOutput += response.usage.outputTokens;
+      totalCached += response.usage.cachedInputTokens ?? 0;
 
       // 如果没有工具调用，返回最终结果
       if (response.toolCalls.length === 0) {
         return {
           content: response.content,
           allToolCalls,
-          usage: { inputTokens: totalInput, outputTokens: totalOutput },
+          usage: { inputTokens: totalInput, outputTokens: totalOutput, cachedInputTokens: totalCached },
         };
       }
 
@@ -173,7 +329,7 @@ export class LLMClient {
     return {
       content: "（系统：AI 工具调用次数超过限制，已停止）",
       allToolCalls,
-      usage: { inputTokens: totalInput, outputTokens: totalOutput },
+      usage: { inputTokens: totalInput, outputTokens: totalOutput, cachedInputTokens: totalCached },
     };
   }
 
@@ -195,31 +351,77 @@ export class LLMClient {
     ) => Promise<string>,
     maxIterations: number = 10
   ): AsyncGenerator<StreamEvent | { type: "tool_executed"; name: string; result: string }> {
-    const model = request.model || this.config.model;
-    const adapter = getAdapter(model);
+    const candidates = this.getCandidates(request.model);
     let messages = [...request.messages];
+    /** 已应答的端点（后续轮次优先沿用） */
+    let active: LLMEndpoint | null = null;
 
     for (let i = 0; i < maxIterations; i++) {
-      const stream = adapter.chatStream(
-        { ...request, model, messages, stream: true },
-        this.config
-      );
+      // 工具结果的消息格式因适配器而异（Gemini 以工具名作 toolCallId），
+      // 首轮应答后只在同一 API 格式的端点间转移
+      const roundCandidates: LLMEndpoint[] = active
+        ? [active, ...candidates.filter((e) => e !== active && getApiFormat(e.model) === getApiFormat(active!.model))]
+        : candidates;
 
       // 收集本轮的工具调用
       const completedToolCalls: ToolCall[] = [];
       let hasToolCalls = false;
+      let adapter: LLMAdapter | null = null;
+      let lastError = "";
 
-      for await (const event of stream) {
-        yield event;
+      for (const endpoint of roundCandidates) {
+        const endpointAdapter = getAdapter(endpoint.model, endpoint.supportsTools);
+        const stream = endpointAdapter.chatStream(
+          { ...request, model: endpoint.model, messages, stream: true },
+          this.endpointConfig(endpoint)
+        );
 
-        if (event.type === "tool_call_end") {
-          hasToolCalls = true;
-          completedToolCalls.push({
-            id: event.id,
-            name: event.name,
-            arguments: event.arguments,
-          });
+        // 首个事件前出错可以转移；已向上游输出后只能报错
+        let started = false;
+        // 输出中途出错：已记为故障，本轮结束后不再记成功
+        let failed = false;
+        try {
+          for await (const event of stream) {
+            if (event.type === "error") {
+              if (!started) throw new Error(event.message);
+              failed = true;
+              recordProviderFailure(endpoint.providerId);
+              yield event;
+              continue;
+            }
+            started = true;
+
+            if (event.type === "done") this.trackUsage(endpoint, event.usage);
+            yield event.type === "done"
+              ? { ...event, provider: endpoint.providerId, model: endpoint.model }
+              : event;
+
+            if (event.type === "tool_call_end") {
+              hasToolCalls = true;
+              completedToolCalls.push({
+                id: event.id,
+                name: event.name,
+                arguments: event.arguments,
+              });
+            }
+          }
+        } catch (error) {
+          recordProviderFailure(endpoint.providerId);
+          if (started) throw error;
+          lastError = error instanceof Error ? error.message : String(error);
+          console.warn(`[LLMClient] 渠道商 ${endpoint.providerId} (${endpoint.model}) 不可用，尝试下一个: ${lastError}`);
+          continue;
         }
+
+        if (!failed) recordProviderSuccess(endpoint.providerId);
+        active = endpoint;
+        adapter = endpointAdapter;
+        break;
+      }
+
+      if (!adapter) {
+        yield { type: "error", message: `所有渠道商均不可用: ${lastError}` };
+        return;
       }
 
       // 如果没有工具调用，结束
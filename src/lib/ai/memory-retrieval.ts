@@ -0,0 +1,221 @@
+/**
+ * ChaosSaga - 往事检索
+ *
+ * 除最近的对话窗口外，按玩家当前消息检索最相关的较早 ChatHistory 与 PlayerLog
+ * （如提到某个 NPC / 物品名），在 token 预算内注入 GM 上下文。
+ *
+ * 每位玩家一个进程内 BM25 索引（见 bm25.ts）：
+ * - 首次检索时从数据库加载最近 MAX_INDEX_DOCS 条对话与日志
+ * - saveChatHistory 写入新对话时调用 indexChatMessage 同步更新
+ * - 每次检索前补齐其他途径写入的记录（系统消息、玩家日志）
+ */
+
+import { prisma } from "@/lib/db/prisma";
+import { BM25Index } from "./bm25";
+import { estimateTokens } from "./token-estimator";
+
+/** 每位玩家索引的最大文档数（超出淘汰最旧的） */
+const MAX_INDEX_DOCS = 1000;
+
+/** 最多缓存的玩家索引数（超出淘汰最久未用的） */
+const MAX_CACHED_PLAYERS = 50;
+
+/** 命中得分需达到最高分的比例（过滤只命中常见字组的噪声） */
+const RELATIVE_SCORE_CUTOFF = 0.3;
+
+/** 命中的最低得分 */
+const MIN_SCORE = 0.5;
+
+/** 注入时每条记录的最大字数 */
+const SNIPPET_LENGTH = 150;
+
+interface MemoryDoc {
+  kind: "chat" | "log";
+  /** chat: user / assistant / system；log: 日志类型 */
+  label: string;
+  content: string;
+  createdAt: Date;
+}
+
+interface PlayerIndex {
+  index: BM25Index<MemoryDoc>;
+  /** 文档 ID（按写入顺序，用于淘汰最旧的） */
+  order: string[];
+  lastChatAt: Date;
+  lastLogAt: Date;
+  lastUsedAt: number;
+}
+
+const indexes = new Map<string, PlayerIndex>();
+const loading = new Map<string, Promise<PlayerIndex>>();
+
+function addDoc(entry: PlayerIndex, id: string, doc: MemoryDoc): void {
+  if (entry.index.has(id)) return;
+  entry.index.add(id, doc.content, doc);
+  entry.order.push(id);
+  while (entry.order.length > MAX_INDEX_DOCS) {
+    entry.index.remove(entry.order.shift()!);
+  }
+  if (doc.kind === "chat" && doc.createdAt > entry.lastChatAt) entry.lastChatAt = doc.createdAt;
+  if (doc.kind === "log" && doc.createdAt > entry.lastLogAt) entry.lastLogAt = doc.createdAt;
+}
+
+/**
+ * 补齐上次同步之后写入的记录（initial 时加载最近 MAX_INDEX_DOCS 条）
+ */
+async function syncIndex(playerId: string, entry: PlayerIndex, initial: boolean): Promise<void> {
+  const [chats, logs] = await Promise.all([
+    prisma.chatHistory.findMany({
+      where: { playerId, ...(initial ? {} : { createdAt: { gte: entry.lastChatAt } }) },
+      orderBy: { createdAt: "desc" },
+      take: MAX_INDEX_DOCS,
+      select: { id: true, role: true, content: true, createdAt: true },
+    }),
+    prisma.playerLog.findMany({
+      where: { playerId, ...(initial ? {} : { createdAt: { gte: entry.lastLogAt } }) },
+      orderBy: { createdAt: "desc" },
+      take: MAX_INDEX_DOCS,
+      select: { id: true, type: true, content: true, createdAt: true },
+    }),
+  ]);
+
+  const docs: Array<[string, MemoryDoc]> = [
+    ...chats.map((c): [string, MemoryDoc] => [c.id, { kind: "chat", label: c.role, content: c.content, createdAt: c.createdAt }]),
+    ...logs.map((l): [string, MemoryDoc] => [l.id, { kind: "log", label: l.type, content: l.content, createdAt: l.createdAt }]),
+  ];
+  docs.sort((a, b) => a[1].createdAt.getTime() - b[1].createdAt.getTime());
+  for (const [id, doc] of docs) addDoc(entry, id, doc);
+}
+
+async function loadIndex(playerId: string): Promise<PlayerIndex> {
+  const cached = indexes.get(playerId);
+  if (cached) {
+    await syncIndex(playerId, cached, false);
+    cached.lastUsedAt = Date.now();
+    return cached;
+  }
+
+  const pending = loading.get(playerId);
+  if (pending) return pending;
+
+  const promise = (async () => {
+    const entry: PlayerIndex = {
+      index: new BM25Index<MemoryDoc>(),
+      order: [],
+      lastChatAt: new Date(0),
+      lastLogAt: new Date(0),
+      lastUsedAt: Date.now(),
+    };
+    await syncIndex(playerId, entry, true);
+
+    if (indexes.size >= MAX_CACHED_PLAYERS) {
+      const [oldest] = [...indexes.entries()].sort((a, b) => a[1].lastUsedAt - b[1].lastUsedAt)[0];
+      indexes.delete(oldest);
+    }
+    indexes.set(playerId, entry);
+    return entry;
+  })();
+
+  loading.set(playerId, promise);
+  try {
+    return await promise;
+  } finally {
+    loading.delete(playerId);
+  }
+}
+
+/**
+ * 新对话写入后同步到索引（索引未加载时忽略，首次检索会从数据库加载）
+ */
+export function indexChatMessage(
+  playerId: string,
+  message: { id: string; role: string; content: string; createdAt: Date }
+): void {
+  const entry = indexes.get(playerId);
+  if (!entry) return;
+  addDoc(entry, message.id, {
+    kind: "chat",
+    label: message.role,
+    content: message.content,
+    createdAt: message.createdAt,
+  });
+}
+
+/**
+ * 对话被删除后同步索引
+ *
+ * @param docId - 删除的单条记录；缺省时丢弃整个索引（下次检索时重建）
+ */
+export function dropMemoryIndex(playerId: string, docId?: string): void {
+  const entry = indexes.get(playerId);
+  if (!entry) return;
+  if (!docId) {
+    indexes.delete(playerId);
+    return;
+  }
+  entry.index.remove(docId);
+  entry.order = entry.order.filter((id) => id !== docId);
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  user: "玩家",
+  assistant: "GM",
+  system: "系统",
+};
+
+function formatDoc(doc: MemoryDoc): string {
+  const date = doc.createdAt.toLocaleDateString("zh-CN", { month: "2-digit", day: "2-digit" });
+  const text = doc.content.replace(/\s+/g, " ").trim();
+  const snippet = text.length > SNIPPET_LENGTH ? text.slice(0, SNIPPET_LENGTH) + "…" : text;
+  return doc.kind === "chat"
+    ? `- [${date}] ${ROLE_LABELS[doc.label] ?? doc.label}：${snippet}`
+    : `- [${date} 日志·${doc.label}] ${snippet}`;
+}
+
+/**
+ * 检索与 query 相关的较早记录，格式化为上下文片段（无命中时为空字符串）
+ *
+ * @param excludeRecent - 最近 N 条对话已在上下文中，不参与检索
+ * @param tokenBudget - 片段的 token 上限
+ */
+export async function retrieveRelevantMemories(
+  playerId: string,
+  query: string,
+  excludeRecent: number,
+  tokenBudget: number
+): Promise<string> {
+  if (!query.trim() || tokenBudget <= 0) return "";
+
+  const entry = await loadIndex(playerId);
+
+  // 最近 excludeRecent 条对话的最早时间：之后的对话已在上下文中
+  const chatTimes = entry.order
+    .map((id) => entry.index.get(id))
+    .filter((doc): doc is MemoryDoc => doc?.kind === "chat")
+    .map((doc) => doc.createdAt.getTime())
+    .sort((a, b) => b - a);
+  const recentCutoff = chatTimes[excludeRecent - 1] ?? -Infinity;
+
+  const hits = entry.index.search(query, 20, (_id, doc) =>
+    doc.kind === "log" || doc.createdAt.getTime() < recentCutoff
+  );
+  if (hits.length === 0) return "";
+
+  const minScore = Math.max(MIN_SCORE, hits[0].score * RELATIVE_SCORE_CUTOFF);
+  const selected: Array<{ line: string; at: number }> = [];
+  let used = 0;
+  for (const hit of hits) {
+    if (hit.score < minScore) break;
+    const line = formatDoc(hit.payload);
+    const cost = estimateTokens(line);
+    if (used + cost > tokenBudget) continue;
+    selected.push({ line, at: hit.payload.createdAt.getTime() });
+    used += cost;
+  }
+
+  // 按时间顺序输出，便于 GM 理解前因后果
+  return selected
+    .sort((a, b) => a.at - b.at)
+    .map((s) => s.line)
+    .join("\n");
+}
@@ -0,0 +1,87 @@
+/**
+ * ChaosSaga - 模型自动发现
+ *
+ * 对标记了 discoverModels 的渠道商（本地 Ollama / llama.cpp 等），
+ * 请求其 OpenAI 兼容的 /v1/models 接口获取已加载的模型列表，合并进 getAllModels。
+ *
+ * 结果在进程内缓存 DISCOVERY_CACHE_MS；服务未启动时同样缓存空结果，避免每次请求都等待超时。
+ * /v1/models 不返回能力信息，发现的模型默认不支持原生工具调用，可按渠道商用环境变量开启。
+ */
+
+import type { ModelDefinition, ProviderDefinition } from "./adapters/types";
+
+/** 发现结果缓存时间（60 秒） */
+const DISCOVERY_CACHE_MS = 60 * 1000;
+
+/** 自动发现模型假定的上下文长度（token） */
+const LOCAL_CONTEXT_WINDOW = 8192;
+
+/** /v1/models 请求超时（本地服务应秒回） */
+const DISCOVERY_TIMEOUT_MS = 3000;
+
+interface CacheEntry {
+  models: ModelDefinition[];
+  expiresAt: number;
+}
+
+const cache = new Map<string, CacheEntry>();
+
+/** /v1/models 响应（OpenAI 格式） */
+interface ModelsResponse {
+  data?: Array<{ id: string; owned_by?: string }>;
+}
+
+/**
+ * 获取渠道商上可用的模型
+ *
+ * @param baseUrl - 渠道商 Base URL（已按环境变量解析）
+ * @param apiKey - 可选，部分本地服务也支持 Key 校验
+ */
+export async function discoverProviderModels(
+  provider: ProviderDefinition,
+  baseUrl: string,
+  apiKey?: string
+): Promise<ModelDefinition[]> {
+  const cached = cache.get(provider.id);
+  if (cached && cached.expiresAt > Date.now()) return cached.models;
+
+  let models: ModelDefinition[] = [];
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), DISCOVERY_TIMEOUT_MS);
+  const supportsTools = !!provider.envSupportsToolsName && process.env[provider.envSupportsToolsName] === "true";
+  try {
+    const res = await fetch(`${baseUrl}/v1/models`, {
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+      signal: controller.signal,
+      cache: "no-store",
+    });
+    if (res.ok) {
+      const data: ModelsResponse = await res.json();
+      models = (data.data ?? []).map((m) => ({
+        id: m.id,
+        name: m.id,
+        provider: m.owned_by || provider.name,
+        providerId: provider.id,
+        apiFormat: "openai" as const,
+        costTier: "low" as const,
+        pricing: { input: 0, output: 0 },
+        description: `${provider.name}（自动发现）`,
+        supportsTools,
+        supportsStreaming: true,
+        supportsMultimodal: false,
+        maxOutputTokens: 4096,
+        // 本地服务默认上下文通常较小（如 Ollama num_ctx），保守估计
+        contextWindow: LOCAL_CONTEXT_WINDOW,
+      }));
+    } else {
+      console.warn(`[ModelDiscovery] ${provider.id} /v1/models 返回 ${res.status}`);
+    }
+  } catch (error) {
+    console.warn(`[ModelDiscovery] ${provider.id} 不可达 (${baseUrl}):`, error instanceof Error ? error.message : error);
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  cache.set(provider.id, { models, expiresAt: Date.now() + DISCOVERY_CACHE_MS });
+  return models;
+}
@@ -0,0 +1,138 @@
+/**
+ * ChaosSaga - GM 回合录制 / 回放
+ *
+ * recordGameTurn 以真实 API 跑一整轮 processGameMessage，把所有 LLM 调用与 SSE 输出存成夹具；
+ * replayGameTurn 用夹具代替 LLM 重跑同一轮，并与录制时的 SSE 输出逐条比对。
+ *
+ * 注意：
+ * - 工具调用仍读写数据库，回放前玩家状态需与录制时一致（否则工具结果与 SSE 可能不同）
+ * - 本轮结束后才触发的后台调用（如剧情记忆摘要）不在录制 / 回放范围内，录制与回放时均不触发
+ *   （否则会在拦截器撤销后绕过夹具调用真实 API）
+ *
+ * 命令行入口见 scripts/replay-turn.ts。
+ */
+
+import { processGameMessage, type GameSSEEvent } from "./gamemaster";
+import { setAdapterInterceptor } from "./llm-client";
+import {
+  LLMRecorder,
+  LLMReplay,
+  RecordingAdapter,
+  ReplayAdapter,
+  loadFixture,
+  saveFixture,
+  type LLMFixture,
+} from "./adapters/record-replay";
+
+type GameTurn = Parameters<typeof processGameMessage>[0];
+
+/** GM 回合夹具 */
+export interface GameTurnFixture extends LLMFixture {
+  turn: GameTurn;
+  sse: GameSSEEvent[];
+}
+
+/** 回放结果 */
+export interface ReplayResult {
+  events: GameSSEEvent[];
+  /** 与录制输出不一致之处（为空表示完全一致） */
+  mismatches: string[];
+  /** 未被使用的 LLM 记录数（非 0 说明本次调用次数少于录制时） */
+  unusedExchanges: number;
+}
+
+/** 进度类事件含耗时，不参与比对 */
+const VOLATILE_EVENT_TYPES = new Set<GameSSEEvent["type"]>(["preparing", "thinking"]);
+
+/** 读取 processGameMessage 返回的 SSE 流直到结束 */
+export async function collectSSE(response: Response): Promise<GameSSEEvent[]> {
+  if (!response.body) return [];
+  const events: GameSSEEvent[] = [];
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const chunks = buffer.split("\n\n");
+    buffer = chunks.pop() || "";
+    for (const chunk of chunks) {
+      const line = chunk.trim();
+      if (!line.startsWith("data: ")) continue;
+      events.push(JSON.parse(line.slice(6)) as GameSSEEvent);
+    }
+  }
+  return events;
+}
+
+/**
+ * 录制一整轮 GM 回合
+ *
+ * @param fixturePath - 夹具输出路径
+ */
+export async function recordGameTurn(turn: GameTurn, fixturePath: string): Promise<GameTurnFixture> {
+  const recorder = new LLMRecorder();
+  setAdapterInterceptor((adapter) => new RecordingAdapter(recorder, adapter));
+
+  let events: GameSSEEvent[];
+  try {
+    events = await collectSSE(await processGameMessage({ ...turn, skipBackgroundTasks: true }));
+  } finally {
+    setAdapterInterceptor(null);
+  }
+
+  const fixture: GameTurnFixture = {
+    ...recorder.toFixture(turn.message ?? "(System Trigger)", events),
+    turn,
+    sse: events,
+  };
+  await saveFixture(fixturePath, fixture);
+  console.log(`[Replay] 已录制 ${recorder.exchanges.length} 次 LLM 调用、${events.length} 个 SSE 事件 → ${fixturePath}`);
+  return fixture;
+}
+
+/** 逐条比对 SSE 输出（忽略进度类事件） */
+function diffEvents(expected: GameSSEEvent[], actual: GameSSEEvent[]): string[] {
+  const stable = (events: GameSSEEvent[]) =>
+    events.filter((e) => !VOLATILE_EVENT_TYPES.has(e.type)).map((e) => JSON.stringify(e));
+  const a = stable(expected);
+  const b = stable(actual);
+
+  const mismatches: string[] = [];
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] !== b[i]) {
+      mismatches.push(`#${i + 1}\n  录制: ${a[i] ?? "(无)"}\n  回放: ${b[i] ?? "(无)"}`);
+    }
+  }
+  return mismatches;
+}
+
+/**
+ * 用夹具回放一整轮 GM 回合
+ *
+ * @param fixture - 夹具路径或已加载的夹具
+ * @param options.strict - 找不到匹配的 LLM 记录时直接报错
+ */
+export async function replayGameTurn(
+  fixture: string | GameTurnFixture,
+  options: { strict?: boolean } = {}
+): Promise<ReplayResult> {
+  const loaded = typeof fixture === "string" ? ((await loadFixture(fixture)) as GameTurnFixture) : fixture;
+  const replay = new LLMReplay(loaded, options);
+  setAdapterInterceptor((adapter) => new ReplayAdapter(replay, adapter));
+
+  let events: GameSSEEvent[];
+  try {
+    events = await collectSSE(await processGameMessage({ ...loaded.turn, skipBackgroundTasks: true }));
+  } finally {
+    setAdapterInterceptor(null);
+  }
+
+  return {
+    events,
+    mismatches: diffEvents(loaded.sse, events),
+    unusedExchanges: replay.remaining,
+  };
+}
@@ -4,6 +4,13 @@
  * AI Game Master 的核心指令。定义 AI 的角色、行为准则和输出规范。
  */
 
+import {
+  allocateSections,
+  MAX_INJECTION_TOKENS,
+  type ContextSection,
+  type SectionUsage,
+} from "./context-budget";
+
 export const CORE_PROMPT = `你是 ChaosSaga 的 Game Master（游戏主持人），类似 DnD 的城主角色。
 
 【⚠️ 绝对不可违背的行动准则 (CRITICAL PROTOCOL)】
@@ -99,6 +106,9 @@ export const EXPLORATION_PROMPT = `
 1. **意图解读**：玩家用自然语言说话，你需要理解他们想做什么
    - "打这个怪" → 调用 start_battle
    - "买点药水" → 调用 interact_npc (商店NPC)
+   - "闭关突破/冲击境界" → 调用 realm_breakthrough（先 action=check 告知条件，玩家确认后 action=attempt）
+   - "查询声望/势力关系" → 调用 check_reputation（声望变化由系统自动结算，只能叙述工具返回的 reputationChanges）
+   - 与 NPC 的对话告一段落 / "送XX给NPC" → 调用 update_npc_memory 记录摘要与好感度（NPC 的态度应与【NPC 记忆】一致）
    - 模糊指令 → 描述当前节点场景并提供**非移动类**选项
    - **⚠️ 移动完全由地图UI处理，你无权控制移动！**
      - 玩家说"去XX"时：
@@ -128,6 +138,7 @@ export const EXPLORATION_PROMPT = `
      - drops 数组中必须有至少一个 type='skill' 的技能
      - 技能元素必须与区域主题匹配（ocean→water, forest→wind/earth, desert→fire/earth, cave→earth/dark, city→light/dark）
      - 技能需要完整的 skillData: { element, damage, mpCost, cooldown, effect? }
+     - 群攻技能在 effect 中声明范围：{ targeting: "all" }（全体）或 { targeting: "adjacent" }（主目标及相邻），多目标时每个目标伤害会衰减
      - 技能名称和描述要体现区域特色（如"深海漩涡"、"森林之怒"）
    - 如果调用失败，根据错误信息修正参数后重试
 
@@ -243,23 +254,25 @@ export const BATTLE_PROMPT = `
 `;
 
 /**
- * 获取完整的 System Prompt
+ * 获取完整的 System Prompt（跨轮次不变，可命中提示词缓存）
+ *
+ * 各模式共用的 CORE_PROMPT + OUTPUT_FORMAT_PROMPT 在最前，模式规则在后，
+ * 每轮变化的状态另由 buildContextInjection 生成，作为 dynamicContext 发送。
  * @param isBattle 是否处于战斗状态
  */
 export function getSystemPrompt(isBattle: boolean, isGM: boolean = false): string {
   let prompt = CORE_PROMPT;
 
+  // 必须包含输出格式规范
+  prompt += "\n" + OUTPUT_FORMAT_PROMPT;
+
   if (isGM) {
     prompt += "\n\n【GM 模式特定规则】" + GM_PROMPT;
-    prompt += "\n" + OUTPUT_FORMAT_PROMPT;
     prompt +=
       "\n\n【GM 覆盖规则】当消息以 /gm 开头时，GM 指令优先级最高。你应直接调用 GM 工具执行，不受普通战斗流程中“必须调用 execute_battle_action”的限制。";
     return prompt;
   }
 
-  // 必须包含输出格式规范
-  prompt += "\n" + OUTPUT_FORMAT_PROMPT;
-
   if (isBattle) {
     prompt += "\n\n【战斗模式特定规则】" + BATTLE_PROMPT;
   } else {
@@ -272,39 +285,72 @@ export function getSystemPrompt(isBattle: boolean, isGM: boolean = false): strin
 // 保留此变量以兼容现有引用 (deprecated warning)
 export const GAME_MASTER_SYSTEM_PROMPT = getSystemPrompt(false);
 
+/** 上下文注入结果（composition 供日志打印各区块 token 分配） */
+export interface ContextInjection {
+  text: string;
+  tokens: number;
+  composition: SectionUsage[];
+}
+
 /**
  * 组装上下文注入部分
+ *
+ * 各区块按优先级在 tokenBudget 内分配（见 context-budget.ts）：
+ * 玩家状态 / 战斗为必需区块，其后依次为位置、任务、剧情记忆、NPC 记忆、相关往事、特殊效果。
+ *
+ * 输出顺序按变化频率从低到高排列（剧情记忆 → 位置 → 任务 → … → 玩家状态 → 战斗 → 相关往事），
+ * 让相邻轮次的请求共享尽量长的前缀，提高提示词缓存命中。
  */
-export function buildContextInjection(params: {
-  playerState: string;
-  areaInfo: string;
-  activeQuests: string;
-  activeBattle: string;
-  specialEffects: string;
-  isGMMode?: boolean;
-}): string {
-  const sections: string[] = [];
-
-  sections.push(`【当前玩家状态】\n${params.playerState}`);
-  sections.push(`【当前位置】\n${params.areaInfo}`);
+export function buildContextInjection(
+  params: {
+    playerState: string;
+    areaInfo: string;
+    activeQuests: string;
+    activeBattle: string;
+    specialEffects: string;
+    npcMemory?: string;
+    campaignMemory?: string;
+    relevantMemories?: string;
+    isGMMode?: boolean;
+  },
+  tokenBudget: number = MAX_INJECTION_TOKENS
+): ContextInjection {
+  const sections: ContextSection[] = [];
+
+  if (params.campaignMemory) {
+    sections.push({ key: "campaignMemory", title: "【剧情记忆（更早的冒险经历）】", content: params.campaignMemory, priority: 4 });
+  }
+
+  sections.push({ key: "areaInfo", title: "【当前位置】", content: params.areaInfo, priority: 2 });
 
+  const questTitle = "【活跃任务（仅限当前区域）】";
   if (params.activeQuests && params.activeQuests !== "无" && !params.activeQuests.includes("当前区域没有进行中的任务")) {
-    sections.push(`【活跃任务（仅限当前区域）】\n${params.activeQuests}`);
+    sections.push({ key: "activeQuests", title: questTitle, content: params.activeQuests, priority: 3 });
   } else {
-    sections.push(`【活跃任务（仅限当前区域）】\n无（当前区域没有进行中的任务，不要提及或推进其他区域的任务）`);
+    sections.push({ key: "activeQuests", title: questTitle, content: "无（当前区域没有进行中的任务，不要提及或推进其他区域的任务）", priority: 3, required: true });
   }
 
-  if (params.activeBattle && params.activeBattle !== "无") {
-    if (params.isGMMode) {
-      sections.push(`【进行中的战斗】\n${params.activeBattle}\n注意：当前是 GM 指令模式，可直接调用 GM 工具进行管理（例如 modify_enemy_hp）。`);
-    } else {
-      sections.push(`【进行中的战斗】\n${params.activeBattle}\n注意：有未结束的战斗！请使用 execute_battle_action 处理玩家的战斗指令，battleId 已在上方提供。`);
-    }
+  if (params.npcMemory) {
+    sections.push({ key: "npcMemory", title: "【NPC 记忆（当前节点）】", content: params.npcMemory, priority: 5 });
   }
 
   if (params.specialEffects && params.specialEffects !== "无") {
-    sections.push(`【特殊效果监控】\n${params.specialEffects}`);
+    sections.push({ key: "specialEffects", title: "【特殊效果监控】", content: params.specialEffects, priority: 7 });
+  }
+
+  sections.push({ key: "playerState", title: "【当前玩家状态】", content: params.playerState, priority: 0, required: true });
+
+  if (params.activeBattle && params.activeBattle !== "无") {
+    const note = params.isGMMode
+      ? "注意：当前是 GM 指令模式，可直接调用 GM 工具进行管理（例如 modify_enemy_hp）。"
+      : "注意：有未结束的战斗！请使用 execute_battle_action 处理玩家的战斗指令，battleId 已在上方提供。";
+    sections.push({ key: "activeBattle", title: "【进行中的战斗】", content: `${params.activeBattle}\n${note}`, priority: 1, required: true });
+  }
+
+  if (params.relevantMemories) {
+    sections.push({ key: "relevantMemories", title: "【相关往事（与玩家本次发言相关的较早记录）】", content: params.relevantMemories, priority: 6 });
   }
 
-  return "\n" + sections.join("\n\n");
+  const { text, usage, tokens } = allocateSections(sections, tokenBudget);
+  return { text, tokens, composition: usage };
 }
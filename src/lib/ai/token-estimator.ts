@@ -0,0 +1,48 @@
+/**
+ * ChaosSaga - Token 估算
+ *
+ * 不依赖具体模型的分词器，按字符类别粗略估算：
+ * 中日韩文字约 1 token / 字，其余字符约 4 字符 / token。
+ * 用于上下文预算控制，宁可略微高估。
+ */
+
+const CJK_CHAR = /[\u3000-\u9fff\uf900-\ufaff\uff00-\uffef]/g;
+
+/** 估算文本的 token 数 */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  const cjk = text.match(CJK_CHAR)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+/** 截断标记 */
+export const TRUNCATION_MARK = "…（已截断）";
+
+/**
+ * 将文本截断到约 maxTokens 以内
+ *
+ * 优先按整行保留；首行本身超长时按字符截断。截断后附加 TRUNCATION_MARK。
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) return text;
+  const budget = maxTokens - estimateTokens(TRUNCATION_MARK);
+  if (budget <= 0) return "";
+
+  const kept: string[] = [];
+  let used = 0;
+  for (const line of text.split("\n")) {
+    const cost = estimateTokens(line) + 1;
+    if (used + cost > budget) {
+      if (kept.length === 0) {
+        // 首行超长：逐字累加到预算为止
+        let end = 0;
+        while (end < line.length && estimateTokens(line.slice(0, end + 1)) <= budget) end++;
+        kept.push(line.slice(0, end));
+      }
+      break;
+    }
+    kept.push(line);
+    used += cost;
+  }
+  return kept.join("\n") + TRUNCATION_MARK;
+}
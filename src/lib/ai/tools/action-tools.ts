@@ -4,6 +4,7 @@
 
 import type { NormalizedTool } from "../adapters/types";
 import { prisma } from "@/lib/db/prisma";
+import type { Prisma } from "@/generated/prisma/client";
 import {
   processTurn,
   type PlayerBattleState,
@@ -13,11 +14,33 @@ import {
 } from "@/lib/game/battle-engine";
 import type { EnemyState } from "@/lib/game/enemy-ai";
 import { decideEnemyAction, markSkillUsed, tickEnemyCooldowns } from "@/lib/game/enemy-ai";
-import { checkLevelUp, calcBaseStats, getElementMultiplier, type Realm } from "@/lib/game/formulas";
+import { checkLevelUp, calcBaseStats, getElementMultiplier, rollEnemyStats, type Realm } from "@/lib/game/formulas";
 import { calcFinalStats } from "@/lib/game/player-calc";
+import {
+  ENHANCE_STONE_NAME,
+  MAX_ENHANCE_LEVEL,
+  applyEnhanceToStats,
+  getEnhanceCost,
+  rollEnhance,
+} from "@/lib/game/equipment-enhance";
+import {
+  SLOT_NAMES,
+  isEquippable,
+  resolveSlottedItems,
+  resolveTargetSlot,
+} from "@/lib/game/equipment-slots";
 import type { DropTemplate } from "@/lib/game/drop-system";
 import { resolveItem, resolveSkill, resolveNpc } from "./resolve-id";
 import { logPlayerAction } from "@/lib/game/logger";
+import { checkQuestAvailability } from "@/lib/game/reputation";
+import {
+  changeReputation,
+  getReputationValue,
+  resolveNpcFaction,
+  type ReputationChange,
+} from "./reputation-tools";
+import { applyQuestAffinity, recordNpcInteraction } from "./npc-tools";
+import { buyFromShop, getShopWindow, sellToShop } from "./shop-tools";
 import {
   validateItemGift,
   validateDamageProposal,
@@ -60,6 +83,18 @@ export const actionToolDefinitions: NormalizedTool[] = [
           type: "number",
           description: "随机生成的敌人数量。仅在 enemies 为空时有效。默认为 1-3 随机",
         },
+        allies: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              level: { type: "number" },
+            },
+            required: ["name", "level"],
+          },
+          description: "并肩作战的同伴（如护送对象、结伴的 NPC）。同伴自动普攻玩家所选目标，并与玩家一同承受敌人的群体攻击",
+        },
       },
     },
   },
@@ -90,12 +125,16 @@ export const actionToolDefinitions: NormalizedTool[] = [
   },
   {
     name: "use_item",
-    description: "使用背包中的物品（消耗品或装备）。可传入物品名或ID",
+    description: "使用背包中的物品（消耗品或装备）。可传入物品名或ID。对已装备的物品调用即为卸下",
     parameters: {
       type: "object",
       properties: {
         itemId: { type: "string", description: "物品ID 或 名称" },
-        targetSlot: { type: "string", description: "装备目标槽位（穿戴装备时）" },
+        targetSlot: {
+          type: "string",
+          enum: ["weapon", "helmet", "armor", "boots", "accessory1", "accessory2"],
+          description: "装备目标槽位（穿戴装备时可选，省略则自动选择空槽；饰品有两个槽位）",
+        },
       },
       required: ["itemId"],
     },
@@ -104,24 +143,36 @@ export const actionToolDefinitions: NormalizedTool[] = [
   {
     name: "interact_npc",
     description:
-      "与NPC交互。支持对话(talk)、购买物品(buy)、出售物品(sell)、以物易物(exchange)、治疗(heal)、训练(train)、接取任务(accept_quest)、提交任务(submit_quest)。\nbuy: data={itemName, quantity}\nsell: data={itemId}\nexchange: data={ give: [{itemId, quantity}], receive: [{name, type, ...}] } // 类似add_item的物品结构\ntrain: data={skillId}\nquest: data={questId}",
+      "与NPC交互。支持对话(talk)、购买物品(buy)、出售物品(sell)、以物易物(exchange)、治疗(heal)、训练(train)、强化装备(enhance，仅铁匠)、接取任务(accept_quest)、提交任务(submit_quest)。\nbuy: data={itemName, quantity}\nsell: data={itemId, quantity}\nexchange: data={ give: [{itemId, quantity}], receive: [{name, type, ...}] } // 类似add_item的物品结构\ntrain: data={skillId}\nenhance: data={itemId}\nquest: data={questId}",
     parameters: {
       type: "object",
       properties: {
         npcId: { type: "string", description: "NPC ID 或 名称" },
         action: {
           type: "string",
-          enum: ["talk", "buy", "sell", "exchange", "heal", "train", "accept_quest", "submit_quest"],
+          enum: ["talk", "buy", "sell", "exchange", "heal", "train", "enhance", "accept_quest", "submit_quest"],
         },
         data: {
           type: "object",
-          description: "附加数据。buy: {itemName, quantity}, sell: {itemId}, exchange: {give:[{itemId, quantity}], receive:[{name, type, quality, quantity, stats, specialEffect}]}, train: {skillId}, quest: {questId}",
+          description: "附加数据。buy: {itemName, quantity}, sell: {itemId, quantity}, exchange: {give:[{itemId, quantity}], receive:[{name, type, quality, quantity, stats, specialEffect}]}, train: {skillId}, enhance: {itemId}, quest: {questId}",
         },
       },
       required: ["npcId", "action"],
     },
   },
-  // enhance_equipment: removed (unimplemented stub)
+  {
+    name: "enhance_equipment",
+    description:
+      "强化装备（+1~+15）。消耗金币与强化石，+4 起有失败率，+7 起失败会降级。" +
+      "返回强化结果（成功/失败、新等级、消耗）。在铁匠 NPC 处也可通过 interact_npc(action='enhance') 强化",
+    parameters: {
+      type: "object",
+      properties: {
+        equipmentId: { type: "string", description: "装备ID 或 名称" },
+      },
+      required: ["equipmentId"],
+    },
+  },
   {
     name: "improvise_action",
     description:
@@ -250,21 +301,24 @@ function buildEnemyStats(e: {
   }>;
   drops?: DropTemplate[];
   phases?: Array<{ hpThreshold: number; unlockedSkills: string[]; description?: string }>;
+  factionId?: string;
 }): BattleEnemy {
   const level = e.level;
-  const hp = e.hp ?? Math.floor(50 + level * 20 + Math.random() * level * 10);
+  const rolled = rollEnemyStats(level);
+  const hp = e.hp ?? rolled.hp;
   return {
     name: e.name,
     level,
     element: e.element || "none",
     hp,
     maxHp: hp,
-    attack: e.attack ?? Math.floor(5 + level * 3 + Math.random() * level * 2),
-    defense: e.defense ?? Math.floor(3 + level * 2 + Math.random() * level),
-    speed: e.speed ?? Math.floor(5 + level * 2 + Math.random() * level),
+    attack: e.attack ?? rolled.attack,
+    defense: e.defense ?? rolled.defense,
+    speed: e.speed ?? rolled.speed,
     skills: e.skills ?? [],
     drops: e.drops,
     phases: e.phases,
+    factionId: e.factionId,
   };
 }
 
@@ -274,6 +328,7 @@ export async function startBattle(
 ) {
   const enemyInput = args.enemies as Array<{ name: string; level: number; element?: string }> | undefined;
   const countInput = args.enemyCount as number | undefined;
+  const allyInput = args.allies as Array<{ name: string; level: number }> | undefined;
 
   // 获取玩家信息（含当前节点）
   const player = await prisma.player.findUnique({ where: { id: playerId } });
@@ -397,6 +452,23 @@ export async function startBattle(
     })();
   }
 
+  // 同伴属性按与玩家相同的境界成长计算
+  const allies: BattleAlly[] = (allyInput ?? [])
+    .filter((a) => a?.name)
+    .map((a) => {
+      const level = Math.max(1, Math.floor(a.level) || player.level);
+      const stats = calcBaseStats(level, player.realm as Realm);
+      return {
+        name: a.name,
+        level,
+        hp: stats.maxHp,
+        maxHp: stats.maxHp,
+        attack: stats.attack,
+        defense: stats.defense,
+        speed: stats.speed,
+      };
+    });
+
   // 清除旧战斗状态
   await prisma.battleState.deleteMany({ where: { playerId } });
 
@@ -406,6 +478,8 @@ export async function startBattle(
       playerId,
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       enemies: enemies as any,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      playerBuffs: { allies } as any,
       roundNumber: 1,
       status: "active",
     },
@@ -429,12 +503,24 @@ export async function startBattle(
         maxHp: e.maxHp,
         element: e.element,
       })),
+      ...(allies.length > 0 ? { allies: allies.map((a) => ({ name: a.name, level: a.level, hp: a.hp, maxHp: a.maxHp })) } : {}),
       playerHp: player.hp,
       playerMaxHp: player.maxHp,
     },
   };
 }
 
+/** 战斗中的同伴（存于 BattleState.playerBuffs.allies） */
+interface BattleAlly {
+  name: string;
+  level: number;
+  hp: number;
+  maxHp: number;
+  attack: number;
+  defense: number;
+  speed: number;
+}
+
 /** 战斗中敌人的完整类型（兼容 DB JSON 和 startBattle） */
 interface BattleEnemy {
   name: string;
@@ -462,6 +548,8 @@ interface BattleEnemy {
   phases?: Array<{ hpThreshold: number; unlockedSkills: string[]; description?: string }>;
   /** 已触发的阶段索引 */
   triggeredPhases?: number[];
+  /** 所属势力（击杀会降低该势力声望） */
+  factionId?: string;
 }
 
 export async function executeBattleAction(
@@ -501,11 +589,11 @@ export async function executeBattleAction(
 
   const player = await prisma.player.findUnique({
     where: { id: playerId },
-    include: { skills: { where: { equipped: true } }, inventory: true },
+    include: { skills: { where: { equipped: true } }, inventory: true, equipment: true },
   });
   if (!player) return { success: false, error: "玩家不存在" };
 
-  // playerBuffs 复用为战斗内玩家临时状态容器（当前仅存技能冷却）
+  // playerBuffs 复用为战斗内玩家一方的临时状态容器（技能冷却、同伴）
   const playerBuffsState = (() => {
     const raw = battle.playerBuffs as unknown;
     if (raw && typeof raw === "object" && !Array.isArray(raw)) {
@@ -547,10 +635,9 @@ export async function executeBattleAction(
     triggeredPhases: e.triggeredPhases,
   }));
 
-  // 计算装备加成后的最终属性
-  const equippedItems = player.inventory
-    .filter((i) => i.equipped)
-    .map((i) => ({ stats: i.stats as Record<string, unknown> | null }));
+  // 计算装备加成后的最终属性（以 Equipment 槽位为准）
+  const equippedItems = resolveSlottedItems(player.equipment, player.inventory)
+    .map((i) => ({ stats: i.stats as Record<string, unknown> | null, enhanceLevel: i.enhanceLevel, setId: i.setId }));
   const finalStats = calcFinalStats(
     player.level,
     player.realm as Realm,
@@ -589,10 +676,29 @@ export async function executeBattleAction(
     attack: finalStats.attack,
     defense: finalStats.defense,
     speed: finalStats.speed,
+    realm: player.realm as Realm,
+    affixes: finalStats.affixes,
     buffs: [],
     skills: playerSkills,
   };
 
+  const dbAllies = Array.isArray(playerBuffsState.allies) ? (playerBuffsState.allies as BattleAlly[]) : [];
+  const allyStates: PlayerBattleState[] = dbAllies.map((a, i) => ({
+    id: `ally_${i}`,
+    name: a.name,
+    level: a.level,
+    hp: a.hp,
+    maxHp: a.maxHp,
+    mp: 0,
+    maxMp: 0,
+    attack: a.attack,
+    defense: a.defense,
+    speed: a.speed,
+    realm: player.realm as Realm,
+    buffs: [],
+    skills: [],
+  }));
+
   // 技能冷却前置校验：CD未结束时直接阻止施法，不消耗本回合
   if (action.type === "skill" && action.skillId) {
     const targetSkill = playerState.skills.find((s) => s.id === action.skillId);
@@ -657,11 +763,13 @@ export async function executeBattleAction(
       targetIndex: action.targetIndex,
     },
     battle.roundNumber,
-    battleItem
+    battleItem,
+    undefined,
+    allyStates
   );
 
   // ---- 持久化结果到 DB（保留完整数据，保证跨回合不丢失） ----
-  const updatedEnemies: BattleEnemy[] = enemyStates.map((e) => ({
+  const updatedEnemies: BattleEnemy[] = enemyStates.map((e, i) => ({
     name: e.name,
     level: e.level,
     element: e.element,
@@ -674,6 +782,7 @@ export async function executeBattleAction(
     drops: e.drops,
     phases: e.phases,
     triggeredPhases: e.triggeredPhases,
+    factionId: dbEnemies[i]?.factionId,
   }));
 
   await prisma.battleState.update({
@@ -689,6 +798,7 @@ export async function executeBattleAction(
             .map((s) => [s.id, s.currentCooldown ?? 0] as const)
             .filter(([, cd]) => cd > 0)
         ),
+        allies: dbAllies.map((a, i) => ({ ...a, hp: allyStates[i].hp })),
       } as any,
       roundNumber: battle.roundNumber + 1,
       status: turnResult.battleStatus,
@@ -706,6 +816,7 @@ export async function executeBattleAction(
 
   // 胜利奖励
   let levelUpInfo: { levelsGained: number; newLevel: number } | null = null;
+  const reputationChanges: ReputationChange[] = [];
   if (turnResult.battleStatus === "won" && turnResult.rewards) {
     const { exp, gold } = turnResult.rewards;
 
@@ -829,6 +940,7 @@ export async function executeBattleAction(
             quantity: drop.quantity,
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             stats: drop.stats ? (drop.stats as any) : undefined,
+            setId: drop.setId,
           },
         });
         }
@@ -840,6 +952,15 @@ export async function executeBattleAction(
       `战斗胜利！获得 ${exp} 经验，${gold} 金币，${turnResult.rewards.items.length} 件物品。`,
       { exp, gold, items: turnResult.rewards.items.map(i => i.name) }
     );
+
+    // 击杀势力成员 → 该势力声望下降
+    const killsByFaction = new Map<string, number>();
+    for (const e of updatedEnemies) {
+      if (e.factionId) killsByFaction.set(e.factionId, (killsByFaction.get(e.factionId) ?? 0) + 1);
+    }
+    for (const [factionId, count] of killsByFaction) {
+      reputationChanges.push(...(await changeReputation(playerId, factionId, "kill", count)));
+    }
     }
 
   let defeatPenalty: { goldLost: number; recovery: string } | null = null;
@@ -894,6 +1015,7 @@ export async function executeBattleAction(
       // 文本摘要：帮助 AI 快速理解本回合发生的事情（尤其是敌人行动），请务必在叙事中体现！
       summary,
       playerAction: turnResult.playerAction,
+      ...(turnResult.allyActions.length > 0 ? { allyActions: turnResult.allyActions } : {}),
       enemyActions: turnResult.enemyActions,
       battleStatus: turnResult.battleStatus,
       rewards: turnResult.rewards
@@ -908,7 +1030,9 @@ export async function executeBattleAction(
           }
         : null,
       enemyStates: turnResult.enemyStates,
+      ...(turnResult.allyStates.length > 0 ? { allyStates: turnResult.allyStates } : {}),
       defeatPenalty, // 新增：失败惩罚信息
+      ...(reputationChanges.length > 0 ? { reputationChanges } : {}),
     },
     stateUpdate: latestPlayer
       ? {
@@ -940,7 +1064,14 @@ function buildTurnSummary(result: TurnResult): string {
 
   // 玩家行动摘要
   const pa = result.playerAction;
-  if (pa.type === "attack" || pa.type === "skill") {
+  if ((pa.type === "attack" || pa.type === "skill") && pa.targets && pa.targets.length > 1) {
+    // 群攻 / 溅射：逐个目标列出
+    const scope = pa.targeting === "all" ? "全体敌人" : `${pa.targetName}及相邻敌人`;
+    const hits = pa.targets.map(
+      (t) => `${t.name} ${t.damage}${t.isCrit ? "（暴击）" : ""}，剩余HP ${t.hpAfter}/${t.maxHp}${t.isKill ? "（击杀！）" : ""}`
+    );
+    parts.push(`玩家使用${pa.skillName}攻击${scope}，共造成${pa.damage}点伤害：${hits.join("；")}`);
+  } else if (pa.type === "attack" || pa.type === "skill") {
     const skillPart = pa.skillName ? `使用${pa.skillName}` : "普通攻击";
     const critPart = pa.isCrit ? "（暴击！）" : "";
     const elemPart = pa.elementRelation && pa.elementRelation !== "normal" ? `[${pa.elementRelation}]` : "";
@@ -953,6 +1084,11 @@ function buildTurnSummary(result: TurnResult): string {
     parts.push(pa.fleeSuccess ? "玩家成功逃跑！" : "玩家逃跑失败！");
   }
 
+  // 同伴行动摘要
+  for (const aa of result.allyActions) {
+    parts.push(`同伴${aa.actorName}攻击${aa.targetName}，造成${aa.damage}点伤害${aa.isCrit ? "（暴击！）" : ""}。${aa.targetName}剩余HP ${aa.targetHpAfter}/${aa.targetMaxHp}${aa.isKill ? "（击杀！）" : ""}`);
+  }
+
   // 敌人行动摘要 —— 这是最关键的部分
   if (result.enemyActions.length > 0) {
     parts.push("【敌人回合】");
@@ -960,7 +1096,10 @@ function buildTurnSummary(result: TurnResult): string {
       if (ea.phaseChange) {
         parts.push(`⚠ ${ea.attackerName}进入新阶段：${ea.phaseChange}`);
       }
-      if (ea.type === "attack" || ea.type === "skill") {
+      if ((ea.type === "attack" || ea.type === "skill") && ea.targeting === "all") {
+        const hits = (ea.targets ?? []).map((t) => `${t.name} ${t.damage}${t.isCrit ? "（暴击）" : ""}`);
+        parts.push(`${ea.attackerName}使用${ea.skillName}攻击全队，共造成${ea.damage}点伤害：${hits.join("、")}。`);
+      } else if (ea.type === "attack" || ea.type === "skill") {
         const skillPart = ea.skillName ? `使用${ea.skillName}` : "普通攻击";
         const critPart = ea.isCrit ? "（暴击！）" : "";
         parts.push(`${ea.attackerName}${skillPart}攻击玩家，造成${ea.damage}点伤害${critPart}。`);
@@ -975,6 +1114,9 @@ function buildTurnSummary(result: TurnResult): string {
   // 当前战况
   const ps = result.playerState;
   parts.push(`当前战况：玩家HP ${ps.hp}/${ps.maxHp}, MP ${ps.mp}/${ps.maxMp}`);
+  if (result.allyStates.length > 0) {
+    parts.push(`同伴：${result.allyStates.map((a) => `${a.name} HP ${a.hp}/${a.maxHp}${a.alive ? "" : "（倒下）"}`).join("、")}`);
+  }
 
   return parts.join("\n");
 }
@@ -1030,91 +1172,178 @@ export async function useItem(
     };
   }
 
-  // ---- 装备穿戴/卸下 ----
-  const equipTypes = ["weapon", "armor", "accessory", "helmet", "boots"];
-  if (equipTypes.includes(item.type)) {
-    // 重新获取玩家（包括最新的背包状态，因为下面要重新计算属性）
-    // 注意：我们需要在 DB 更新后再计算，但为了性能，我们可以手动模拟变化
-    // 这里选择简单做法：先更新 DB，再查一次并计算
-    
-    if (item.equipped) {
-      // 已装备 → 卸下
-      await prisma.inventoryItem.update({
-        where: { id: item.id },
-        data: { equipped: false },
-      });
-    } else {
-      // 未装备 → 穿上（同类型旧装备自动卸下）
-      const playerCheck = await prisma.player.findUnique({
-         where: { id: playerId },
-         include: { inventory: { where: { equipped: true, type: item.type } } }
-      });
-      
-      const existingEquipped = playerCheck?.inventory[0];
-      if (existingEquipped) {
-        await prisma.inventoryItem.update({
-          where: { id: existingEquipped.id },
-          data: { equipped: false },
-        });
-      }
+  // ---- 装备穿戴/卸下（按 Equipment 槽位） ----
+  if (isEquippable(item.type)) {
+    const targetSlot = args.targetSlot as string | undefined;
+    const current = await prisma.equipment.findFirst({
+      where: { playerId, itemId: item.id },
+      select: { slot: true },
+    });
 
-      await prisma.inventoryItem.update({
-        where: { id: item.id },
-        data: { equipped: true },
-      });
+    // 已装备且未指定其它槽位 → 卸下
+    if (current && (!targetSlot || targetSlot === current.slot)) {
+      return unequipSlot(playerId, current.slot);
     }
-    
-    // 重新计算属性并更新到 DB (可选，如果Player表存储了非基础属性) 
-    // 目前设计是 Player 表存 current hp/mp，但 maxHp/attack 等通常是动态计算
-    // 但 context-builder 需要读取。为了前端 stateUpdate，我们需要计算最新值。
-    
-    const player = await prisma.player.findUnique({
+    return equipItem(playerId, item.id, targetSlot);
+  }
+
+  return { success: false, error: "无法使用该物品" };
+}
+
+/**
+ * 重新计算装备变动后的最终属性，并将溢出的 HP/MP 压回上限
+ *
+ * @param db - 传入事务客户端时与装备变动一同提交
+ */
+async function refreshEquipmentStats(playerId: string, db: Prisma.TransactionClient = prisma) {
+  const player = await db.player.findUnique({
+    where: { id: playerId },
+    include: { inventory: true, equipment: true },
+  });
+  if (!player) return null;
+
+  const slotted = resolveSlottedItems(player.equipment, player.inventory);
+  const finalStats = calcFinalStats(
+    player.level,
+    player.realm as Realm,
+    slotted.map((i) => ({ stats: i.stats as Record<string, unknown> | null, enhanceLevel: i.enhanceLevel, setId: i.setId }))
+  );
+
+  const hp = Math.min(player.hp, finalStats.maxHp);
+  const mp = Math.min(player.mp, finalStats.maxMp);
+  if (hp !== player.hp || mp !== player.mp) {
+    await db.player.update({
       where: { id: playerId },
-      include: {
-        inventory: { where: { equipped: true } },
-        skills: { where: { equipped: true } }
-      },
+      data: { hp, mp },
     });
-    
-    if (!player) return { success: false, error: "玩家不存在" };
+  }
 
-    const equippedItems = player.inventory.map((i) => ({ stats: i.stats as Record<string, unknown> | null }));
-    const finalStats = calcFinalStats(player.level, player.realm as Realm, equippedItems);
+  return {
+    equipment: Object.fromEntries(slotted.map((i) => [i.slot, { id: i.id, name: i.name }])),
+    stateUpdate: {
+      maxHp: finalStats.maxHp,
+      maxMp: finalStats.maxMp,
+      attack: finalStats.attack,
+      defense: finalStats.defense,
+      speed: finalStats.speed,
+      hp,
+      mp,
+    },
+  };
+}
 
-    // 顺便更新玩家 maxHp/maxMp (如果设计需要持久化) - 这里仅返回给前端
-    // 更新 HP/MP 避免溢出
-    let hpUpdate = player.hp;
-    let mpUpdate = player.mp;
-    if (player.hp > finalStats.maxHp) hpUpdate = finalStats.maxHp;
-    if (player.mp > finalStats.maxMp) mpUpdate = finalStats.maxMp;
-    
-    if (hpUpdate !== player.hp || mpUpdate !== player.mp) {
-        await prisma.player.update({
-            where: { id: playerId },
-            data: { hp: hpUpdate, mp: mpUpdate }
-        });
-    }
+/**
+ * 穿戴装备到槽位
+ *
+ * - 目标槽位被占用：原装备卸下（若新装备是从另一个同类槽位移过来的，则两者互换槽位）
+ * - 供 use_item 工具与 /api/player/equip 共用
+ */
+export async function equipItem(
+  playerId: string,
+  itemId: string,
+  targetSlot?: string
+) {
+  const item = await prisma.inventoryItem.findFirst({
+    where: { id: itemId, playerId },
+  });
+  if (!item) return { success: false, error: "物品不存在" };
+  if (!isEquippable(item.type)) {
+    return { success: false, error: `「${item.name}」不是可穿戴的装备` };
+  }
 
-    return {
-      success: true,
-      data: {
-        action: item.equipped ? "unequipped" : "equipped", // 注意 item.equipped 是旧状态
-        item: item.name,
-        type: item.type,
-      },
-      stateUpdate: {
-        maxHp: finalStats.maxHp,
-        maxMp: finalStats.maxMp,
-        attack: finalStats.attack,
-        defense: finalStats.defense,
-        speed: finalStats.speed,
-        hp: hpUpdate,
-        mp: mpUpdate,
-      },
-    };
+  const equipment = await prisma.equipment.findMany({ where: { playerId } });
+  const fromSlot = equipment.find((e) => e.itemId === item.id)?.slot;
+
+  const target = resolveTargetSlot(
+    item.type,
+    targetSlot,
+    equipment.filter((e) => e.itemId !== item.id).map((e) => e.slot)
+  );
+  if (!target.ok) return { success: false, error: target.reason };
+  const slot = target.slot;
+
+  if (fromSlot === slot) {
+    return { success: false, error: `「${item.name}」已装备在 ${SLOT_NAMES[slot]} 槽位` };
   }
 
-  return { success: false, error: "无法使用该物品" };
+  const occupant = equipment.find((e) => e.slot === slot);
+  const occupantItem = occupant
+    ? await prisma.inventoryItem.findUnique({ where: { id: occupant.itemId }, select: { id: true, name: true } })
+    : null;
+  const swap = !!(occupantItem && fromSlot);
+
+  // 槽位、装备标记与属性刷新在同一事务内，避免中途失败留下不一致的装备状态
+  const refreshed = await prisma.$transaction(async (tx) => {
+    // 先删后建，避免 (playerId, slot) 唯一约束冲突
+    await tx.equipment.deleteMany({
+      where: { playerId, slot: { in: fromSlot ? [slot, fromSlot] : [slot] } },
+    });
+    await tx.equipment.create({ data: { playerId, slot, itemId: item.id } });
+    await tx.inventoryItem.update({ where: { id: item.id }, data: { equipped: true } });
+
+    if (occupantItem) {
+      if (swap) {
+        await tx.equipment.create({ data: { playerId, slot: fromSlot!, itemId: occupantItem.id } });
+      } else {
+        await tx.inventoryItem.update({ where: { id: occupantItem.id }, data: { equipped: false } });
+      }
+    }
+
+    return refreshEquipmentStats(playerId, tx);
+  });
+  if (!refreshed) return { success: false, error: "玩家不存在" };
+
+  await logPlayerAction(
+    playerId,
+    "equip",
+    `装备 ${item.name} 到${SLOT_NAMES[slot]}${occupantItem ? (swap ? `，与 ${occupantItem.name} 互换槽位` : `，替换下 ${occupantItem.name}`) : ""}`,
+    { itemId: item.id, slot, replaced: occupantItem?.id }
+  );
+
+  return {
+    success: true,
+    data: {
+      action: "equipped",
+      item: item.name,
+      type: item.type,
+      slot,
+      replaced: occupantItem && !swap ? occupantItem.name : undefined,
+      swappedTo: swap ? { item: occupantItem!.name, slot: fromSlot } : undefined,
+      equipment: refreshed.equipment,
+    },
+    stateUpdate: refreshed.stateUpdate,
+  };
+}
+
+/**
+ * 卸下指定槽位的装备
+ */
+export async function unequipSlot(playerId: string, slot: string) {
+  const entry = await prisma.equipment.findUnique({
+    where: { playerId_slot: { playerId, slot } },
+  });
+  if (!entry) return { success: false, error: `槽位「${slot}」没有装备` };
+
+  const { item, refreshed } = await prisma.$transaction(async (tx) => {
+    await tx.equipment.delete({ where: { id: entry.id } });
+    // 物品可能已被删除：用 updateMany 避免事务内报错
+    await tx.inventoryItem.updateMany({ where: { id: entry.itemId }, data: { equipped: false } });
+    const item = await tx.inventoryItem.findUnique({ where: { id: entry.itemId } });
+    return { item, refreshed: await refreshEquipmentStats(playerId, tx) };
+  });
+  if (!refreshed) return { success: false, error: "玩家不存在" };
+
+  return {
+    success: true,
+    data: {
+      action: "unequipped",
+      item: item?.name,
+      type: item?.type,
+      slot,
+      equipment: refreshed.equipment,
+    },
+    stateUpdate: refreshed.stateUpdate,
+  };
 }
 
 /**
@@ -1303,15 +1532,15 @@ export async function interactNpc(
     };
   }
 
-  // 获取节点数据（用于商店物品等）
-  const node = await prisma.areaNode.findUnique({
-    where: { id: nodeId },
-    select: { data: true },
-  });
-  const nodeData = (node?.data ?? {}) as Record<string, unknown>;
-
   // ---- talk: 对话 ----
   if (action === "talk") {
+    // 每日首次拜访 +1 好感，并带出 NPC 对玩家的记忆
+    const relation = await recordNpcInteraction(
+      playerId,
+      { id: npcData.id, name: npcData.name },
+      { action: "daily_visit" }
+    );
+
     return {
       success: true,
       data: {
@@ -1322,125 +1551,30 @@ export async function interactNpc(
         greeting: npcData.greeting,
         dialogTopics: npcData.dialogTopics,
         questId: npcData.questId || null,
+        relationship: {
+          affinity: relation.affinity,
+          level: relation.level,
+          interactionCount: relation.interactionCount,
+          memory: relation.memory,
+        },
       },
     };
   }
 
-  // ---- buy: 购买商品 ----
+  // ---- buy: 购买商品（不指定商品时返回货架） ----
   if (action === "buy") {
-    const shopItems = nodeData?.shopItems as Array<{
-      name: string; type: string; quality?: string;
-      price: number; stats?: Record<string, unknown>; description?: string;
-    }> | undefined;
-
-    if (!shopItems) {
-      return { success: false, error: `${npcData.name} 没有商品出售` };
-    }
-
     const itemName = actionData?.itemName as string | undefined;
+    if (!itemName) return getShopWindow(playerId, npcData, player.currentAreaId);
     const quantity = (actionData?.quantity as number) || 1;
-
-    if (!itemName) {
-      // 返回商品列表
-      return {
-        success: true,
-        data: {
-          npcName: npcData.name,
-          action: "shop_list",
-          items: shopItems,
-          playerGold: player.gold,
-        },
-      };
-    }
-
-    // 查找商品
-    const shopItem = shopItems.find(
-      (i) => i.name === itemName || i.name.includes(itemName)
-    );
-    if (!shopItem) {
-      return { success: false, error: `商品「${itemName}」不存在` };
-    }
-
-    const totalCost = shopItem.price * quantity;
-    if (player.gold < totalCost) {
-      return {
-        success: false,
-        error: `金币不足，需要 ${totalCost} 金币，当前 ${player.gold} 金币`,
-      };
-    }
-
-    // 扣金币
-    await prisma.player.update({
-      where: { id: playerId },
-      data: { gold: { decrement: totalCost } },
-    });
-
-    // 添加物品到背包
-    await prisma.inventoryItem.create({
-      data: {
-        playerId,
-        name: shopItem.name,
-        type: shopItem.type,
-        quality: shopItem.quality || "common",
-        quantity,
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        stats: (shopItem.stats ?? undefined) as any,
-      },
-    });
-
-    return {
-      success: true,
-      data: {
-        npcName: npcData.name,
-        action: "bought",
-        item: shopItem.name,
-        quantity,
-        cost: totalCost,
-        remainingGold: player.gold - totalCost,
-      },
-      stateUpdate: { gold: player.gold - totalCost },
-    };
+    return buyFromShop(playerId, npcData, player.currentAreaId, itemName, quantity);
   }
 
   // ---- sell: 出售物品 ----
   if (action === "sell") {
     const itemId = actionData?.itemId as string | undefined;
     if (!itemId) return { success: false, error: "未指定要出售的物品" };
-
-    const item = await prisma.inventoryItem.findFirst({
-      where: { id: itemId, playerId },
-    });
-    if (!item) return { success: false, error: "物品不存在" };
-
-    // 出售价格为购买价的 40%（简单估算）
-    const sellPrice = Math.max(1, Math.floor(
-      (item.quality === "rare" ? 150 : item.quality === "uncommon" ? 80 : 30) * 0.4
-    ));
-
-    await prisma.player.update({
-      where: { id: playerId },
-      data: { gold: { increment: sellPrice } },
-    });
-
-    if (item.quantity <= 1) {
-      await prisma.inventoryItem.delete({ where: { id: itemId } });
-    } else {
-      await prisma.inventoryItem.update({
-        where: { id: itemId },
-        data: { quantity: { decrement: 1 } },
-      });
-    }
-
-    return {
-      success: true,
-      data: {
-        action: "sold",
-        item: item.name,
-        price: sellPrice,
-        remainingGold: player.gold + sellPrice,
-      },
-      stateUpdate: { gold: player.gold + sellPrice },
-    };
+    const quantity = (actionData?.quantity as number) || 1;
+    return sellToShop(playerId, npcData, player.currentAreaId, itemId, quantity);
   }
 
   // ---- exchange: 以物易物 ----
@@ -1478,6 +1612,7 @@ export async function interactNpc(
     // 3. 执行扣除
     for (const { dbItem, removeQty } of itemsToRemove) {
       if (dbItem.quantity <= removeQty) { // 应该相等，除非有并发修改
+        await prisma.equipment.deleteMany({ where: { playerId, itemId: dbItem.id } });
         await prisma.inventoryItem.delete({ where: { id: dbItem.id } });
       } else {
         await prisma.inventoryItem.update({
@@ -1528,6 +1663,22 @@ export async function interactNpc(
     };
   }
 
+  // ---- enhance: 铁匠强化装备 ----
+  if (action === "enhance") {
+    if (npcData.role !== "blacksmith") {
+      return { success: false, error: `${npcData.name} 不是铁匠，无法强化装备` };
+    }
+    const itemId = actionData?.itemId as string | undefined;
+    if (!itemId) return { success: false, error: "未指定要强化的装备" };
+
+    const result = await enhanceEquipment({ equipmentId: itemId }, playerId);
+    if (!result.success) return result;
+    return {
+      ...result,
+      data: { ...result.data, npcName: npcData.name },
+    };
+  }
+
   // ---- accept_quest: 接取任务 ----
   if (action === "accept_quest") {
     const questId = (actionData?.questId as string) || (npcData.questId as string);
@@ -1549,6 +1700,18 @@ export async function interactNpc(
       };
     }
 
+    // 声望门槛：任务所属势力，未标记时取 NPC 所属势力
+    const questFactionId = quest.factionId ?? (await resolveNpcFaction(npcData, player.currentAreaId))?.id;
+    if (questFactionId) {
+      const availability = checkQuestAvailability(
+        await getReputationValue(playerId, questFactionId),
+        quest.minReputation
+      );
+      if (!availability.ok) {
+        return { success: false, error: `无法接取任务「${quest.name}」：${availability.reason}` };
+      }
+    }
+
     const objectives = quest.objectives as Array<Record<string, unknown>>;
     const initialProgress = objectives.map(() => ({
       currentCount: 0,
@@ -1651,12 +1814,20 @@ export async function interactNpc(
       { questId: pq.questId, rewards }
     );
 
+    const questFactionId = pq.quest.factionId ?? (await resolveNpcFaction(npcData, player.currentAreaId))?.id;
+    const reputationChanges = questFactionId
+      ? await changeReputation(playerId, questFactionId, "quest_complete")
+      : [];
+    const affinityChange = await applyQuestAffinity(playerId, pq.quest.npcId ?? npcData.id, "complete_quest", pq.quest.name);
+
     return {
       success: true,
       data: {
         action: "quest_completed",
         questName: pq.quest.name,
         rewards,
+        ...(reputationChanges.length > 0 ? { reputationChanges } : {}),
+        ...(affinityChange ? { affinityChange } : {}),
       },
       stateUpdate: {
         ...(rewards.exp ? { exp: rewards.exp } : {}),
@@ -1672,21 +1843,106 @@ export async function enhanceEquipment(
   args: Record<string, unknown>,
   playerId: string
 ) {
-  const equipmentId = args.equipmentId as string;
+  const equipmentId = args.equipmentId as string | undefined;
+  if (!equipmentId) return { success: false, error: "缺少 equipmentId 参数" };
 
   // 使用集中式解析器查找装备
   const resolved = await resolveItem(equipmentId, playerId);
   if (!resolved.found) {
     return { success: false, error: resolved.error };
   }
-  const item = resolved.record;
-
+  const item = await prisma.inventoryItem.findUnique({ where: { id: resolved.record.id } });
   if (!item) return { success: false, error: "装备不存在" };
+  if (!isEquippable(item.type)) {
+    return { success: false, error: `「${item.name}」不是装备，无法强化` };
+  }
+  if (item.enhanceLevel >= MAX_ENHANCE_LEVEL) {
+    return { success: false, error: `「${item.name}」已强化至 +${MAX_ENHANCE_LEVEL}，无法继续强化` };
+  }
+
+  const player = await prisma.player.findUnique({
+    where: { id: playerId },
+    select: { level: true, gold: true },
+  });
+  if (!player) return { success: false, error: "玩家不存在" };
+
+  // ---- 消耗校验 ----
+  const cost = getEnhanceCost(item.enhanceLevel + 1, player.level);
+  const stones = await prisma.inventoryItem.findFirst({
+    where: { playerId, name: ENHANCE_STONE_NAME },
+  });
+  if (player.gold < cost.gold) {
+    return { success: false, error: `金币不足，强化需要 ${cost.gold} 金币，当前 ${player.gold} 金币` };
+  }
+  if ((stones?.quantity ?? 0) < cost.stones) {
+    return {
+      success: false,
+      error: `${ENHANCE_STONE_NAME}不足，强化需要 ${cost.stones} 个，当前 ${stones?.quantity ?? 0} 个`,
+    };
+  }
+
+  // ---- 判定 ----
+  const previousLevel = item.enhanceLevel;
+  const roll = rollEnhance(previousLevel);
+
+  // ---- 扣除消耗并写入强化等级 ----
+  // 同一事务内以条件更新校验金币、强化石与强化等级，任一已被并发修改则整体回滚
+  const conflict = new Error("enhance conflict");
+  let remainingGold: number;
+  try {
+    remainingGold = await prisma.$transaction(async (tx) => {
+      const paid = await tx.player.updateMany({
+        where: { id: playerId, gold: { gte: cost.gold } },
+        data: { gold: { decrement: cost.gold } },
+      });
+      if (paid.count === 0) throw conflict;
+
+      const consumed = await tx.inventoryItem.updateMany({
+        where: { id: stones!.id, quantity: { gte: cost.stones } },
+        data: { quantity: { decrement: cost.stones } },
+      });
+      if (consumed.count === 0) throw conflict;
+      await tx.inventoryItem.deleteMany({ where: { id: stones!.id, quantity: { lte: 0 } } });
+
+      const enhanced = await tx.inventoryItem.updateMany({
+        where: { id: item.id, enhanceLevel: previousLevel },
+        data: { enhanceLevel: roll.newLevel },
+      });
+      if (enhanced.count === 0) throw conflict;
+
+      const updated = await tx.player.findUniqueOrThrow({ where: { id: playerId }, select: { gold: true } });
+      return updated.gold;
+    });
+  } catch (err) {
+    if (err !== conflict) throw err;
+    return { success: false, error: `金币、${ENHANCE_STONE_NAME}或「${item.name}」的强化等级已变化，请重新强化` };
+  }
+
+  await logPlayerAction(
+    playerId,
+    "enhance",
+    roll.success
+      ? `强化 ${item.name} 成功：+${previousLevel} → +${roll.newLevel}`
+      : `强化 ${item.name} 失败：+${previousLevel} → +${roll.newLevel}`,
+    { itemId: item.id, from: previousLevel, to: roll.newLevel, gold: -cost.gold, stones: -cost.stones }
+  );
+
+  // 已装备的物品强化后需要刷新属性
+  const refreshed = item.equipped ? await refreshEquipmentStats(playerId) : null;
 
-  // 简化实现：后续由 equipment-calc 完善
   return {
     success: true,
-    data: { message: `装备 ${item.name} 强化功能开发中` },
+    data: {
+      item: item.name,
+      result: roll.success ? "success" : "failed",
+      previousLevel,
+      newLevel: roll.newLevel,
+      successRate: roll.successRate,
+      cost,
+      stats: applyEnhanceToStats((item.stats ?? {}) as Record<string, number>, roll.newLevel),
+      remainingGold,
+    },
+    stateUpdate: { ...(refreshed?.stateUpdate ?? {}), gold: remainingGold },
   };
 }
 
@@ -1729,7 +1985,7 @@ export async function improviseAction(
 
   const player = await prisma.player.findUnique({
     where: { id: playerId },
-    include: { inventory: true },
+    include: { inventory: true, equipment: true },
   });
   if (!player) return { success: false, error: "玩家不存在" };
 
@@ -1755,6 +2011,7 @@ export async function improviseAction(
 
     // 消耗物品
     if (item.quantity <= 1) {
+      await prisma.equipment.deleteMany({ where: { playerId, itemId: item.id } });
       await prisma.inventoryItem.delete({ where: { id: item.id } });
     } else {
       await prisma.inventoryItem.update({
@@ -1764,10 +2021,9 @@ export async function improviseAction(
     }
   }
 
-  // 计算装备加成后的最终属性
-  const equippedItems = player.inventory
-    .filter((i) => i.equipped)
-    .map((i) => ({ stats: i.stats as Record<string, unknown> | null }));
+  // 计算装备加成后的最终属性（以 Equipment 槽位为准）
+  const equippedItems = resolveSlottedItems(player.equipment, player.inventory)
+    .map((i) => ({ stats: i.stats as Record<string, unknown> | null, enhanceLevel: i.enhanceLevel, setId: i.setId }));
   const finalStats = calcFinalStats(player.level, player.realm as Realm, equippedItems);
 
   // 根据效果类型处理
@@ -2125,7 +2381,7 @@ export async function resolveBattleDiplomacy(
       description: `${resolution}: ${enemies.map((e) => e.name).join("、")} 外交解决`,
       playerState: `Lv${player.level} HP:${player.hp}/${player.maxHp}`,
       battleState: enemies.map((e) => `${e.name} HP:${e.hp}/${e.maxHp}`).join(", "),
-    });
+    }, playerId);
 
     if (!supervisorResult.approved) {
       return { success: false, error: `监管 Agent 拒绝：${supervisorResult.reason}` };
@@ -2222,6 +2478,12 @@ export async function resolveBattleDiplomacy(
     questCreated = { id: quest.id, name: quest.name };
   }
 
+  // 和平化解 → 敌方所属势力声望提升（每个势力计一次）
+  const reputationChanges: ReputationChange[] = [];
+  for (const factionId of new Set(enemies.map((e) => e.factionId).filter((f): f is string => !!f))) {
+    reputationChanges.push(...(await changeReputation(playerId, factionId, "diplomacy")));
+  }
+
   // 读取最新玩家状态
   const latestPlayer = await prisma.player.findUnique({
     where: { id: playerId },
@@ -2252,6 +2514,7 @@ export async function resolveBattleDiplomacy(
       expReward: expReward || undefined,
       questCreated,
       information: (outcome.information as string) || undefined,
+      ...(reputationChanges.length > 0 ? { reputationChanges } : {}),
     },
     stateUpdate: latestPlayer
       ? {
@@ -170,6 +170,7 @@ export async function interactEnvironment(
 
     // 消耗物品
     if (item.quantity <= 1) {
+      await prisma.equipment.deleteMany({ where: { playerId, itemId: item.id } });
       await prisma.inventoryItem.delete({ where: { id: item.id } });
     } else {
       await prisma.inventoryItem.update({
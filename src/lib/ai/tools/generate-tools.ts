@@ -5,8 +5,18 @@
 import type { NormalizedTool } from "../adapters/types";
 import { prisma } from "@/lib/db/prisma";
 import { clearActiveBattle } from "./action-tools";
-import { resolveQuest } from "./resolve-id";
+import { resolveQuest, resolveNpc } from "./resolve-id";
+import { changeReputation, resolveNpcFaction } from "./reputation-tools";
+import { applyQuestAffinity } from "./npc-tools";
 import { logPlayerAction } from "@/lib/game/logger";
+import { isEquippable } from "@/lib/game/equipment-slots";
+import { stripNpcFields, syncNodeNpcs } from "@/lib/game/npc-registry";
+import {
+  EQUIPMENT_SETS,
+  EQUIPMENT_SET_IDS,
+  findSetForTheme,
+  getEquipmentSet,
+} from "@/lib/game/equipment-sets";
 
 // ============================================================
 // 工具定义
@@ -25,6 +35,26 @@ export const generateToolDefinitions: NormalizedTool[] = [
         description: { type: "string", description: "区域整体描述（50-100字）" },
         theme: { type: "string", description: "主题标签（如 ocean、forest、desert、cave、city）" },
         recommendedLevel: { type: "number", description: "推荐等级，匹配当前玩家等级" },
+        faction: {
+          type: "object",
+          description:
+            "区域所属势力（可选）。id 已存在时直接复用；rivalId 指定互斥势力（提升一方声望会降低另一方）。" +
+            "NPC 与敌人模板可单独填写 factionId 覆盖区域势力。",
+          properties: {
+            id: { type: "string", description: "势力ID（英文 snake_case，如 fishermen_alliance）" },
+            name: { type: "string", description: "势力名称" },
+            description: { type: "string" },
+            rivalId: { type: "string", description: "互斥势力ID（可选）" },
+          },
+          required: ["id", "name"],
+        },
+        setId: {
+          type: "string",
+          enum: EQUIPMENT_SET_IDS,
+          description:
+            "区域专属套装（可选，不填则按 theme 自动匹配）。BOSS 掉落与商店中的装备会被标记为该套装，装备名称建议参考套装部件：" +
+            EQUIPMENT_SETS.map((s) => `${s.setId}=${s.setName}(${s.pieces.map((p) => p.name).join("/")})`).join("；"),
+        },
         nodes: {
           type: "array",
           description: "节点列表（5-8个），每个节点的 data 字段按 type 不同有不同结构",
@@ -43,8 +73,9 @@ export const generateToolDefinitions: NormalizedTool[] = [
                 type: "object",
                 description:
                   "节点数据，按 type 填写：" +
-                  "battle → { enemyTemplates: [{ name, level, element, minCount, maxCount, description }] }；" +
-                  "npc → { npcs: [{ id, name, role, personality, greeting, dialogTopics }] }（注意：使用 npcs 数组，如缺失会自动创建）；" +
+                  "battle → { enemyTemplates: [{ name, level, element, minCount, maxCount, description, factionId? }] }；" +
+                  "npc → { npcs: [{ id, name, role, personality, greeting, dialogTopics, factionId?, favoriteItems?, schedule?: [{ from, to, nodeId }] }] }" +
+                  "（注意：使用 npcs 数组，如缺失会自动创建；role=blacksmith 的铁匠可强化装备；schedule 为按小时的日程，nodeId 填逻辑节点ID，其余时间在本节点）；" +
                   "shop → { npcs: [{ id, name, role, greeting }], shopItems: [{ name, type, quality, price, stats, description }] }（注意：npcs 数组如缺失会自动创建默认掌柜）；" +
                   "boss → { boss: { name, level, element, description, hp, attack, defense, speed, skills: [{ name, damage, element, type: attack|heal|buff|aoe, description }], phases: [{ hpThreshold, unlockedSkills, description }], drops: [{ name, type, quality, stats?, chance, skillData?: { element, damage, mpCost, cooldown, effect? } }] } }。" +
                   "⚠️ BOSS 的 drops 数组中**必须包含至少一个 type='skill' 的技能掉落**，该技能必须与区域主题相关（如 ocean→water, forest→wind/earth, desert→fire/earth, cave→earth/dark）；" +
@@ -98,6 +129,11 @@ export const generateToolDefinitions: NormalizedTool[] = [
           },
         },
         specialCondition: { type: "string", description: "非标准完成条件" },
+        factionId: { type: "string", description: "任务所属势力（可选，默认取发布 NPC / 当前区域的势力）" },
+        minReputation: {
+          type: "number",
+          description: "接取所需最低声望（可选）：友善=500 支线，尊敬=2000 稀有，崇敬=5000 隐藏任务",
+        },
       },
       required: ["name", "description", "type", "objectives", "rewards"],
     },
@@ -168,6 +204,28 @@ export async function generateArea(
 
   const level = recommendedLevel ?? 1;
 
+  // 区域势力：已存在则复用，否则创建
+  const factionInput = args.faction as
+    | { id?: string; name?: string; description?: string; rivalId?: string }
+    | undefined;
+  let factionId: string | undefined;
+  if (factionInput?.id && factionInput.name) {
+    const faction = await prisma.faction.upsert({
+      where: { id: factionInput.id },
+      update: {},
+      create: {
+        id: factionInput.id,
+        name: factionInput.name,
+        description: factionInput.description ?? "",
+        rivalId: factionInput.rivalId,
+      },
+    });
+    factionId = faction.id;
+  }
+
+  // 区域套装：显式指定优先，否则按主题匹配
+  const gearSet = getEquipmentSet(args.setId as string | undefined) ?? findSetForTheme(theme);
+
   // 创建区域
   const area = await prisma.area.create({
     data: {
@@ -175,12 +233,14 @@ export async function generateArea(
       description,
       theme,
       recommendedLevel: level,
+      factionId,
       createdByPlayer: playerId,
     },
   });
 
-  // 创建节点（直接存储 AI 提供的 data 字段，格式与种子数据一致）
+  // 创建节点（NPC 与商品拆出写入 Npc 表，其余 data 字段直接存储）
   const nodeIdMap: Record<string, string> = {};
+  const npcNodes: Array<{ nodeId: string; data: Record<string, unknown> }> = [];
   for (let i = 0; i < nodesInput.length; i++) {
     const n = nodesInput[i];
 
@@ -209,6 +269,18 @@ export async function generateArea(
       }
     }
 
+    // 区域套装标记：BOSS 掉落与商店中的可穿戴装备
+    if (gearSet) {
+      const tagSet = (items: unknown) => {
+        if (!Array.isArray(items)) return;
+        for (const item of items as Array<{ type?: string; setId?: string }>) {
+          if (item?.type && isEquippable(item.type) && !item.setId) item.setId = gearSet.setId;
+        }
+      };
+      if (n.type === "boss") tagSet((nodeData.boss as { drops?: unknown } | undefined)?.drops);
+      if (n.type === "shop") tagSet(nodeData.shopItems);
+    }
+
     const node = await prisma.areaNode.create({
       data: {
         areaId: area.id,
@@ -216,12 +288,18 @@ export async function generateArea(
         type: n.type,
         description: n.description,
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        data: nodeData as any,
+        data: stripNpcFields(nodeData) as any,
         posX: i % 4,
         posY: Math.floor(i / 4),
       },
     });
     nodeIdMap[n.id] = node.id;
+    npcNodes.push({ nodeId: node.id, data: nodeData });
+  }
+
+  // 写入 NPC（全部节点创建后进行，以便日程引用逻辑节点 ID）
+  for (const { nodeId, data } of npcNodes) {
+    await syncNodeNpcs(prisma, area.id, nodeId, data, nodeIdMap);
   }
 
   // 创建连接
@@ -268,6 +346,7 @@ export async function generateArea(
       areaName: name,
       nodeCount: nodesInput.length,
       entranceNode: nodesInput[0]?.name,
+      ...(gearSet ? { gearSet: gearSet.setName } : {}),
       nodes: nodesInput.map((n) => ({
         logicalId: n.id,
         actualId: nodeIdMap[n.id],
@@ -292,6 +371,7 @@ export async function createQuest(
   const objectives = args.objectives as Array<Record<string, unknown>>;
   const rewards = args.rewards as Record<string, unknown>;
   const specialCondition = args.specialCondition as string | undefined;
+  const minReputation = args.minReputation as number | undefined;
 
   // 自动绑定任务到玩家当前所在区域（区域隔离：任务只能在创建区域中可见和完成）
   const player = await prisma.player.findUnique({
@@ -300,6 +380,13 @@ export async function createQuest(
   });
   const questAreaId = player?.currentAreaId ?? undefined;
 
+  // 任务所属势力：显式指定 > 发布 NPC 的势力 > 区域势力
+  let factionId = args.factionId as string | undefined;
+  if (!factionId) {
+    const npc = args.npcId ? await resolveNpc(args.npcId as string, playerId) : null;
+    factionId = (await resolveNpcFaction(npc?.found ? npc.record.npc : {}, questAreaId))?.id;
+  }
+
   const quest = await prisma.quest.create({
     data: {
       name,
@@ -307,6 +394,8 @@ export async function createQuest(
       type,
       npcId: args.npcId as string | undefined,
       areaId: questAreaId,
+      factionId,
+      minReputation,
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       objectives: objectives as any,
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -403,9 +492,20 @@ export async function updateQuest(
       { questId: pq.questId, rewards }
     );
 
+    const reputationChanges = pq.quest.factionId
+      ? await changeReputation(playerId, pq.quest.factionId, "quest_complete")
+      : [];
+    const affinityChange = await applyQuestAffinity(playerId, pq.quest.npcId, "complete_quest", pq.quest.name);
+
     return {
       success: true,
-      data: { questName: pq.quest.name, status: "completed", rewards },
+      data: {
+        questName: pq.quest.name,
+        status: "completed",
+        rewards,
+        ...(reputationChanges.length > 0 ? { reputationChanges } : {}),
+        ...(affinityChange ? { affinityChange } : {}),
+      },
       stateUpdate: updatedPlayer
         ? {
             exp: updatedPlayer.exp,
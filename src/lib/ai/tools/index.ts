@@ -13,6 +13,9 @@ import { actionToolDefinitions } from "./action-tools";
 import { generateToolDefinitions } from "./generate-tools";
 import { modifyToolDefinitions } from "./modify-tools";
 import { environmentToolDefinitions } from "./environment-tools";
+import { realmToolDefinitions } from "./realm-tools";
+import { reputationToolDefinitions } from "./reputation-tools";
+import { npcToolDefinitions } from "./npc-tools";
 
 // 工具执行函数
 import { getBattleState } from "./query-tools";
@@ -21,10 +24,14 @@ import {
   executeBattleAction,
   useItem,
   interactNpc,
+  enhanceEquipment,
   improviseAction,
   resolveBattleDiplomacy,
 } from "./action-tools";
 import { interactEnvironment } from "./environment-tools";
+import { realmBreakthrough } from "./realm-tools";
+import { checkReputation } from "./reputation-tools";
+import { updateNpcMemory } from "./npc-tools";
 import { generateArea, createQuest, updateQuest } from "./generate-tools";
 import { modifyPlayerData, addItem, abandonQuest, modifyEnemyHp } from "./modify-tools";
 
@@ -39,6 +46,9 @@ export const ALL_TOOLS: NormalizedTool[] = [
   ...generateToolDefinitions,
   ...modifyToolDefinitions,
   ...environmentToolDefinitions,
+  ...realmToolDefinitions,
+  ...reputationToolDefinitions,
+  ...npcToolDefinitions,
 ];
 
 /** 战斗模式专用工具集 (精简工具列表以减少幻觉) */
@@ -102,11 +112,17 @@ const TOOL_HANDLERS: Record<
   use_item: useItem,
   // move_to_node: removed (now UI-driven via /api/player/move)
   interact_npc: interactNpc,
-  // enhance_equipment: removed (unimplemented stub)
+  enhance_equipment: enhanceEquipment,
   improvise_action: improviseAction,
   resolve_battle_diplomacy: resolveBattleDiplomacy,
   // 环境交互
   interact_environment: interactEnvironment,
+  // 境界
+  realm_breakthrough: realmBreakthrough,
+  // 声望
+  check_reputation: checkReputation,
+  // NPC 关系
+  update_npc_memory: updateNpcMemory,
   // 生成类
   generate_area: generateArea,
   create_quest: createQuest,
@@ -5,6 +5,7 @@
 import type { NormalizedTool } from "../adapters/types";
 import { prisma } from "@/lib/db/prisma";
 import { logPlayerAction } from "@/lib/game/logger";
+import { applyQuestAffinity } from "./npc-tools";
 
 // ============================================================
 // 工具定义
@@ -62,7 +63,7 @@ export const modifyToolDefinitions: NormalizedTool[] = [
               name: { type: "string" },
               type: {
                 type: "string",
-                enum: ["weapon", "armor", "accessory", "consumable", "material", "quest_item", "collectible"],
+                enum: ["weapon", "helmet", "armor", "boots", "accessory", "consumable", "material", "quest_item", "collectible"],
               },
               quality: {
                 type: "string",
@@ -444,12 +445,17 @@ export async function abandonQuest(
     { questId: pq.questId, reason }
   );
 
+  // 放弃未完成的委托 → 发布 NPC 好感度下降
+  const affinityChange =
+    pq.status === "active" ? await applyQuestAffinity(playerId, pq.quest.npcId, "fail_quest", pq.quest.name) : null;
+
   return {
     success: true,
     data: {
       action: "abandon_quest",
       questName: pq.quest.name,
       message: "任务已放弃，相关进度已清除。",
+      ...(affinityChange ? { affinityChange } : {}),
     },
   };
 }
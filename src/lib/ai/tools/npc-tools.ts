@@ -0,0 +1,283 @@
+/**
+ * NPC 关系工具 - 好感度与记忆（每个玩家 × 每个 NPC 一条记录）
+ *
+ * 对话结束后由 GM 调用 update_npc_memory 写入对话摘要、关键事件与好感度变化；
+ * 玩家位于 NPC 所在节点时，context-builder 将记忆压缩后注入上下文。
+ */
+
+import type { NormalizedTool } from "../adapters/types";
+import { prisma } from "@/lib/db/prisma";
+import type { NpcRelation, Prisma } from "@/generated/prisma/client";
+import {
+  AFFINITY_RULES,
+  GM_AFFINITY_ACTIONS,
+  MEMORY_LIMITS,
+  appendMemory,
+  clampAffinity,
+  formatNpcMemory,
+  getAffinityLevel,
+  type AffinityAction,
+  type DialogueMemory,
+  type GiftMemory,
+  type KeyEventMemory,
+} from "@/lib/game/npc-affinity";
+import { resolveItem, resolveNpc } from "./resolve-id";
+import { logPlayerAction } from "@/lib/game/logger";
+
+// ============================================================
+// 工具定义
+// ============================================================
+
+export const npcToolDefinitions: NormalizedTool[] = [
+  {
+    name: "update_npc_memory",
+    description:
+      "记录与 NPC 的一次互动：写入对话摘要 / 关键事件，并按行为调整好感度（敌视/冷淡/中立/友好/信任/挚友/至交）。" +
+      "与 NPC 的对话告一段落、玩家赠礼时调用。委托完成/失败的好感度由任务结算自动处理，无需在此施加。" +
+      "赠礼需提供 giftItemId，会从背包扣除 1 个；好感度变化以工具返回为准，严禁自行编造。",
+    parameters: {
+      type: "object",
+      properties: {
+        npcId: { type: "string", description: "NPC ID 或 名称" },
+        summary: { type: "string", description: "本次对话摘要（一句话，NPC 视角需要记住的内容）" },
+        scene: { type: "string", description: "对话场景（可选），如'深夜的酒馆'" },
+        keyEvent: { type: "string", description: "值得长期记住的关键事件（可选），如'玩家救了他的女儿'" },
+        affinityAction: {
+          type: "string",
+          enum: GM_AFFINITY_ACTIONS.filter((a) => a !== "gift_favorite"),
+          description:
+            "好感度行为（可选）：dialogue_positive 愉快对话 / dialogue_negative 冒犯 / gift_item 赠礼。" +
+            "赠礼时由系统判定是否为喜爱物品",
+        },
+        giftItemId: { type: "string", description: "赠送的背包物品ID或名称（赠礼时必填）" },
+      },
+      required: ["npcId", "summary"],
+    },
+  },
+];
+
+// ============================================================
+// 关系读写
+// ============================================================
+
+export interface AffinityChange {
+  npcId: string;
+  npcName: string;
+  action: AffinityAction;
+  change: number;
+  affinity: number;
+  level: string;
+}
+
+interface MemoryUpdate {
+  action?: AffinityAction;
+  summary?: string;
+  scene?: string;
+  keyEvent?: string;
+  gift?: { itemName: string; favorite: boolean };
+}
+
+/** NpcRelation 记录 → 压缩记忆文本 */
+export function formatRelationMemory(relation: NpcRelation): string {
+  return formatNpcMemory({
+    npcName: relation.npcName,
+    affinity: relation.affinity,
+    interactionCount: relation.interactionCount,
+    dialogueSummaries: relation.dialogueSummaries as unknown as DialogueMemory[],
+    keyEvents: relation.keyEvents as unknown as KeyEventMemory[],
+    giftsReceived: relation.giftsReceived as unknown as GiftMemory[],
+  });
+}
+
+/**
+ * 写入一次互动：累加互动次数、追加记忆、按规则（含每日上限）调整好感度
+ */
+export async function recordNpcInteraction(
+  playerId: string,
+  npc: { id: string; name: string },
+  update: MemoryUpdate
+): Promise<{
+  affinity: number;
+  level: string;
+  interactionCount: number;
+  change: AffinityChange | null;
+  /** 该行为今日已达上限，未计入好感度 */
+  capped: boolean;
+  /** 压缩后的 NPC 记忆文本 */
+  memory: string;
+}> {
+  const existing = await prisma.npcRelation.findUnique({
+    where: { playerId_npcId: { playerId, npcId: npc.id } },
+  });
+
+  // 每日计数：跨自然日重置
+  const now = new Date();
+  const at = now.toISOString();
+  const sameDay = existing && existing.lastInteractAt.toDateString() === now.toDateString();
+  const dailyActions = (sameDay ? (existing.dailyActions as Record<string, number>) : {}) ?? {};
+
+  const before = existing?.affinity ?? 0;
+  let affinity = before;
+  let capped = false;
+  if (update.action) {
+    const rule = AFFINITY_RULES[update.action];
+    const used = dailyActions[update.action] ?? 0;
+    capped = rule.dailyCap !== undefined && used >= rule.dailyCap;
+    if (!capped) {
+      affinity = clampAffinity(before + rule.amount);
+      dailyActions[update.action] = used + 1;
+    }
+  }
+
+  let dialogueSummaries = (existing?.dialogueSummaries as unknown as DialogueMemory[] | undefined) ?? [];
+  let keyEvents = (existing?.keyEvents as unknown as KeyEventMemory[] | undefined) ?? [];
+  let giftsReceived = (existing?.giftsReceived as unknown as GiftMemory[] | undefined) ?? [];
+  if (update.summary) {
+    dialogueSummaries = appendMemory(
+      dialogueSummaries,
+      { summary: update.summary, ...(update.scene ? { scene: update.scene } : {}), at },
+      MEMORY_LIMITS.dialogueSummaries
+    );
+  }
+  if (update.keyEvent) {
+    keyEvents = appendMemory(keyEvents, { event: update.keyEvent, at }, MEMORY_LIMITS.keyEvents);
+  }
+  if (update.gift) {
+    giftsReceived = appendMemory(giftsReceived, { ...update.gift, at }, MEMORY_LIMITS.giftsReceived);
+  }
+
+  const data = {
+    npcName: npc.name,
+    affinity,
+    dialogueSummaries: dialogueSummaries as unknown as Prisma.InputJsonValue,
+    keyEvents: keyEvents as unknown as Prisma.InputJsonValue,
+    giftsReceived: giftsReceived as unknown as Prisma.InputJsonValue,
+    dailyActions,
+    lastInteractAt: now,
+  };
+  const relation = await prisma.npcRelation.upsert({
+    where: { playerId_npcId: { playerId, npcId: npc.id } },
+    create: { playerId, npcId: npc.id, interactionCount: 1, ...data },
+    update: { interactionCount: { increment: 1 }, ...data },
+  });
+
+  const level = getAffinityLevel(affinity).name;
+  const change =
+    update.action && affinity !== before
+      ? { npcId: npc.id, npcName: npc.name, action: update.action, change: affinity - before, affinity, level }
+      : null;
+
+  if (change && getAffinityLevel(before).name !== level) {
+    await logPlayerAction(
+      playerId,
+      "npc_affinity",
+      `与 ${npc.name} 的关系变为「${level}」（好感 ${before} → ${affinity}）`,
+      { npcId: npc.id, action: update.action, before, after: affinity }
+    );
+  }
+
+  return { affinity, level, interactionCount: relation.interactionCount, change, capped, memory: formatRelationMemory(relation) };
+}
+
+/**
+ * 任务结算时调整发布 NPC 的好感度
+ *
+ * complete_quest / fail_quest 只从任务完成 / 放弃代码调用（已核对 PlayerQuest 状态），不对 GM 开放。
+ * 发布 NPC 不在当前区域时跳过。
+ */
+export async function applyQuestAffinity(
+  playerId: string,
+  questNpcId: string | null | undefined,
+  action: "complete_quest" | "fail_quest",
+  questName: string
+): Promise<AffinityChange | null> {
+  if (!questNpcId) return null;
+  const resolved = await resolveNpc(questNpcId, playerId);
+  if (!resolved.found) return null;
+
+  const { npc } = resolved.record;
+  const result = await recordNpcInteraction(
+    playerId,
+    { id: npc.id, name: npc.name },
+    { action, keyEvent: action === "complete_quest" ? `完成了委托「${questName}」` : `放弃了委托「${questName}」` }
+  );
+  return result.change;
+}
+
+// ============================================================
+// 工具执行
+// ============================================================
+
+export async function updateNpcMemory(
+  args: Record<string, unknown>,
+  playerId: string
+) {
+  const npcId = args.npcId as string | undefined;
+  const summary = args.summary as string | undefined;
+  const giftItemId = args.giftItemId as string | undefined;
+  let action = args.affinityAction as AffinityAction | undefined;
+
+  if (!npcId) return { success: false, error: "缺少 npcId 参数" };
+  if (!summary) return { success: false, error: "缺少 summary 参数" };
+  if (action && !GM_AFFINITY_ACTIONS.includes(action)) {
+    return { success: false, error: `不支持的好感度行为: ${action}（委托完成/失败由任务结算自动处理）` };
+  }
+
+  const resolved = await resolveNpc(npcId, playerId);
+  if (!resolved.found) return { success: false, error: resolved.error };
+  const { nodeId, npc: npcData } = resolved.record;
+
+  const player = await prisma.player.findUnique({
+    where: { id: playerId },
+    select: { currentNodeId: true },
+  });
+  if (player?.currentNodeId !== nodeId) {
+    return { success: false, error: `NPC「${npcData.name}」不在你当前所在的位置` };
+  }
+
+  // 赠礼：扣除背包物品，喜爱物品自动升级为 gift_favorite
+  let gift: MemoryUpdate["gift"];
+  if (giftItemId || action === "gift_item" || action === "gift_favorite") {
+    if (!giftItemId) return { success: false, error: "赠礼需要提供 giftItemId" };
+    const itemResult = await resolveItem(giftItemId, playerId);
+    if (!itemResult.found) return { success: false, error: itemResult.error };
+    const item = itemResult.record;
+
+    const favoriteItems = (npcData.favoriteItems as string[] | undefined) ?? [];
+    const favorite = favoriteItems.some((f) => item.name === f || item.name.includes(f));
+    action = favorite ? "gift_favorite" : "gift_item";
+    gift = { itemName: item.name, favorite };
+
+    if (item.quantity > 1) {
+      await prisma.inventoryItem.update({ where: { id: item.id }, data: { quantity: { decrement: 1 } } });
+    } else {
+      await prisma.equipment.deleteMany({ where: { playerId, itemId: item.id } });
+      await prisma.inventoryItem.delete({ where: { id: item.id } });
+    }
+  }
+
+  const result = await recordNpcInteraction(
+    playerId,
+    { id: npcData.id, name: npcData.name },
+    {
+      action,
+      summary,
+      scene: args.scene as string | undefined,
+      keyEvent: args.keyEvent as string | undefined,
+      gift,
+    }
+  );
+
+  return {
+    success: true,
+    data: {
+      npcName: npcData.name,
+      affinity: result.affinity,
+      level: result.level,
+      interactionCount: result.interactionCount,
+      affinityChange: result.change?.change ?? 0,
+      ...(gift ? { gift: gift.itemName, favorite: gift.favorite } : {}),
+      ...(result.capped ? { note: "今日该行为的好感度已达上限" } : {}),
+    },
+  };
+}
@@ -0,0 +1,299 @@
+/**
+ * 境界工具 - 境界突破（条件检查、消耗、成败判定、属性重算）
+ *
+ * 同时供 LLM 工具 realm_breakthrough 与 /api/player/breakthrough 复用。
+ */
+
+import type { NormalizedTool } from "../adapters/types";
+import { prisma } from "@/lib/db/prisma";
+import {
+  BREAKTHROUGH_REQUIREMENTS,
+  breakthroughLevelReq,
+  calcBaseStats,
+  calcBreakthroughSuccessRate,
+  getNextRealm,
+  type Realm,
+} from "@/lib/game/formulas";
+import { logPlayerAction } from "@/lib/game/logger";
+import type { Rng } from "@/lib/game/rng";
+
+// ============================================================
+// 工具定义
+// ============================================================
+
+export const realmToolDefinitions: NormalizedTool[] = [
+  {
+    name: "realm_breakthrough",
+    description:
+      "境界突破。check=查询突破条件与成功率（不消耗任何资源）；attempt=尝试突破（消耗突破丹和灵石，可能失败并受反噬）。" +
+      "当玩家表达闭关/突破/冲击境界的意图，或完成突破试炼剧情时调用。先 check 再 attempt，严禁在未调用 attempt 时叙述突破成功。",
+    parameters: {
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["check", "attempt"],
+          description: "check=查询条件, attempt=执行突破",
+        },
+      },
+      required: ["action"],
+    },
+  },
+];
+
+// ============================================================
+// 工具执行
+// ============================================================
+
+/** 失败时灵石损失比例（其余返还） */
+const FAIL_STONE_LOSS_RATIO = 0.5;
+/** 失败反噬后 HP/MP 剩余比例 */
+const FAIL_BACKLASH_RATIO = 0.3;
+
+interface BreakthroughCondition {
+  key: "level" | "pill" | "spiritStones" | "battleWins";
+  label: string;
+  required: number;
+  current: number;
+  met: boolean;
+}
+
+/**
+ * 读取玩家当前的突破状态（不做任何修改）
+ */
+async function loadBreakthroughStatus(playerId: string) {
+  const player = await prisma.player.findUnique({ where: { id: playerId } });
+  if (!player) return null;
+
+  const realm = player.realm as Realm;
+  const targetRealm = getNextRealm(realm);
+  if (!targetRealm) {
+    return { player, realm, targetRealm: null, conditions: [], successRate: 0, failedAttempts: 0, pill: null };
+  }
+
+  const req = BREAKTHROUGH_REQUIREMENTS[targetRealm];
+
+  // 当前境界的起点：最后一次突破成功的时间（从未突破则从角色创建算起）
+  const lastBreakthrough = await prisma.playerLog.findFirst({
+    where: { playerId, type: "breakthrough" },
+    orderBy: { createdAt: "desc" },
+    select: { createdAt: true },
+  });
+  const realmSince = lastBreakthrough?.createdAt ?? player.createdAt;
+
+  const [battleWins, failedAttempts, pill] = await Promise.all([
+    prisma.playerLog.count({
+      where: { playerId, type: "battle_win", createdAt: { gt: realmSince } },
+    }),
+    prisma.playerLog.count({
+      where: { playerId, type: "breakthrough_fail", createdAt: { gt: realmSince } },
+    }),
+    prisma.inventoryItem.findFirst({
+      where: { playerId, name: req.pillName },
+      select: { id: true, name: true, quantity: true },
+    }),
+  ]);
+
+  const levelReq = breakthroughLevelReq(targetRealm);
+  const conditions: BreakthroughCondition[] = [
+    { key: "level", label: `等级 Lv.${levelReq}`, required: levelReq, current: player.level, met: player.level >= levelReq },
+    { key: "pill", label: req.pillName, required: 1, current: pill?.quantity ?? 0, met: (pill?.quantity ?? 0) >= 1 },
+    { key: "spiritStones", label: "灵石", required: req.spiritStones, current: player.spiritStones, met: player.spiritStones >= req.spiritStones },
+    { key: "battleWins", label: "当前境界战斗胜利次数", required: req.battleWins, current: battleWins, met: battleWins >= req.battleWins },
+  ];
+
+  return {
+    player,
+    realm,
+    targetRealm,
+    conditions,
+    successRate: calcBreakthroughSuccessRate(player.level, targetRealm, failedAttempts),
+    failedAttempts,
+    pill,
+  };
+}
+
+/**
+ * 查询突破条件
+ */
+export async function checkBreakthrough(playerId: string) {
+  const status = await loadBreakthroughStatus(playerId);
+  if (!status) return { success: false, error: "玩家不存在" };
+
+  if (!status.targetRealm) {
+    return {
+      success: true,
+      data: { realm: status.realm, targetRealm: null, ready: false, message: "已是最高境界，无法继续突破" },
+    };
+  }
+
+  return {
+    success: true,
+    data: {
+      realm: status.realm,
+      targetRealm: status.targetRealm,
+      ready: status.conditions.every((c) => c.met),
+      conditions: status.conditions,
+      successRate: status.successRate,
+      failedAttempts: status.failedAttempts,
+    },
+  };
+}
+
+/**
+ * 尝试突破：条件不满足直接拒绝；满足则消耗资源并按成功率判定
+ */
+export async function attemptBreakthrough(playerId: string, rng: Rng = Math.random) {
+  const status = await loadBreakthroughStatus(playerId);
+  if (!status) return { success: false, error: "玩家不存在" };
+
+  const { player, realm, targetRealm, conditions, successRate, pill } = status;
+  if (!targetRealm) return { success: false, error: "已是最高境界，无法继续突破" };
+
+  const activeBattle = await prisma.battleState.findFirst({
+    where: { playerId, status: "active" },
+    select: { id: true },
+  });
+  if (activeBattle) return { success: false, error: "战斗中无法突破，请先结束战斗" };
+
+  const unmet = conditions.filter((c) => !c.met);
+  if (unmet.length > 0 || !pill) {
+    return {
+      success: false,
+      error: `突破条件不足：${unmet.map((c) => `${c.label} ${c.current}/${c.required}`).join("，")}`,
+      data: { targetRealm, conditions },
+    };
+  }
+
+  const req = BREAKTHROUGH_REQUIREMENTS[targetRealm];
+  const succeeded = rng() < successRate;
+
+  // 突破丹无论成败都会消耗；消耗与属性变更在同一事务内，避免中途失败白丢突破丹。
+  // 境界、灵石、突破丹均以条件更新校验，并发突破或资源已被花掉时整体回滚，返回 null
+  const consumeAndUpdate = async (data: Parameters<typeof prisma.player.updateMany>[0]["data"]) => {
+    const conflict = new Error("breakthrough conflict");
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const { count } = await tx.player.updateMany({
+          where: { id: playerId, realm, spiritStones: { gte: req.spiritStones } },
+          data,
+        });
+        if (count === 0) throw conflict;
+
+        const consumed = await tx.inventoryItem.updateMany({
+          where: { id: pill.id, quantity: { gte: 1 } },
+          data: { quantity: { decrement: 1 } },
+        });
+        if (consumed.count === 0) throw conflict;
+        await tx.inventoryItem.deleteMany({ where: { id: pill.id, quantity: { lte: 0 } } });
+
+        return tx.player.findUniqueOrThrow({ where: { id: playerId } });
+      });
+    } catch (err) {
+      if (err === conflict) return null;
+      throw err;
+    }
+  };
+  const conflictError = { success: false, error: "突破所需的灵石或突破丹已变化，请重新检查突破条件" };
+
+  if (succeeded) {
+    const newStats = calcBaseStats(player.level, targetRealm);
+    const updated = await consumeAndUpdate({
+      realm: targetRealm,
+      spiritStones: { decrement: req.spiritStones },
+      maxHp: newStats.maxHp,
+      maxMp: newStats.maxMp,
+      attack: newStats.attack,
+      defense: newStats.defense,
+      speed: newStats.speed,
+      // 突破后满血满蓝
+      hp: newStats.maxHp,
+      mp: newStats.maxMp,
+    });
+    if (!updated) return conflictError;
+
+    await logPlayerAction(
+      playerId,
+      "breakthrough",
+      `境界突破成功！${realm} → ${targetRealm}`,
+      { from: realm, to: targetRealm, spiritStones: -req.spiritStones, pill: req.pillName }
+    );
+
+    return {
+      success: true,
+      data: {
+        result: "success",
+        from: realm,
+        to: targetRealm,
+        successRate,
+        cost: { pill: req.pillName, spiritStones: req.spiritStones },
+        statsBefore: {
+          maxHp: player.maxHp, maxMp: player.maxMp,
+          attack: player.attack, defense: player.defense, speed: player.speed,
+        },
+        statsAfter: newStats,
+      },
+      stateUpdate: {
+        realm: updated.realm,
+        spiritStones: updated.spiritStones,
+        hp: updated.hp,
+        mp: updated.mp,
+        maxHp: updated.maxHp,
+        maxMp: updated.maxMp,
+        attack: updated.attack,
+        defense: updated.defense,
+        speed: updated.speed,
+      },
+    };
+  }
+
+  // ---- 失败：损失部分灵石，气血反噬 ----
+  const stonesLost = Math.floor(req.spiritStones * FAIL_STONE_LOSS_RATIO);
+  const hpAfter = Math.max(1, Math.floor(player.maxHp * FAIL_BACKLASH_RATIO));
+  const mpAfter = Math.floor(player.maxMp * FAIL_BACKLASH_RATIO);
+
+  const updated = await consumeAndUpdate({
+    spiritStones: { decrement: stonesLost },
+    hp: Math.min(player.hp, hpAfter),
+    mp: Math.min(player.mp, mpAfter),
+  });
+  if (!updated) return conflictError;
+
+  await logPlayerAction(
+    playerId,
+    "breakthrough_fail",
+    `境界突破失败，遭受反噬：损失 ${stonesLost} 灵石与 ${req.pillName}`,
+    { from: realm, to: targetRealm, spiritStones: -stonesLost, pill: req.pillName }
+  );
+
+  return {
+    success: true,
+    data: {
+      result: "failed",
+      from: realm,
+      to: targetRealm,
+      successRate,
+      cost: { pill: req.pillName, spiritStones: stonesLost },
+      backlash: { hp: updated.hp, mp: updated.mp },
+      // 失败会提高下次成功率
+      nextSuccessRate: calcBreakthroughSuccessRate(player.level, targetRealm, status.failedAttempts + 1),
+    },
+    stateUpdate: {
+      spiritStones: updated.spiritStones,
+      hp: updated.hp,
+      mp: updated.mp,
+    },
+  };
+}
+
+export async function realmBreakthrough(
+  args: Record<string, unknown>,
+  playerId: string
+) {
+  const action = args.action as string | undefined;
+
+  if (action === "check") return checkBreakthrough(playerId);
+  if (action === "attempt") return attemptBreakthrough(playerId);
+
+  return { success: false, error: "缺少 action 参数（check / attempt）" };
+}
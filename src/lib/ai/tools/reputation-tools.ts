@@ -0,0 +1,224 @@
+/**
+ * 声望工具 - 势力声望查询与变更（含每日上限、互斥势力溢出）
+ *
+ * 声望变化由任务完成、战斗外交、击杀势力成员自动触发，LLM 仅可查询。
+ */
+
+import type { NormalizedTool } from "../adapters/types";
+import { prisma } from "@/lib/db/prisma";
+import {
+  REPUTATION_SOURCES,
+  RIVAL_SPILLOVER_RATIO,
+  clampReputation,
+  getReputationTier,
+  type ReputationSourceKey,
+} from "@/lib/game/reputation";
+import { logPlayerAction } from "@/lib/game/logger";
+
+// ============================================================
+// 工具定义
+// ============================================================
+
+export const reputationToolDefinitions: NormalizedTool[] = [
+  {
+    name: "check_reputation",
+    description:
+      "查询玩家在各势力的声望与等级（仇恨/敌对/冷漠/中立/友善/尊敬/崇敬/崇拜）。" +
+      "声望影响商店价格与任务可接取性；声望变化由系统自动结算，严禁叙述未发生的声望变化。",
+    parameters: {
+      type: "object",
+      properties: {
+        factionId: { type: "string", description: "势力ID（可选，不填返回全部已接触势力）" },
+      },
+    },
+  },
+];
+
+// ============================================================
+// 工具执行
+// ============================================================
+
+export interface ReputationChange {
+  factionId: string;
+  factionName: string;
+  change: number;
+  value: number;
+  tier: string;
+}
+
+/** 当前声望值（未接触过的势力为 0） */
+export async function getReputationValue(playerId: string, factionId: string): Promise<number> {
+  const rep = await prisma.playerReputation.findUnique({
+    where: { playerId_factionId: { playerId, factionId } },
+    select: { value: true },
+  });
+  return rep?.value ?? 0;
+}
+
+/**
+ * NPC 所属势力：优先 NPC 数据中的 factionId，否则取所在区域的势力
+ */
+export async function resolveNpcFaction(
+  npcData: Record<string, unknown>,
+  areaId: string | null | undefined
+): Promise<{ id: string; name: string } | null> {
+  const factionId =
+    (npcData.factionId as string | undefined) ||
+    (areaId
+      ? (await prisma.area.findUnique({ where: { id: areaId }, select: { factionId: true } }))?.factionId
+      : null);
+  if (!factionId) return null;
+  return prisma.faction.findUnique({ where: { id: factionId }, select: { id: true, name: true } });
+}
+
+/**
+ * 写入单个势力的声望增量，返回实际变化量
+ *
+ * 读取、增量写入与上下限钳制在同一事务内：先以零增量 upsert 锁定该行，
+ * 并发变更在此排队，每日计数与声望值都基于最新数据计算。
+ */
+async function applyDelta(
+  playerId: string,
+  factionId: string,
+  delta: number,
+  dailySource?: { key: ReputationSourceKey; count: number; cap?: number }
+): Promise<{ change: number; value: number }> {
+  const where = { playerId_factionId: { playerId, factionId } };
+
+  return prisma.$transaction(async (tx) => {
+    const now = new Date();
+    const existing = await tx.playerReputation.upsert({
+      where,
+      create: { playerId, factionId, lastResetAt: now },
+      update: { value: { increment: 0 } },
+    });
+
+    // 每日计数：跨自然日重置
+    const sameDay = existing.lastResetAt.toDateString() === now.toDateString();
+    const dailyGains = (sameDay ? (existing.dailyGains as Record<string, number>) : {}) ?? {};
+
+    let effectiveDelta = delta;
+    if (dailySource) {
+      const used = dailyGains[dailySource.key] ?? 0;
+      const allowed = dailySource.cap !== undefined
+        ? Math.max(0, Math.min(dailySource.count, dailySource.cap - used))
+        : dailySource.count;
+      effectiveDelta = dailySource.count > 0 ? Math.round((delta * allowed) / dailySource.count) : 0;
+      dailyGains[dailySource.key] = used + allowed;
+    }
+
+    const updated = await tx.playerReputation.update({
+      where,
+      data: {
+        value: { increment: effectiveDelta },
+        dailyGains,
+        ...(sameDay ? {} : { lastResetAt: now }),
+      },
+      select: { value: true },
+    });
+
+    // 增量后再钳制到上下限
+    const value = clampReputation(updated.value);
+    if (value !== updated.value) {
+      await tx.playerReputation.update({ where, data: { value } });
+    }
+
+    return { change: value - existing.value, value };
+  });
+}
+
+/**
+ * 按来源变更声望，并对互斥势力施加溢出
+ *
+ * @param count - 同一来源的事件次数（如一次战斗击杀 3 只同势力敌人）
+ */
+export async function changeReputation(
+  playerId: string,
+  factionId: string,
+  source: ReputationSourceKey,
+  count: number = 1
+): Promise<ReputationChange[]> {
+  const faction = await prisma.faction.findUnique({ where: { id: factionId } });
+  if (!faction) return [];
+
+  const config = REPUTATION_SOURCES[source];
+  const results: ReputationChange[] = [];
+
+  const main = await applyDelta(playerId, factionId, config.amount * count, {
+    key: source,
+    count,
+    cap: config.dailyCap,
+  });
+  if (main.change === 0) return results;
+  results.push({
+    factionId,
+    factionName: faction.name,
+    change: main.change,
+    value: main.value,
+    tier: getReputationTier(main.value).name,
+  });
+
+  // 互斥势力溢出（双向查找）
+  const rival = faction.rivalId
+    ? await prisma.faction.findUnique({ where: { id: faction.rivalId } })
+    : await prisma.faction.findFirst({ where: { rivalId: factionId } });
+  if (rival) {
+    const spillover = Math.trunc(main.change * RIVAL_SPILLOVER_RATIO);
+    if (spillover !== 0) {
+      const r = await applyDelta(playerId, rival.id, spillover);
+      results.push({
+        factionId: rival.id,
+        factionName: rival.name,
+        change: r.change,
+        value: r.value,
+        tier: getReputationTier(r.value).name,
+      });
+    }
+  }
+
+  await logPlayerAction(
+    playerId,
+    "reputation",
+    `声望变化（${source}）：${results.map((r) => `${r.factionName} ${r.change > 0 ? "+" : ""}${r.change} → ${r.value}(${r.tier})`).join("，")}`,
+    { source, changes: results }
+  );
+
+  return results;
+}
+
+export async function checkReputation(
+  args: Record<string, unknown>,
+  playerId: string
+) {
+  const factionId = args.factionId as string | undefined;
+
+  const reputations = await prisma.playerReputation.findMany({
+    where: { playerId, ...(factionId ? { factionId } : {}) },
+    include: { faction: true },
+    orderBy: { value: "desc" },
+  });
+
+  if (factionId && reputations.length === 0) {
+    const faction = await prisma.faction.findUnique({ where: { id: factionId } });
+    if (!faction) return { success: false, error: `势力「${factionId}」不存在` };
+    return {
+      success: true,
+      data: [{ factionId, factionName: faction.name, value: 0, tier: getReputationTier(0).name }],
+    };
+  }
+
+  return {
+    success: true,
+    data: reputations.map((r) => {
+      const tier = getReputationTier(r.value);
+      return {
+        factionId: r.factionId,
+        factionName: r.faction.name,
+        value: r.value,
+        tier: tier.name,
+        priceMultiplier: tier.priceMultiplier,
+        canQuest: tier.canQuest,
+      };
+    }),
+  };
+}
@@ -7,6 +7,7 @@
  */
 
 import { prisma } from "@/lib/db/prisma";
+import { getNpcsInArea, getScheduledNodeId, toNpcData, type NpcData } from "@/lib/game/npc-registry";
 
 /** 解析结果 */
 interface ResolveResult<T> {
@@ -148,9 +149,8 @@ export async function resolveQuest(
 // ============================================================
 
 /**
- * 解析 NPC：先按 ID 在当前区域节点查找，再按名称模糊匹配
- * NPC 存储在 AreaNode.data 中，没有独立的 DB 表，
- * 所以这里返回节点 + NPC 数据
+ * 解析 NPC：在当前区域的 Npc 表中先按 ID 精确查找，再按名称模糊匹配
+ * 返回 NPC 当前（按日程）所在节点 + NPC 数据
  */
 export async function resolveNpc(
   identifier: string,
@@ -158,7 +158,7 @@ export async function resolveNpc(
 ): Promise<
   Resolved<{
     nodeId: string;
-    npc: { id: string; name: string; [key: string]: unknown };
+    npc: NpcData;
   }>
 > {
   const player = await prisma.player.findUnique({
@@ -169,49 +169,13 @@ export async function resolveNpc(
     return { found: false, error: "玩家不在任何区域中" };
   }
 
-  // 获取当前区域所有节点
-  const nodes = await prisma.areaNode.findMany({
-    where: { areaId: player.currentAreaId },
-    select: { id: true, data: true, type: true },
-  });
-
-  for (const node of nodes) {
-    const data = node.data as Record<string, unknown> | null;
-    if (!data) continue;
-
-    // 🆕 支持 npcs 数组（多个 NPC）
-    const npcs = data.npcs as Array<{ id?: string; name?: string; [key: string]: unknown }> | undefined;
-    if (npcs && Array.isArray(npcs)) {
-      for (const npc of npcs) {
-        if (npc.id === identifier || npc.name === identifier ||
-            (npc.name && npc.name.includes(identifier)) ||
-            (npc.id && npc.id.includes(identifier))) {
-          return {
-            found: true,
-            record: {
-              nodeId: node.id,
-              npc: { ...npc, id: npc.id || node.id, name: npc.name || "NPC" },
-            },
-          };
-        }
-      }
-    }
+  const npcs = await getNpcsInArea(player.currentAreaId);
+  const npc =
+    npcs.find((n) => n.id === identifier || n.name === identifier) ??
+    npcs.find((n) => n.name.includes(identifier) || n.id.includes(identifier));
 
-    // 🆕 兼容旧格式：单个 NPC 对象（向后兼容）
-    const npc = data.npc as { id?: string; name?: string; [key: string]: unknown } | undefined;
-    if (npc) {
-      if (npc.id === identifier || npc.name === identifier ||
-          (npc.name && npc.name.includes(identifier)) ||
-          (npc.id && npc.id.includes(identifier))) {
-        return {
-          found: true,
-          record: {
-            nodeId: node.id,
-            npc: { ...npc, id: npc.id || node.id, name: npc.name || "NPC" },
-          },
-        };
-      }
-    }
+  if (npc) {
+    return { found: true, record: { nodeId: getScheduledNodeId(npc), npc: toNpcData(npc) } };
   }
 
   return { found: false, error: `当前区域没有找到 NPC「${identifier}」` };
@@ -0,0 +1,334 @@
+/**
+ * 商店工具 - NPC 商店的库存、补货与动态定价
+ *
+ * interact_npc 的 buy / sell 与 /api/shop 共用此处逻辑（规则见 lib/game/shop-economy.ts）。
+ * 每次读取商店时按经过的时间补货并持久化。
+ */
+
+import { prisma } from "@/lib/db/prisma";
+import type { Prisma } from "@/generated/prisma/client";
+import type { NpcData } from "@/lib/game/npc-registry";
+import {
+  applyRestock,
+  calcBuyPrice,
+  calcSellPrice,
+  getItemBaseValue,
+  getNextRestockAt,
+  normalizeStock,
+  type ShopStockItem,
+  type ShopSupply,
+} from "@/lib/game/shop-economy";
+import { getReputationTier, getSellMultiplier } from "@/lib/game/reputation";
+import { getReputationValue, resolveNpcFaction } from "./reputation-tools";
+import { resolveItem } from "./resolve-id";
+
+// ============================================================
+// 商店状态
+// ============================================================
+
+interface ShopState {
+  items: ShopStockItem[];
+  supply: ShopSupply;
+  lastRestockAt: Date;
+  /** 读取时 Npc.updatedAt，写回时作为乐观锁版本 */
+  version: Date;
+}
+
+/** 事务内条件校验失败，抛出以回滚已执行的写入 */
+class TradeAbort extends Error {}
+
+/** 读取商店并按经过时间补货（不落库） */
+async function readShop(
+  npcId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<(ShopState & { restocked: boolean }) | null> {
+  const npc = await db.npc.findUnique({
+    where: { id: npcId },
+    select: { inventory: true, supply: true, lastRestockAt: true, updatedAt: true },
+  });
+  if (!npc) return null;
+
+  const state = applyRestock(
+    normalizeStock((npc.inventory as unknown as ShopStockItem[] | null) ?? []),
+    (npc.supply as ShopSupply | null) ?? {},
+    npc.lastRestockAt
+  );
+  return { ...state, version: npc.updatedAt };
+}
+
+/** 读取商店（已补货） */
+async function loadShop(npcId: string): Promise<ShopState | null> {
+  const state = await readShop(npcId);
+  // 补货写回失败说明已被并发写入，下次读取会基于新数据重新补货
+  if (state?.restocked) await saveShop(npcId, state);
+  return state;
+}
+
+/**
+ * 整体写回商店库存与供给
+ *
+ * 仅当 Npc.updatedAt 仍等于读取时的版本才写入，返回是否写入成功。
+ */
+async function saveShop(npcId: string, state: ShopState, db: Prisma.TransactionClient = prisma): Promise<boolean> {
+  const { count } = await db.npc.updateMany({
+    where: { id: npcId, updatedAt: state.version },
+    data: {
+      inventory: state.items as unknown as Prisma.InputJsonValue,
+      supply: state.supply,
+      lastRestockAt: state.lastRestockAt,
+    },
+  });
+  return count > 0;
+}
+
+/**
+ * 声望倍率（仇恨拒绝交易）
+ */
+async function getTradeTerms(
+  playerId: string,
+  npcData: NpcData,
+  areaId: string | null
+): Promise<
+  | { ok: true; faction: { id: string; name: string } | null; buyMultiplier: number; sellMultiplier: number }
+  | { ok: false; error: string }
+> {
+  const faction = await resolveNpcFaction(npcData, areaId);
+  if (!faction) return { ok: true, faction: null, buyMultiplier: 1, sellMultiplier: 1 };
+
+  const value = await getReputationValue(playerId, faction.id);
+  const tier = getReputationTier(value);
+  const sellMultiplier = getSellMultiplier(value);
+  if (tier.priceMultiplier === null || sellMultiplier === null) {
+    return { ok: false, error: `你在「${faction.name}」的声望为「${tier.name}」，${npcData.name} 拒绝与你交易` };
+  }
+  return { ok: true, faction, buyMultiplier: tier.priceMultiplier, sellMultiplier };
+}
+
+// ============================================================
+// 商店窗口
+// ============================================================
+
+/**
+ * 商店货架 + 玩家背包收购报价
+ */
+export async function getShopWindow(playerId: string, npcData: NpcData, areaId: string | null) {
+  const terms = await getTradeTerms(playerId, npcData, areaId);
+  if (!terms.ok) return { success: false, error: terms.error };
+
+  const shop = await loadShop(npcData.id);
+  if (!shop || shop.items.length === 0) {
+    return { success: false, error: `${npcData.name} 没有商品出售` };
+  }
+
+  const [player, inventory] = await Promise.all([
+    prisma.player.findUnique({ where: { id: playerId }, select: { gold: true } }),
+    prisma.inventoryItem.findMany({
+      where: { playerId },
+      select: { id: true, name: true, type: true, quality: true, quantity: true },
+    }),
+  ]);
+
+  return {
+    success: true,
+    data: {
+      npcId: npcData.id,
+      npcName: npcData.name,
+      action: "shop_list",
+      items: shop.items.map((i) => ({
+        ...i,
+        basePrice: i.price,
+        price: calcBuyPrice(i, terms.buyMultiplier),
+      })),
+      sellQuotes: inventory.map((i) => ({
+        itemId: i.id,
+        name: i.name,
+        type: i.type,
+        quantity: i.quantity,
+        price: calcSellPrice(
+          getItemBaseValue(i, shop.items),
+          shop.supply[i.name] ?? 0,
+          terms.sellMultiplier
+        ),
+      })),
+      playerGold: player?.gold ?? 0,
+      nextRestockAt: getNextRestockAt(shop.lastRestockAt).toISOString(),
+      ...(terms.faction
+        ? { faction: terms.faction.name, priceMultiplier: terms.buyMultiplier, sellMultiplier: terms.sellMultiplier }
+        : {}),
+    },
+  };
+}
+
+// ============================================================
+// 买卖
+// ============================================================
+
+export async function buyFromShop(
+  playerId: string,
+  npcData: NpcData,
+  areaId: string | null,
+  itemName: string,
+  quantity: number = 1
+) {
+  if (!Number.isInteger(quantity) || quantity < 1) return { success: false, error: "购买数量必须为正整数" };
+
+  const terms = await getTradeTerms(playerId, npcData, areaId);
+  if (!terms.ok) return { success: false, error: terms.error };
+
+  // 库存在事务内重新读取并校验，写回时以 updatedAt 防止并发超卖或覆盖
+  let trade: { shopItem: ShopStockItem; totalCost: number; gold: number };
+  try {
+    trade = await prisma.$transaction(async (tx) => {
+      const shop = await readShop(npcData.id, tx);
+      const shopItem = shop?.items.find((i) => i.name === itemName || i.name.includes(itemName));
+      if (!shop || !shopItem) throw new TradeAbort(`商品「${itemName}」不存在`);
+      if (shopItem.stock < quantity) {
+        throw new TradeAbort(
+          shopItem.stock === 0
+            ? `「${shopItem.name}」已售罄，预计 ${getNextRestockAt(shop.lastRestockAt).toLocaleTimeString("zh-CN")} 补货`
+            : `「${shopItem.name}」库存不足，仅剩 ${shopItem.stock} 件`
+        );
+      }
+
+      // 逐件计价：每买走一件库存减少，稀缺加价随之上升
+      let totalCost = 0;
+      for (let k = 0; k < quantity; k++) {
+        totalCost += calcBuyPrice({ ...shopItem, stock: shopItem.stock - k }, terms.buyMultiplier);
+      }
+
+      shopItem.stock -= quantity;
+      if (!(await saveShop(npcData.id, shop, tx))) {
+        throw new TradeAbort(`${npcData.name} 的货架刚刚有变动，请重新购买`);
+      }
+
+      // 余额不足时条件更新不命中
+      const { count } = await tx.player.updateMany({
+        where: { id: playerId, gold: { gte: totalCost } },
+        data: { gold: { decrement: totalCost } },
+      });
+      if (count === 0) {
+        const player = await tx.player.findUnique({ where: { id: playerId }, select: { gold: true } });
+        throw new TradeAbort(`金币不足，需要 ${totalCost} 金币，当前 ${player?.gold ?? 0} 金币`);
+      }
+
+      await tx.inventoryItem.create({
+        data: {
+          playerId,
+          name: shopItem.name,
+          type: shopItem.type,
+          quality: shopItem.quality || "common",
+          quantity,
+          stats: (shopItem.stats ?? undefined) as Prisma.InputJsonValue | undefined,
+          setId: shopItem.setId,
+        },
+      });
+
+      const player = await tx.player.findUnique({ where: { id: playerId }, select: { gold: true } });
+      return { shopItem, totalCost, gold: player?.gold ?? 0 };
+    });
+  } catch (err) {
+    if (err instanceof TradeAbort) return { success: false, error: err.message };
+    throw err;
+  }
+  const { shopItem, totalCost, gold } = trade;
+
+  return {
+    success: true,
+    data: {
+      npcName: npcData.name,
+      action: "bought",
+      item: shopItem.name,
+      quantity,
+      cost: totalCost,
+      stockLeft: shopItem.stock,
+      remainingGold: gold,
+    },
+    stateUpdate: { gold },
+  };
+}
+
+export async function sellToShop(
+  playerId: string,
+  npcData: NpcData,
+  areaId: string | null,
+  itemIdentifier: string,
+  quantity: number = 1
+) {
+  if (!Number.isInteger(quantity) || quantity < 1) return { success: false, error: "出售数量必须为正整数" };
+
+  const resolved = await resolveItem(itemIdentifier, playerId);
+  if (!resolved.found) return { success: false, error: "物品不存在" };
+  const item = resolved.record;
+  if (item.quantity < quantity) {
+    return { success: false, error: `「${item.name}」只有 ${item.quantity} 个` };
+  }
+
+  const terms = await getTradeTerms(playerId, npcData, areaId);
+  if (!terms.ok) return { success: false, error: terms.error };
+
+  // 供给与库存在事务内重新读取，写回时以 updatedAt 防止并发覆盖
+  let trade: { baseValue: number; supply: number; sellPrice: number; gold: number };
+  try {
+    trade = await prisma.$transaction(async (tx) => {
+      const shop = await readShop(npcData.id, tx);
+      if (!shop) throw new TradeAbort(`NPC「${npcData.name}」不存在`);
+
+      // 逐件计价：每卖出一件供给 +1，收购价随之下降
+      const baseValue = getItemBaseValue(item, shop.items);
+      const supplyBefore = shop.supply[item.name] ?? 0;
+      let sellPrice = 0;
+      for (let k = 0; k < quantity; k++) {
+        sellPrice += calcSellPrice(baseValue, supplyBefore + k, terms.sellMultiplier);
+      }
+
+      // 记录供给；经营的商品回收进库存（不超过上限）
+      shop.supply[item.name] = supplyBefore + quantity;
+      const carried = shop.items.find((i) => i.name === item.name);
+      if (carried) carried.stock = Math.min(carried.maxStock, carried.stock + quantity);
+      if (!(await saveShop(npcData.id, shop, tx))) {
+        throw new TradeAbort(`${npcData.name} 的货架刚刚有变动，请重新出售`);
+      }
+
+      // 扣物品（数量已变化时条件更新不命中）
+      const changed = new TradeAbort(`「${item.name}」数量已变化，请重新出售`);
+      if (item.quantity <= quantity) {
+        const { count } = await tx.inventoryItem.deleteMany({
+          where: { id: item.id, quantity: item.quantity },
+        });
+        if (count === 0) throw changed;
+        await tx.equipment.deleteMany({ where: { playerId, itemId: item.id } });
+      } else {
+        const { count } = await tx.inventoryItem.updateMany({
+          where: { id: item.id, quantity: { gte: quantity } },
+          data: { quantity: { decrement: quantity } },
+        });
+        if (count === 0) throw changed;
+      }
+
+      const player = await tx.player.update({
+        where: { id: playerId },
+        data: { gold: { increment: sellPrice } },
+        select: { gold: true },
+      });
+      return { baseValue, supply: shop.supply[item.name], sellPrice, gold: player.gold };
+    });
+  } catch (err) {
+    if (err instanceof TradeAbort) return { success: false, error: err.message };
+    throw err;
+  }
+  const { baseValue, sellPrice, gold } = trade;
+
+  return {
+    success: true,
+    data: {
+      npcName: npcData.name,
+      action: "sold",
+      item: item.name,
+      quantity,
+      price: sellPrice,
+      nextPrice: calcSellPrice(baseValue, trade.supply, terms.sellMultiplier),
+      remainingGold: gold,
+    },
+    stateUpdate: { gold },
+  };
+}
@@ -0,0 +1,188 @@
+/**
+ * ChaosSaga - LLM 用量账本
+ *
+ * LLMClient 每次成功调用后写入一条 LlmUsage（玩家 / 任务 / 模型 / token / 估算费用），
+ * /api/usage 按天与按模型汇总。
+ *
+ * 费用按模型 pricing 计算，未配置时按 costTier 档位估算（见 COST_TIER_PRICING）；
+ * 命中提示词缓存的输入按 cachedInput 单价计费。
+ */
+
+import { prisma } from "@/lib/db/prisma";
+import {
+  CACHED_INPUT_PRICE_RATIO,
+  COST_TIER_PRICING,
+  type ModelDefinition,
+  type ModelPricing,
+} from "./adapters/types";
+import { getAllModels, type LLMTask } from "./config";
+
+/** 用量记账标签（由 LLMClient.forTask / 调用方设置） */
+export interface UsageTag {
+  task: LLMTask;
+  playerId?: string | null;
+}
+
+/** 单次调用的用量 */
+export interface UsageRecord extends UsageTag {
+  provider?: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** 命中提示词缓存的输入 token（包含在 inputTokens 内） */
+  cachedInputTokens?: number;
+}
+
+/** 模型单价：优先 pricing，其次 costTier，未知模型按 medium 档估算 */
+export function getModelPricing(model: ModelDefinition | undefined): ModelPricing {
+  return model?.pricing ?? COST_TIER_PRICING[model?.costTier ?? "medium"];
+}
+
+/** 估算费用（美元） */
+export function estimateCost(
+  model: ModelDefinition | undefined,
+  inputTokens: number,
+  outputTokens: number,
+  cachedInputTokens: number = 0
+): number {
+  const pricing = getModelPricing(model);
+  const cachedPrice = pricing.cachedInput ?? pricing.input * CACHED_INPUT_PRICE_RATIO;
+  const cached = Math.min(cachedInputTokens, inputTokens);
+  return (
+    (inputTokens - cached) * pricing.input +
+    cached * cachedPrice +
+    outputTokens * pricing.output
+  ) / 1_000_000;
+}
+
+/**
+ * 写入一条用量记录
+ *
+ * 记账失败只打日志，不影响游戏流程。
+ */
+export async function recordUsage(record: UsageRecord): Promise<void> {
+  if (record.inputTokens <= 0 && record.outputTokens <= 0) return;
+  try {
+    const models = await getAllModels();
+    const modelDef = models.find((m) => m.id === record.model);
+    await prisma.llmUsage.create({
+      data: {
+        playerId: record.playerId ?? null,
+        task: record.task,
+        provider: record.provider ?? modelDef?.providerId ?? null,
+        model: record.model,
+        inputTokens: record.inputTokens,
+        outputTokens: record.outputTokens,
+        cachedInputTokens: record.cachedInputTokens ?? 0,
+        cost: estimateCost(modelDef, record.inputTokens, record.outputTokens, record.cachedInputTokens),
+      },
+    });
+  } catch (error) {
+    console.warn("[Usage] 用量记录失败:", error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * 玩家今日（本地时间零点起）已用 token 数（输入 + 输出）
+ */
+export async function getPlayerTokensToday(playerId: string): Promise<number> {
+  const since = new Date();
+  since.setHours(0, 0, 0, 0);
+  const { _sum } = await prisma.llmUsage.aggregate({
+    where: { playerId, createdAt: { gte: since } },
+    _sum: { inputTokens: true, outputTokens: true },
+  });
+  return (_sum.inputTokens ?? 0) + (_sum.outputTokens ?? 0);
+}
+
+// ============================================================
+// 汇总报表
+// ============================================================
+
+interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+  cost: number;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, cachedInputTokens: 0, cost: 0 };
+}
+
+function addTo(
+  totals: UsageTotals,
+  row: { inputTokens: number; outputTokens: number; cachedInputTokens: number; cost: number }
+) {
+  totals.calls++;
+  totals.inputTokens += row.inputTokens;
+  totals.cachedInputTokens += row.cachedInputTokens;
+  totals.outputTokens += row.outputTokens;
+  totals.cost += row.cost;
+}
+
+/** 本地日期 YYYY-MM-DD */
+function dayKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * 最近 days 天的用量汇总（按天 / 按模型 / 按任务）
+ *
+ * @param playerId - 可选，只统计该玩家
+ */
+export async function getUsageReport(days: number, playerId?: string) {
+  const since = new Date();
+  since.setHours(0, 0, 0, 0);
+  since.setDate(since.getDate() - (days - 1));
+
+  const rows = await prisma.llmUsage.findMany({
+    where: { createdAt: { gte: since }, ...(playerId ? { playerId } : {}) },
+    select: {
+      task: true,
+      model: true,
+      inputTokens: true,
+      outputTokens: true,
+      cachedInputTokens: true,
+      cost: true,
+      createdAt: true,
+    },
+  });
+
+  const total = emptyTotals();
+  const byDay = new Map<string, UsageTotals>();
+  const byModel = new Map<string, UsageTotals>();
+  const byTask = new Map<string, UsageTotals>();
+
+  // 无记录的日期也输出，便于前端画连续的日视图
+  for (let d = new Date(since); d <= new Date(); d.setDate(d.getDate() + 1)) {
+    byDay.set(dayKey(d), emptyTotals());
+  }
+
+  for (const row of rows) {
+    addTo(total, row);
+    for (const [map, key] of [
+      [byDay, dayKey(row.createdAt)],
+      [byModel, row.model],
+      [byTask, row.task],
+    ] as const) {
+      if (!map.has(key)) map.set(key, emptyTotals());
+      addTo(map.get(key)!, row);
+    }
+  }
+
+  return {
+    since: since.toISOString(),
+    days,
+    total,
+    byDay: Array.from(byDay.entries()).map(([day, t]) => ({ day, ...t })),
+    byModel: Array.from(byModel.entries())
+      .map(([model, t]) => ({ model, ...t }))
+      .sort((a, b) => b.cost - a.cost),
+    byTask: Array.from(byTask.entries())
+      .map(([task, t]) => ({ task, ...t }))
+      .sort((a, b) => b.cost - a.cost),
+  };
+}
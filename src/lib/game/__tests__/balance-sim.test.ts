@@ -0,0 +1,38 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { realmForLevel, runBalanceSimulation } from "../balance-sim";
+
+describe("realmForLevel", () => {
+  it("按境界起始等级划分", () => {
+    assert.equal(realmForLevel(1), "ocean");
+    assert.equal(realmForLevel(10), "ocean");
+    assert.equal(realmForLevel(11), "land");
+    assert.equal(realmForLevel(100), "origin");
+  });
+});
+
+describe("runBalanceSimulation", () => {
+  const options = { fromLevel: 1, toLevel: 6, battlesPerLevel: 20, bandSize: 3, seed: "balance" };
+
+  it("同一种子结果可复现", () => {
+    assert.deepEqual(runBalanceSimulation(options), runBalanceSimulation(options));
+  });
+
+  it("按等级段汇总", () => {
+    const { bands } = runBalanceSimulation(options);
+    assert.deepEqual(
+      bands.map((b) => [b.fromLevel, b.toLevel, b.battles]),
+      [[1, 3, 60], [4, 6, 60]]
+    );
+    for (const band of bands) {
+      assert.ok(band.winRate >= 0 && band.winRate <= 1);
+      assert.ok(band.avgRounds >= 1);
+    }
+  });
+
+  it("敌人越级时胜率不升反降", () => {
+    const even = runBalanceSimulation({ ...options, bandSize: 6 }).bands[0].winRate;
+    const harder = runBalanceSimulation({ ...options, bandSize: 6, enemyLevelOffset: 3 }).bands[0].winRate;
+    assert.ok(harder <= even, `越级 ${harder} > 同级 ${even}`);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { processTurn, type PlayerBattleState } from "../battle-engine";
+import type { EnemyState } from "../enemy-ai";
+import { createSeededRng } from "../rng";
+
+function makePlayer(): PlayerBattleState {
+  return {
+    id: "p1",
+    name: "测试者",
+    level: 10,
+    hp: 500,
+    maxHp: 500,
+    mp: 100,
+    maxMp: 100,
+    attack: 30,
+    defense: 15,
+    speed: 12,
+    realm: "ocean",
+    buffs: [],
+    skills: [
+      { id: "s1", name: "火球术", damage: 20, element: "fire", mpCost: 10, cooldown: 2 },
+    ],
+  };
+}
+
+function makeEnemy(hp: number): EnemyState {
+  return {
+    name: "海狼",
+    level: 10,
+    element: "wind",
+    hp,
+    maxHp: hp,
+    attack: 20,
+    defense: 10,
+    speed: 10,
+    skills: [{ name: "撕咬", damage: 10, cooldown: 3 }],
+  };
+}
+
+describe("processTurn", () => {
+  it("同一种子结果完全一致", () => {
+    const run = () => {
+      const rng = createSeededRng("replay");
+      const player = makePlayer();
+      const enemies = [makeEnemy(300), makeEnemy(300)];
+      return [1, 2, 3].map((round) => processTurn(player, enemies, { type: "attack" }, round, undefined, rng));
+    };
+    assert.deepEqual(run(), run());
+  });
+
+  it("玩家技能冷却在回合结束时递减", () => {
+    const rng = createSeededRng(11);
+    const player = makePlayer();
+    const enemies = [makeEnemy(5000)];
+
+    const first = processTurn(player, enemies, { type: "skill", skillId: "s1" }, 1, undefined, rng);
+    assert.equal(first.playerAction.success, true);
+    assert.equal(player.skills[0].currentCooldown, 1);
+
+    processTurn(player, enemies, { type: "attack" }, 2, undefined, rng);
+    assert.equal(player.skills[0].currentCooldown, 0);
+  });
+
+  it("胜利时用同一随机数源结算掉落", () => {
+    const player = makePlayer();
+    const enemies = [makeEnemy(1)];
+    const result = processTurn(player, enemies, { type: "attack" }, 1, undefined, createSeededRng(5));
+
+    assert.equal(result.battleStatus, "won");
+    assert.ok(result.rewards);
+    assert.ok(result.rewards.exp > 0);
+    assert.ok(result.rewards.gold >= 50 && result.rewards.gold < 80);
+  });
+});
+
+describe("多目标战斗", () => {
+  function makeAlly(): PlayerBattleState {
+    return { ...makePlayer(), id: "a1", name: "同伴", speed: 1, skills: [] };
+  }
+
+  it("全体技能命中所有存活敌人并逐个报告", () => {
+    const player = makePlayer();
+    player.skills.push({ id: "s2", name: "海啸", damage: 20, element: "water", mpCost: 10, cooldown: 0, effect: { targeting: "all" } });
+    const enemies = [makeEnemy(5000), makeEnemy(5000), makeEnemy(5000)];
+
+    const result = processTurn(player, enemies, { type: "skill", skillId: "s2" }, 1, undefined, createSeededRng(1));
+
+    assert.equal(result.playerAction.targeting, "all");
+    assert.equal(result.playerAction.targets?.length, 3);
+    assert.equal(
+      result.playerAction.damage,
+      result.playerAction.targets!.reduce((sum, t) => sum + t.damage, 0)
+    );
+    assert.ok(enemies.every((e) => e.hp < 5000));
+  });
+
+  it("相邻技能命中主目标及左右", () => {
+    const player = makePlayer();
+    player.skills.push({ id: "s3", name: "横扫", damage: 20, element: "none", mpCost: 10, cooldown: 0, effect: { targeting: "adjacent" } });
+    const enemies = [makeEnemy(5000), makeEnemy(5000), makeEnemy(5000), makeEnemy(5000)];
+    enemies.forEach((e, i) => (e.name = `海狼${i}`));
+
+    const result = processTurn(player, enemies, { type: "skill", skillId: "s3", targetIndex: 0 }, 1, undefined, createSeededRng(2));
+
+    assert.deepEqual(result.playerAction.targets?.map((t) => t.name), ["海狼0", "海狼1"]);
+    assert.equal(result.playerAction.targetName, "海狼0");
+    assert.equal(enemies[3].hp, 5000);
+  });
+
+  it("敌人 aoe 技能命中全队", () => {
+    const player = makePlayer();
+    const ally = makeAlly();
+    const boss = makeEnemy(5000);
+    boss.skills = [{ name: "狂潮", damage: 10, type: "aoe" }];
+    boss.phases = [{ hpThreshold: 1, unlockedSkills: [] }];
+
+    // BOSS 偶数回合必放技能
+    const result = processTurn(player, [boss], { type: "defend" }, 2, undefined, createSeededRng(1), [ally]);
+    const [action] = result.enemyActions;
+
+    assert.equal(action.skillName, "狂潮");
+    assert.equal(action.targeting, "all");
+    assert.deepEqual(action.targets?.map((t) => t.name), ["测试者", "同伴"]);
+    assert.ok(player.hp < player.maxHp);
+    assert.ok(ally.hp < ally.maxHp);
+  });
+
+  it("敌人普通攻击只打玩家", () => {
+    const player = makePlayer();
+    const ally = makeAlly();
+    const enemy = makeEnemy(5000);
+    enemy.skills = [];
+
+    const result = processTurn(player, [enemy], { type: "defend" }, 1, undefined, createSeededRng(1), [ally]);
+    const [action] = result.enemyActions;
+
+    assert.equal(action.type, "attack");
+    assert.deepEqual(action.targets?.map((t) => t.name), ["测试者"]);
+    assert.equal(ally.hp, ally.maxHp);
+  });
+
+  it("队友按速度行动并普攻玩家所选目标", () => {
+    const player = makePlayer();
+    const ally = makeAlly();
+    const enemies = [makeEnemy(5000), makeEnemy(5000)];
+
+    const result = processTurn(player, enemies, { type: "defend", targetIndex: 1 }, 1, undefined, createSeededRng(3), [ally]);
+
+    assert.equal(result.allyActions.length, 1);
+    assert.equal(result.allyActions[0].actorName, "同伴");
+    assert.equal(enemies[0].hp, 5000);
+    assert.ok(enemies[1].hp < 5000);
+    assert.deepEqual(result.allyStates, [{ name: "同伴", hp: ally.hp, maxHp: ally.maxHp, alive: true }]);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  calculateAreaDamage,
+  calculateDamage,
+  selectTargetIndices,
+  TARGET_PATTERN_DAMAGE,
+  type Combatant,
+} from "../damage-calc";
+
+const fixed = (value: number) => () => value;
+
+const attacker: Combatant = { name: "A", attack: 100, defense: 0, speed: 0 };
+const dummy = (name: string): Combatant => ({ name, attack: 0, defense: 0, speed: 0 });
+
+describe("selectTargetIndices", () => {
+  it("single 只命中主目标（越界时夹到末尾）", () => {
+    assert.deepEqual(selectTargetIndices("single", 3, 1), [1]);
+    assert.deepEqual(selectTargetIndices("single", 3, 9), [2]);
+  });
+
+  it("all 命中全部", () => {
+    assert.deepEqual(selectTargetIndices("all", 3, 1), [0, 1, 2]);
+  });
+
+  it("adjacent 命中主目标及左右", () => {
+    assert.deepEqual(selectTargetIndices("adjacent", 4, 1), [0, 1, 2]);
+    assert.deepEqual(selectTargetIndices("adjacent", 4, 0), [0, 1]);
+    assert.deepEqual(selectTargetIndices("adjacent", 4, 3), [2, 3]);
+  });
+
+  it("没有目标时为空", () => {
+    assert.deepEqual(selectTargetIndices("all", 0, 0), []);
+  });
+});
+
+describe("calculateAreaDamage", () => {
+  it("命中多个目标时按范围系数衰减", () => {
+    const single = calculateDamage(attacker, dummy("B"), null, false, fixed(0.5)).damage;
+    const skill = { name: "海啸", damage: 0, targeting: "all" as const };
+    const results = calculateAreaDamage(attacker, [dummy("B"), dummy("C")], skill, [], fixed(0.5));
+
+    assert.equal(results.length, 2);
+    for (const r of results) {
+      assert.equal(r.damage, Math.floor(single * TARGET_PATTERN_DAMAGE.all));
+    }
+  });
+
+  it("群攻技能只剩一个目标时不衰减", () => {
+    const single = calculateDamage(attacker, dummy("B"), null, false, fixed(0.5)).damage;
+    const [result] = calculateAreaDamage(attacker, [dummy("B")], { name: "海啸", damage: 0, targeting: "all" }, [], fixed(0.5));
+    assert.equal(result.damage, single);
+  });
+
+  it("防御状态按目标分别生效", () => {
+    const [open, guarded] = calculateAreaDamage(attacker, [dummy("B"), dummy("C")], null, [false, true], fixed(0.5));
+    assert.equal(guarded.damage, Math.floor(open.damage / 2));
+  });
+});
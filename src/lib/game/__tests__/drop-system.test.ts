@@ -0,0 +1,88 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { calculateDrops, type DefeatedEnemy } from "../drop-system";
+import { createSeededRng } from "../rng";
+
+const QUALITIES = ["common", "uncommon", "rare", "epic", "legendary"] as const;
+
+/** 用固定种子击败 count 只敌人，统计通用掉落的品质分布 */
+function qualityDistribution(enemyLevel: number, playerLevel: number, count: number) {
+  const rng = createSeededRng(`drops-${enemyLevel}-${playerLevel}`);
+  const counts: Record<string, number> = Object.fromEntries(QUALITIES.map((q) => [q, 0]));
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    const { items } = calculateDrops([{ name: "海狼", level: enemyLevel }], playerLevel, "ocean", rng);
+    for (const item of items) {
+      counts[item.quality]++;
+      total++;
+    }
+  }
+  return { counts, total };
+}
+
+/** 高品质（rare 及以上）占比 */
+function highQualityRatio({ counts, total }: ReturnType<typeof qualityDistribution>): number {
+  return (counts.rare + counts.epic + counts.legendary) / total;
+}
+
+describe("calculateDrops", () => {
+  it("同一种子掉落完全一致", () => {
+    const enemies: DefeatedEnemy[] = [{ name: "海狼", level: 8 }, { name: "礁石蟹", level: 9 }];
+    assert.deepEqual(
+      calculateDrops(enemies, 8, "ocean", createSeededRng(99)),
+      calculateDrops(enemies, 8, "ocean", createSeededRng(99))
+    );
+  });
+
+  it("通用掉落率约 35%", () => {
+    const { total } = qualityDistribution(10, 10, 4000);
+    const rate = total / 4000;
+    assert.ok(rate > 0.32 && rate < 0.38, `掉落率 ${rate}`);
+  });
+
+  it("同等级品质分布接近概率表", () => {
+    const dist = qualityDistribution(10, 10, 20000);
+    const ratio = (q: string) => dist.counts[q] / dist.total;
+
+    // 消耗品 / 材料固定池缺少高品质条目时会向下回退，common 与 uncommon 略高于概率表
+    assert.ok(ratio("common") > 0.45 && ratio("common") < 0.6, `common ${ratio("common")}`);
+    assert.ok(ratio("uncommon") > 0.25 && ratio("uncommon") < 0.38, `uncommon ${ratio("uncommon")}`);
+    assert.ok(ratio("rare") > 0.08 && ratio("rare") < 0.18, `rare ${ratio("rare")}`);
+    assert.ok(ratio("legendary") < 0.03, `legendary ${ratio("legendary")}`);
+  });
+
+  it("越级击杀提高高品质占比", () => {
+    const even = highQualityRatio(qualityDistribution(10, 10, 10000));
+    const higher = highQualityRatio(qualityDistribution(20, 10, 10000));
+    const lower = highQualityRatio(qualityDistribution(5, 10, 10000));
+    assert.ok(higher > even, `越级 ${higher} <= 同级 ${even}`);
+    assert.ok(lower < even, `低级 ${lower} >= 同级 ${even}`);
+  });
+
+  it("BOSS 专属掉落按 chance 判定", () => {
+    const rng = createSeededRng("boss");
+    let hits = 0;
+    for (let i = 0; i < 2000; i++) {
+      const { items } = calculateDrops(
+        [{ name: "海妖", level: 20, drops: [{ name: "海妖之泪", type: "material", quality: "epic", chance: 0.25 }] }],
+        20,
+        "ocean",
+        rng
+      );
+      if (items.some((item) => item.name === "海妖之泪")) hits++;
+    }
+    assert.ok(hits / 2000 > 0.21 && hits / 2000 < 0.29, `命中率 ${hits / 2000}`);
+  });
+
+  it("BOSS 专属装备掉落附带词缀", () => {
+    const { items } = calculateDrops(
+      [{ name: "海妖", level: 20, drops: [{ name: "潮汐战甲", type: "armor", quality: "epic", chance: 1, stats: { defense: 30 } }] }],
+      20,
+      "ocean",
+      createSeededRng("boss-armor")
+    );
+    const [armor] = items;
+    assert.equal(armor.stats?.defense, 30);
+    assert.ok((armor.stats?.hpRegen ?? 0) > 0, "防具应滚出回春词缀");
+  });
+});
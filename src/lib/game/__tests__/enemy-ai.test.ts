@@ -0,0 +1,113 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  decideEnemyAction,
+  markSkillUsed,
+  tickEnemyCooldowns,
+  type EnemyState,
+} from "../enemy-ai";
+import { createSeededRng } from "../rng";
+
+function makeBoss(hp: number): EnemyState {
+  return {
+    name: "深渊海妖",
+    level: 20,
+    element: "water",
+    hp,
+    maxHp: 100,
+    attack: 40,
+    defense: 20,
+    speed: 15,
+    skills: [
+      { name: "水弹", damage: 20, type: "attack" },
+      { name: "怒涛", damage: 60, type: "aoe" },
+      { name: "深渊吞噬", damage: 90, type: "attack" },
+    ],
+    phases: [
+      { hpThreshold: 0.6, unlockedSkills: ["怒涛"], description: "海妖发出尖啸" },
+      { hpThreshold: 0.3, unlockedSkills: ["深渊吞噬"], description: "海妖陷入狂暴" },
+    ],
+  };
+}
+
+/** 用多个种子收集 BOSS 偶数回合（保底放技能）使用过的技能名 */
+function collectForcedSkills(hp: number): Set<string> {
+  const used = new Set<string>();
+  for (let seed = 0; seed < 200; seed++) {
+    const action = decideEnemyAction(makeBoss(hp), 2, createSeededRng(seed));
+    if (action.skill) used.add(action.skill.name);
+  }
+  return used;
+}
+
+describe("BOSS 阶段", () => {
+  it("HP 跌破阈值时通知一次阶段变化", () => {
+    const boss = makeBoss(50);
+    const rng = createSeededRng(1);
+
+    assert.equal(decideEnemyAction(boss, 1, rng).phaseChange, "海妖发出尖啸");
+    assert.deepEqual(boss.triggeredPhases, [0]);
+    assert.equal(decideEnemyAction(boss, 2, rng).phaseChange, undefined);
+  });
+
+  it("一次跨过多个阈值时逐回合依次通知", () => {
+    const boss = makeBoss(20);
+    const rng = createSeededRng(2);
+
+    assert.equal(decideEnemyAction(boss, 1, rng).phaseChange, "海妖发出尖啸");
+    assert.equal(decideEnemyAction(boss, 2, rng).phaseChange, "海妖陷入狂暴");
+    assert.equal(decideEnemyAction(boss, 3, rng).phaseChange, undefined);
+    assert.deepEqual(boss.triggeredPhases, [0, 1]);
+  });
+
+  it("高于阈值时不通知", () => {
+    const boss = makeBoss(90);
+    assert.equal(decideEnemyAction(boss, 1, createSeededRng(3)).phaseChange, undefined);
+    assert.deepEqual(boss.triggeredPhases, []);
+  });
+
+  it("阶段技能在进入对应阶段后才可用", () => {
+    assert.deepEqual(collectForcedSkills(90), new Set(["水弹"]));
+    assert.deepEqual(collectForcedSkills(50), new Set(["水弹", "怒涛"]));
+    assert.deepEqual(collectForcedSkills(20), new Set(["水弹", "怒涛", "深渊吞噬"]));
+  });
+});
+
+describe("技能冷却", () => {
+  it("markSkillUsed 设置冷却，tickEnemyCooldowns 每回合减 1 直到 0", () => {
+    const enemy: EnemyState = {
+      name: "礁石蟹",
+      level: 5,
+      element: "earth",
+      hp: 50,
+      maxHp: 50,
+      attack: 10,
+      defense: 5,
+      speed: 5,
+      skills: [{ name: "钳击", damage: 15, cooldown: 2 }, { name: "撞击", damage: 5 }],
+    };
+    const [pinch, bash] = enemy.skills;
+
+    markSkillUsed(pinch);
+    markSkillUsed(bash);
+    assert.equal(pinch.currentCooldown, 2);
+    assert.equal(bash.currentCooldown, undefined);
+
+    tickEnemyCooldowns(enemy);
+    assert.equal(pinch.currentCooldown, 1);
+    tickEnemyCooldowns(enemy);
+    assert.equal(pinch.currentCooldown, 0);
+    tickEnemyCooldowns(enemy);
+    assert.equal(pinch.currentCooldown, 0);
+  });
+
+  it("冷却中的技能不会被选中", () => {
+    for (let seed = 0; seed < 100; seed++) {
+      const boss = makeBoss(90);
+      boss.skills[0].cooldown = 3;
+      boss.skills[0].currentCooldown = 1;
+      const action = decideEnemyAction(boss, 2, createSeededRng(seed));
+      assert.notEqual(action.skill?.name, "水弹");
+    }
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { rollEnhance } from "../equipment-enhance";
+import { createSeededRng } from "../rng";
+
+describe("rollEnhance", () => {
+  it("低于成功率成功，+1", () => {
+    assert.deepEqual(rollEnhance(10, () => 0.39), { success: true, newLevel: 11, successRate: 0.4 });
+  });
+
+  it("失败按段位降级", () => {
+    assert.deepEqual(rollEnhance(10, () => 0.4), { success: false, newLevel: 8, successRate: 0.4 });
+    assert.equal(rollEnhance(5, () => 0.99).newLevel, 5);
+  });
+
+  it("+1 ~ +3 必定成功", () => {
+    assert.equal(rollEnhance(0, () => 0.999).success, true);
+  });
+
+  it("同一种子结果可复现", () => {
+    const a = createSeededRng("enhance");
+    const b = createSeededRng("enhance");
+    for (let i = 0; i < 20; i++) assert.deepEqual(rollEnhance(12, a), rollEnhance(12, b));
+  });
+});
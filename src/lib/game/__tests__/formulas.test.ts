@@ -0,0 +1,108 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  calcDamage,
+  checkLevelUp,
+  expToNextLevel,
+  getElementMultiplier,
+  rollCritical,
+  rollEnemyStats,
+} from "../formulas";
+import { calculateDamage } from "../damage-calc";
+
+/** 固定返回 value 的随机数源 */
+const fixed = (value: number) => () => value;
+
+describe("getElementMultiplier", () => {
+  it("克制循环：火→风→土→水→火", () => {
+    assert.equal(getElementMultiplier("fire", "wind"), 1.5);
+    assert.equal(getElementMultiplier("wind", "earth"), 1.5);
+    assert.equal(getElementMultiplier("earth", "water"), 1.5);
+    assert.equal(getElementMultiplier("water", "fire"), 1.5);
+  });
+
+  it("被克制时 0.75", () => {
+    assert.equal(getElementMultiplier("wind", "fire"), 0.75);
+    assert.equal(getElementMultiplier("fire", "water"), 0.75);
+  });
+
+  it("暗光互克", () => {
+    assert.equal(getElementMultiplier("dark", "light"), 1.5);
+    assert.equal(getElementMultiplier("light", "dark"), 1.5);
+  });
+
+  it("同属性 / 无属性为 1", () => {
+    assert.equal(getElementMultiplier("fire", "fire"), 1.0);
+    assert.equal(getElementMultiplier("none", "water"), 1.0);
+    assert.equal(getElementMultiplier("fire", "none"), 1.0);
+  });
+
+  it("calculateDamage 按元素关系标注 elementRelation", () => {
+    const attacker = { name: "A", attack: 50, defense: 0, speed: 0, element: "fire" };
+    const rng = fixed(0.5);
+    assert.equal(calculateDamage(attacker, { name: "B", attack: 0, defense: 0, speed: 0, element: "wind" }, null, false, rng).elementRelation, "advantage");
+    assert.equal(calculateDamage(attacker, { name: "B", attack: 0, defense: 0, speed: 0, element: "water" }, null, false, rng).elementRelation, "disadvantage");
+    assert.equal(calculateDamage(attacker, { name: "B", attack: 0, defense: 0, speed: 0 }, null, false, rng).elementRelation, "neutral");
+  });
+});
+
+describe("rollCritical", () => {
+  it("暴击率上限 50%", () => {
+    assert.equal(rollCritical(1000, 0, 0, fixed(0.49)).isCrit, true);
+    assert.equal(rollCritical(1000, 0, 0, fixed(0.5)).isCrit, false);
+  });
+
+  it("暴击率下限 1%", () => {
+    assert.equal(rollCritical(0, 1000, 0, fixed(0.009)).isCrit, true);
+    assert.equal(rollCritical(0, 1000, 0, fixed(0.01)).isCrit, false);
+  });
+
+  it("装备暴击词缀叠加到基础暴击率", () => {
+    // 基础 5% + 词缀 20% = 25%
+    assert.equal(rollCritical(10, 10, 0.2, fixed(0.24)).isCrit, true);
+    assert.equal(rollCritical(10, 10, 0.2, fixed(0.26)).isCrit, false);
+  });
+
+  it("暴击倍率 2x，未暴击 1x", () => {
+    assert.equal(rollCritical(1000, 0, 0, fixed(0)).multiplier, 2.0);
+    assert.equal(rollCritical(0, 1000, 0, fixed(0.99)).multiplier, 1.0);
+  });
+});
+
+describe("calcDamage", () => {
+  it("±10% 波动", () => {
+    assert.equal(calcDamage(100, 0, 1, fixed(0)), 90);
+    assert.equal(calcDamage(100, 0, 1, fixed(0.5)), 100);
+    assert.equal(calcDamage(100, 0, 1, fixed(0.999999)), 109);
+  });
+
+  it("防御过高时最低 1 点基础伤害", () => {
+    assert.equal(calcDamage(10, 1000, 1, fixed(0.5)), 1);
+  });
+});
+
+describe("checkLevelUp", () => {
+  it("经验不足时不升级", () => {
+    assert.deepEqual(checkLevelUp(1, expToNextLevel(1) - 1), {
+      newLevel: 1,
+      remainingExp: expToNextLevel(1) - 1,
+      levelsGained: 0,
+    });
+  });
+
+  it("一次获得大量经验可连升多级，并保留余量", () => {
+    const exp = expToNextLevel(1) + expToNextLevel(2) + 5;
+    assert.deepEqual(checkLevelUp(1, exp), { newLevel: 3, remainingExp: 5, levelsGained: 2 });
+  });
+
+  it("等级上限 100", () => {
+    assert.equal(checkLevelUp(99, Number.MAX_SAFE_INTEGER).newLevel, 100);
+  });
+});
+
+describe("rollEnemyStats", () => {
+  it("随机区间：rng=0 取下限，rng→1 逼近上限", () => {
+    assert.deepEqual(rollEnemyStats(10, fixed(0)), { hp: 250, attack: 35, defense: 23, speed: 25 });
+    assert.deepEqual(rollEnemyStats(10, fixed(0.999999)), { hp: 349, attack: 54, defense: 32, speed: 34 });
+  });
+});
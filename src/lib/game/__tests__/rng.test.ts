@@ -0,0 +1,27 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createSeededRng } from "../rng";
+
+describe("createSeededRng", () => {
+  it("同一种子产生相同序列", () => {
+    const a = createSeededRng(42);
+    const b = createSeededRng(42);
+    for (let i = 0; i < 100; i++) assert.equal(a(), b());
+  });
+
+  it("字符串种子与数字种子都可用，不同种子序列不同", () => {
+    const a = createSeededRng("battle-1");
+    const b = createSeededRng("battle-2");
+    const seqA = Array.from({ length: 5 }, a);
+    const seqB = Array.from({ length: 5 }, b);
+    assert.notDeepEqual(seqA, seqB);
+  });
+
+  it("输出落在 [0, 1)", () => {
+    const rng = createSeededRng(7);
+    for (let i = 0; i < 10_000; i++) {
+      const v = rng();
+      assert.ok(v >= 0 && v < 1, `越界: ${v}`);
+    }
+  });
+});
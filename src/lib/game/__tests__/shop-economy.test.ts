@@ -0,0 +1,112 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  RESTOCK_INTERVAL_MS,
+  applyRestock,
+  calcBuyPrice,
+  calcSellPrice,
+  getDefaultMaxStock,
+  getItemBaseValue,
+  normalizeStock,
+  type ShopStockItem,
+} from "../shop-economy";
+
+const potion = (stock: number, maxStock: number = 10): ShopStockItem => ({
+  name: "回春丹",
+  type: "consumable",
+  price: 100,
+  stock,
+  maxStock,
+});
+
+describe("getDefaultMaxStock / normalizeStock", () => {
+  it("消耗品 / 材料 10，装备按品质递减", () => {
+    assert.equal(getDefaultMaxStock({ type: "consumable" }), 10);
+    assert.equal(getDefaultMaxStock({ type: "material", quality: "epic" }), 10);
+    assert.equal(getDefaultMaxStock({ type: "weapon" }), 3);
+    assert.equal(getDefaultMaxStock({ type: "weapon", quality: "common" }), 3);
+    assert.equal(getDefaultMaxStock({ type: "armor", quality: "uncommon" }), 2);
+    assert.equal(getDefaultMaxStock({ type: "armor", quality: "legendary" }), 1);
+  });
+
+  it("缺失库存视为满库存，超过上限的截断", () => {
+    const [fresh, overflow] = normalizeStock([
+      { name: "回春丹", type: "consumable", price: 100 },
+      { name: "铁剑", type: "weapon", price: 50, stock: 9, maxStock: 2 },
+    ]);
+    assert.equal(fresh.maxStock, 10);
+    assert.equal(fresh.stock, 10);
+    assert.equal(overflow.stock, 2);
+  });
+});
+
+describe("applyRestock", () => {
+  const lastRestockAt = new Date("2026-01-01T00:00:00Z");
+  const after = (hours: number) => new Date(lastRestockAt.getTime() + hours * RESTOCK_INTERVAL_MS);
+
+  it("不满一个周期不补货", () => {
+    const items = [potion(0)];
+    const supply = { 回春丹: 3 };
+    const result = applyRestock(items, supply, lastRestockAt, after(0.5));
+    assert.equal(result.restocked, false);
+    assert.equal(result.items, items);
+    assert.equal(result.supply, supply);
+    assert.equal(result.lastRestockAt, lastRestockAt);
+  });
+
+  it("每周期补 maxStock 的一半（向上取整），不超过上限", () => {
+    assert.equal(applyRestock([potion(0)], {}, lastRestockAt, after(1)).items[0].stock, 5);
+    assert.equal(applyRestock([potion(0, 3)], {}, lastRestockAt, after(1)).items[0].stock, 2);
+    assert.equal(applyRestock([potion(0, 3)], {}, lastRestockAt, after(5)).items[0].stock, 3);
+  });
+
+  it("供给计数按周期回落，归零的条目移除", () => {
+    const { supply } = applyRestock([], { 回春丹: 5, 铁矿: 2 }, lastRestockAt, after(2));
+    assert.deepEqual(supply, { 回春丹: 1 });
+  });
+
+  it("补货时间按整周期推进，保留零头", () => {
+    const result = applyRestock([], {}, lastRestockAt, after(2.5));
+    assert.equal(result.restocked, true);
+    assert.equal(result.lastRestockAt.getTime(), after(2).getTime());
+  });
+});
+
+describe("calcBuyPrice", () => {
+  it("满库存按基础价，售罄加价 SCARCITY_MARKUP", () => {
+    assert.equal(calcBuyPrice(potion(10)), 100);
+    assert.equal(calcBuyPrice(potion(0)), 125);
+  });
+
+  it("库存越少越贵（向上取整）", () => {
+    assert.equal(calcBuyPrice(potion(5)), 113);
+    assert.ok(calcBuyPrice(potion(2)) > calcBuyPrice(potion(8)));
+  });
+
+  it("乘以声望倍率，最低 1 金币", () => {
+    assert.equal(calcBuyPrice(potion(10), 0.9), 90);
+    assert.equal(calcBuyPrice({ ...potion(10), price: 0 }), 1);
+  });
+});
+
+describe("calcSellPrice / getItemBaseValue", () => {
+  it("收购价为价值的 SELL_PRICE_RATIO", () => {
+    assert.equal(calcSellPrice(100, 0), 40);
+    assert.equal(calcSellPrice(100, 0, 1.2), 48);
+  });
+
+  it("集中抛售压低收购价，最低到 MIN_SUPPLY_FACTOR", () => {
+    assert.ok(calcSellPrice(100, 3) < calcSellPrice(100, 1));
+    assert.equal(calcSellPrice(100, 7), calcSellPrice(100, 100));
+    assert.equal(calcSellPrice(100, 100), 12);
+    assert.equal(calcSellPrice(1, 100), 1);
+  });
+
+  it("商店经营的物品取基础价，否则按品质估价", () => {
+    const shopItems = [potion(10)];
+    assert.equal(getItemBaseValue({ name: "回春丹", quality: "rare" }, shopItems), 100);
+    assert.equal(getItemBaseValue({ name: "龙鳞", quality: "rare" }, shopItems), 150);
+    assert.equal(getItemBaseValue({ name: "碎石", quality: null }, shopItems), 30);
+    assert.equal(getItemBaseValue({ name: "怪石", quality: "mythic" }, shopItems), 30);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * ChaosSaga - 装备随机词缀
+ *
+ * 掉落装备按品质随机附加词缀（参见 06-equipment-set-system §3），
+ * 词缀数值直接合并进 InventoryItem.stats：
+ * - critRatePercent      暴击率加成（0.03 = +3%）
+ * - elementDamagePercent 元素攻击增伤（仅对非无属性攻击生效）
+ * - lifestealPercent     按造成伤害回复 HP
+ * - hpRegen              每回合结束回复固定 HP
+ */
+
+import { calcItemStatCap, type Realm } from "./formulas";
+import type { Rng } from "./rng";
+
+// ============================================================
+// 类型定义
+// ============================================================
+
+/** 词缀提供的战斗属性（装备汇总后） */
+export interface AffixStats {
+  critRatePercent: number;
+  elementDamagePercent: number;
+  lifestealPercent: number;
+  hpRegen: number;
+}
+
+export type AffixStatKey = keyof AffixStats;
+
+/** 词缀定义 */
+interface AffixDef {
+  id: string;
+  name: string;
+  stat: AffixStatKey;
+  applicableTo: string[];
+  /** 出现权重 */
+  weight: number;
+  /** 百分比词缀的取值区间；hpRegen 为每级系数区间 */
+  min: number;
+  max: number;
+}
+
+/** 已滚出的词缀 */
+export interface RolledAffix {
+  id: string;
+  name: string;
+  stat: AffixStatKey;
+  value: number;
+}
+
+// ============================================================
+// 词缀池
+// ============================================================
+
+export const AFFIX_STAT_KEYS: AffixStatKey[] = [
+  "critRatePercent",
+  "elementDamagePercent",
+  "lifestealPercent",
+  "hpRegen",
+];
+
+/** 词缀中文名（UI / 上下文展示用） */
+export const AFFIX_STAT_NAMES: Record<AffixStatKey, string> = {
+  critRatePercent: "暴击",
+  elementDamagePercent: "元素增伤",
+  lifestealPercent: "吸血",
+  hpRegen: "回春",
+};
+
+/** 单件装备百分比词缀上限（Guardrail 同样据此校验） */
+export const AFFIX_PERCENT_CAPS: Record<Exclude<AffixStatKey, "hpRegen">, number> = {
+  critRatePercent: 0.15,
+  elementDamagePercent: 0.3,
+  lifestealPercent: 0.1,
+};
+
+const AFFIX_POOL: AffixDef[] = [
+  { id: "affix_crit", name: "精准", stat: "critRatePercent", applicableTo: ["weapon", "accessory"], weight: 30, min: 0.02, max: 0.05 },
+  { id: "affix_element", name: "元素", stat: "elementDamagePercent", applicableTo: ["weapon", "accessory"], weight: 25, min: 0.05, max: 0.12 },
+  { id: "affix_lifesteal", name: "吸血", stat: "lifestealPercent", applicableTo: ["weapon"], weight: 15, min: 0.02, max: 0.05 },
+  { id: "affix_regen", name: "回春", stat: "hpRegen", applicableTo: ["armor", "helmet", "boots", "accessory"], weight: 30, min: 0.3, max: 0.6 },
+];
+
+/** 品质 → 词缀数量 */
+const AFFIX_COUNT: Record<string, number> = {
+  common: 0,
+  uncommon: 1,
+  rare: 2,
+  epic: 3,
+  legendary: 3,
+};
+
+/** 品质 → 词缀数值倍率 */
+const AFFIX_QUALITY_SCALE: Record<string, number> = {
+  uncommon: 1.0,
+  rare: 1.2,
+  epic: 1.5,
+  legendary: 2.0,
+};
+
+// ============================================================
+// 词缀滚动
+// ============================================================
+
+/**
+ * 为掉落装备滚动词缀（同一件装备词缀不重复）
+ *
+ * @param itemType    - 装备类型
+ * @param quality     - 品质，决定词缀数量与数值倍率
+ * @param enemyLevel  - 掉落来源等级，决定 hpRegen 数值
+ * @param playerLevel - 玩家等级，hpRegen 受 calcItemStatCap 限制
+ * @param rng         - 随机数源（测试 / 模拟时传入固定种子）
+ */
+export function rollAffixes(
+  itemType: string,
+  quality: string,
+  enemyLevel: number,
+  playerLevel: number,
+  realm: Realm = "ocean",
+  rng: Rng = Math.random
+): RolledAffix[] {
+  const count = AFFIX_COUNT[quality] ?? 0;
+  const scale = AFFIX_QUALITY_SCALE[quality] ?? 1.0;
+  const candidates = AFFIX_POOL.filter((a) => a.applicableTo.includes(itemType));
+  const result: RolledAffix[] = [];
+
+  for (let i = 0; i < count && candidates.length > 0; i++) {
+    const affix = weightedPick(candidates, rng);
+    candidates.splice(candidates.indexOf(affix), 1);
+
+    const roll = (affix.min + rng() * (affix.max - affix.min)) * scale;
+    let value: number;
+    if (affix.stat === "hpRegen") {
+      const cap = calcItemStatCap(playerLevel, quality, realm);
+      value = Math.max(1, Math.min(cap, Math.floor((1 + enemyLevel) * roll)));
+    } else {
+      value = Math.min(AFFIX_PERCENT_CAPS[affix.stat], Math.round(roll * 1000) / 1000);
+    }
+    result.push({ id: affix.id, name: affix.name, stat: affix.stat, value });
+  }
+
+  return result;
+}
+
+function weightedPick(pool: AffixDef[], rng: Rng): AffixDef {
+  const total = pool.reduce((s, a) => s + a.weight, 0);
+  let r = rng() * total;
+  for (const a of pool) {
+    r -= a.weight;
+    if (r <= 0) return a;
+  }
+  return pool[pool.length - 1];
+}
+
+// ============================================================
+// 词缀汇总
+// ============================================================
+
+/**
+ * 从装备 stats 中汇总词缀属性
+ */
+export function sumAffixStats(
+  statsList: Array<Record<string, unknown> | null>
+): AffixStats {
+  const total: AffixStats = {
+    critRatePercent: 0,
+    elementDamagePercent: 0,
+    lifestealPercent: 0,
+    hpRegen: 0,
+  };
+  for (const stats of statsList) {
+    if (!stats) continue;
+    for (const key of AFFIX_STAT_KEYS) {
+      const v = stats[key];
+      if (typeof v === "number") total[key] += v;
+    }
+  }
+  return total;
+}
+
+/**
+ * 词缀描述，如「暴击+3%」「回春每回合+12HP」
+ */
+export function describeAffixes(stats: Record<string, unknown> | null): string[] {
+  if (!stats) return [];
+  const parts: string[] = [];
+  for (const key of AFFIX_STAT_KEYS) {
+    const v = stats[key];
+    if (typeof v !== "number" || v <= 0) continue;
+    parts.push(
+      key === "hpRegen"
+        ? `${AFFIX_STAT_NAMES[key]}每回合+${v}HP`
+        : `${AFFIX_STAT_NAMES[key]}+${Math.round(v * 1000) / 10}%`
+    );
+  }
+  return parts;
+}
@@ -0,0 +1,279 @@
+/**
+ * ChaosSaga - 战斗平衡模拟器
+ *
+ * 不连数据库、不调 LLM，直接用 processTurn 批量跑战斗：
+ * - 玩家：calcFinalStats(等级, 该等级所在境界, 装备) 满状态入场，每回合普攻
+ * - 敌人：rollEnemyStats 随机属性（与 startBattle 中模板未指定数值时一致）
+ *
+ * 按等级段汇总胜率、平均回合数、剩余 HP、每分钟经验 / 金币，
+ * 对照 04-difficulty-balance-system「同等级内容保持 60-70% 胜率」的目标。
+ *
+ * 命令行入口见 scripts/balance-sim.ts。
+ */
+
+import { processTurn, type PlayerBattleState } from "./battle-engine";
+import type { EnemyState } from "./enemy-ai";
+import { REALM_LEVEL_REQ, REALM_ORDER, rollEnemyStats, type Realm } from "./formulas";
+import { calcFinalStats, type EquippedItemInput } from "./player-calc";
+import { createSeededRng, type Rng } from "./rng";
+
+// ============================================================
+// 常量
+// ============================================================
+
+/** 同等级战斗的目标胜率区间（04-difficulty-balance-system §一） */
+export const TARGET_WIN_RATE = { min: 0.6, max: 0.7 } as const;
+
+/**
+ * 每回合耗时（秒，含阅读叙事）
+ * 对应 04-difficulty-balance-system §3.3：普通 1v1 战斗 4-6 回合约 2-3 分钟
+ */
+export const DEFAULT_SECONDS_PER_ROUND = 30;
+
+/** 单场战斗回合上限（超过按未胜利计） */
+const MAX_ROUNDS = 100;
+
+// ============================================================
+// 类型定义
+// ============================================================
+
+/** 模拟参数 */
+export interface BalanceSimOptions {
+  /** 起始等级（含） */
+  fromLevel: number;
+  /** 结束等级（含） */
+  toLevel: number;
+  /** 每个等级的战斗场数 */
+  battlesPerLevel: number;
+  /** 每场敌人数 */
+  enemyCount?: number;
+  /** 敌人等级相对玩家的偏移（+2 = 越 2 级挑战） */
+  enemyLevelOffset?: number;
+  /** 等级段宽度（汇总粒度） */
+  bandSize?: number;
+  /** 玩家装备（所有等级共用） */
+  equipment?: EquippedItemInput[];
+  /** 每回合耗时（秒） */
+  secondsPerRound?: number;
+  /** 随机种子（相同种子结果可复现） */
+  seed?: number | string;
+}
+
+/** 单场战斗结果 */
+export interface SimBattleResult {
+  status: "won" | "lost" | "timeout";
+  rounds: number;
+  /** 战斗结束时玩家 HP 占比 */
+  hpRemaining: number;
+  exp: number;
+  gold: number;
+}
+
+/** 等级段汇总 */
+export interface BalanceBandStats {
+  fromLevel: number;
+  toLevel: number;
+  battles: number;
+  winRate: number;
+  avgRounds: number;
+  /** 胜利场次的平均剩余 HP 占比 */
+  avgHpRemaining: number;
+  expPerMinute: number;
+  goldPerMinute: number;
+  /** 胜率相对目标区间 */
+  verdict: "too_hard" | "on_target" | "too_easy";
+}
+
+/** 模拟报告 */
+export interface BalanceReport {
+  options: Required<Omit<BalanceSimOptions, "equipment" | "seed">> & { seed: number | string };
+  bands: BalanceBandStats[];
+}
+
+// ============================================================
+// 构建参战方
+// ============================================================
+
+/** 等级所在的境界（满足等级要求的最高境界） */
+export function realmForLevel(level: number): Realm {
+  let realm: Realm = "ocean";
+  for (const r of REALM_ORDER) {
+    if (level >= REALM_LEVEL_REQ[r]) realm = r;
+  }
+  return realm;
+}
+
+/** 满状态的模拟玩家 */
+function buildSimPlayer(level: number, equipment: EquippedItemInput[]): PlayerBattleState {
+  const realm = realmForLevel(level);
+  const stats = calcFinalStats(level, realm, equipment);
+  return {
+    id: "sim_player",
+    name: "模拟玩家",
+    level,
+    hp: stats.maxHp,
+    maxHp: stats.maxHp,
+    mp: stats.maxMp,
+    maxMp: stats.maxMp,
+    attack: stats.attack,
+    defense: stats.defense,
+    speed: stats.speed,
+    realm,
+    affixes: stats.affixes,
+    buffs: [],
+    skills: [],
+  };
+}
+
+/** 随机属性的模拟敌人 */
+function buildSimEnemy(level: number, index: number, rng: Rng): EnemyState {
+  const stats = rollEnemyStats(level, rng);
+  return {
+    name: `模拟敌人${index + 1}`,
+    level,
+    element: "none",
+    hp: stats.hp,
+    maxHp: stats.hp,
+    attack: stats.attack,
+    defense: stats.defense,
+    speed: stats.speed,
+    skills: [],
+  };
+}
+
+// ============================================================
+// 模拟
+// ============================================================
+
+/**
+ * 跑一场战斗直到分出胜负
+ */
+export function simulateBattle(
+  player: PlayerBattleState,
+  enemies: EnemyState[],
+  rng: Rng
+): SimBattleResult {
+  for (let round = 1; round <= MAX_ROUNDS; round++) {
+    const result = processTurn(player, enemies, { type: "attack" }, round, undefined, rng);
+    if (result.battleStatus === "active") continue;
+
+    const won = result.battleStatus === "won";
+    return {
+      status: won ? "won" : "lost",
+      rounds: round,
+      hpRemaining: player.hp / player.maxHp,
+      exp: result.rewards?.exp ?? 0,
+      gold: result.rewards?.gold ?? 0,
+    };
+  }
+  return { status: "timeout", rounds: MAX_ROUNDS, hpRemaining: player.hp / player.maxHp, exp: 0, gold: 0 };
+}
+
+/** 胜率相对目标区间的判定 */
+function judgeWinRate(winRate: number): BalanceBandStats["verdict"] {
+  if (winRate < TARGET_WIN_RATE.min) return "too_hard";
+  if (winRate > TARGET_WIN_RATE.max) return "too_easy";
+  return "on_target";
+}
+
+/** 汇总一个等级段的战斗结果 */
+function summarizeBand(
+  fromLevel: number,
+  toLevel: number,
+  results: SimBattleResult[],
+  secondsPerRound: number
+): BalanceBandStats {
+  const wins = results.filter((r) => r.status === "won");
+  const totalRounds = results.reduce((s, r) => s + r.rounds, 0);
+  const minutes = (totalRounds * secondsPerRound) / 60;
+  const winRate = results.length ? wins.length / results.length : 0;
+
+  return {
+    fromLevel,
+    toLevel,
+    battles: results.length,
+    winRate,
+    avgRounds: results.length ? totalRounds / results.length : 0,
+    avgHpRemaining: wins.length ? wins.reduce((s, r) => s + r.hpRemaining, 0) / wins.length : 0,
+    expPerMinute: minutes ? wins.reduce((s, r) => s + r.exp, 0) / minutes : 0,
+    goldPerMinute: minutes ? wins.reduce((s, r) => s + r.gold, 0) / minutes : 0,
+    verdict: judgeWinRate(winRate),
+  };
+}
+
+/**
+ * 批量模拟并按等级段汇总
+ */
+export function runBalanceSimulation(options: BalanceSimOptions): BalanceReport {
+  const resolved = {
+    fromLevel: Math.max(1, options.fromLevel),
+    toLevel: Math.min(100, options.toLevel),
+    battlesPerLevel: options.battlesPerLevel,
+    enemyCount: options.enemyCount ?? 1,
+    enemyLevelOffset: options.enemyLevelOffset ?? 0,
+    bandSize: options.bandSize ?? 5,
+    secondsPerRound: options.secondsPerRound ?? DEFAULT_SECONDS_PER_ROUND,
+    seed: options.seed ?? Date.now(),
+  };
+  const equipment = options.equipment ?? [];
+  const rng = createSeededRng(resolved.seed);
+
+  const bands: BalanceBandStats[] = [];
+  for (let bandStart = resolved.fromLevel; bandStart <= resolved.toLevel; bandStart += resolved.bandSize) {
+    const bandEnd = Math.min(resolved.toLevel, bandStart + resolved.bandSize - 1);
+    const results: SimBattleResult[] = [];
+
+    for (let level = bandStart; level <= bandEnd; level++) {
+      const enemyLevel = Math.max(1, level + resolved.enemyLevelOffset);
+      for (let i = 0; i < resolved.battlesPerLevel; i++) {
+        const player = buildSimPlayer(level, equipment);
+        const enemies = Array.from({ length: resolved.enemyCount }, (_, idx) => buildSimEnemy(enemyLevel, idx, rng));
+        results.push(simulateBattle(player, enemies, rng));
+      }
+    }
+
+    bands.push(summarizeBand(bandStart, bandEnd, results, resolved.secondsPerRound));
+  }
+
+  return { options: resolved, bands };
+}
+
+// ============================================================
+// 报告输出
+// ============================================================
+
+const VERDICT_LABELS: Record<BalanceBandStats["verdict"], string> = {
+  too_hard: "偏难",
+  on_target: "达标",
+  too_easy: "偏易",
+};
+
+/** 格式化为终端表格 */
+export function formatBalanceReport(report: BalanceReport): string {
+  const { options } = report;
+  const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+  const lines = [
+    `战斗平衡模拟 | Lv.${options.fromLevel}-${options.toLevel} | 每级 ${options.battlesPerLevel} 场 | ` +
+      `${options.enemyCount} 敌 (等级偏移 ${options.enemyLevelOffset >= 0 ? "+" : ""}${options.enemyLevelOffset}) | ` +
+      `种子 ${options.seed}`,
+    `目标胜率 ${pct(TARGET_WIN_RATE.min)}-${pct(TARGET_WIN_RATE.max)}，每回合按 ${options.secondsPerRound} 秒计`,
+    "",
+    ["等级段", "胜率", "平均回合", "胜场剩余HP", "经验/分", "金币/分", "判定"].join("\t"),
+  ];
+
+  for (const band of report.bands) {
+    lines.push(
+      [
+        `Lv.${band.fromLevel}-${band.toLevel}`,
+        pct(band.winRate),
+        band.avgRounds.toFixed(1),
+        pct(band.avgHpRemaining),
+        band.expPerMinute.toFixed(1),
+        band.goldPerMinute.toFixed(1),
+        VERDICT_LABELS[band.verdict],
+      ].join("\t")
+    );
+  }
+
+  return lines.join("\n");
+}
@@ -3,14 +3,21 @@
  *
  * 核心循环：
  * 1. 按速度排序行动顺序
- * 2. 执行玩家行动（来自 AI tool_call）
- * 3. 执行敌人行动（enemy-ai 决策）
+ * 2. 执行玩家行动（来自 AI tool_call）与队友行动（普攻）
+ * 3. 执行敌人行动（enemy-ai 决策；aoe 技能命中玩家全队）
  * 4. 结算 Buff/Debuff
  * 5. 检查胜负条件
  * 6. 返回回合结果
  */
 
-import { calculateDamage, calculateHeal, type SkillInfo } from "./damage-calc";
+import {
+  calculateAreaDamage,
+  calculateHeal,
+  selectTargetIndices,
+  type Combatant,
+  type SkillInfo,
+  type TargetPattern,
+} from "./damage-calc";
 import {
   decideEnemyAction,
   tickEnemyCooldowns,
@@ -20,7 +27,9 @@ import {
 } from "./enemy-ai";
 import { calculateDrops, type DropResult, type DefeatedEnemy } from "./drop-system";
 import { type BuffEntry, tickBuffs } from "./player-calc";
-import { calcTurnOrder } from "./formulas";
+import { calcTurnOrder, type Realm } from "./formulas";
+import type { AffixStats } from "./affixes";
+import type { Rng } from "./rng";
 
 // ============================================================
 // 类型定义
@@ -39,6 +48,10 @@ export interface PlayerBattleState {
   defense: number;
   speed: number;
   element?: string;
+  /** 境界（决定掉落词缀数值上限） */
+  realm?: Realm;
+  /** 装备词缀汇总（来自 calcFinalStats） */
+  affixes?: AffixStats;
   buffs: BuffEntry[];
   /** 装备的技能列表 */
   skills: PlayerBattleSkill[];
@@ -53,6 +66,11 @@ export interface PlayerBattleSkill {
   mpCost: number;
   cooldown: number;
   currentCooldown?: number;
+  /**
+   * 附加效果
+   * - { type: "heal", value }：治疗技能
+   * - { targeting: "all" | "adjacent" }：全体 / 主目标及相邻（缺省单体）
+   */
   effect?: Record<string, unknown>;
 }
 
@@ -72,11 +90,25 @@ export interface BattleItem {
   mpRestore: number;
 }
 
+/** 单个目标的命中结果 */
+export interface TargetHitResult {
+  name: string;
+  damage: number;
+  isCrit: boolean;
+  hpAfter: number;
+  maxHp: number;
+  isKill: boolean;
+  /** 元素关系 */
+  elementRelation?: string;
+}
+
 /** 回合结果 */
 export interface TurnResult {
   round: number;
   /** 玩家行动结果 */
   playerAction: PlayerActionResult;
+  /** 队友行动结果（按行动顺序） */
+  allyActions: PlayerActionResult[];
   /** 敌人行动结果列表 */
   enemyActions: EnemyActionResult[];
   /** 回合结束后的战斗状态 */
@@ -97,16 +129,25 @@ export interface TurnResult {
     maxHp: number;
     alive: boolean;
   }>;
+  /** 回合结束后队友状态 */
+  allyStates: Array<{
+    name: string;
+    hp: number;
+    maxHp: number;
+    alive: boolean;
+  }>;
 }
 
 /** 玩家行动结果 */
 export interface PlayerActionResult {
+  /** 行动者名称（队友行动时区分是谁） */
+  actorName?: string;
   type: string;
   success: boolean;
-  /** 造成的伤害 */
+  /** 造成的伤害（多目标时为总和） */
   damage?: number;
   isCrit?: boolean;
-  /** 目标名称 */
+  /** 主目标名称（以下 target* / isKill 均指主目标） */
   targetName?: string;
   targetHpAfter?: number;
   targetMaxHp?: number;
@@ -118,20 +159,32 @@ export interface PlayerActionResult {
   itemName?: string;
   hpRestored?: number;
   mpRestored?: number;
+  /** 吸血词缀回复的 HP */
+  lifestealHeal?: number;
   /** 防御状态 */
   defenseBonus?: string;
   /** 元素关系 */
   elementRelation?: string;
   /** 逃跑结果 */
   fleeSuccess?: boolean;
+  /** 目标范围 */
+  targeting?: TargetPattern;
+  /** 各目标命中结果（攻击 / 攻击技能） */
+  targets?: TargetHitResult[];
 }
 
 /** 敌人行动结果 */
 export interface EnemyActionResult {
   attackerName: string;
   type: string;
+  /** 造成的伤害（aoe 时为全队总和） */
   damage?: number;
+  /** 是否暴击（aoe 时任一目标暴击即为 true） */
   isCrit?: boolean;
+  /** 目标范围（aoe 技能为 all） */
+  targeting?: TargetPattern;
+  /** 各目标命中结果 */
+  targets?: TargetHitResult[];
   skillName?: string;
   healAmount?: number;
   /** BOSS 阶段变化 */
@@ -150,25 +203,33 @@ export interface EnemyActionResult {
  * @param action      - 玩家行动指令
  * @param roundNumber - 当前回合数
  * @param item        - 使用的物品信息（action.type === "item" 时）
+ * @param rng         - 随机数源（测试 / 模拟时传入固定种子）
+ * @param allies      - 同行队友（会被直接修改）：按速度行动、普攻玩家所选目标，
+ *                      与玩家一同承受敌人攻击；玩家倒下即战斗失败
  */
 export function processTurn(
   player: PlayerBattleState,
   enemies: EnemyState[],
   action: PlayerAction,
   roundNumber: number,
-  item?: BattleItem
+  item?: BattleItem,
+  rng: Rng = Math.random,
+  allies: PlayerBattleState[] = []
 ): TurnResult {
   const isDefending = action.type === "defend";
+  const party = [player, ...allies];
 
   // ======== 1. 按速度排序行动顺序 ========
   const aliveEnemies = enemies.filter((e) => e.hp > 0);
   const participants = [
     { id: "__player__", speed: player.speed },
+    ...allies.flatMap((a, i) => (a.hp > 0 ? [{ id: `ally_${i}`, speed: a.speed }] : [])),
     ...aliveEnemies.map((e, i) => ({ id: `enemy_${i}`, speed: e.speed })),
   ];
-  const turnOrder = calcTurnOrder(participants);
+  const turnOrder = calcTurnOrder(participants, rng);
 
   let playerActionResult: PlayerActionResult | null = null;
+  const allyActions: PlayerActionResult[] = [];
   const enemyActions: EnemyActionResult[] = [];
   let playerActed = false;
 
@@ -179,41 +240,30 @@ export function processTurn(
     if (actorId === "__player__" && !playerActed) {
       // ---- 玩家行动 ----
       playerActed = true;
-      playerActionResult = executePlayerAction(player, enemies, action, item);
+      playerActionResult = executePlayerAction(player, enemies, action, item, rng);
 
       // 逃跑成功 → 直接返回
       if (action.type === "flee" && playerActionResult.fleeSuccess) {
-        return {
-          round: roundNumber,
-          playerAction: playerActionResult,
-          enemyActions: [],
-          battleStatus: "fled",
-          rewards: null,
-          playerState: {
-            hp: player.hp,
-            maxHp: player.maxHp,
-            mp: player.mp,
-            maxMp: player.maxMp,
-          },
-          enemyStates: enemies.map((e) => ({
-            name: e.name,
-            hp: e.hp,
-            maxHp: e.maxHp,
-            alive: e.hp > 0,
-          })),
-        };
+        return buildResult(roundNumber, playerActionResult, [], [], "fled", null, player, allies, enemies);
       }
 
       // 检查敌人是否全灭
       if (enemies.every((e) => e.hp <= 0)) break;
+    } else if (actorId.startsWith("ally_")) {
+      // ---- 队友行动：普攻玩家所选目标 ----
+      const ally = allies[parseInt(actorId.split("_")[1])];
+      if (!ally || ally.hp <= 0) continue;
+
+      const result = executePlayerAction(ally, enemies, { type: "attack", targetIndex: action.targetIndex }, undefined, rng);
+      allyActions.push({ ...result, actorName: ally.name });
     } else if (actorId.startsWith("enemy_")) {
       // ---- 敌人行动 ----
       const enemyIdx = parseInt(actorId.split("_")[1]);
       const enemy = aliveEnemies[enemyIdx];
       if (!enemy || enemy.hp <= 0) continue;
 
-      const decision = decideEnemyAction(enemy, roundNumber);
-      const result = executeEnemyAction(enemy, decision, player, isDefending);
+      const decision = decideEnemyAction(enemy, roundNumber, rng);
+      const result = executeEnemyAction(enemy, decision, party, isDefending, rng);
       enemyActions.push(result);
 
       if (player.hp <= 0) break;
@@ -222,20 +272,26 @@ export function processTurn(
 
   // 如果速度排序导致玩家未行动（极端情况），兜底执行
   if (!playerActed) {
-    playerActionResult = executePlayerAction(player, enemies, action, item);
+    playerActionResult = executePlayerAction(player, enemies, action, item, rng);
   }
 
   // ======== 2. 回合结算 ========
-  // Buff 倒计时
-  player.buffs = tickBuffs(player.buffs);
   // 敌人技能冷却
   for (const enemy of enemies.filter((e) => e.hp > 0)) {
     tickEnemyCooldowns(enemy);
   }
-  // 玩家技能冷却
-  for (const skill of player.skills) {
-    if (skill.currentCooldown && skill.currentCooldown > 0) {
-      skill.currentCooldown--;
+  for (const member of party) {
+    // Buff 倒计时
+    member.buffs = tickBuffs(member.buffs);
+    // 技能冷却
+    for (const skill of member.skills) {
+      if (skill.currentCooldown && skill.currentCooldown > 0) {
+        skill.currentCooldown--;
+      }
+    }
+    // 回春词缀：存活时每回合回复固定 HP
+    if (member.hp > 0 && member.affixes?.hpRegen) {
+      member.hp = Math.min(member.maxHp, member.hp + member.affixes.hpRegen);
     }
   }
 
@@ -244,9 +300,9 @@ export function processTurn(
   const playerDead = player.hp <= 0;
   const status = allDead ? "won" : playerDead ? "lost" : "active";
 
-  const rewards = status === "won" ? calculateRewards(enemies, player.level) : null;
+  const rewards = status === "won" ? calculateRewards(enemies, player.level, player.realm, rng) : null;
 
-  return buildResult(roundNumber, playerActionResult!, enemyActions, status, rewards, player, enemies);
+  return buildResult(roundNumber, playerActionResult!, allyActions, enemyActions, status, rewards, player, allies, enemies);
 }
 
 // ============================================================
@@ -257,7 +313,8 @@ function executePlayerAction(
   player: PlayerBattleState,
   enemies: EnemyState[],
   action: PlayerAction,
-  item?: BattleItem
+  item: BattleItem | undefined,
+  rng: Rng
 ): PlayerActionResult {
   const aliveEnemies = enemies.filter((e) => e.hp > 0);
   const targetIdx = Math.min(action.targetIndex ?? 0, aliveEnemies.length - 1);
@@ -267,7 +324,7 @@ function executePlayerAction(
   if (action.type === "flee") {
     const avgSpeed = aliveEnemies.reduce((s, e) => s + e.speed, 0) / (aliveEnemies.length || 1);
     const chance = Math.max(0.1, Math.min(0.9, 0.3 + (player.speed - avgSpeed) * 0.02));
-    const fled = Math.random() < chance;
+    const fled = rng() < chance;
     return { type: "flee", success: fled, fleeSuccess: fled };
   }
 
@@ -307,7 +364,7 @@ function executePlayerAction(
     // 治疗类技能 → 恢复玩家 HP
     const skillEffect = skill.effect as { type?: string; value?: number } | undefined;
     if (skillEffect?.type === "heal" && skillEffect.value) {
-      const healAmount = calculateHeal(player.attack, skillEffect.value);
+      const healAmount = calculateHeal(player.attack, skillEffect.value, rng);
       const hpBefore = player.hp;
       player.hp = Math.min(player.maxHp, player.hp + healAmount);
       return {
@@ -319,57 +376,112 @@ function executePlayerAction(
       };
     }
 
-    // 攻击类技能 → 对敌人造成伤害
+    // 攻击类技能 → 对敌人造成伤害（effect.targeting 决定单体 / 全体 / 相邻）
+    const targeting = getSkillTargeting(skill.effect);
     const skillInfo: SkillInfo = {
       name: skill.name,
       damage: skill.damage,
       element: skill.element,
+      targeting,
     };
 
-    const dmgResult = calculateDamage(
-      { name: player.name, attack: player.attack, defense: player.defense, speed: player.speed, element: player.element },
-      { name: target.name, attack: target.attack, defense: target.defense, speed: target.speed, element: target.element },
-      skillInfo
-    );
-
-    target.hp = Math.max(0, target.hp - dmgResult.damage);
-
     return {
+      ...strikeEnemies(player, aliveEnemies, targetIdx, skillInfo, rng),
       type: "skill",
-      success: true,
-      damage: dmgResult.damage,
-      isCrit: dmgResult.isCrit,
-      targetName: target.name,
-      targetHpAfter: target.hp,
-      targetMaxHp: target.maxHp,
-      isKill: target.hp <= 0,
       skillName: skill.name,
       mpCost: skill.mpCost,
-      elementRelation: dmgResult.elementRelation,
+      targeting,
     };
   }
 
   // ---- attack (普通攻击) ----
-  const dmgResult = calculateDamage(
-    { name: player.name, attack: player.attack, defense: player.defense, speed: player.speed, element: player.element },
-    { name: target.name, attack: target.attack, defense: target.defense, speed: target.speed, element: target.element }
-  );
+  return {
+    ...strikeEnemies(player, aliveEnemies, targetIdx, null, rng),
+    type: "attack",
+  };
+}
+
+/** 技能 effect 中声明的目标范围，缺省单体 */
+function getSkillTargeting(effect: Record<string, unknown> | undefined): TargetPattern {
+  const targeting = effect?.targeting;
+  return targeting === "all" || targeting === "adjacent" ? targeting : "single";
+}
 
-  target.hp = Math.max(0, target.hp - dmgResult.damage);
+/** 对存活敌人发起一次（可能多目标的）攻击，结算 HP 与吸血 */
+function strikeEnemies(
+  attacker: PlayerBattleState,
+  aliveEnemies: EnemyState[],
+  primaryIdx: number,
+  skill: SkillInfo | null,
+  rng: Rng
+): Omit<PlayerActionResult, "type"> {
+  const indices = selectTargetIndices(skill?.targeting ?? "single", aliveEnemies.length, primaryIdx);
+  const targets = indices.map((i) => aliveEnemies[i]);
+  const results = calculateAreaDamage(toAttacker(attacker), targets.map(toCombatant), skill, [], rng);
+
+  const hits = applyHits(targets, results);
+  const lifestealHeal = applyLifesteal(attacker, results.reduce((sum, r) => sum + r.lifesteal, 0));
+  const primary = hits[indices.indexOf(primaryIdx)];
 
   return {
-    type: "attack",
     success: true,
-    damage: dmgResult.damage,
-    isCrit: dmgResult.isCrit,
-    targetName: target.name,
-    targetHpAfter: target.hp,
-    targetMaxHp: target.maxHp,
-    isKill: target.hp <= 0,
-    elementRelation: dmgResult.elementRelation,
+    damage: hits.reduce((sum, h) => sum + h.damage, 0),
+    isCrit: primary.isCrit,
+    targetName: primary.name,
+    targetHpAfter: primary.hpAfter,
+    targetMaxHp: primary.maxHp,
+    isKill: primary.isKill,
+    elementRelation: primary.elementRelation,
+    lifestealHeal: lifestealHeal || undefined,
+    targets: hits,
+  };
+}
+
+/** 扣除各目标 HP，返回命中结果 */
+function applyHits(
+  targets: Array<{ name: string; hp: number; maxHp: number }>,
+  results: ReturnType<typeof calculateAreaDamage>
+): TargetHitResult[] {
+  return targets.map((target, i) => {
+    target.hp = Math.max(0, target.hp - results[i].damage);
+    return {
+      name: target.name,
+      damage: results[i].damage,
+      isCrit: results[i].isCrit,
+      hpAfter: target.hp,
+      maxHp: target.maxHp,
+      isKill: target.hp <= 0,
+      elementRelation: results[i].elementRelation,
+    };
+  });
+}
+
+function toCombatant(unit: Combatant): Combatant {
+  return { name: unit.name, attack: unit.attack, defense: unit.defense, speed: unit.speed, element: unit.element };
+}
+
+/** 玩家作为攻击方时的属性（含装备词缀） */
+function toAttacker(player: PlayerBattleState) {
+  return {
+    name: player.name,
+    attack: player.attack,
+    defense: player.defense,
+    speed: player.speed,
+    element: player.element,
+    critRatePercent: player.affixes?.critRatePercent,
+    elementDamagePercent: player.affixes?.elementDamagePercent,
+    lifestealPercent: player.affixes?.lifestealPercent,
   };
 }
 
+/** 吸血回复，返回实际回复量 */
+function applyLifesteal(player: PlayerBattleState, amount: number): number {
+  if (amount <= 0) return 0;
+  const before = player.hp;
+  player.hp = Math.min(player.maxHp, player.hp + amount);
+  return player.hp - before;
+}
+
 // ============================================================
 // 敌人行动执行
 // ============================================================
@@ -377,8 +489,9 @@ function executePlayerAction(
 function executeEnemyAction(
   enemy: EnemyState,
   decision: EnemyAction,
-  player: PlayerBattleState,
-  playerDefending: boolean
+  party: PlayerBattleState[],
+  playerDefending: boolean,
+  rng: Rng
 ): EnemyActionResult {
   const result: EnemyActionResult = {
     attackerName: enemy.name,
@@ -392,7 +505,7 @@ function executeEnemyAction(
   }
 
   if (decision.type === "heal" && decision.skill?.healAmount) {
-    const heal = calculateHeal(enemy.attack, decision.skill.healAmount);
+    const heal = calculateHeal(enemy.attack, decision.skill.healAmount, rng);
     enemy.hp = Math.min(enemy.maxHp, enemy.hp + heal);
     markSkillUsed(decision.skill);
     result.healAmount = heal;
@@ -400,29 +513,36 @@ function executeEnemyAction(
     return result;
   }
 
-  // 攻击或技能攻击
+  // 攻击或技能攻击：aoe 技能命中全队存活成员，其余命中 targetIndex 指向的成员（0 = 玩家）
+  const targeting: TargetPattern = decision.skill?.type === "aoe" ? "all" : "single";
   const skillInfo: SkillInfo | null = decision.skill
     ? {
         name: decision.skill.name,
         damage: decision.skill.damage,
         element: decision.skill.element,
         multiplier: decision.skill.multiplier,
+        targeting,
       }
     : null;
 
   if (decision.skill) markSkillUsed(decision.skill);
 
-  const dmgResult = calculateDamage(
-    { name: enemy.name, attack: enemy.attack, defense: enemy.defense, speed: enemy.speed, element: enemy.element },
-    { name: player.name, attack: player.attack, defense: player.defense, speed: player.speed, element: player.element },
+  const aliveParty = party.filter((m) => m.hp > 0);
+  const targets = selectTargetIndices(targeting, aliveParty.length, decision.targetIndex).map((i) => aliveParty[i]);
+
+  const results = calculateAreaDamage(
+    toCombatant(enemy),
+    targets.map(toCombatant),
     skillInfo,
-    playerDefending
+    targets.map((m) => m === party[0] && playerDefending),
+    rng
   );
+  const hits = applyHits(targets, results);
 
-  player.hp = Math.max(0, player.hp - dmgResult.damage);
-
-  result.damage = dmgResult.damage;
-  result.isCrit = dmgResult.isCrit;
+  result.damage = hits.reduce((sum, h) => sum + h.damage, 0);
+  result.isCrit = hits.some((h) => h.isCrit);
+  result.targeting = targeting;
+  result.targets = hits;
   if (decision.skill) result.skillName = decision.skill.name;
 
   return result;
@@ -434,14 +554,16 @@ function executeEnemyAction(
 
 function calculateRewards(
   enemies: EnemyState[],
-  playerLevel: number
+  playerLevel: number,
+  realm: Realm | undefined,
+  rng: Rng
 ): DropResult {
   const defeated: DefeatedEnemy[] = enemies.map((e) => ({
     name: e.name,
     level: e.level,
     drops: e.drops as DefeatedEnemy["drops"],
   }));
-  return calculateDrops(defeated, playerLevel);
+  return calculateDrops(defeated, playerLevel, realm, rng);
 }
 
 // ============================================================
@@ -451,15 +573,18 @@ function calculateRewards(
 function buildResult(
   round: number,
   playerAction: PlayerActionResult,
+  allyActions: PlayerActionResult[],
   enemyActions: EnemyActionResult[],
   battleStatus: TurnResult["battleStatus"],
   rewards: DropResult | null,
   player: PlayerBattleState,
+  allies: PlayerBattleState[],
   enemies: EnemyState[]
 ): TurnResult {
   return {
     round,
     playerAction,
+    allyActions,
     enemyActions,
     battleStatus,
     rewards,
@@ -475,5 +600,11 @@ function buildResult(
       maxHp: e.maxHp,
       alive: e.hp > 0,
     })),
+    allyStates: allies.map((a) => ({
+      name: a.name,
+      hp: a.hp,
+      maxHp: a.maxHp,
+      alive: a.hp > 0,
+    })),
   };
 }
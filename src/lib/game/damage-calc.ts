@@ -1,8 +1,10 @@
 /**
  * ChaosSaga - 伤害计算器
  *
- * 完整伤害公式 = (攻击力 × 技能系数 - 防御 × 减伤系数) × 元素倍率 × 暴击 × 随机波动
+ * 完整伤害公式 = (攻击力 × 技能系数 - 防御 × 减伤系数) × 元素倍率 × (1 + 元素增伤) × 暴击 × 随机波动
  * 最低 1 点伤害
+ *
+ * 群攻 / 溅射技能对每个目标独立结算（暴击、波动、元素各自判定），命中多个目标时再乘以范围系数。
  */
 
 import {
@@ -10,6 +12,7 @@ import {
   rollCritical,
   getElementMultiplier,
 } from "./formulas";
+import type { Rng } from "./rng";
 
 // ============================================================
 // 类型定义
@@ -22,14 +25,25 @@ export interface Combatant {
   defense: number;
   speed: number;
   element?: string;
+  /** 装备词缀：额外暴击率 */
+  critRatePercent?: number;
+  /** 装备词缀：元素攻击增伤（无属性攻击不生效） */
+  elementDamagePercent?: number;
+  /** 装备词缀：吸血比例 */
+  lifestealPercent?: number;
 }
 
+/** 技能目标范围：单体 / 全体 / 主目标及左右相邻 */
+export type TargetPattern = "single" | "all" | "adjacent";
+
 /** 技能信息 */
 export interface SkillInfo {
   name: string;
   damage: number;       // 技能基础伤害
   element?: string;     // 技能元素（覆盖攻击者元素）
   multiplier?: number;  // 技能系数（默认 1.0）
+  /** 目标范围（默认 single） */
+  targeting?: TargetPattern;
   /** 附加效果 */
   effects?: SkillEffect[];
 }
@@ -56,6 +70,8 @@ export interface DamageResult {
   skillName: string | null;
   /** 触发的附加效果 */
   triggeredEffects: SkillEffect[];
+  /** 吸血回复量（攻击方装备吸血词缀时） */
+  lifesteal: number;
 }
 
 // ============================================================
@@ -69,12 +85,14 @@ export interface DamageResult {
  * @param defender - 防御方
  * @param skill    - 使用的技能（null 为普攻）
  * @param isDefending - 防御方是否处于防御状态（伤害减半）
+ * @param rng      - 随机数源（测试 / 模拟时传入固定种子）
  */
 export function calculateDamage(
   attacker: Combatant,
   defender: Combatant,
   skill: SkillInfo | null = null,
-  isDefending: boolean = false
+  isDefending: boolean = false,
+  rng: Rng = Math.random
 ): DamageResult {
   // 1. 基础攻击力 = 角色攻击 + 技能基础伤害
   const totalAttack = attacker.attack + (skill?.damage ?? 0);
@@ -83,7 +101,7 @@ export function calculateDamage(
   const skillMultiplier = skill?.multiplier ?? 1.0;
 
   // 3. 基础伤害 = (攻击力 × 技能系数 - 防御 × 0.5)，最低 1
-  const baseDamage = calcDamage(totalAttack, defender.defense, skillMultiplier);
+  const baseDamage = calcDamage(totalAttack, defender.defense, skillMultiplier, rng);
 
   // 4. 元素克制
   const attackElement = skill?.element ?? attacker.element ?? "none";
@@ -94,10 +112,16 @@ export function calculateDamage(
   if (elementMultiplier > 1) elementRelation = "advantage";
   else if (elementMultiplier < 1) elementRelation = "disadvantage";
 
+  // 元素增伤词缀
+  const elementBonus =
+    attackElement !== "none" ? 1 + (attacker.elementDamagePercent ?? 0) : 1.0;
+
   // 5. 暴击
   const { isCrit, multiplier: critMultiplier } = rollCritical(
     attacker.speed,
-    defender.speed
+    defender.speed,
+    attacker.critRatePercent ?? 0,
+    rng
   );
 
   // 6. 防御状态减伤
@@ -106,7 +130,7 @@ export function calculateDamage(
   // 7. 最终伤害
   const finalDamage = Math.max(
     1,
-    Math.floor(baseDamage * elementMultiplier * critMultiplier * defendMultiplier)
+    Math.floor(baseDamage * elementMultiplier * elementBonus * critMultiplier * defendMultiplier)
   );
 
   // 8. 技能附加效果触发判定
@@ -114,7 +138,7 @@ export function calculateDamage(
   if (skill?.effects) {
     for (const effect of skill.effects) {
       const chance = effect.chance ?? 1.0;
-      if (Math.random() < chance) {
+      if (rng() < chance) {
         triggeredEffects.push(effect);
       }
     }
@@ -127,9 +151,71 @@ export function calculateDamage(
     elementRelation,
     skillName: skill?.name ?? null,
     triggeredEffects,
+    lifesteal: Math.floor(finalDamage * (attacker.lifestealPercent ?? 0)),
   };
 }
 
+// ============================================================
+// 多目标伤害
+// ============================================================
+
+/** 命中多个目标时每个目标的伤害系数（避免群攻全面压过单体技能） */
+export const TARGET_PATTERN_DAMAGE: Record<TargetPattern, number> = {
+  single: 1.0,
+  all: 0.6,
+  adjacent: 0.75,
+};
+
+/**
+ * 按目标范围选出命中的目标索引
+ *
+ * @param pattern      - 目标范围
+ * @param targetCount  - 可选目标数（存活的）
+ * @param primaryIndex - 主目标索引（adjacent 以此为中心）
+ */
+export function selectTargetIndices(
+  pattern: TargetPattern,
+  targetCount: number,
+  primaryIndex: number
+): number[] {
+  if (targetCount <= 0) return [];
+  const primary = Math.max(0, Math.min(primaryIndex, targetCount - 1));
+  switch (pattern) {
+    case "all":
+      return Array.from({ length: targetCount }, (_, i) => i);
+    case "adjacent":
+      return [primary - 1, primary, primary + 1].filter((i) => i >= 0 && i < targetCount);
+    default:
+      return [primary];
+  }
+}
+
+/**
+ * 计算一次多目标攻击，按 defenders 顺序返回每个目标的伤害
+ *
+ * @param defending - 各目标是否处于防御状态（与 defenders 对应，缺省为否）
+ */
+export function calculateAreaDamage(
+  attacker: Combatant,
+  defenders: Combatant[],
+  skill: SkillInfo | null = null,
+  defending: boolean[] = [],
+  rng: Rng = Math.random
+): DamageResult[] {
+  const spread = defenders.length > 1 ? TARGET_PATTERN_DAMAGE[skill?.targeting ?? "single"] : 1.0;
+
+  return defenders.map((defender, i) => {
+    const result = calculateDamage(attacker, defender, skill, defending[i] ?? false, rng);
+    if (spread === 1.0) return result;
+    const damage = Math.max(1, Math.floor(result.damage * spread));
+    return {
+      ...result,
+      damage,
+      lifesteal: Math.floor(damage * (attacker.lifestealPercent ?? 0)),
+    };
+  });
+}
+
 // ============================================================
 // 治疗计算
 // ============================================================
@@ -140,10 +226,11 @@ export function calculateDamage(
  */
 export function calculateHeal(
   casterAttack: number,
-  skillDamage: number
+  skillDamage: number,
+  rng: Rng = Math.random
 ): number {
   const raw = skillDamage * (1 + casterAttack / 100);
   // ±10% 随机波动
-  const variance = 0.9 + Math.random() * 0.2;
+  const variance = 0.9 + rng() * 0.2;
   return Math.floor(raw * variance);
 }
@@ -7,7 +7,9 @@
  * - 物品掉落（概率表 + 品质滚动）
  */
 
-import { calcBattleExp, calcGoldDrop } from "./formulas";
+import { calcBattleExp, calcGoldDrop, type Realm } from "./formulas";
+import { rollAffixes } from "./affixes";
+import type { Rng } from "./rng";
 
 // ============================================================
 // 类型定义
@@ -20,6 +22,8 @@ export interface DropTemplate {
   quality: "common" | "uncommon" | "rare" | "epic" | "legendary";
   stats?: Record<string, number>;
   specialEffect?: string;
+  /** 所属套装（generate_area 按区域主题标记） */
+  setId?: string;
   /** 掉落概率 0-1 */
   chance: number;
   /** 技能专属字段 */
@@ -55,6 +59,7 @@ export interface DroppedItem {
   quantity: number;
   stats?: Record<string, number>;
   specialEffect?: string;
+  setId?: string;
   /** 掉落来源 */
   source: string;
   /** 技能专属数据 */
@@ -129,42 +134,53 @@ const CATEGORY_WEIGHTS = [
  *
  * @param enemies     - 被击败的敌人列表
  * @param playerLevel - 玩家等级
+ * @param realm       - 玩家境界（装备词缀数值上限）
+ * @param rng         - 随机数源（测试 / 模拟时传入固定种子）
  */
 export function calculateDrops(
   enemies: DefeatedEnemy[],
-  playerLevel: number
+  playerLevel: number,
+  realm: Realm = "ocean",
+  rng: Rng = Math.random
 ): DropResult {
   const enemyLevels = enemies.map((e) => e.level);
 
   // 经验和金币（使用 formulas.ts 的公式）
   const exp = calcBattleExp(playerLevel, enemyLevels);
-  const gold = calcGoldDrop(enemyLevels);
+  const gold = calcGoldDrop(enemyLevels, rng);
 
   // 物品掉落
   const items: DroppedItem[] = [];
 
   for (const enemy of enemies) {
-    // 1. 优先使用敌人专属掉落表（BOSS drops）
+    // 1. 优先使用敌人专属掉落表（BOSS drops），装备同样滚动词缀
     if (enemy.drops?.length) {
       for (const drop of enemy.drops) {
-        if (Math.random() < drop.chance) {
-          items.push({
-            name: drop.name,
-            type: drop.type,
-            quality: drop.quality,
-            quantity: 1,
-            stats: drop.stats,
-            specialEffect: drop.specialEffect,
-            skillData: drop.skillData, // 传递技能数据
-            source: enemy.name,
-          });
+        if (rng() < drop.chance) {
+          const item = withAffixes(
+            {
+              name: drop.name,
+              type: drop.type,
+              quality: drop.quality,
+              quantity: 1,
+              stats: drop.stats,
+              specialEffect: drop.specialEffect,
+              setId: drop.setId,
+              skillData: drop.skillData, // 传递技能数据
+            },
+            enemy.level,
+            playerLevel,
+            realm,
+            rng
+          );
+          items.push({ ...item, source: enemy.name });
         }
       }
     }
 
     // 2. 通用掉落判定（非 BOSS 也有概率掉东西）
-    if (Math.random() < BASE_ITEM_DROP_RATE) {
-      const item = rollGenericDrop(enemy.level, playerLevel);
+    if (rng() < BASE_ITEM_DROP_RATE) {
+      const item = rollGenericDrop(enemy.level, playerLevel, realm, rng);
       if (item) {
         items.push({ ...item, source: enemy.name });
       }
@@ -181,51 +197,54 @@ export function calculateDrops(
 /** 随机滚动一个通用掉落物品 */
 function rollGenericDrop(
   enemyLevel: number,
-  playerLevel: number
+  playerLevel: number,
+  realm: Realm,
+  rng: Rng
 ): Omit<DroppedItem, "source"> | null {
-  const quality = rollQuality(enemyLevel - playerLevel) as DropQuality;
-  const category = rollRandomCategory();
+  const quality = rollQuality(enemyLevel - playerLevel, rng) as DropQuality;
+  const category = rollRandomCategory(rng);
 
   // 消耗品：保持当前固定池逻辑
   if (category === "consumable") {
-    const fixed = rollFromFixedPool(GENERIC_CONSUMABLES, quality);
+    const fixed = rollFromFixedPool(GENERIC_CONSUMABLES, quality, rng);
     if (fixed) return fixed;
   }
 
   // 材料：50% 固定池 + 50% 程序化随机
   if (category === "material") {
-    if (Math.random() < 0.5) {
-      const fixed = rollFromFixedPool(GENERIC_MATERIALS, quality);
+    if (rng() < 0.5) {
+      const fixed = rollFromFixedPool(GENERIC_MATERIALS, quality, rng);
       if (fixed) return fixed;
     }
-    return buildRandomMaterial(quality);
+    return buildRandomMaterial(quality, rng);
   }
 
   if (category === "collectible") {
-    return buildRandomCollectible(quality);
+    return buildRandomCollectible(quality, rng);
   }
 
   if (category === "weapon") {
-    return buildRandomWeapon(quality, enemyLevel);
+    return withAffixes(buildRandomWeapon(quality, enemyLevel, rng), enemyLevel, playerLevel, realm, rng);
   }
 
   if (category === "accessory") {
-    return buildRandomAccessory(quality, enemyLevel);
+    return withAffixes(buildRandomAccessory(quality, enemyLevel, rng), enemyLevel, playerLevel, realm, rng);
   }
 
-  return rollFromFixedPool(GENERIC_MATERIALS, quality);
+  return rollFromFixedPool(GENERIC_MATERIALS, quality, rng);
 }
 
 function rollFromFixedPool(
   pool: DropTemplate[],
-  quality: DropQuality
+  quality: DropQuality,
+  rng: Rng
 ): Omit<DroppedItem, "source"> | null {
   const qualityOrder: DropQuality[] = ["legendary", "epic", "rare", "uncommon", "common"];
   const qualityIdx = qualityOrder.indexOf(quality);
   for (let i = qualityIdx; i < qualityOrder.length; i++) {
     const candidates = pool.filter((p) => p.quality === qualityOrder[i]);
     if (candidates.length > 0) {
-      const pick = candidates[Math.floor(Math.random() * candidates.length)];
+      const pick = randomPick(candidates, rng);
       return {
         name: pick.name,
         type: pick.type,
@@ -238,9 +257,9 @@ function rollFromFixedPool(
   return null;
 }
 
-function rollRandomCategory(): (typeof CATEGORY_WEIGHTS)[number]["type"] {
+function rollRandomCategory(rng: Rng): (typeof CATEGORY_WEIGHTS)[number]["type"] {
   const total = CATEGORY_WEIGHTS.reduce((s, c) => s + c.weight, 0);
-  let r = Math.random() * total;
+  let r = rng() * total;
   for (const c of CATEGORY_WEIGHTS) {
     r -= c.weight;
     if (r <= 0) return c.type;
@@ -248,12 +267,12 @@ function rollRandomCategory(): (typeof CATEGORY_WEIGHTS)[number]["type"] {
   return "material";
 }
 
-function randomPick<T>(arr: T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)];
+function randomPick<T>(arr: T[], rng: Rng): T {
+  return arr[Math.floor(rng() * arr.length)];
 }
 
-function randomPrefix(quality: DropQuality): string {
-  return randomPick(RANDOM_PREFIXES[quality]);
+function randomPrefix(quality: DropQuality, rng: Rng): string {
+  return randomPick(RANDOM_PREFIXES[quality], rng);
 }
 
 function qualityScale(quality: DropQuality): number {
@@ -271,8 +290,8 @@ function qualityScale(quality: DropQuality): number {
   }
 }
 
-function buildRandomMaterial(quality: DropQuality): Omit<DroppedItem, "source"> {
-  const name = `${randomPrefix(quality)}${randomPick(RANDOM_MATERIALS)}`;
+function buildRandomMaterial(quality: DropQuality, rng: Rng): Omit<DroppedItem, "source"> {
+  const name = `${randomPrefix(quality, rng)}${randomPick(RANDOM_MATERIALS, rng)}`;
   return {
     name,
     type: "material",
@@ -281,8 +300,8 @@ function buildRandomMaterial(quality: DropQuality): Omit<DroppedItem, "source">
   };
 }
 
-function buildRandomCollectible(quality: DropQuality): Omit<DroppedItem, "source"> {
-  const name = `${randomPrefix(quality)}${randomPick(RANDOM_COLLECTIBLES)}`;
+function buildRandomCollectible(quality: DropQuality, rng: Rng): Omit<DroppedItem, "source"> {
+  const name = `${randomPrefix(quality, rng)}${randomPick(RANDOM_COLLECTIBLES, rng)}`;
   return {
     name,
     type: "collectible",
@@ -293,9 +312,10 @@ function buildRandomCollectible(quality: DropQuality): Omit<DroppedItem, "source
 
 function buildRandomWeapon(
   quality: DropQuality,
-  enemyLevel: number
+  enemyLevel: number,
+  rng: Rng
 ): Omit<DroppedItem, "source"> {
-  const name = `${randomPrefix(quality)}${randomPick(RANDOM_WEAPONS)}`;
+  const name = `${randomPrefix(quality, rng)}${randomPick(RANDOM_WEAPONS, rng)}`;
   const atk = Math.max(1, Math.floor((2 + enemyLevel * 0.8) * qualityScale(quality)));
   return {
     name,
@@ -308,9 +328,10 @@ function buildRandomWeapon(
 
 function buildRandomAccessory(
   quality: DropQuality,
-  enemyLevel: number
+  enemyLevel: number,
+  rng: Rng
 ): Omit<DroppedItem, "source"> {
-  const name = `${randomPrefix(quality)}${randomPick(RANDOM_ACCESSORIES)}`;
+  const name = `${randomPrefix(quality, rng)}${randomPick(RANDOM_ACCESSORIES, rng)}`;
   const scale = qualityScale(quality);
   const statsPool: Array<Record<string, number>> = [
     { defense: Math.max(1, Math.floor((1 + enemyLevel * 0.4) * scale)) },
@@ -323,12 +344,29 @@ function buildRandomAccessory(
     type: "accessory",
     quality,
     quantity: 1,
-    stats: randomPick(statsPool),
+    stats: randomPick(statsPool, rng),
   };
 }
 
+/** 为装备附加词缀，数值并入 stats（非装备类型不会命中任何词缀） */
+function withAffixes(
+  item: Omit<DroppedItem, "source">,
+  enemyLevel: number,
+  playerLevel: number,
+  realm: Realm,
+  rng: Rng
+): Omit<DroppedItem, "source"> {
+  const affixes = rollAffixes(item.type, item.quality, enemyLevel, playerLevel, realm, rng);
+  if (affixes.length === 0) return item;
+  const stats = { ...(item.stats ?? {}) };
+  for (const affix of affixes) {
+    stats[affix.stat] = (stats[affix.stat] ?? 0) + affix.value;
+  }
+  return { ...item, stats };
+}
+
 /** 品质滚动（等级差修正） */
-function rollQuality(levelDiff: number): string {
+function rollQuality(levelDiff: number, rng: Rng): string {
   // 等级差每 +1 级，稀有度权重提升 2%
   const bonus = Math.max(-0.1, Math.min(0.2, levelDiff * 0.02));
 
@@ -341,7 +379,7 @@ function rollQuality(levelDiff: number): string {
   };
 
   const totalWeight = Object.values(weights).reduce((a, b) => a + b, 0);
-  let roll = Math.random() * totalWeight;
+  let roll = rng() * totalWeight;
 
   for (const [quality, weight] of Object.entries(weights)) {
     roll -= weight;
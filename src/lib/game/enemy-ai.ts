@@ -8,6 +8,7 @@
  */
 
 import { type DropTemplate } from "./drop-system";
+import type { Rng } from "./rng";
 
 // ============================================================
 // 类型定义
@@ -38,7 +39,7 @@ export interface EnemySkill {
   damage: number;
   element?: string;
   multiplier?: number;
-  /** 技能类型 */
+  /** 技能类型（aoe 命中玩家全队） */
   type?: "attack" | "heal" | "buff" | "debuff" | "aoe";
   /** 使用冷却（回合数），0 = 无冷却 */
   cooldown?: number;
@@ -63,7 +64,7 @@ export interface EnemyAction {
   type: "attack" | "skill" | "defend" | "heal";
   /** 使用的技能（type=skill 或 type=heal 时） */
   skill?: EnemySkill;
-  /** 攻击目标索引（多目标战斗预留，目前固定 0 即玩家） */
+  /** 单体攻击的目标在玩家队伍中的索引（0 = 玩家，1.. = 同伴）。目前 AI 单体攻击始终锁定玩家；aoe 技能命中全队，忽略此项 */
   targetIndex: number;
   /** 阶段变化描述（BOSS 切阶段时） */
   phaseChange?: string;
@@ -78,11 +79,13 @@ export interface EnemyAction {
  *
  * @param enemy      - 敌人当前状态
  * @param roundNumber - 当前回合数
+ * @param rng         - 随机数源（测试 / 模拟时传入固定种子）
  * @returns 本回合的行动决策
  */
 export function decideEnemyAction(
   enemy: EnemyState,
-  roundNumber: number
+  roundNumber: number,
+  rng: Rng = Math.random
 ): EnemyAction {
   const hpPercent = enemy.hp / enemy.maxHp;
   const isBoss = !!enemy.phases?.length;
@@ -115,7 +118,7 @@ export function decideEnemyAction(
     const forcePool = phaseSkills.filter((s) => s.type !== "heal");
     const selectedPool = forcePool.length > 0 ? forcePool : phaseSkills;
     const strategy = hpPercent < 0.6 ? "aggressive" : "balanced";
-    const forcedSkill = weightedSkillSelect(selectedPool, strategy);
+    const forcedSkill = weightedSkillSelect(selectedPool, strategy, rng);
     if (forcedSkill) {
       if (forcedSkill.type === "heal") {
         return { type: "heal", skill: forcedSkill, targetIndex: 0, phaseChange };
@@ -133,7 +136,7 @@ export function decideEnemyAction(
       return { type: "heal", skill: healSkill, targetIndex: 0, phaseChange };
     }
     // 30% 概率防御
-    if (Math.random() < 0.3) {
+    if (rng() < 0.3) {
       return { type: "defend", targetIndex: 0, phaseChange };
     }
   }
@@ -147,8 +150,8 @@ export function decideEnemyAction(
   if (hpPercent < 0.6 && attackSkills.length > 0) {
     // BOSS 更激进地使用技能，避免“全程普攻”
     const skillChance = isBoss ? 0.95 : 0.8;
-    if (Math.random() < skillChance) {
-      const skill = weightedSkillSelect(attackSkills, "aggressive");
+    if (rng() < skillChance) {
+      const skill = weightedSkillSelect(attackSkills, "aggressive", rng);
       if (skill) {
         return { type: "skill", skill, targetIndex: 0, phaseChange };
       }
@@ -160,10 +163,10 @@ export function decideEnemyAction(
   if (nonHealSkills.length > 0) {
     // BOSS 高血量阶段也应积极放技能，而非大概率平A
     const skillChance = isBoss ? 0.85 : 0.5;
-    if (Math.random() >= skillChance) {
+    if (rng() >= skillChance) {
       return { type: "attack", targetIndex: 0, phaseChange };
     }
-    const skill = weightedSkillSelect(nonHealSkills, "balanced");
+    const skill = weightedSkillSelect(nonHealSkills, "balanced", rng);
     if (skill) {
       return { type: "skill", skill, targetIndex: 0, phaseChange };
     }
@@ -226,7 +229,8 @@ function getPhaseSkills(
 /** 加权技能选择 */
 function weightedSkillSelect(
   skills: EnemySkill[],
-  strategy: "aggressive" | "balanced"
+  strategy: "aggressive" | "balanced",
+  rng: Rng
 ): EnemySkill | null {
   if (skills.length === 0) return null;
 
@@ -245,7 +249,7 @@ function weightedSkillSelect(
   });
 
   const totalWeight = weights.reduce((a, b) => a + b, 0);
-  let roll = Math.random() * totalWeight;
+  let roll = rng() * totalWeight;
 
   for (let i = 0; i < skills.length; i++) {
     roll -= weights[i];
@@ -0,0 +1,106 @@
+/**
+ * ChaosSaga - 装备强化
+ *
+ * +1 ~ +15 强化阶梯（与 06-equipment-set-system §2 一致）：
+ * 成功率逐段下降，高段失败会降级；每级按段位累计提升装备基础属性。
+ */
+
+import type { Rng } from "./rng";
+
+// ============================================================
+// 强化配置
+// ============================================================
+
+/** 强化等级上限 */
+export const MAX_ENHANCE_LEVEL = 15;
+
+/** 强化材料名称（背包中同名物品） */
+export const ENHANCE_STONE_NAME = "强化石";
+
+/** 单段强化配置 */
+export interface EnhanceTier {
+  /** 该段最高强化等级（含） */
+  maxLevel: number;
+  successRate: number;
+  /** 每级属性提升（基础属性百分比） */
+  statPercent: number;
+  /** 金币消耗 = goldBase × 玩家等级 */
+  goldBase: number;
+  stoneCount: number;
+  /** 失败时掉落的等级数 */
+  failPenalty: number;
+}
+
+const ENHANCE_TIERS: EnhanceTier[] = [
+  { maxLevel: 3, successRate: 1.0, statPercent: 0.05, goldBase: 50, stoneCount: 1, failPenalty: 0 },
+  { maxLevel: 6, successRate: 0.8, statPercent: 0.08, goldBase: 100, stoneCount: 2, failPenalty: 0 },
+  { maxLevel: 9, successRate: 0.6, statPercent: 0.12, goldBase: 200, stoneCount: 3, failPenalty: 1 },
+  { maxLevel: 12, successRate: 0.4, statPercent: 0.15, goldBase: 400, stoneCount: 5, failPenalty: 2 },
+  { maxLevel: 15, successRate: 0.2, statPercent: 0.2, goldBase: 800, stoneCount: 8, failPenalty: 3 },
+];
+
+/**
+ * 强化到目标等级时使用的配置
+ */
+export function getEnhanceConfig(targetLevel: number): EnhanceTier {
+  const lv = Math.max(1, Math.min(MAX_ENHANCE_LEVEL, targetLevel));
+  return ENHANCE_TIERS.find((t) => lv <= t.maxLevel) ?? ENHANCE_TIERS[ENHANCE_TIERS.length - 1];
+}
+
+/**
+ * 累计强化加成百分比（非线性增长）
+ * +3: 15%, +6: 39%, +9: 75%, +12: 120%, +15: 180%
+ */
+export function getEnhancePercent(level: number): number {
+  let total = 0;
+  for (let i = 1; i <= Math.min(level, MAX_ENHANCE_LEVEL); i++) {
+    total += getEnhanceConfig(i).statPercent;
+  }
+  return Math.round(total * 100) / 100;
+}
+
+/**
+ * 强化消耗
+ */
+export function getEnhanceCost(
+  targetLevel: number,
+  playerLevel: number
+): { gold: number; stones: number } {
+  const config = getEnhanceConfig(targetLevel);
+  return { gold: config.goldBase * playerLevel, stones: config.stoneCount };
+}
+
+/**
+ * 判定一次强化的结果
+ */
+export function rollEnhance(currentLevel: number, rng: Rng = Math.random): {
+  success: boolean;
+  newLevel: number;
+  successRate: number;
+} {
+  const config = getEnhanceConfig(currentLevel + 1);
+  const success = rng() < config.successRate;
+  const newLevel = success
+    ? currentLevel + 1
+    : Math.max(0, currentLevel - config.failPenalty);
+  return { success, newLevel, successRate: config.successRate };
+}
+
+/**
+ * 强化后的固定属性（仅放大固定值，百分比属性不受强化影响）
+ */
+export function applyEnhanceToStats(
+  stats: Record<string, number>,
+  level: number
+): Record<string, number> {
+  if (level <= 0) return stats;
+  const mult = 1 + getEnhancePercent(level);
+  const result: Record<string, number> = {};
+  for (const [key, value] of Object.entries(stats)) {
+    result[key] =
+      typeof value === "number" && !key.endsWith("Percent")
+        ? Math.floor(value * mult)
+        : value;
+  }
+  return result;
+}
@@ -0,0 +1,256 @@
+/**
+ * ChaosSaga - 装备套装
+ *
+ * 套装定义注册表（参见 06-equipment-set-system §4）：
+ * 物品通过 InventoryItem.setId 归属套装，已装备件数达到 2/4 件时激活对应加成。
+ * generate_area 按区域主题为 BOSS 掉落 / 商店装备打上套装标记，使每个区域有自己的套装。
+ */
+
+import type { Stats } from "./player-calc";
+import type { AffixStats } from "./affixes";
+
+// ============================================================
+// 类型定义
+// ============================================================
+
+/** 单档套装加成 */
+export interface SetBonusTier {
+  requiredPieces: number;
+  /** 固定属性加成 */
+  stats?: Partial<Stats>;
+  /** 百分比加成，如 0.1 表示 +10% */
+  percentStats?: Partial<Record<keyof Stats, number>>;
+  /** 战斗词缀加成 */
+  affixes?: Partial<AffixStats>;
+  description: string;
+}
+
+/** 套装定义 */
+export interface EquipmentSetDef {
+  setId: string;
+  setName: string;
+  /** 适配的区域主题（generate_area 自动匹配） */
+  themes: string[];
+  /** 套装部件（type 对应物品类型，name 为推荐名称） */
+  pieces: Array<{ type: string; name: string }>;
+  bonuses: SetBonusTier[];
+}
+
+/** 已激活的套装 */
+export interface ActiveSetBonus {
+  setId: string;
+  setName: string;
+  equippedPieces: number;
+  totalPieces: number;
+  /** 已激活档位的描述 */
+  bonuses: string[];
+}
+
+// ============================================================
+// 套装注册表
+// ============================================================
+
+export const EQUIPMENT_SETS: EquipmentSetDef[] = [
+  {
+    setId: "ocean_tide",
+    setName: "海潮套装",
+    themes: ["ocean", "ice"],
+    pieces: [
+      { type: "weapon", name: "海潮三叉戟" },
+      { type: "helmet", name: "海潮头冠" },
+      { type: "armor", name: "海潮鳞甲" },
+      { type: "boots", name: "海潮踏浪靴" },
+      { type: "accessory", name: "海潮珍珠坠" },
+    ],
+    bonuses: [
+      { requiredPieces: 2, percentStats: { maxMp: 0.15 }, description: "(2件) MP+15%" },
+      {
+        requiredPieces: 4,
+        percentStats: { attack: 0.1, defense: 0.1 },
+        affixes: { elementDamagePercent: 0.15 },
+        description: "(4件) 攻击/防御+10%，元素增伤+15%",
+      },
+    ],
+  },
+  {
+    setId: "coral_guardian",
+    setName: "珊瑚守护套装",
+    themes: ["swamp"],
+    pieces: [
+      { type: "helmet", name: "珊瑚守护盔" },
+      { type: "armor", name: "珊瑚守护甲" },
+      { type: "boots", name: "珊瑚守护靴" },
+      { type: "accessory", name: "珊瑚守护环" },
+    ],
+    bonuses: [
+      { requiredPieces: 2, percentStats: { defense: 0.15 }, description: "(2件) 防御+15%" },
+      {
+        requiredPieces: 4,
+        percentStats: { maxHp: 0.2 },
+        affixes: { hpRegen: 10 },
+        description: "(4件) HP+20%，每回合回复10HP",
+      },
+    ],
+  },
+  {
+    setId: "shadow_assassin",
+    setName: "暗影刺客套装",
+    themes: ["cave"],
+    pieces: [
+      { type: "weapon", name: "暗影匕首" },
+      { type: "armor", name: "暗影斗篷" },
+      { type: "boots", name: "暗影潜行靴" },
+      { type: "accessory", name: "暗影指环" },
+    ],
+    bonuses: [
+      {
+        requiredPieces: 2,
+        percentStats: { speed: 0.1 },
+        affixes: { critRatePercent: 0.05 },
+        description: "(2件) 速度+10%，暴击率+5%",
+      },
+      {
+        requiredPieces: 4,
+        percentStats: { attack: 0.15 },
+        affixes: { critRatePercent: 0.05 },
+        description: "(4件) 攻击+15%，暴击率再+5%",
+      },
+    ],
+  },
+  {
+    setId: "light_blessing",
+    setName: "光明祝福套装",
+    themes: ["city"],
+    pieces: [
+      { type: "weapon", name: "光明法杖" },
+      { type: "helmet", name: "光明之冠" },
+      { type: "armor", name: "光明法袍" },
+      { type: "accessory", name: "光明吊坠" },
+    ],
+    bonuses: [
+      { requiredPieces: 2, percentStats: { maxHp: 0.1 }, description: "(2件) HP+10%" },
+      {
+        requiredPieces: 4,
+        percentStats: { maxHp: 0.1 },
+        affixes: { lifestealPercent: 0.05 },
+        description: "(4件) HP再+10%，吸血+5%",
+      },
+    ],
+  },
+  {
+    setId: "verdant_wind",
+    setName: "青岚套装",
+    themes: ["forest", "mountain"],
+    pieces: [
+      { type: "weapon", name: "青岚长弓" },
+      { type: "helmet", name: "青岚发冠" },
+      { type: "boots", name: "青岚疾风靴" },
+      { type: "accessory", name: "青岚叶坠" },
+    ],
+    bonuses: [
+      { requiredPieces: 2, percentStats: { speed: 0.1 }, description: "(2件) 速度+10%" },
+      {
+        requiredPieces: 4,
+        percentStats: { attack: 0.1 },
+        affixes: { elementDamagePercent: 0.1 },
+        description: "(4件) 攻击+10%，元素增伤+10%",
+      },
+    ],
+  },
+  {
+    setId: "sand_flame",
+    setName: "炎砂套装",
+    themes: ["desert", "volcano"],
+    pieces: [
+      { type: "weapon", name: "炎砂弯刀" },
+      { type: "armor", name: "炎砂战甲" },
+      { type: "boots", name: "炎砂行者靴" },
+      { type: "accessory", name: "炎砂护符" },
+    ],
+    bonuses: [
+      { requiredPieces: 2, percentStats: { attack: 0.1 }, description: "(2件) 攻击+10%" },
+      {
+        requiredPieces: 4,
+        percentStats: { attack: 0.1 },
+        affixes: { critRatePercent: 0.05 },
+        description: "(4件) 攻击再+10%，暴击率+5%",
+      },
+    ],
+  },
+];
+
+export const EQUIPMENT_SET_IDS = EQUIPMENT_SETS.map((s) => s.setId);
+
+// ============================================================
+// 查询
+// ============================================================
+
+export function getEquipmentSet(setId: string | null | undefined): EquipmentSetDef | undefined {
+  if (!setId) return undefined;
+  return EQUIPMENT_SETS.find((s) => s.setId === setId);
+}
+
+/** 按区域主题匹配套装（无匹配返回 undefined） */
+export function findSetForTheme(theme: string): EquipmentSetDef | undefined {
+  const t = theme.toLowerCase();
+  return EQUIPMENT_SETS.find((s) => s.themes.includes(t));
+}
+
+// ============================================================
+// 套装效果计算
+// ============================================================
+
+/**
+ * 计算已装备物品激活的套装加成
+ */
+export function evaluateSetBonuses(
+  equippedItems: Array<{ setId?: string | null }>
+): {
+  active: ActiveSetBonus[];
+  flat: Partial<Stats>;
+  percent: Partial<Record<keyof Stats, number>>;
+  affixes: Partial<AffixStats>;
+} {
+  const flat: Partial<Stats> = {};
+  const percent: Partial<Record<keyof Stats, number>> = {};
+  const affixes: Partial<AffixStats> = {};
+  const active: ActiveSetBonus[] = [];
+
+  const setCounts = new Map<string, number>();
+  for (const item of equippedItems) {
+    if (item.setId) {
+      setCounts.set(item.setId, (setCounts.get(item.setId) ?? 0) + 1);
+    }
+  }
+
+  for (const [setId, count] of setCounts) {
+    const set = getEquipmentSet(setId);
+    if (!set) continue;
+
+    const reached = set.bonuses.filter((b) => count >= b.requiredPieces);
+    for (const bonus of reached) {
+      for (const [k, v] of Object.entries(bonus.stats ?? {})) {
+        const key = k as keyof Stats;
+        flat[key] = (flat[key] ?? 0) + v;
+      }
+      for (const [k, v] of Object.entries(bonus.percentStats ?? {})) {
+        const key = k as keyof Stats;
+        percent[key] = (percent[key] ?? 0) + v;
+      }
+      for (const [k, v] of Object.entries(bonus.affixes ?? {})) {
+        const key = k as keyof AffixStats;
+        affixes[key] = (affixes[key] ?? 0) + v;
+      }
+    }
+
+    active.push({
+      setId,
+      setName: set.setName,
+      equippedPieces: count,
+      totalPieces: set.pieces.length,
+      bonuses: reached.map((b) => b.description),
+    });
+  }
+
+  return { active, flat, percent, affixes };
+}
@@ -0,0 +1,127 @@
+/**
+ * ChaosSaga - 装备槽位
+ *
+ * Equipment 表（playerId + slot 唯一）是穿戴状态的唯一来源，
+ * InventoryItem.equipped 仅作为冗余标记供 UI / 索引使用。
+ */
+
+// ============================================================
+// 槽位定义
+// ============================================================
+
+/** 全部装备槽位（顺序即 UI 展示顺序） */
+export const EQUIPMENT_SLOTS = [
+  "weapon",
+  "helmet",
+  "armor",
+  "boots",
+  "accessory1",
+  "accessory2",
+] as const;
+
+export type EquipmentSlot = (typeof EQUIPMENT_SLOTS)[number];
+
+/** 槽位中文名 */
+export const SLOT_NAMES: Record<EquipmentSlot, string> = {
+  weapon: "武器",
+  helmet: "头盔",
+  armor: "护甲",
+  boots: "靴子",
+  accessory1: "饰品1",
+  accessory2: "饰品2",
+};
+
+/** 物品类型 → 可放入的槽位（按优先级） */
+const TYPE_SLOTS: Record<string, EquipmentSlot[]> = {
+  weapon: ["weapon"],
+  helmet: ["helmet"],
+  armor: ["armor"],
+  boots: ["boots"],
+  accessory: ["accessory1", "accessory2"],
+};
+
+/** 可穿戴的物品类型 */
+export const EQUIPPABLE_TYPES = Object.keys(TYPE_SLOTS);
+
+/** targetSlot 的常见别名（LLM 常传类型名或中文） */
+const SLOT_ALIASES: Record<string, EquipmentSlot | "accessory"> = {
+  武器: "weapon",
+  头盔: "helmet",
+  helm: "helmet",
+  护甲: "armor",
+  防具: "armor",
+  靴子: "boots",
+  鞋子: "boots",
+  accessory: "accessory",
+  ring: "accessory",
+  饰品: "accessory",
+  戒指: "accessory",
+  "饰品1": "accessory1",
+  "饰品2": "accessory2",
+  accessory_1: "accessory1",
+  accessory_2: "accessory2",
+};
+
+// ============================================================
+// 槽位解析
+// ============================================================
+
+export function isEquippable(itemType: string): boolean {
+  return itemType in TYPE_SLOTS;
+}
+
+/** 物品类型可放入的全部槽位 */
+export function getSlotsForType(itemType: string): EquipmentSlot[] {
+  return TYPE_SLOTS[itemType] ?? [];
+}
+
+/**
+ * 选择目标槽位
+ *
+ * - 指定了 targetSlot：校验槽位是否接受该类型（"accessory" 等泛指别名会落到空闲的饰品槽）
+ * - 未指定：优先空槽，全满时替换第一个槽位
+ *
+ * @param occupied 当前已占用的槽位
+ */
+export function resolveTargetSlot(
+  itemType: string,
+  targetSlot: string | undefined,
+  occupied: Iterable<string>
+): { ok: true; slot: EquipmentSlot } | { ok: false; reason: string } {
+  const candidates = getSlotsForType(itemType);
+  if (candidates.length === 0) {
+    return { ok: false, reason: `类型「${itemType}」的物品无法穿戴` };
+  }
+
+  const used = new Set(occupied);
+  const pickFree = () => candidates.find((s) => !used.has(s)) ?? candidates[0];
+
+  if (!targetSlot) return { ok: true, slot: pickFree() };
+
+  const normalized = SLOT_ALIASES[targetSlot] ?? SLOT_ALIASES[targetSlot.toLowerCase()] ?? targetSlot;
+  if (normalized === "accessory" || normalized === itemType) {
+    return { ok: true, slot: pickFree() };
+  }
+  if (!candidates.includes(normalized as EquipmentSlot)) {
+    const allowed = candidates.map((s) => `${s}(${SLOT_NAMES[s]})`).join(" / ");
+    return { ok: false, reason: `槽位「${targetSlot}」不能放入 ${itemType}，可用槽位：${allowed}` };
+  }
+  return { ok: true, slot: normalized as EquipmentSlot };
+}
+
+/**
+ * 按槽位取出已装备物品（忽略指向已不存在物品的槽位记录）
+ */
+export function resolveSlottedItems<T extends { id: string }>(
+  equipment: Array<{ slot: string; itemId: string }>,
+  inventory: T[]
+): Array<T & { slot: EquipmentSlot }> {
+  const byId = new Map(inventory.map((i) => [i.id, i]));
+  const result: Array<T & { slot: EquipmentSlot }> = [];
+  for (const slot of EQUIPMENT_SLOTS) {
+    const entry = equipment.find((e) => e.slot === slot);
+    const item = entry ? byId.get(entry.itemId) : undefined;
+    if (item) result.push({ ...item, slot });
+  }
+  return result;
+}
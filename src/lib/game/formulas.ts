@@ -4,6 +4,8 @@
  * 所有核心数值计算集中于此，便于平衡性调整。
  */
 
+import type { Rng } from "./rng";
+
 // ============================================================
 // 境界系数
 // ============================================================
@@ -52,6 +54,64 @@ export const REALM_LEVEL_REQ: Record<Realm, number> = {
   origin: 91,
 };
 
+// ============================================================
+// 境界突破
+// ============================================================
+
+/** 单次突破的条件（与 04-difficulty-balance-system §6.1 一致） */
+export interface BreakthroughRequirement {
+  /** 所需突破丹名称（背包中 material/consumable 均可） */
+  pillName: string;
+  /** 灵石消耗 */
+  spiritStones: number;
+  /** 当前境界内需累计的战斗胜利次数 */
+  battleWins: number;
+}
+
+/** 突破到目标境界的条件（key 为目标境界） */
+export const BREAKTHROUGH_REQUIREMENTS: Record<Exclude<Realm, "ocean">, BreakthroughRequirement> = {
+  land: { pillName: "陆地突破丹", spiritStones: 500, battleWins: 30 },
+  barren: { pillName: "荒芜突破丹", spiritStones: 2000, battleWins: 60 },
+  planetary: { pillName: "行星突破丹", spiritStones: 8000, battleWins: 100 },
+  stellar: { pillName: "恒星突破丹", spiritStones: 30000, battleWins: 150 },
+  galactic: { pillName: "银河突破丹", spiritStones: 100000, battleWins: 200 },
+  transcend: { pillName: "超越突破丹", spiritStones: 300000, battleWins: 250 },
+  primordial: { pillName: "洪荒突破丹", spiritStones: 1000000, battleWins: 300 },
+  ethereal: { pillName: "空灵突破丹", spiritStones: 3000000, battleWins: 350 },
+  origin: { pillName: "元初突破丹", spiritStones: 10000000, battleWins: 400 },
+};
+
+/**
+ * 下一境界，已是最高境界时返回 null
+ */
+export function getNextRealm(realm: Realm): Exclude<Realm, "ocean"> | null {
+  const idx = REALM_ORDER.indexOf(realm);
+  if (idx < 0 || idx >= REALM_ORDER.length - 1) return null;
+  return REALM_ORDER[idx + 1] as Exclude<Realm, "ocean">;
+}
+
+/**
+ * 突破所需等级：当前境界的等级上限（即下一境界起始等级 - 1）
+ * 例：海洋→陆地需要 Lv.10
+ */
+export function breakthroughLevelReq(targetRealm: Exclude<Realm, "ocean">): number {
+  return REALM_LEVEL_REQ[targetRealm] - 1;
+}
+
+/**
+ * 突破成功率
+ * 基础 60%，超出等级要求每级 +5%，此前每次失败 +10%（保底机制），上限 95%
+ */
+export function calcBreakthroughSuccessRate(
+  level: number,
+  targetRealm: Exclude<Realm, "ocean">,
+  failedAttempts: number = 0
+): number {
+  const overLevel = Math.max(0, level - breakthroughLevelReq(targetRealm));
+  const rate = 0.6 + overLevel * 0.05 + failedAttempts * 0.1;
+  return Math.min(0.95, rate);
+}
+
 // ============================================================
 // 经验公式
 // ============================================================
@@ -103,6 +163,43 @@ export function calcBaseStats(level: number, realm: Realm) {
   };
 }
 
+/** 物品品质对应的属性上限乘数 */
+export const ITEM_QUALITY_MULTIPLIERS: Record<string, number> = {
+  common: 1.0,
+  uncommon: 1.5,
+  rare: 2.5,
+  epic: 4.0,
+  legendary: 7.0,
+};
+
+/**
+ * 单件物品固定属性上限 = 玩家等级 × 境界系数 × 品质乘数
+ * Guardrail 物品校验与掉落词缀共用此上限
+ */
+export function calcItemStatCap(
+  playerLevel: number,
+  quality: string,
+  realm: Realm = "ocean"
+): number {
+  const realmCoeff = REALM_COEFFICIENTS[realm] || 1.0;
+  const qualityMult = ITEM_QUALITY_MULTIPLIERS[quality] || 1.0;
+  return Math.floor(playerLevel * realmCoeff * qualityMult);
+}
+
+/**
+ * 按等级随机生成敌人属性（模板未指定数值时使用）
+ * HP: 50 + 20×Lv + [0, 10×Lv)，攻击: 5 + 3×Lv + [0, 2×Lv)，
+ * 防御: 3 + 2×Lv + [0, Lv)，速度: 5 + 2×Lv + [0, Lv)
+ */
+export function rollEnemyStats(level: number, rng: Rng = Math.random) {
+  return {
+    hp: Math.floor(50 + level * 20 + rng() * level * 10),
+    attack: Math.floor(5 + level * 3 + rng() * level * 2),
+    defense: Math.floor(3 + level * 2 + rng() * level),
+    speed: Math.floor(5 + level * 2 + rng() * level),
+  };
+}
+
 // ============================================================
 // 战斗公式
 // ============================================================
@@ -115,25 +212,28 @@ export function calcBaseStats(level: number, realm: Realm) {
 export function calcDamage(
   attack: number,
   defense: number,
-  skillMultiplier: number = 1.0
+  skillMultiplier: number = 1.0,
+  rng: Rng = Math.random
 ): number {
   const raw = Math.max(1, attack - defense * 0.5) * skillMultiplier;
   // ±10% 随机波动
-  const variance = 0.9 + Math.random() * 0.2;
+  const variance = 0.9 + rng() * 0.2;
   return Math.floor(raw * variance);
 }
 
 /**
  * 暴击判定
- * 基础暴击率: 5% + (速度差/100)
+ * 基础暴击率: 5% + (速度差/100) + 额外暴击率（装备词缀）
  * 暴击倍率: 2x
  */
 export function rollCritical(
   attackerSpeed: number,
-  defenderSpeed: number
+  defenderSpeed: number,
+  bonusRate: number = 0,
+  rng: Rng = Math.random
 ): { isCrit: boolean; multiplier: number } {
-  const baseCritRate = 0.05 + (attackerSpeed - defenderSpeed) / 100;
-  const isCrit = Math.random() < Math.max(0.01, Math.min(0.5, baseCritRate));
+  const baseCritRate = 0.05 + (attackerSpeed - defenderSpeed) / 100 + bonusRate;
+  const isCrit = rng() < Math.max(0.01, Math.min(0.5, baseCritRate));
   return { isCrit, multiplier: isCrit ? 2.0 : 1.0 };
 }
 
@@ -164,12 +264,13 @@ export function getElementMultiplier(
  * 行动顺序（按速度排序，加随机扰动）
  */
 export function calcTurnOrder(
-  participants: Array<{ id: string; speed: number }>
+  participants: Array<{ id: string; speed: number }>,
+  rng: Rng = Math.random
 ): string[] {
   return [...participants]
     .map((p) => ({
       id: p.id,
-      priority: p.speed + Math.random() * 5,
+      priority: p.speed + rng() * 5,
     }))
     .sort((a, b) => b.priority - a.priority)
     .map((p) => p.id);
@@ -201,10 +302,10 @@ export function calcBattleExp(
 /**
  * 金币掉落
  */
-export function calcGoldDrop(enemyLevels: number[]): number {
+export function calcGoldDrop(enemyLevels: number[], rng: Rng = Math.random): number {
   let total = 0;
   for (const lv of enemyLevels) {
-    total += lv * 5 + Math.floor(Math.random() * lv * 3);
+    total += lv * 5 + Math.floor(rng() * lv * 3);
   }
   return total;
 }
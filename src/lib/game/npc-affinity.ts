@@ -0,0 +1,156 @@
+/**
+ * ChaosSaga - NPC 好感度 & 记忆
+ *
+ * 每个玩家与每个 NPC 独立维护一条关系记录（参见 05-npc-interaction-system §3~4）：
+ * 好感度 → 关系等级；对话摘要 / 关键事件 / 收到的礼物作为 NPC 的「记忆」，
+ * 玩家位于该 NPC 所在节点时压缩后注入上下文。
+ */
+
+// ============================================================
+// 好感度等级
+// ============================================================
+
+export interface AffinityLevel {
+  id: string;
+  name: string;
+  /** 等级下限（含） */
+  min: number;
+}
+
+/** 好感度上下限 */
+export const AFFINITY_MIN = -100;
+export const AFFINITY_MAX = 250;
+
+/** 按下限降序排列 */
+const AFFINITY_LEVELS: AffinityLevel[] = [
+  { id: "soulmate", name: "至交", min: 200 },
+  { id: "close", name: "挚友", min: 150 },
+  { id: "trusted", name: "信任", min: 100 },
+  { id: "friendly", name: "友好", min: 50 },
+  { id: "neutral", name: "中立", min: 0 },
+  { id: "cold", name: "冷淡", min: -49 },
+  { id: "hostile", name: "敌视", min: AFFINITY_MIN },
+];
+
+export function getAffinityLevel(affinity: number): AffinityLevel {
+  return AFFINITY_LEVELS.find((l) => affinity >= l.min) ?? AFFINITY_LEVELS[AFFINITY_LEVELS.length - 1];
+}
+
+export function clampAffinity(value: number): number {
+  return Math.max(AFFINITY_MIN, Math.min(AFFINITY_MAX, value));
+}
+
+// ============================================================
+// 好感度来源
+// ============================================================
+
+export interface AffinityRule {
+  amount: number;
+  /** 每日计入次数上限（不填则不限） */
+  dailyCap?: number;
+}
+
+export type AffinityAction =
+  | "dialogue_positive"
+  | "dialogue_negative"
+  | "gift_item"
+  | "gift_favorite"
+  | "complete_quest"
+  | "fail_quest"
+  | "betray_trust"
+  | "daily_visit";
+
+export const AFFINITY_RULES: Record<AffinityAction, AffinityRule> = {
+  /** 愉快的对话 */
+  dialogue_positive: { amount: 3, dailyCap: 5 },
+  /** 冒犯、威胁、无礼 */
+  dialogue_negative: { amount: -5 },
+  /** 赠送普通礼物 */
+  gift_item: { amount: 5, dailyCap: 3 },
+  /** 赠送 NPC 喜爱的物品 */
+  gift_favorite: { amount: 20, dailyCap: 1 },
+  /** 完成该 NPC 的委托 */
+  complete_quest: { amount: 15, dailyCap: 3 },
+  /** 委托失败 */
+  fail_quest: { amount: -10 },
+  /** 背叛信任 */
+  betray_trust: { amount: -50 },
+  /** 每日首次拜访 */
+  daily_visit: { amount: 1, dailyCap: 1 },
+};
+
+export const AFFINITY_ACTIONS = Object.keys(AFFINITY_RULES) as AffinityAction[];
+
+/**
+ * GM 可通过 update_npc_memory 直接施加的行为
+ *
+ * 委托完成 / 失败由任务结算代码施加（需核对 PlayerQuest 状态），每日拜访由 interact_npc talk 施加，
+ * 背叛不开放给 GM，避免凭叙事无校验地大幅改动好感度。
+ */
+export const GM_AFFINITY_ACTIONS: AffinityAction[] = [
+  "dialogue_positive",
+  "dialogue_negative",
+  "gift_item",
+  "gift_favorite",
+];
+
+// ============================================================
+// 记忆
+// ============================================================
+
+/** 各类记忆的保留条数（超出时丢弃最早的） */
+export const MEMORY_LIMITS = {
+  dialogueSummaries: 10,
+  keyEvents: 10,
+  giftsReceived: 20,
+} as const;
+
+export interface DialogueMemory {
+  summary: string;
+  scene?: string;
+  at: string;
+}
+
+export interface KeyEventMemory {
+  event: string;
+  at: string;
+}
+
+export interface GiftMemory {
+  itemName: string;
+  favorite: boolean;
+  at: string;
+}
+
+/** 追加一条记忆并按上限截断 */
+export function appendMemory<T>(list: T[], entry: T, limit: number): T[] {
+  return [...list, entry].slice(-limit);
+}
+
+/**
+ * 压缩 NPC 记忆为上下文文本（控制在几行以内）
+ */
+export function formatNpcMemory(relation: {
+  npcName: string;
+  affinity: number;
+  interactionCount: number;
+  dialogueSummaries: DialogueMemory[];
+  keyEvents: KeyEventMemory[];
+  giftsReceived: GiftMemory[];
+}): string {
+  const level = getAffinityLevel(relation.affinity);
+  const lines = [
+    `${relation.npcName}：好感 ${relation.affinity}（${level.name}），交流 ${relation.interactionCount} 次`,
+  ];
+
+  const events = relation.keyEvents.slice(-3).map((e) => e.event);
+  if (events.length > 0) lines.push(`  关键事件: ${events.join("；")}`);
+
+  const dialogues = relation.dialogueSummaries.slice(-3).map((d) => d.summary);
+  if (dialogues.length > 0) lines.push(`  近期对话: ${dialogues.join("；")}`);
+
+  const gifts = relation.giftsReceived.slice(-5).map((g) => (g.favorite ? `${g.itemName}(喜爱)` : g.itemName));
+  if (gifts.length > 0) lines.push(`  收到礼物: ${gifts.join("、")}`);
+
+  return lines.join("\n");
+}
@@ -0,0 +1,255 @@
+/**
+ * ChaosSaga - NPC 注册表
+ *
+ * NPC 持久化在独立的 Npc 表中（所属区域 + 常驻节点 + 日程 + 货物），不再嵌入 AreaNode.data：
+ * - 写入：AI 生成的节点数据仍按 { npcs, shopItems } 格式提供，
+ *         由 stripNpcFields + syncNodeNpcs 拆分为节点数据与 Npc 记录
+ * - 读取：getNpcsAtNode 按日程解析 NPC 当前所在节点；
+ *         attachNpcsToNodeData 为按节点数据格式消费的调用方（完整性检查、地图）回填 npcs / shopItems
+ */
+
+import { prisma } from "@/lib/db/prisma";
+import type { Npc, Prisma } from "@/generated/prisma/client";
+
+// ============================================================
+// 类型定义
+// ============================================================
+
+/** 日程条目：[from, to) 小时内位于 nodeId（from > to 表示跨午夜） */
+export interface NpcScheduleEntry {
+  from: number;
+  to: number;
+  nodeId: string;
+}
+
+/** NPC 货物（商店商品） */
+export interface NpcShopItem {
+  name: string;
+  type: string;
+  quality?: string;
+  price: number;
+  stats?: Record<string, unknown>;
+  description?: string;
+  setId?: string;
+  /** 当前库存 / 库存上限（见 shop-economy.ts，缺省视为满库存） */
+  stock?: number;
+  maxStock?: number;
+}
+
+/** 工具层使用的 NPC 数据（扩展字段来自 Npc.data，如 favoriteItems） */
+export interface NpcData {
+  id: string;
+  name: string;
+  role: string;
+  personality?: string | null;
+  greeting?: string | null;
+  dialogTopics: string[];
+  factionId?: string | null;
+  questId?: string | null;
+  inventory: NpcShopItem[];
+  homeNodeId: string;
+  [key: string]: unknown;
+}
+
+/** 节点数据中 AI 提供的 NPC 结构 */
+interface RawNpc {
+  id?: string;
+  name?: string;
+  role?: string;
+  personality?: string;
+  greeting?: string;
+  dialogTopics?: string[];
+  factionId?: string;
+  questId?: string;
+  schedule?: NpcScheduleEntry[];
+  inventory?: NpcShopItem[];
+  [key: string]: unknown;
+}
+
+/** 从节点数据中抽离、改存 Npc 表的字段 */
+const NPC_NODE_FIELDS = ["npcs", "npc", "shopItems"] as const;
+
+/** 持有商店货物的角色 */
+const SHOPKEEPER_ROLES = ["shopkeeper", "merchant"];
+
+// ============================================================
+// 日程 & 数据转换
+// ============================================================
+
+/**
+ * NPC 当前所在节点：命中日程时段取日程节点，否则在常驻节点
+ */
+export function getScheduledNodeId(
+  npc: { homeNodeId: string; schedule: unknown },
+  now: Date = new Date()
+): string {
+  const hour = now.getHours();
+  const schedule = (Array.isArray(npc.schedule) ? npc.schedule : []) as NpcScheduleEntry[];
+  const entry = schedule.find((s) =>
+    s.from <= s.to ? hour >= s.from && hour < s.to : hour >= s.from || hour < s.to
+  );
+  return entry?.nodeId ?? npc.homeNodeId;
+}
+
+export function toNpcData(npc: Npc): NpcData {
+  return {
+    ...((npc.data as Record<string, unknown> | null) ?? {}),
+    id: npc.id,
+    name: npc.name,
+    role: npc.role,
+    personality: npc.personality,
+    greeting: npc.greeting,
+    dialogTopics: (npc.dialogTopics as string[] | null) ?? [],
+    factionId: npc.factionId,
+    questId: npc.questId,
+    inventory: (npc.inventory as unknown as NpcShopItem[] | null) ?? [],
+    homeNodeId: npc.homeNodeId,
+  };
+}
+
+/**
+ * 将 NPC 回填为节点数据格式（{ npcs, shopItems }）
+ */
+export function attachNpcsToNodeData(
+  nodeData: Record<string, unknown> | null,
+  npcs: Npc[]
+): Record<string, unknown> | null {
+  if (npcs.length === 0) return nodeData;
+  const list = npcs.map(toNpcData);
+  const shopItems = list.flatMap((n) => n.inventory);
+  for (const n of list) {
+    delete (n as Partial<NpcData>).inventory;
+    delete (n as Partial<NpcData>).homeNodeId;
+  }
+  return {
+    ...(nodeData ?? {}),
+    npcs: list,
+    ...(shopItems.length > 0 ? { shopItems } : {}),
+  };
+}
+
+/** 去掉节点数据中的 NPC 字段（写入 AreaNode.data 前调用） */
+export function stripNpcFields(nodeData: Record<string, unknown>): Record<string, unknown> {
+  const rest = { ...nodeData };
+  for (const key of NPC_NODE_FIELDS) delete rest[key];
+  return rest;
+}
+
+// ============================================================
+// 查询
+// ============================================================
+
+export async function getNpcsInArea(areaId: string): Promise<Npc[]> {
+  return prisma.npc.findMany({ where: { areaId }, orderBy: { createdAt: "asc" } });
+}
+
+/** 当前时刻位于指定节点的 NPC（含按日程到访的） */
+export async function getNpcsAtNode(areaId: string, nodeId: string, now: Date = new Date()): Promise<Npc[]> {
+  const npcs = await getNpcsInArea(areaId);
+  return npcs.filter((n) => getScheduledNodeId(n, now) === nodeId);
+}
+
+// ============================================================
+// 写入
+// ============================================================
+
+/**
+ * 将节点数据中的 npcs / npc / shopItems 写入 Npc 表
+ *
+ * - 带 id 且属于本节点的 NPC 原地更新；否则按（节点, 名字）匹配本节点已有 NPC 更新，都没有才新建
+ *   （id 已被其他节点占用时分配新 id）
+ * - 写入后的 id 回写到 nodeData 中对应的 NPC 对象上
+ * - shopItems 归入本节点的掌柜（shopkeeper / merchant），没有则归第一个 NPC；
+ *   本节点一个 NPC 都没有时创建占位掌柜，避免货物丢失
+ * - 未出现在数据中的已有 NPC 保留（可能已与玩家建立关系）
+ * - 未提供 shopItems / inventory 时保留已有 NPC 的库存
+ *
+ * @param nodeIdMap - 日程中逻辑节点 ID → 真实节点 ID（generate_area / 扩展区域时使用）
+ */
+export async function syncNodeNpcs(
+  db: Prisma.TransactionClient,
+  areaId: string,
+  nodeId: string,
+  nodeData: Record<string, unknown>,
+  nodeIdMap: Record<string, string> = {}
+): Promise<Npc[]> {
+  const rawList: RawNpc[] = [
+    ...(Array.isArray(nodeData.npcs) ? (nodeData.npcs as RawNpc[]) : []),
+    ...(nodeData.npc && typeof nodeData.npc === "object" ? [nodeData.npc as RawNpc] : []),
+  ].filter((n) => n && typeof n === "object");
+  const shopItems = Array.isArray(nodeData.shopItems) ? (nodeData.shopItems as NpcShopItem[]) : undefined;
+  if (rawList.length === 0 && !shopItems) return [];
+
+  const shopOwnerIndex = Math.max(0, rawList.findIndex((n) => SHOPKEEPER_ROLES.includes(n.role ?? "")));
+
+  const saved: Npc[] = [];
+  for (let i = 0; i < rawList.length; i++) {
+    const {
+      id, name, role, personality, greeting, dialogTopics, factionId, questId, schedule, inventory,
+      ...extra
+    } = rawList[i];
+
+    const ownsShop = shopItems && i === shopOwnerIndex;
+    const stock = ownsShop ? shopItems : inventory;
+    const fields = {
+      name: name || "NPC",
+      role: role || "villager",
+      personality,
+      greeting,
+      dialogTopics: dialogTopics ?? [],
+      factionId,
+      questId,
+      schedule: (schedule ?? []).map((s) => ({ ...s, nodeId: nodeIdMap[s.nodeId] ?? s.nodeId })) as unknown as Prisma.InputJsonValue,
+      ...(stock ? { inventory: stock as unknown as Prisma.InputJsonValue } : {}),
+      data: extra as Prisma.InputJsonValue,
+    };
+
+    const current = id ? await db.npc.findUnique({ where: { id } }) : null;
+    const existing = current && current.homeNodeId === nodeId
+      ? current
+      : await db.npc.findFirst({
+          where: { homeNodeId: nodeId, name: fields.name, id: { notIn: saved.map((n) => n.id) } },
+          orderBy: { createdAt: "asc" },
+        });
+    const npc = existing
+      ? await db.npc.update({ where: { id: existing.id }, data: fields })
+      : await db.npc.create({
+          data: { ...(id && !current ? { id } : {}), areaId, homeNodeId: nodeId, ...fields },
+        });
+    rawList[i].id = npc.id;
+    saved.push(npc);
+  }
+
+  // 只提供了 shopItems：写入本节点已有的掌柜
+  if (rawList.length === 0 && shopItems) {
+    const existing = await db.npc.findMany({ where: { homeNodeId: nodeId }, orderBy: { createdAt: "asc" } });
+    const owner = existing.find((n) => SHOPKEEPER_ROLES.includes(n.role)) ?? existing[0];
+    if (owner) {
+      saved.push(
+        await db.npc.update({
+          where: { id: owner.id },
+          data: { inventory: shopItems as unknown as Prisma.InputJsonValue },
+        })
+      );
+    } else {
+      const node = await db.areaNode.findUnique({ where: { id: nodeId }, select: { name: true } });
+      saved.push(
+        await db.npc.create({
+          data: {
+            areaId,
+            homeNodeId: nodeId,
+            name: `${node?.name ?? ""}掌柜`,
+            role: "shopkeeper",
+            greeting: "欢迎光临，看看有什么需要的。",
+            dialogTopics: [],
+            schedule: [],
+            inventory: shopItems as unknown as Prisma.InputJsonValue,
+            data: {},
+          },
+        })
+      );
+    }
+  }
+
+  return saved;
+}
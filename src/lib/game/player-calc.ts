@@ -2,14 +2,27 @@
  * ChaosSaga - 玩家属性计算
  *
  * 计算玩家最终属性 = 基础属性(等级×境界) + 装备加成 + Buff
+ * 另汇总装备随机词缀（暴击/元素增伤/吸血/回春）与套装加成，供战斗引擎使用
  */
 
 import { calcBaseStats, type Realm } from "./formulas";
+import { applyEnhanceToStats } from "./equipment-enhance";
+import { sumAffixStats, AFFIX_STAT_KEYS, type AffixStats } from "./affixes";
+import { evaluateSetBonuses, type ActiveSetBonus } from "./equipment-sets";
 
 // ============================================================
 // 类型定义
 // ============================================================
 
+/** 参与属性计算的已装备物品 */
+export interface EquippedItemInput {
+  stats: Record<string, unknown> | null;
+  /** 强化等级（+0 ~ +15），放大固定属性 */
+  enhanceLevel?: number;
+  /** 所属套装 */
+  setId?: string | null;
+}
+
 /** 五维属性 */
 export interface Stats {
   maxHp: number;
@@ -48,6 +61,10 @@ export interface BuffEntry {
 
 /** 最终属性计算结果 */
 export interface FinalStats extends Stats {
+  /** 装备词缀汇总（含套装加成） */
+  affixes: AffixStats;
+  /** 已激活的套装 */
+  activeSets: ActiveSetBonus[];
   /** 各项来源明细 */
   breakdown: {
     base: Stats;
@@ -61,10 +78,10 @@ export interface FinalStats extends Stats {
 // ============================================================
 
 /**
- * 汇总所有已装备物品的属性加成
+ * 汇总所有已装备物品的属性加成（含强化放大）
  */
 export function sumEquipmentStats(
-  equippedItems: Array<{ stats: Record<string, unknown> | null }>
+  equippedItems: EquippedItemInput[]
 ): { flat: Partial<Stats>; percent: Partial<Record<keyof Stats, number>> } {
   const flat: Partial<Stats> = {};
   const percent: Partial<Record<keyof Stats, number>> = {};
@@ -78,7 +95,10 @@ export function sumEquipmentStats(
   ];
 
   for (const item of equippedItems) {
-    const s = (item.stats ?? {}) as EquipmentStats;
+    const s = applyEnhanceToStats(
+      (item.stats ?? {}) as Record<string, number>,
+      item.enhanceLevel ?? 0
+    ) as EquipmentStats;
 
     for (const key of statKeys) {
       if (typeof s[key] === "number") {
@@ -137,17 +157,21 @@ export function sumBuffStats(
 /**
  * 计算玩家最终属性
  *
- * 公式：(基础属性 + 装备固定值 + Buff固定值) × (1 + 装备百分比 + Buff百分比)
+ * 公式：(基础属性 + 装备固定值 + 套装固定值 + Buff固定值) × (1 + 装备百分比 + 套装百分比 + Buff百分比)
  * 所有值向下取整，最低为 1
+ *
+ * @param equippedItems 已装备物品，应来自 Equipment 槽位（见 equipment-slots.resolveSlottedItems），
+ *                      而非 InventoryItem.equipped 标记
  */
 export function calcFinalStats(
   level: number,
   realm: Realm,
-  equippedItems: Array<{ stats: Record<string, unknown> | null }>,
+  equippedItems: EquippedItemInput[],
   buffs: BuffEntry[] = []
 ): FinalStats {
   const base = calcBaseStats(level, realm);
   const equip = sumEquipmentStats(equippedItems);
+  const sets = evaluateSetBonuses(equippedItems);
   const buff = sumBuffStats(buffs);
 
   const statKeys: (keyof Stats)[] = [
@@ -164,9 +188,9 @@ export function calcFinalStats(
 
   for (const key of statKeys) {
     const baseVal = base[key];
-    const equipFlatVal = equip.flat[key] ?? 0;
+    const equipFlatVal = (equip.flat[key] ?? 0) + (sets.flat[key] ?? 0);
     const buffFlatVal = buff.flat[key] ?? 0;
-    const equipPct = equip.percent[key] ?? 0;
+    const equipPct = (equip.percent[key] ?? 0) + (sets.percent[key] ?? 0);
     const buffPct = buff.percent[key] ?? 0;
 
     const raw = (baseVal + equipFlatVal + buffFlatVal) * (1 + equipPct + buffPct);
@@ -176,8 +200,19 @@ export function calcFinalStats(
     buffFlat[key] = buffFlatVal;
   }
 
+  const affixes = sumAffixStats(
+    equippedItems.map((i) =>
+      applyEnhanceToStats((i.stats ?? {}) as Record<string, number>, i.enhanceLevel ?? 0)
+    )
+  );
+  for (const key of AFFIX_STAT_KEYS) {
+    affixes[key] += sets.affixes[key] ?? 0;
+  }
+
   return {
     ...result,
+    affixes,
+    activeSets: sets.active,
     breakdown: {
       base,
       equipment: equipFlat,
@@ -0,0 +1,102 @@
+/**
+ * ChaosSaga - 声望规则
+ *
+ * 8 级声望体系（与 08-reputation-faction-system §2 一致）：
+ * 声望值 → 等级 → 商店价格倍率 / 任务可接取性。
+ * 互斥势力（Faction.rivalId）之间存在声望溢出：提升一方会按比例降低另一方。
+ */
+
+// ============================================================
+// 声望等级
+// ============================================================
+
+export interface ReputationTier {
+  id: string;
+  name: string;
+  /** 等级下限（含） */
+  min: number;
+  /** 商店购买价格倍率，null 表示拒绝交易 */
+  priceMultiplier: number | null;
+  /** 是否可接取该势力的任务 */
+  canQuest: boolean;
+}
+
+/** 声望上下限 */
+export const REPUTATION_MIN = -1000;
+export const REPUTATION_MAX = 21000;
+
+/** 按下限降序排列 */
+const REPUTATION_TIERS: ReputationTier[] = [
+  { id: "exalted", name: "崇拜", min: 10000, priceMultiplier: 0.8, canQuest: true },
+  { id: "revered", name: "崇敬", min: 5000, priceMultiplier: 0.85, canQuest: true },
+  { id: "honored", name: "尊敬", min: 2000, priceMultiplier: 0.9, canQuest: true },
+  { id: "friendly", name: "友善", min: 500, priceMultiplier: 0.95, canQuest: true },
+  { id: "neutral", name: "中立", min: 0, priceMultiplier: 1.0, canQuest: true },
+  { id: "unfriendly", name: "冷漠", min: -199, priceMultiplier: 1.2, canQuest: true },
+  { id: "hostile", name: "敌对", min: -499, priceMultiplier: 1.5, canQuest: false },
+  { id: "hated", name: "仇恨", min: REPUTATION_MIN, priceMultiplier: null, canQuest: false },
+];
+
+export function getReputationTier(value: number): ReputationTier {
+  return REPUTATION_TIERS.find((t) => value >= t.min) ?? REPUTATION_TIERS[REPUTATION_TIERS.length - 1];
+}
+
+/**
+ * 出售价格倍率：与购买倍率对称（购买贵 50% → 出售只给 50%）
+ * 拒绝交易时返回 null
+ */
+export function getSellMultiplier(value: number): number | null {
+  const buy = getReputationTier(value).priceMultiplier;
+  return buy === null ? null : Math.max(0.5, 2 - buy);
+}
+
+/**
+ * 任务可接取性
+ *
+ * @param minReputation - 任务要求的最低声望（Quest.minReputation）
+ */
+export function checkQuestAvailability(
+  value: number,
+  minReputation?: number | null
+): { ok: true } | { ok: false; reason: string } {
+  const tier = getReputationTier(value);
+  if (!tier.canQuest) {
+    return { ok: false, reason: `声望等级「${tier.name}」，对方拒绝委托任何任务` };
+  }
+  if (typeof minReputation === "number" && value < minReputation) {
+    const required = getReputationTier(minReputation);
+    return {
+      ok: false,
+      reason: `该任务需要声望达到「${required.name}」(${minReputation})，当前为「${tier.name}」(${value})`,
+    };
+  }
+  return { ok: true };
+}
+
+// ============================================================
+// 声望来源
+// ============================================================
+
+export interface ReputationSource {
+  amount: number;
+  /** 每日计入次数上限（不填则不限） */
+  dailyCap?: number;
+}
+
+export type ReputationSourceKey = "quest_complete" | "diplomacy" | "kill";
+
+export const REPUTATION_SOURCES: Record<ReputationSourceKey, ReputationSource> = {
+  /** 完成势力任务 */
+  quest_complete: { amount: 75 },
+  /** 以外交方式化解与该势力成员的战斗 */
+  diplomacy: { amount: 50, dailyCap: 3 },
+  /** 击杀该势力成员（每只） */
+  kill: { amount: -10, dailyCap: 20 },
+};
+
+/** 互斥势力声望溢出比率 */
+export const RIVAL_SPILLOVER_RATIO = -0.5;
+
+export function clampReputation(value: number): number {
+  return Math.max(REPUTATION_MIN, Math.min(REPUTATION_MAX, value));
+}
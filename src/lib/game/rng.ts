@@ -0,0 +1,35 @@
+/**
+ * ChaosSaga - 随机数源
+ *
+ * 战斗、掉落、敌人 AI、装备强化、境界突破等所有随机判定都接受一个可选的 Rng 参数（缺省 Math.random），
+ * 测试与平衡模拟传入 createSeededRng(seed) 即可得到可复现的结果。
+ */
+
+/** 随机数源：返回 [0, 1) 的浮点数，与 Math.random 同签名 */
+export type Rng = () => number;
+
+/** 字符串种子转 32 位整数（FNV-1a） */
+function hashSeed(seed: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * 可复现的伪随机数源（mulberry32）
+ *
+ * 同一种子产生相同序列；不适用于任何安全场景。
+ */
+export function createSeededRng(seed: number | string): Rng {
+  let state = typeof seed === "string" ? hashSeed(seed) : seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * ChaosSaga - 商店经济
+ *
+ * NPC 商店的库存与定价规则：
+ * - 库存：每件商品有 stock / maxStock，售罄不可购买，按固定间隔补货
+ * - 买卖差价：收购价为商品价值的 SELL_PRICE_RATIO
+ * - 供给漂移：玩家向同一 NPC 集中抛售某物品会压低其收购价（每次补货时回落）
+ * - 稀缺加价：库存越少售价越高
+ * 声望倍率由调用方传入（见 reputation.ts）。
+ */
+
+import type { NpcShopItem } from "./npc-registry";
+
+// ============================================================
+// 配置
+// ============================================================
+
+/** 补货间隔（1 小时） */
+export const RESTOCK_INTERVAL_MS = 60 * 60 * 1000;
+
+/** 收购价 / 商品价值（买卖差价） */
+export const SELL_PRICE_RATIO = 0.4;
+
+/** 每抛售 1 件，该物品收购价下降的比例 */
+export const SUPPLY_PRICE_DROP = 0.1;
+
+/** 收购价最低降至原价的比例 */
+export const MIN_SUPPLY_FACTOR = 0.3;
+
+/** 每个补货周期，供给计数回落的件数 */
+export const SUPPLY_RECOVERY_PER_RESTOCK = 2;
+
+/** 库存为 0 时相对满库存的最大加价比例 */
+export const SCARCITY_MARKUP = 0.25;
+
+/** 商店不经营的物品按品质估价 */
+const QUALITY_BASE_VALUE: Record<string, number> = {
+  common: 30,
+  uncommon: 80,
+  rare: 150,
+  epic: 300,
+  legendary: 600,
+};
+
+/** 带库存的商品 */
+export interface ShopStockItem extends NpcShopItem {
+  stock: number;
+  maxStock: number;
+}
+
+/** 玩家抛售计数（物品名 → 件数） */
+export type ShopSupply = Record<string, number>;
+
+// ============================================================
+// 库存 & 补货
+// ============================================================
+
+/**
+ * 默认库存上限：消耗品 / 材料 10，装备按品质 3 / 2 / 1
+ */
+export function getDefaultMaxStock(item: { type: string; quality?: string }): number {
+  if (item.type === "consumable" || item.type === "material") return 10;
+  if (!item.quality || item.quality === "common") return 3;
+  if (item.quality === "uncommon") return 2;
+  return 1;
+}
+
+/** 补全缺失的库存字段（旧数据 / AI 生成的商品没有库存时视为满库存） */
+export function normalizeStock(items: NpcShopItem[]): ShopStockItem[] {
+  return items.map((item) => {
+    const maxStock = item.maxStock ?? getDefaultMaxStock(item);
+    return { ...item, maxStock, stock: Math.min(item.stock ?? maxStock, maxStock) };
+  });
+}
+
+/**
+ * 按经过的补货周期补货，并回落供给计数
+ *
+ * 每个周期每件商品补充 maxStock 的一半（向上取整）。
+ */
+export function applyRestock(
+  items: ShopStockItem[],
+  supply: ShopSupply,
+  lastRestockAt: Date,
+  now: Date = new Date()
+): { items: ShopStockItem[]; supply: ShopSupply; lastRestockAt: Date; restocked: boolean } {
+  const cycles = Math.floor((now.getTime() - lastRestockAt.getTime()) / RESTOCK_INTERVAL_MS);
+  if (cycles <= 0) return { items, supply, lastRestockAt, restocked: false };
+
+  const restockedItems = items.map((item) => ({
+    ...item,
+    stock: Math.min(item.maxStock, item.stock + Math.ceil(item.maxStock / 2) * cycles),
+  }));
+
+  const recovered: ShopSupply = {};
+  for (const [name, count] of Object.entries(supply)) {
+    const left = count - SUPPLY_RECOVERY_PER_RESTOCK * cycles;
+    if (left > 0) recovered[name] = left;
+  }
+
+  return {
+    items: restockedItems,
+    supply: recovered,
+    lastRestockAt: new Date(lastRestockAt.getTime() + cycles * RESTOCK_INTERVAL_MS),
+    restocked: true,
+  };
+}
+
+export function getNextRestockAt(lastRestockAt: Date): Date {
+  return new Date(lastRestockAt.getTime() + RESTOCK_INTERVAL_MS);
+}
+
+// ============================================================
+// 定价
+// ============================================================
+
+/**
+ * 售价：基础价 × 稀缺加价 × 声望倍率
+ */
+export function calcBuyPrice(item: ShopStockItem, reputationMultiplier: number = 1): number {
+  const scarcity = item.maxStock > 0 ? 1 + SCARCITY_MARKUP * (1 - item.stock / item.maxStock) : 1;
+  return Math.max(1, Math.ceil(item.price * scarcity * reputationMultiplier));
+}
+
+/**
+ * 物品价值：商店经营的物品取其基础价，否则按品质估价
+ */
+export function getItemBaseValue(
+  item: { name: string; quality?: string | null },
+  shopItems: NpcShopItem[]
+): number {
+  const carried = shopItems.find((i) => i.name === item.name);
+  if (carried) return carried.price;
+  return QUALITY_BASE_VALUE[item.quality ?? "common"] ?? QUALITY_BASE_VALUE.common;
+}
+
+/**
+ * 收购价：物品价值 × 买卖差价 × 供给衰减 × 声望倍率
+ *
+ * @param supplyCount - 玩家近期已向该 NPC 抛售的同名物品件数
+ */
+export function calcSellPrice(
+  baseValue: number,
+  supplyCount: number,
+  reputationMultiplier: number = 1
+): number {
+  const supplyFactor = Math.max(MIN_SUPPLY_FACTOR, 1 - SUPPLY_PRICE_DROP * supplyCount);
+  return Math.max(1, Math.floor(baseValue * SELL_PRICE_RATIO * supplyFactor * reputationMultiplier));
+}